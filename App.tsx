@@ -7,6 +7,7 @@ import PdfMergeTool from './components/tools/PdfMergeTool';
 import PdfToImageTool from './components/tools/PdfToImageTool';
 import PdfCompressTool from './components/tools/PdfCompressTool';
 import PdfSplitTool from './components/tools/PdfSplitTool';
+import PageOrganizerTool from './components/tools/PageOrganizerTool';
 import PdfResizeTool from './components/tools/PdfResizeTool'; 
 import WordToPdfTool from './components/tools/WordToPdfTool';
 import PdfToWordTool from './components/tools/PdfToWordTool';
@@ -28,6 +29,17 @@ import BatchProcessingTool from './components/tools/BatchProcessingTool';
 import HtmlToPdfTool from './components/tools/HtmlToPdfTool'; 
 import RepairPdfTool from './components/tools/RepairPdfTool';
 import UnlockPdfTool from './components/tools/UnlockPdfTool'; 
+import ProtectPdfTool from './components/tools/ProtectPdfTool';
+import VerifyPdfTool from './components/tools/VerifyPdfTool';
+import CommentSummaryTool from './components/tools/CommentSummaryTool';
+import BookmarkEditorTool from './components/tools/BookmarkEditorTool';
+import MetadataEditorTool from './components/tools/MetadataEditorTool';
+import PageNumbersTool from './components/tools/PageNumbersTool';
+import PdfaTool from './components/tools/PdfaTool';
+import CompareTool from './components/tools/CompareTool';
+import ChatPdfTool from './components/tools/ChatPdfTool';
+import InvoiceExtractorTool from './components/tools/InvoiceExtractorTool';
+import TemplateExtractorTool from './components/tools/TemplateExtractorTool';
 import QrCodeGeneratorTool from './components/tools/QrCodeGeneratorTool'; 
 import AboutUs from './components/AboutUs';
 import PrivacyPolicy from './components/PrivacyPolicy';
@@ -147,6 +159,14 @@ const App: React.FC = () => {
             onRemoveFile={handleRemoveFile}
           />
         );
+      case ToolType.PDF_ORGANIZE:
+        return (
+          <PageOrganizerTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
       case ToolType.PDF_RESIZE:
         return (
           <PdfResizeTool
@@ -188,6 +208,95 @@ const App: React.FC = () => {
             onRemoveFile={handleRemoveFile}
           />
         );
+      case ToolType.PROTECT_PDF:
+        return (
+          <ProtectPdfTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.VERIFY_PDF:
+        return (
+          <VerifyPdfTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.COMMENT_SUMMARY:
+        return (
+          <CommentSummaryTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.BOOKMARK_EDITOR:
+        return (
+          <BookmarkEditorTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.EDIT_METADATA:
+        return (
+          <MetadataEditorTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.PAGE_NUMBERS:
+        return (
+          <PageNumbersTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.PDF_TO_PDFA:
+        return (
+          <PdfaTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.COMPARE_PDF:
+        return (
+          <CompareTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+            onReorderFiles={handleReorderFiles}
+          />
+        );
+      case ToolType.CHAT_PDF:
+        return (
+          <ChatPdfTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.INVOICE_EXTRACTOR:
+        return (
+          <InvoiceExtractorTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
+      case ToolType.TEMPLATE_EXTRACTOR:
+        return (
+          <TemplateExtractorTool
+            onUpload={handleFilesSelected}
+            uploadedFiles={uploadedFiles}
+            onRemoveFile={handleRemoveFile}
+          />
+        );
       case ToolType.BATCH_PROCESSING:
         return (
           <BatchProcessingTool
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import { AiProviderKind, AiSettings, AI_PROVIDER_DEFAULTS, loadAiSettings, saveAiSettings } from '../services/aiProvider';
+import { createAiProvider } from '../services/aiService';
+
+interface AiSettingsPanelProps {
+  onClose: () => void;
+}
+
+const PROVIDERS: { kind: AiProviderKind; label: string; description: string }[] = [
+  { kind: 'gemini', label: 'Google Gemini', description: 'Cloud model. Needs an API key; reads PDFs directly and supports generative photo edits.' },
+  { kind: 'openai', label: 'OpenAI-compatible', description: 'Ollama, llama.cpp, LM Studio or any server with a /chat/completions endpoint. Runs offline with a local server.' },
+];
+
+const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const update = (changes: Partial<AiSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setTestResult(null);
+  };
+
+  const handleProviderChange = (kind: AiProviderKind) => {
+    if (kind === settings.provider) return;
+    setSettings(AI_PROVIDER_DEFAULTS[kind]);
+    setTestResult(null);
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      const reply = await createAiProvider(settings).generateText({ prompt: 'Reply with the single word OK.' });
+      setTestResult({ ok: true, message: `Connected. The model replied: "${reply.slice(0, 80)}"` });
+    } catch (e) {
+      setTestResult({ ok: false, message: (e as Error).message });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    saveAiSettings({ ...settings, endpoint: settings.endpoint.trim(), model: settings.model.trim(), imageModel: settings.imageModel.trim() });
+    onClose();
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500';
+
+  return (
+    <div className="fixed inset-0 z-[100] overflow-y-auto" role="dialog" aria-modal="true">
+      <div className="fixed inset-0 bg-gray-900/50 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+      <div className="flex min-h-full items-start justify-center p-4 pt-20">
+        <div className="relative w-full max-w-lg transform overflow-hidden rounded-2xl bg-white text-left shadow-2xl border border-gray-200 animate-scale-in">
+          <div className="flex items-center justify-between border-b border-gray-100 p-4">
+            <h3 className="text-lg font-bold text-gray-800">AI Settings</h3>
+            <button onClick={onClose} className="rounded-full p-1 hover:bg-gray-100 text-gray-400">
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+
+          <div className="p-5 space-y-5">
+            <div className="space-y-2">
+              <label className="block text-xs font-bold text-gray-600 uppercase">Provider</label>
+              {PROVIDERS.map(p => (
+                <label key={p.kind} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${settings.provider === p.kind ? 'border-teal-500 bg-teal-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+                  <input type="radio" name="ai-provider" checked={settings.provider === p.kind} onChange={() => handleProviderChange(p.kind)} className="mt-1" />
+                  <span>
+                    <span className="block text-sm font-semibold text-gray-800">{p.label}</span>
+                    <span className="block text-xs text-gray-500">{p.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {settings.provider === 'openai' && (
+              <div>
+                <label className="block text-xs font-bold text-gray-600 uppercase mb-1">Endpoint</label>
+                <input value={settings.endpoint} onChange={e => update({ endpoint: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+                <p className="text-xs text-gray-400 mt-1">Ollama: http://localhost:11434/v1 · llama.cpp: http://localhost:8080/v1. The server must allow requests from this page (CORS).</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs font-bold text-gray-600 uppercase mb-1">Model</label>
+              <input value={settings.model} onChange={e => update({ model: e.target.value })} className={inputClass} />
+              {settings.provider === 'openai' && <p className="text-xs text-gray-400 mt-1">Table, slide and page-label extraction need a vision model such as llava or llama3.2-vision.</p>}
+            </div>
+
+            {settings.provider === 'gemini' && (
+              <div>
+                <label className="block text-xs font-bold text-gray-600 uppercase mb-1">Image editing model</label>
+                <input value={settings.imageModel} onChange={e => update({ imageModel: e.target.value })} className={inputClass} />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs font-bold text-gray-600 uppercase mb-1">API key {settings.provider === 'openai' && <span className="font-normal normal-case text-gray-400">(optional)</span>}</label>
+              <input type="password" value={settings.apiKey} onChange={e => update({ apiKey: e.target.value })} placeholder={settings.provider === 'gemini' ? 'Leave empty to use the API_KEY environment variable' : ''} className={inputClass} autoComplete="off" />
+              <p className="text-xs text-gray-400 mt-1">Settings are stored in this browser only.</p>
+            </div>
+
+            {testResult && (
+              <div className={`p-3 rounded-lg text-sm border ${testResult.ok ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                {testResult.message}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-2 border-t border-gray-100 p-4 bg-gray-50">
+            <Button variant="outline" size="sm" onClick={handleTest} loading={testing} disabled={testing || !settings.model.trim()}>Test connection</Button>
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" onClick={onClose}>Cancel</Button>
+              <Button size="sm" onClick={handleSave} disabled={!settings.model.trim()}>Save</Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
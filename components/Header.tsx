@@ -4,6 +4,7 @@ import { ToolType } from '../types';
 import { TOOLS } from '../constants';
 import { createRoot } from 'react-dom/client';
 import UserGuideTemplate from './UserGuideTemplate';
+import AiSettingsPanel from './AiSettingsPanel';
 import { htmlToPdfService } from '../services/htmlToPdfService';
 
 interface HeaderProps {
@@ -15,6 +16,7 @@ const Header: React.FC<HeaderProps> = ({ onToolSelect, activeTool }) => {
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isGeneratingGuide, setIsGeneratingGuide] = useState(false);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   // Focus input when search opens
@@ -215,6 +217,15 @@ const Header: React.FC<HeaderProps> = ({ onToolSelect, activeTool }) => {
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"/></svg>
                     <span className="hidden md:inline">Search</span>
                 </button>
+
+                <button 
+                    onClick={() => setIsAiSettingsOpen(true)} 
+                    className="flex items-center gap-2 px-3 py-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-all text-sm font-medium"
+                    title="AI Settings"
+                >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"/><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/></svg>
+                    <span className="hidden md:inline">AI Settings</span>
+                </button>
             </div>
         </div>
 
@@ -247,6 +258,8 @@ const Header: React.FC<HeaderProps> = ({ onToolSelect, activeTool }) => {
       </div>
     </header>
 
+    {isAiSettingsOpen && <AiSettingsPanel onClose={() => setIsAiSettingsOpen(false)} />}
+
     {/* Search Modal */}
     {isSearchOpen && (
         <div className="fixed inset-0 z-[100] overflow-y-auto" role="dialog" aria-modal="true">
@@ -0,0 +1,64 @@
+import React from 'react';
+import { SignatureVerification } from '../services/signatureService';
+
+interface SignaturePanelProps {
+  signatures: SignatureVerification[];
+}
+
+const STATUS_STYLES: Record<SignatureVerification['status'], { label: string; badge: string; border: string }> = {
+  valid: { label: 'Valid', badge: 'bg-green-100 text-green-700', border: 'border-green-200' },
+  invalid: { label: 'Invalid', badge: 'bg-red-100 text-red-700', border: 'border-red-200' },
+  unknown: { label: 'Not verified', badge: 'bg-amber-100 text-amber-700', border: 'border-amber-200' },
+};
+
+export const summarizeSignatures = (signatures: SignatureVerification[]): string => {
+  if (signatures.length === 0) return 'This document is not signed.';
+  const invalid = signatures.filter(s => s.status === 'invalid').length;
+  const unknown = signatures.filter(s => s.status === 'unknown').length;
+  const count = `${signatures.length} signature${signatures.length === 1 ? '' : 's'}`;
+  if (invalid > 0) return `${count}, ${invalid} invalid.`;
+  if (unknown > 0) return `${count}, ${unknown} could not be verified.`;
+  return `${count}, all valid.`;
+};
+
+const SignaturePanel: React.FC<SignaturePanelProps> = ({ signatures }) => {
+  if (signatures.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">No digital signatures found in this document.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {signatures.map(sig => {
+        const style = STATUS_STYLES[sig.status];
+        return (
+          <div key={sig.fieldName} className={`border rounded-lg p-3 bg-white ${style.border}`}>
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <span className="font-bold text-gray-800 text-sm truncate" title={sig.signerName}>{sig.signerName}</span>
+              <span className={`text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded-full shrink-0 ${style.badge}`}>{style.label}</span>
+            </div>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5 text-xs text-gray-600">
+              <dt className="font-medium text-gray-500">Field</dt><dd className="truncate">{sig.fieldName}</dd>
+              {sig.issuerName && <><dt className="font-medium text-gray-500">Issued by</dt><dd className="truncate">{sig.issuerName}</dd></>}
+              <dt className="font-medium text-gray-500">Signed</dt><dd>{sig.signingTime ? sig.signingTime.toLocaleString() : 'Unknown'}</dd>
+              {sig.reason && <><dt className="font-medium text-gray-500">Reason</dt><dd className="truncate">{sig.reason}</dd></>}
+              {sig.location && <><dt className="font-medium text-gray-500">Location</dt><dd className="truncate">{sig.location}</dd></>}
+              <dt className="font-medium text-gray-500">Format</dt><dd>{sig.subFilter}{sig.hasTimestamp ? ' (timestamped)' : ''}</dd>
+            </dl>
+            <p className={`text-xs mt-2 ${sig.coversWholeDocument ? 'text-green-700' : 'text-amber-700'}`}>
+              {sig.coversWholeDocument
+                ? 'Covers the entire document. No changes since signing.'
+                : `The document was changed after signing (${sig.laterRevisions} later revision${sig.laterRevisions === 1 ? '' : 's'}).`}
+            </p>
+            {sig.problems.length > 0 && (
+              <ul className="mt-2 space-y-0.5 text-xs text-gray-600 list-disc pl-4">
+                {sig.problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SignaturePanel;
@@ -35,6 +35,9 @@ export const CATEGORIES = [
       ToolType.PDF_TO_PPT,
       ToolType.PDF_OCR,
       ToolType.AI_PDF_SUMMARY,
+      ToolType.CHAT_PDF,
+      ToolType.INVOICE_EXTRACTOR,
+      ToolType.TEMPLATE_EXTRACTOR,
     ]
   },
   {
@@ -46,6 +49,7 @@ export const CATEGORIES = [
     tools: [
       ToolType.PDF_MERGE,
       ToolType.PDF_SPLIT,
+      ToolType.PDF_ORGANIZE,
       ToolType.PDF_RESIZE, 
     ]
   },
@@ -54,8 +58,10 @@ export const CATEGORIES = [
     title: 'PDF SECURITY',
     iconColor: 'text-red-600',
     bgColor: 'bg-red-50',
-    description: 'Encrypt and recover documents',
+    description: 'Encrypt, verify and recover documents',
     tools: [
+      ToolType.PROTECT_PDF,
+      ToolType.VERIFY_PDF,
       ToolType.UNLOCK_PDF,
       ToolType.REPAIR_PDF,
     ]
@@ -69,6 +75,12 @@ export const CATEGORIES = [
     tools: [
       ToolType.PDF_COMPRESS,
       ToolType.PDF_EDITOR,
+      ToolType.COMMENT_SUMMARY,
+      ToolType.BOOKMARK_EDITOR,
+      ToolType.EDIT_METADATA,
+      ToolType.PAGE_NUMBERS,
+      ToolType.PDF_TO_PDFA,
+      ToolType.COMPARE_PDF,
       ToolType.ADD_WATERMARK,
       ToolType.QR_CODE_GENERATOR,
       ToolType.BATCH_PROCESSING,
@@ -103,11 +115,21 @@ export const getToolIcon = (type: ToolType) => {
     case ToolType.PDF_TO_IMAGE: return <><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></>;
     case ToolType.PDF_MERGE: return <path d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"/>; 
     case ToolType.PDF_SPLIT: return <path d="M14.121 14.121L19 19m-7-7l7-7m-7 7l-2.879 2.879M12 12L9.121 9.121m0 5.758a3 3 0 10-4.243 4.243 3 3 0 004.243-4.243zm0-5.758a3 3 0 10-4.243-4.243 3 3 0 004.243 4.243z"/>; 
+    case ToolType.PDF_ORGANIZE: return <path d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zm10 0a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zm10 0a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z"/>;
     case ToolType.PDF_RESIZE: return <path d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122"/>;
     case ToolType.IMAGE_RESIZE: return <path d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"/>;
     case ToolType.PDF_COMPRESS: return <path d="M4 14h6m-6 4h6m6-10h6m-6 4h6m-6 4h6M4 6h16"/>; 
     case ToolType.PDF_EDITOR: return <><path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"/><path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"/></>; 
     case ToolType.UNLOCK_PDF: return <><rect x="3" y="11" width="18" height="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 9.9-1"/></>; 
+    case ToolType.CHAT_PDF: return <><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/><path d="M8 9h8M8 13h5"/></>;
+    case ToolType.COMPARE_PDF: return <><rect x="3" y="4" width="7" height="16" rx="1"/><rect x="14" y="4" width="7" height="16" rx="1"/><path d="M5.5 9h2M16.5 9h2M5.5 13h2M16.5 13h2"/></>;
+    case ToolType.PDF_TO_PDFA: return <><rect x="3" y="4" width="18" height="5" rx="1"/><path d="M5 9v10a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V9M10 13h4"/></>;
+    case ToolType.PAGE_NUMBERS: return <><path d="M4 9h16M4 15h16M10 3L8 21M16 3l-2 18"/></>;
+    case ToolType.EDIT_METADATA: return <><path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z"/><line x1="7" y1="7" x2="7.01" y2="7"/></>;
+    case ToolType.BOOKMARK_EDITOR: return <><path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z"/><path d="M9 8h6M9 12h4"/></>;
+    case ToolType.COMMENT_SUMMARY: return <><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/><path d="M8 9h8M8 13h5"/></>;
+    case ToolType.VERIFY_PDF: return <><path d="M12 2l8 3v6c0 5.5-3.8 9.7-8 11-4.2-1.3-8-5.5-8-11V5z"/><path d="M9 12l2 2 4-4"/></>;
+    case ToolType.PROTECT_PDF: return <><rect x="3" y="11" width="18" height="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></>;
     case ToolType.QR_CODE_GENERATOR: return <><rect x="3" y="3" width="7" height="7"/><rect x="14" y="3" width="7" height="7"/><rect x="3" y="14" width="7" height="7"/><path d="M14 14h7v7h-7z"/></>;
     case ToolType.REPAIR_PDF: return <path d="M14.7 6.3a1 1 0 0 0 0 1.4l1.6 1.6a1 1 0 0 0 1.4 0l3.77-3.77a6 6 0 0 1-7.94 7.94l-6.91 6.91a2.12 2.12 0 0 1-3-3l6.91-6.91a6 6 0 0 1 7.94-7.94l-3.76 3.76z"/>; 
     case ToolType.ADD_WATERMARK: return <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/>; 
@@ -117,6 +139,8 @@ export const getToolIcon = (type: ToolType) => {
     case ToolType.PHOTO_EDITOR: return <><circle cx="12" cy="12" r="10"/><path d="M14.31 8l5.74 9.94M9.69 8h11.48M7.38 12l5.74-9.94M9.69 16L3.95 6.06M14.31 16H2.83M16.62 12l-5.74 9.94"/></>; 
     case ToolType.IMAGE_COMPRESS: return <path d="M4 14h6m-6 4h6m6-10h6m-6 4h6m-6 4h6M4 6h16"/>; 
     case ToolType.IMAGE_ENHANCER: return <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/>; 
+    case ToolType.INVOICE_EXTRACTOR: return <><path d="M5 2h14v20l-3-2-2 2-2-2-2 2-2-2-3 2z"/><path d="M8 7h8M8 11h8M8 15h5"/></>;
+    case ToolType.TEMPLATE_EXTRACTOR: return <><rect x="3" y="3" width="18" height="18" rx="2"/><rect x="6" y="6" width="7" height="4" strokeDasharray="2 1"/><path d="M6 14h12M6 17h8"/></>;
     case ToolType.BATCH_PROCESSING: return <><rect x="2" y="7" width="20" height="14" rx="2" ry="2"/><path d="M16 21V5a2 2 0 0 0-2-2h-4a2 2 0 0 0-2 2v16"/></>;
     case ToolType.IMAGE_MERGE: return <><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></>;
     case ToolType.IMAGE_CONVERT: return <><path d="M4 4h16c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2H4c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2z"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></>;
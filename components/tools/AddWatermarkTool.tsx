@@ -6,6 +6,7 @@ import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
 import { watermarkService, TextWatermarkSettings, ImageWatermarkSettings } from '../../services/watermarkService';
 import { pdfService } from '../../services/pdfService';
+import { fontService } from '../../services/fontService';
 
 interface AddWatermarkToolProps {
   onUpload: (files: File[]) => void;
@@ -27,6 +28,7 @@ const AddWatermarkTool: React.FC<AddWatermarkToolProps> = ({ onUpload, uploadedF
     opacity: 50,
     rotation: 45,
     color: '#FF0000',
+    fontFamily: 'Helvetica',
     isTiled: false,
     position: { x: 50, y: 50 }
   });
@@ -215,6 +217,20 @@ const AddWatermarkTool: React.FC<AddWatermarkToolProps> = ({ onUpload, uploadedF
                                         className="w-full border border-gray-300 rounded p-2 focus:ring-2 focus:ring-blue-500 outline-none"
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Font</label>
+                                    <select
+                                        value={textSettings.fontFamily}
+                                        onChange={e => {
+                                            const fontFamily = e.target.value;
+                                            setTextSettings({...textSettings, fontFamily});
+                                            fontService.loadForDisplay(fontFamily).catch(err => console.error('Failed to load font preview', err));
+                                        }}
+                                        className="w-full border border-gray-300 rounded p-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                    >
+                                        {fontService.listFamilies().map(f => <option key={f.name} value={f.name}>{f.name}{f.description ? ` (${f.description})` : ''}</option>)}
+                                    </select>
+                                </div>
                                 <div className="grid grid-cols-2 gap-4">
                                      <div>
                                          <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Font Size</label>
@@ -320,6 +336,7 @@ const AddWatermarkTool: React.FC<AddWatermarkToolProps> = ({ onUpload, uploadedF
                                                          fontSize: `${textSettings.fontSize / 2}px`, // Scale down slightly for preview sizing
                                                          opacity: textSettings.opacity / 100,
                                                          fontWeight: 'bold',
+                                                         fontFamily: textSettings.fontFamily,
                                                          whiteSpace: 'nowrap'
                                                      }}>
                                                          {textSettings.text}
@@ -352,6 +369,7 @@ const AddWatermarkTool: React.FC<AddWatermarkToolProps> = ({ onUpload, uploadedF
                                             opacity: textSettings.opacity / 100,
                                             transform: `rotate(${textSettings.rotation}deg)`,
                                             fontWeight: 'bold',
+                                            fontFamily: textSettings.fontFamily,
                                             textShadow: '0 0 2px rgba(255,255,255,0.5)' // Slight outline for visibility
                                          }}>
                                              {textSettings.text}
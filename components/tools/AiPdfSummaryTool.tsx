@@ -1,11 +1,20 @@
 import React, { useState, useCallback } from 'react';
-import { AppFile, ProcessedFile } from '../../types';
+import { AppFile } from '../../types';
 import Dropzone from '../Dropzone';
 import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
-import { geminiService } from '../../services/geminiService';
-import { arrayBufferToFile } from '../../utils/fileUtils';
+import {
+  summaryService,
+  formatSummaryItem,
+  SUMMARY_PROFILES,
+  SUMMARY_AUDIENCES,
+  SummaryProfile,
+  SummaryLength,
+  SummaryAudience,
+  SummaryExportFormat,
+  StructuredSummary,
+} from '../../services/summaryService';
 
 interface AiPdfSummaryToolProps {
   onUpload: (files: File[]) => void;
@@ -13,13 +22,29 @@ interface AiPdfSummaryToolProps {
   onRemoveFile: (id: string) => void;
 }
 
+const LANGUAGES = ['auto', 'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Polish', 'Turkish', 'Russian', 'Arabic', 'Hindi', 'Chinese', 'Japanese', 'Korean'];
+
+const LENGTH_LABELS: Record<SummaryLength, string> = { short: 'Short', medium: 'Medium', long: 'Long' };
+
+const EXPORT_FORMATS: { format: SummaryExportFormat; label: string }[] = [
+  { format: 'docx', label: 'Word (.docx)' },
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'pdf', label: 'PDF' },
+];
+
 const AiPdfSummaryTool: React.FC<AiPdfSummaryToolProps> = ({
   onUpload,
   uploadedFiles,
   onRemoveFile,
 }) => {
+  const [profile, setProfile] = useState<SummaryProfile>('executive');
+  const [length, setLength] = useState<SummaryLength>('medium');
+  const [audience, setAudience] = useState<SummaryAudience>('general');
+  const [language, setLanguage] = useState('auto');
   const [loading, setLoading] = useState(false);
-  const [summary, setSummary] = useState<string | null>(null);
+  const [progress, setProgress] = useState('');
+  const [exporting, setExporting] = useState<SummaryExportFormat | null>(null);
+  const [summary, setSummary] = useState<StructuredSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const handleSummarize = useCallback(async () => {
@@ -45,43 +70,48 @@ const AiPdfSummaryTool: React.FC<AiPdfSummaryToolProps> = ({
 
     setLoading(true);
     try {
-      const result = await geminiService.summarizePdf(pdfFile.arrayBuffer);
+      const result = await summaryService.summarize(pdfFile, { profile, length, audience, language }, p => setProgress(`${p.message} (${p.percent}%)`));
       setSummary(result);
     } catch (e) {
       let errorMessage = (e as Error).message;
       if (errorMessage.includes("API_KEY is not set")) {
-        errorMessage = "API key not found. Please ensure your Google Gemini API key is configured in the AI Studio sidebar.";
-      } else if (errorMessage.includes("Failed to summarize PDF")) {
-        errorMessage = `Failed to summarize PDF. This might be due to an issue with the API or the document content. Detailed error: ${errorMessage}`;
+        errorMessage = "API key not found. Add your Google Gemini API key in AI settings or the AI Studio sidebar, or switch to a local provider.";
       }
       console.error(e);
       setError(errorMessage);
     } finally {
       setLoading(false);
+      setProgress('');
     }
-  }, [uploadedFiles]);
+  }, [uploadedFiles, profile, length, audience, language]);
 
-  const handleDownloadSummary = useCallback(() => {
-    if (summary) {
-      const blob = new Blob([summary], { type: 'text/plain;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
+  const handleExport = useCallback(async (format: SummaryExportFormat) => {
+    if (!summary) return;
+    setExporting(format);
+    try {
+      const file = await summaryService.exportSummary(summary, format, uploadedFiles[0]?.name || 'document.pdf');
       const link = document.createElement('a');
-      link.href = url;
-      link.download = `${uploadedFiles[0].name.replace('.pdf', '')}_summary.txt`;
+      link.href = file.dataUrl;
+      link.download = file.name;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      setError(`Export failed: ${(e as Error).message}`);
+    } finally {
+      setExporting(null);
     }
   }, [summary, uploadedFiles]);
 
   const acceptedFileTypes = ['application/pdf'];
+  const selectClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500';
 
   return (
     <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-4xl mx-auto">
       <h2 className="text-2xl font-bold text-gray-800 mb-4">AI PDF Summary</h2>
       <p className="text-gray-600 mb-6">
-        Upload a PDF document to generate an AI-powered summary of its content.
+        Upload a PDF document and choose the kind of summary you need: a quick TL;DR, an executive brief, key points with page references, action items, a glossary and more.
       </p>
 
       <Dropzone
@@ -102,6 +132,59 @@ const AiPdfSummaryTool: React.FC<AiPdfSummaryToolProps> = ({
         </div>
       )}
 
+      <div className="mt-6 border-t pt-6 space-y-5">
+        <div>
+          <label className="block text-xs font-bold text-gray-600 uppercase mb-2">Summary type</label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {(Object.keys(SUMMARY_PROFILES) as SummaryProfile[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setProfile(key)}
+                className={`text-left p-3 rounded-lg border transition-colors ${profile === key ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <span className="block text-sm font-semibold text-gray-800">{SUMMARY_PROFILES[key].label}</span>
+                <span className="block text-xs text-gray-500">{SUMMARY_PROFILES[key].description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-bold text-gray-600 uppercase mb-2">Length</label>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              {(Object.keys(LENGTH_LABELS) as SummaryLength[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setLength(key)}
+                  className={`flex-1 px-2 py-2 text-sm ${length === key ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                  title={`About ${SUMMARY_PROFILES[profile].targetWords[key]} words`}
+                >
+                  {LENGTH_LABELS[key]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">About {SUMMARY_PROFILES[profile].targetWords[length]} words</p>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 uppercase mb-2">Audience</label>
+            <select value={audience} onChange={e => setAudience(e.target.value as SummaryAudience)} className={selectClass}>
+              {(Object.keys(SUMMARY_AUDIENCES) as SummaryAudience[]).map(key => (
+                <option key={key} value={key}>{SUMMARY_AUDIENCES[key]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 uppercase mb-2">Output language</label>
+            <select value={language} onChange={e => setLanguage(e.target.value)} className={selectClass}>
+              {LANGUAGES.map(name => (
+                <option key={name} value={name}>{name === 'auto' ? 'Same as document' : name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
       {error && (
         <div className="mt-4 p-3 bg-red-100 text-red-700 rounded-md">
           <p className="font-medium">Error:</p>
@@ -115,18 +198,44 @@ const AiPdfSummaryTool: React.FC<AiPdfSummaryToolProps> = ({
         </Button>
       </div>
 
-      {loading && <LoadingSpinner message="Generating summary, please wait..." />}
+      {loading && <LoadingSpinner message={progress || 'Generating summary, please wait...'} />}
 
       {summary && (
         <div className="mt-8 p-6 bg-gray-50 border border-gray-200 rounded-lg shadow-inner">
-          <h3 className="text-xl font-semibold text-gray-800 mb-4">Summary Result</h3>
-          <div className="prose max-w-none text-gray-700 leading-relaxed mb-6">
-            <p className="whitespace-pre-wrap">{summary}</p>
+          <p className="text-xs font-bold text-blue-600 uppercase mb-1">{SUMMARY_PROFILES[summary.profile].label}</p>
+          <h3 className="text-xl font-semibold text-gray-800 mb-1">{summary.title}</h3>
+          {summary.chunks > 1 && (
+            <p className="text-xs text-gray-500 mb-4">The document was read in {summary.chunks} parts and the notes combined into this summary.</p>
+          )}
+          <div className="text-gray-700 leading-relaxed mt-4 mb-6 space-y-5">
+            {summary.sections.map((section, i) => (
+              <section key={i}>
+                {section.heading && <h4 className="text-lg font-semibold text-gray-800 mb-2">{section.heading}</h4>}
+                {section.paragraphs.map((paragraph, p) => (
+                  <p key={p} className="mb-2 whitespace-pre-wrap">{paragraph}</p>
+                ))}
+                {section.items.length > 0 && (
+                  <ul className="list-disc pl-5 space-y-1">
+                    {section.items.map((item, n) => (
+                      <li key={n}>
+                        {item.term && <span className="font-semibold">{item.term}: </span>}
+                        {formatSummaryItem({ ...item, term: undefined, pages: [] })}
+                        {item.pages.map(page => (
+                          <span key={page} className="ml-1 inline-block text-xs px-1.5 py-0.5 rounded bg-gray-200 text-gray-600 align-middle">p. {page}</span>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            ))}
           </div>
-          <div className="flex justify-center">
-            <Button onClick={handleDownloadSummary} variant="secondary">
-              Download Summary (.txt)
-            </Button>
+          <div className="flex flex-wrap justify-center gap-2">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <Button key={format} onClick={() => handleExport(format)} variant="secondary" loading={exporting === format} disabled={!!exporting}>
+                Download {label}
+              </Button>
+            ))}
           </div>
         </div>
       )}
@@ -134,4 +243,4 @@ const AiPdfSummaryTool: React.FC<AiPdfSummaryToolProps> = ({
   );
 };
 
-export default AiPdfSummaryTool;
\ No newline at end of file
+export default AiPdfSummaryTool;
@@ -14,7 +14,12 @@ import { pdfToWordService } from '../../services/pdfToWordService';
 import { wordService } from '../../services/wordService';
 import { htmlToPdfService } from '../../services/htmlToPdfService';
 import { repairService } from '../../services/repairService';
-import { securityService } from '../../services/securityService';
+import { securityService, EncryptionAlgorithm } from '../../services/securityService';
+import { compressionService } from '../../services/compressionService';
+import { metadataService } from '../../services/metadataService';
+import { pageStampService, StampAnchor } from '../../services/pageStampService';
+import { pdfaService } from '../../services/pdfaService';
+import { invoiceService, InvoiceExtraction, InvoiceExportFormat } from '../../services/invoiceService';
 import JSZip from 'jszip';
 
 interface BatchProcessingToolProps {
@@ -23,13 +28,14 @@ interface BatchProcessingToolProps {
   onRemoveFile: (id: string) => void;
 }
 
-type BatchOperation = 'compress_pdf' | 'pdf_to_word' | 'word_to_pdf' | 'pdf_to_image' | 'image_to_pdf' | 'watermark_pdf' | 'repair_pdf' | 'unlock_pdf';
+type BatchOperation = 'compress_pdf' | 'pdf_to_word' | 'word_to_pdf' | 'pdf_to_image' | 'image_to_pdf' | 'watermark_pdf' | 'repair_pdf' | 'unlock_pdf' | 'protect_pdf' | 'strip_metadata' | 'page_numbers' | 'convert_pdfa' | 'extract_invoice';
 
 interface FileStatus {
   fileId: string;
   status: 'pending' | 'processing' | 'success' | 'error';
   message?: string;
   result?: ProcessedFile;
+  invoice?: InvoiceExtraction; // extract_invoice only, for the combined CSV/Excel export
 }
 
 const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
@@ -44,10 +50,22 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
 
   // Settings for specific tools
   const [compressionLevel, setCompressionLevel] = useState(75);
+  const [compressionMode, setCompressionMode] = useState<'structural' | 'aggressive'>('structural');
   const [watermarkText, setWatermarkText] = useState('CONFIDENTIAL');
   const [watermarkColor, setWatermarkColor] = useState('#FF0000');
   const [watermarkOpacity, setWatermarkOpacity] = useState(30);
   const [unlockPassword, setUnlockPassword] = useState('');
+  const [protectPassword, setProtectPassword] = useState('');
+  const [protectOwnerPassword, setProtectOwnerPassword] = useState('');
+  const [protectAlgorithm, setProtectAlgorithm] = useState<EncryptionAlgorithm>('aes-256');
+  const [protectAllowPrinting, setProtectAllowPrinting] = useState(true);
+  const [protectAllowCopying, setProtectAllowCopying] = useState(false);
+  const [numberingStyle, setNumberingStyle] = useState<'page' | 'bates'>('bates');
+  const [numberingAnchor, setNumberingAnchor] = useState<StampAnchor>('bottom-right');
+  const [batesPrefix, setBatesPrefix] = useState('ABC');
+  const [batesStart, setBatesStart] = useState(1);
+  const [batesDigits, setBatesDigits] = useState(6);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // Hidden input ref for adding files
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -79,9 +97,13 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
   const runBatch = async () => {
     setIsProcessing(true);
     setProgress(0);
-    const filesToProcess = uploadedFiles.filter(f => statuses[f.id]?.status !== 'success');
+    // Bates numbers continue from one file to the next, so a rerun stamps the whole list again
+    // rather than handing numbers already used by earlier files to the retried ones
+    const restampAll = operation === 'page_numbers' && numberingStyle === 'bates';
+    const filesToProcess = restampAll ? uploadedFiles : uploadedFiles.filter(f => statuses[f.id]?.status !== 'success');
     const total = filesToProcess.length;
     let completed = 0;
+    let batesNumber = batesStart;
 
     for (const file of filesToProcess) {
        // Update status to processing
@@ -89,12 +111,15 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
 
        try {
            let result: ProcessedFile | null = null;
+           let invoice: InvoiceExtraction | undefined;
            
            // PROCESS LOGIC
            switch(operation) {
                case 'compress_pdf':
                    if (file.type !== 'application/pdf') throw new Error("Not a PDF");
-                   result = await pdfService.compressPdf(file, compressionLevel);
+                   result = compressionMode === 'structural'
+                       ? (await compressionService.compressPdfStructural(file, { targetDpi: 150, imageQuality: compressionLevel, removeMetadata: true })).file
+                       : await pdfService.compressPdf(file, compressionLevel);
                    break;
                case 'pdf_to_word':
                    if (file.type !== 'application/pdf') throw new Error("Not a PDF");
@@ -172,10 +197,51 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
                     if (file.type !== 'application/pdf') throw new Error("Not a PDF");
                     result = await securityService.unlockPdf(file, unlockPassword);
                     break;
+               case 'protect_pdf':
+                    if (file.type !== 'application/pdf') throw new Error("Not a PDF");
+                    result = await securityService.protectPdf(file, {
+                        userPassword: protectPassword,
+                        ownerPassword: protectOwnerPassword,
+                        algorithm: protectAlgorithm,
+                        permissions: { printing: protectAllowPrinting, copying: protectAllowCopying, modifying: false, formFilling: false }
+                    });
+                    break;
+               case 'strip_metadata':
+                    if (file.type !== 'application/pdf') throw new Error("Not a PDF");
+                    result = await metadataService.stripMetadataFromFile(file);
+                    break;
+               case 'page_numbers':
+                    if (file.type !== 'application/pdf') throw new Error("Not a PDF");
+                    const stamped = await pageStampService.stampPdf(file, {
+                        templates: { [numberingAnchor]: numberingStyle === 'bates' ? '{bates}' : 'Page {n} of {N}' },
+                        fontFamily: 'Helvetica',
+                        fontSize: 10,
+                        color: '#000000',
+                        marginX: 36,
+                        marginY: 24,
+                        startNumber: 1,
+                        skipFirstPage: false,
+                        pageFilter: 'all',
+                        bates: { prefix: batesPrefix, suffix: '', start: batesStart, digits: batesDigits }
+                    }, batesNumber);
+                    batesNumber = stamped.nextBatesNumber;
+                    result = stamped.file;
+                    break;
+               case 'convert_pdfa':
+                    if (file.type !== 'application/pdf') throw new Error("Not a PDF");
+                    const converted = await pdfaService.convertToPdfa(file);
+                    if (converted.issues.length > 0) throw new Error(`Could not fully convert: ${converted.issues[0].message}`);
+                    result = converted.file;
+                    break;
+               case 'extract_invoice':
+                    if (file.type !== 'application/pdf' && !file.type.startsWith('image/')) throw new Error("Not a PDF or image");
+                    invoice = await invoiceService.extractInvoice(file);
+                    result = await invoiceService.exportInvoices([invoice], 'json', `${file.name.replace(/\.[^.]+$/, '')}.invoice`);
+                    break;
            }
 
            if (result) {
-               setStatuses(prev => ({ ...prev, [file.id]: { fileId: file.id, status: 'success', result: result! } }));
+               setStatuses(prev => ({ ...prev, [file.id]: { fileId: file.id, status: 'success', result: result!, invoice } }));
            } else {
                throw new Error("No result generated");
            }
@@ -216,6 +282,26 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
      URL.revokeObjectURL(url);
   };
 
+  const extractedInvoices = uploadedFiles
+     .map(f => statuses[f.id]?.invoice)
+     .filter((invoice): invoice is InvoiceExtraction => !!invoice);
+
+  const downloadInvoices = async (format: InvoiceExportFormat) => {
+     setExportError(null);
+     try {
+         const file = await invoiceService.exportInvoices(extractedInvoices, format, `invoices_${new Date().getTime()}`);
+         const link = document.createElement('a');
+         link.href = file.dataUrl;
+         link.download = file.name;
+         document.body.appendChild(link);
+         link.click();
+         document.body.removeChild(link);
+     } catch (e) {
+         console.error(e);
+         setExportError(`Export failed: ${(e as Error).message}`);
+     }
+  };
+
   return (
     <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-6xl mx-auto min-h-[600px] flex flex-col">
        <div className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
@@ -238,11 +324,16 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
                    <option value="compress_pdf">Compress PDF</option>
                    <option value="watermark_pdf">Watermark PDF</option>
                    <option value="unlock_pdf">Unlock PDF</option>
+                   <option value="protect_pdf">Protect PDF</option>
                    <option value="word_to_pdf">Word to PDF</option>
                    <option value="pdf_to_word">PDF to Word</option>
                    <option value="image_to_pdf">Image to PDF</option>
                    <option value="pdf_to_image">PDF to Image</option>
                    <option value="repair_pdf">Repair PDF</option>
+                   <option value="strip_metadata">Strip Metadata</option>
+                   <option value="page_numbers">Page Numbers / Bates</option>
+                   <option value="convert_pdfa">Convert to PDF/A</option>
+                   <option value="extract_invoice">Extract Invoice Data</option>
                </select>
            </div>
        </div>
@@ -257,7 +348,11 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
                <div className="flex-grow">
                    {operation === 'compress_pdf' && (
                        <div className="flex items-center gap-4">
-                           <label className="text-sm font-semibold text-blue-800">Compression Strength: {compressionLevel}%</label>
+                           <select value={compressionMode} onChange={e => setCompressionMode(e.target.value as 'structural' | 'aggressive')} className="border border-blue-200 rounded p-2 text-sm bg-white focus:ring-2 focus:ring-blue-400 outline-none">
+                               <option value="structural">Structural (keep text)</option>
+                               <option value="aggressive">Aggressive (rasterize)</option>
+                           </select>
+                           <label className="text-sm font-semibold text-blue-800 whitespace-nowrap">{compressionMode === 'structural' ? 'Image Quality' : 'Compression Strength'}: {compressionLevel}%</label>
                            <input type="range" min="0" max="100" value={compressionLevel} onChange={e => setCompressionLevel(parseInt(e.target.value))} className="w-full max-w-xs h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer accent-blue-600"/>
                        </div>
                    )}
@@ -287,6 +382,88 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
                            <p className="text-xs text-blue-600 mt-1">If files have different passwords, process them individually.</p>
                        </div>
                    )}
+                   {operation === 'protect_pdf' && (
+                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                           <div>
+                               <label className="text-xs font-bold text-blue-800 uppercase block mb-1">Open Password</label>
+                               <input type="password" value={protectPassword} onChange={e => setProtectPassword(e.target.value)} placeholder="Applied to every file" className="border border-blue-200 rounded p-2 w-full text-sm focus:ring-2 focus:ring-blue-400 outline-none"/>
+                           </div>
+                           <div>
+                               <label className="text-xs font-bold text-blue-800 uppercase block mb-1">Permissions Password</label>
+                               <input type="password" value={protectOwnerPassword} onChange={e => setProtectOwnerPassword(e.target.value)} placeholder="Optional" className="border border-blue-200 rounded p-2 w-full text-sm focus:ring-2 focus:ring-blue-400 outline-none"/>
+                           </div>
+                           <div>
+                               <label className="text-xs font-bold text-blue-800 uppercase block mb-1">Encryption</label>
+                               <select value={protectAlgorithm} onChange={e => setProtectAlgorithm(e.target.value as EncryptionAlgorithm)} className="border border-blue-200 rounded p-2 w-full text-sm bg-white focus:ring-2 focus:ring-blue-400 outline-none">
+                                   <option value="aes-256">AES 256-bit</option>
+                                   <option value="aes-128">AES 128-bit</option>
+                                   <option value="rc4-128">RC4 128-bit</option>
+                               </select>
+                           </div>
+                           <div className="md:col-span-3 flex flex-wrap gap-6 text-sm text-blue-800">
+                               <label className="flex items-center gap-2"><input type="checkbox" checked={protectAllowPrinting} onChange={e => setProtectAllowPrinting(e.target.checked)} className="rounded text-blue-600"/>Allow printing</label>
+                               <label className="flex items-center gap-2"><input type="checkbox" checked={protectAllowCopying} onChange={e => setProtectAllowCopying(e.target.checked)} className="rounded text-blue-600"/>Allow copying</label>
+                               <span className="text-xs text-blue-600">Editing and form filling are always blocked.</span>
+                           </div>
+                       </div>
+                   )}
+                   {operation === 'page_numbers' && (
+                       <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                           <div>
+                               <label className="text-xs font-bold text-blue-800 uppercase block mb-1">Style</label>
+                               <select value={numberingStyle} onChange={e => setNumberingStyle(e.target.value as 'page' | 'bates')} className="border border-blue-200 rounded p-2 w-full text-sm bg-white focus:ring-2 focus:ring-blue-400 outline-none">
+                                   <option value="bates">Bates number</option>
+                                   <option value="page">Page X of Y</option>
+                               </select>
+                           </div>
+                           <div>
+                               <label className="text-xs font-bold text-blue-800 uppercase block mb-1">Position</label>
+                               <select value={numberingAnchor} onChange={e => setNumberingAnchor(e.target.value as StampAnchor)} className="border border-blue-200 rounded p-2 w-full text-sm bg-white focus:ring-2 focus:ring-blue-400 outline-none">
+                                   <option value="top-left">Top left</option>
+                                   <option value="top-center">Top center</option>
+                                   <option value="top-right">Top right</option>
+                                   <option value="bottom-left">Bottom left</option>
+                                   <option value="bottom-center">Bottom center</option>
+                                   <option value="bottom-right">Bottom right</option>
+                               </select>
+                           </div>
+                           {numberingStyle === 'bates' && (
+                               <>
+                                   <div>
+                                       <label className="text-xs font-bold text-blue-800 uppercase block mb-1">Prefix</label>
+                                       <input type="text" value={batesPrefix} onChange={e => setBatesPrefix(e.target.value)} className="border border-blue-200 rounded p-2 w-full text-sm focus:ring-2 focus:ring-blue-400 outline-none"/>
+                                   </div>
+                                   <div>
+                                       <label className="text-xs font-bold text-blue-800 uppercase block mb-1">Start</label>
+                                       <input type="number" min="0" value={batesStart} onChange={e => setBatesStart(Math.max(0, parseInt(e.target.value) || 0))} className="border border-blue-200 rounded p-2 w-full text-sm focus:ring-2 focus:ring-blue-400 outline-none"/>
+                                   </div>
+                                   <div>
+                                       <label className="text-xs font-bold text-blue-800 uppercase block mb-1">Digits</label>
+                                       <input type="number" min="1" max="12" value={batesDigits} onChange={e => setBatesDigits(Math.min(12, Math.max(1, parseInt(e.target.value) || 1)))} className="border border-blue-200 rounded p-2 w-full text-sm focus:ring-2 focus:ring-blue-400 outline-none"/>
+                                   </div>
+                                   <p className="md:col-span-5 text-xs text-blue-600">Numbers continue across files in list order, starting at {pageStampService.formatBates(batesStart, { prefix: batesPrefix, suffix: '', start: batesStart, digits: batesDigits })}.</p>
+                               </>
+                           )}
+                       </div>
+                   )}
+                   {operation === 'strip_metadata' && (
+                       <div className="text-blue-700 text-sm font-medium flex items-center">
+                           <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                           Removes document info, XMP metadata, application data and thumbnails. Page content is kept.
+                       </div>
+                   )}
+                   {operation === 'convert_pdfa' && (
+                       <div className="text-blue-700 text-sm font-medium flex items-center">
+                           <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                           Converts to PDF/A-2b. Encrypted files must be unlocked first; files that cannot be fully converted are marked as failed.
+                       </div>
+                   )}
+                   {operation === 'extract_invoice' && (
+                       <div className="text-blue-700 text-sm font-medium flex items-center">
+                           <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                           Reads each invoice or receipt with AI into a JSON file. Invoices whose totals do not add up are flagged; download all of them as one CSV or Excel sheet afterwards.
+                       </div>
+                   )}
                    {['pdf_to_word', 'word_to_pdf', 'image_to_pdf', 'pdf_to_image', 'repair_pdf'].includes(operation) && (
                        <div className="text-blue-700 text-sm font-medium flex items-center">
                            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
@@ -346,7 +523,9 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
                                                    Processing
                                                </span>
                                            )}
-                                           {status.status === 'success' && <span className="bg-green-100 text-green-700 text-xs font-semibold px-2.5 py-1 rounded-full">Completed</span>}
+                                           {status.status === 'success' && (status.invoice?.issues.some(issue => issue.severity === 'error')
+                                               ? <span className="bg-amber-100 text-amber-700 text-xs font-semibold px-2.5 py-1 rounded-full cursor-help" title={status.invoice.issues.map(issue => issue.message).join('\n')}>Totals mismatch</span>
+                                               : <span className="bg-green-100 text-green-700 text-xs font-semibold px-2.5 py-1 rounded-full">Completed</span>)}
                                            {status.status === 'error' && <span className="bg-red-100 text-red-700 text-xs font-semibold px-2.5 py-1 rounded-full cursor-help" title={status.message}>Error</span>}
                                        </td>
                                        <td className="px-6 py-4 text-right">
@@ -396,8 +575,20 @@ const BatchProcessingTool: React.FC<BatchProcessingToolProps> = ({ onUpload, upl
                                 Download ZIP
                             </Button>
                         )}
+                        {extractedInvoices.length > 0 && (
+                            <>
+                                <Button variant="outline" onClick={() => downloadInvoices('csv')} className="flex-1 sm:flex-none justify-center">CSV</Button>
+                                <Button variant="outline" onClick={() => downloadInvoices('xlsx')} className="flex-1 sm:flex-none justify-center">Excel</Button>
+                            </>
+                        )}
                    </div>
                </div>
+               {exportError && (
+                   <div className="mt-4 p-3 bg-red-100 text-red-700 rounded-md">
+                       <p className="font-medium">Error:</p>
+                       <p>{exportError}</p>
+                   </div>
+               )}
            </div>
        )}
     </div>
@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { bookmarkService, Bookmark } from '../../services/bookmarkService';
+import { pdfService } from '../../services/pdfService';
+
+interface BookmarkEditorToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+interface Location {
+  siblings: Bookmark[];
+  index: number;
+  parent?: Bookmark;
+}
+
+const cloneTree = (nodes: Bookmark[]): Bookmark[] => nodes.map(node => ({ ...node, children: cloneTree(node.children) }));
+
+const locate = (nodes: Bookmark[], id: string, parent?: Bookmark): Location | undefined => {
+  for (let index = 0; index < nodes.length; index++) {
+    if (nodes[index].id === id) return { siblings: nodes, index, parent };
+    const found = locate(nodes[index].children, id, nodes[index]);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// Rows in display order; children of collapsed bookmarks are hidden
+const flatten = (nodes: Bookmark[], depth = 0): { node: Bookmark; depth: number }[] =>
+  nodes.flatMap(node => [{ node, depth }, ...(node.open ? flatten(node.children, depth + 1) : [])]);
+
+const countTree = (nodes: Bookmark[]): number => nodes.reduce((sum, node) => sum + 1 + countTree(node.children), 0);
+
+const BookmarkEditorTool: React.FC<BookmarkEditorToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [pageCount, setPageCount] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [useAi, setUseAi] = useState(false);
+  const loadedRef = useRef<string | null>(null);
+
+  const file = uploadedFiles[0];
+  const selected = selectedId ? locate(bookmarks, selectedId) : undefined;
+  const selectedPage = selected ? selected.siblings[selected.index].pageIndex : undefined;
+
+  useEffect(() => {
+    if (!file) {
+      loadedRef.current = null;
+      setBookmarks([]);
+      setPreviews({});
+      setSelectedId(null);
+      setError(null);
+      setNotice(null);
+      return;
+    }
+    if (!file.arrayBuffer || loadedRef.current === file.id) return;
+    loadedRef.current = file.id;
+
+    const load = async () => {
+      setLoading(true);
+      setLoadingMessage('Reading bookmarks...');
+      setError(null);
+      try {
+        const result = await bookmarkService.readBookmarks(file);
+        setBookmarks(result.bookmarks);
+        setPageCount(result.pageCount);
+      } catch (e) {
+        console.error(e);
+        setError((e as Error).message || 'Could not read this PDF.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [file]);
+
+  // Preview the page the selected bookmark opens
+  useEffect(() => {
+    if (!file || selectedPage === undefined || previews[selectedPage]) return;
+    pdfService.renderPage(file, selectedPage, 0.4)
+      .then(url => setPreviews(prev => ({ ...prev, [selectedPage]: url })))
+      .catch(e => console.error(e));
+  }, [file, selectedPage]);
+
+  const edit = (change: (tree: Bookmark[]) => void) => {
+    const next = cloneTree(bookmarks);
+    change(next);
+    setBookmarks(next);
+  };
+
+  const update = (id: string, changes: Partial<Bookmark>) => edit(tree => {
+    const at = locate(tree, id);
+    if (at) Object.assign(at.siblings[at.index], changes);
+  });
+
+  const setPage = (id: string, value: string) => {
+    const page = parseInt(value, 10);
+    // A new target opens at the top of the page
+    update(id, { pageIndex: Number.isNaN(page) ? undefined : Math.min(pageCount, Math.max(1, page)) - 1, view: undefined });
+  };
+
+  const move = (id: string, delta: number) => edit(tree => {
+    const at = locate(tree, id);
+    if (!at) return;
+    const target = at.index + delta;
+    if (target < 0 || target >= at.siblings.length) return;
+    const [node] = at.siblings.splice(at.index, 1);
+    at.siblings.splice(target, 0, node);
+  });
+
+  // Makes the bookmark the last child of the one above it
+  const indent = (id: string) => edit(tree => {
+    const at = locate(tree, id);
+    if (!at || at.index === 0) return;
+    const [node] = at.siblings.splice(at.index, 1);
+    const newParent = at.siblings[at.index - 1];
+    newParent.children.push(node);
+    newParent.open = true;
+  });
+
+  // Moves the bookmark out of its parent, right after it
+  const outdent = (id: string) => edit(tree => {
+    const at = locate(tree, id);
+    if (!at?.parent) return;
+    const parentAt = locate(tree, at.parent.id)!;
+    const [node] = at.siblings.splice(at.index, 1);
+    parentAt.siblings.splice(parentAt.index + 1, 0, node);
+  });
+
+  const remove = (id: string) => {
+    edit(tree => {
+      const at = locate(tree, id);
+      if (at) at.siblings.splice(at.index, 1);
+    });
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const addBookmark = (parentId?: string) => {
+    const node: Bookmark = { id: crypto.randomUUID(), title: 'New bookmark', pageIndex: selectedPage ?? 0, open: true, children: [] };
+    edit(tree => {
+      const at = parentId ? locate(tree, parentId) : undefined;
+      if (at) {
+        at.siblings[at.index].children.push(node);
+        at.siblings[at.index].open = true;
+      } else {
+        tree.push(node);
+      }
+    });
+    setSelectedId(node.id);
+  };
+
+  const handleGenerate = async () => {
+    if (!file) return;
+    if (bookmarks.length > 0 && !confirm('Replace the current bookmarks with ones generated from the headings?')) return;
+    setLoading(true);
+    setLoadingMessage('Looking for headings...');
+    setNotice(null);
+    try {
+      let headings = await bookmarkService.detectHeadings(file);
+      if (useAi && headings.length > 0) {
+        setLoadingMessage('Asking AI to pick the headings...');
+        try {
+          headings = await bookmarkService.refineHeadingsWithAi(headings);
+        } catch (e) {
+          console.error(e);
+          setNotice(`AI refinement failed (${(e as Error).message}); the outline below is based on font sizes only.`);
+        }
+      }
+      if (headings.length === 0) {
+        setNotice('No headings were found. The text may be a scan without a text layer, or set in a single font size.');
+        return;
+      }
+      setBookmarks(await bookmarkService.headingsToBookmarks(file, headings));
+      setSelectedId(null);
+    } catch (e) {
+      console.error(e);
+      setError((e as Error).message || 'Could not read the text of this PDF.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!file) return;
+    setLoading(true);
+    setLoadingMessage('Saving bookmarks...');
+    try {
+      const result = await bookmarkService.saveBookmarks(file, bookmarks);
+      const link = document.createElement('a');
+      link.href = result.dataUrl;
+      link.download = result.name.replace(/\.pdf$/i, '_bookmarked.pdf');
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (e) {
+      console.error(e);
+      alert('Could not save the PDF: ' + ((e as Error).message || 'unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const iconButton = (title: string, onClick: () => void, path: string, disabled = false) => (
+    <button title={title} onClick={onClick} disabled={disabled} className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30 disabled:hover:text-gray-400">
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d={path}/></svg>
+    </button>
+  );
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-5xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-orange-100 text-orange-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"/></svg>
+            </span>
+            Edit Bookmarks
+        </h2>
+        <p className="text-gray-500">Add, rename, nest and reorder the bookmarks of a PDF, or generate them from its headings.</p>
+      </div>
+
+      {!file ? (
+         <div className="flex-grow flex flex-col justify-center">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={false} label="Drag & drop a PDF here" />
+         </div>
+      ) : (
+         <div className="flex-grow">
+            <div className="flex items-center justify-between p-4 border border-gray-200 bg-gray-50 rounded-lg mb-4">
+               <div className="overflow-hidden">
+                  <p className="font-medium text-gray-800 truncate max-w-md">{file.name}</p>
+                  <p className="text-xs text-gray-500">
+                     {error ? <span className="text-red-500 font-bold">{error}</span> : `${pageCount} page${pageCount === 1 ? '' : 's'} · ${countTree(bookmarks)} bookmark${countTree(bookmarks) === 1 ? '' : 's'}`}
+                  </p>
+               </div>
+               <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+               <Button size="sm" variant="outline" onClick={() => addBookmark()} disabled={loading || pageCount === 0}>Add bookmark</Button>
+               <Button size="sm" variant="outline" onClick={handleGenerate} disabled={loading || pageCount === 0}>Generate from headings</Button>
+               <label className="flex items-center text-sm text-gray-600">
+                  <input type="checkbox" className="mr-1.5" checked={useAi} onChange={e => setUseAi(e.target.checked)} />
+                  Refine with AI
+               </label>
+               {bookmarks.length > 0 && (
+                  <button onClick={() => { if (confirm('Remove all bookmarks?')) { setBookmarks([]); setSelectedId(null); } }} className="text-sm text-red-500 hover:underline ml-auto">Remove all</button>
+               )}
+            </div>
+
+            {notice && <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-3 mb-4">{notice}</p>}
+
+            {loading ? <LoadingSpinner message={loadingMessage} /> : (
+               <div className="flex flex-col md:flex-row gap-4 mb-6">
+                  <div className="flex-grow border border-gray-200 rounded-lg max-h-[32rem] overflow-y-auto">
+                     {bookmarks.length === 0 && <p className="text-center text-gray-400 text-sm py-12">This PDF has no bookmarks yet.</p>}
+                     {flatten(bookmarks).map(({ node, depth }) => {
+                        const at = locate(bookmarks, node.id)!;
+                        return (
+                           <div key={node.id} onClick={() => setSelectedId(node.id)}
+                              className={`flex items-center gap-1 py-1.5 pr-2 border-b border-gray-100 ${selectedId === node.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                              style={{ paddingLeft: 8 + depth * 20 }}>
+                              <button onClick={() => update(node.id, { open: !node.open })} className={`w-5 text-gray-400 ${node.children.length ? '' : 'invisible'}`}>
+                                 {node.open ? '▾' : '▸'}
+                              </button>
+                              <input value={node.title} onChange={e => update(node.id, { title: e.target.value })}
+                                 className={`flex-grow min-w-0 px-2 py-1 text-sm border border-transparent rounded focus:border-blue-300 focus:outline-none bg-transparent ${node.flags && node.flags & 2 ? 'font-bold' : ''} ${node.flags && node.flags & 1 ? 'italic' : ''}`} />
+                              <span className="text-xs text-gray-400">p.</span>
+                              <input type="number" min={1} max={pageCount} value={node.pageIndex !== undefined ? node.pageIndex + 1 : ''} placeholder="–"
+                                 onChange={e => setPage(node.id, e.target.value)}
+                                 className="w-14 px-1 py-1 text-sm border border-gray-200 rounded" />
+                              {iconButton('Move up', () => move(node.id, -1), 'M5 15l7-7 7 7', at.index === 0)}
+                              {iconButton('Move down', () => move(node.id, 1), 'M19 9l-7 7-7-7', at.index === at.siblings.length - 1)}
+                              {iconButton('Outdent', () => outdent(node.id), 'M11 17l-5-5 5-5M18 17l-5-5 5-5', !at.parent)}
+                              {iconButton('Indent under the bookmark above', () => indent(node.id), 'M13 7l5 5-5 5M6 7l5 5-5 5', at.index === 0)}
+                              {iconButton('Add child bookmark', () => addBookmark(node.id), 'M12 4v16m8-8H4')}
+                              {iconButton('Delete with its children', () => remove(node.id), 'M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16')}
+                           </div>
+                        );
+                     })}
+                  </div>
+
+                  <div className="md:w-56 flex-shrink-0 text-center">
+                     {selectedPage !== undefined ? (
+                        <>
+                           {previews[selectedPage]
+                              ? <img src={previews[selectedPage]} alt={`Page ${selectedPage + 1}`} className="w-full border border-gray-200 rounded shadow-sm" />
+                              : <div className="h-64 flex items-center justify-center text-xs text-gray-400 border border-dashed rounded">Rendering...</div>}
+                           <p className="text-xs text-gray-500 mt-2">Page {selectedPage + 1}</p>
+                        </>
+                     ) : (
+                        <div className="h-64 flex items-center justify-center text-xs text-gray-400 border border-dashed rounded p-4">
+                           {selected ? 'This bookmark does not open a page.' : 'Select a bookmark to preview its page.'}
+                        </div>
+                     )}
+                  </div>
+               </div>
+            )}
+
+            <div className="flex justify-center">
+               <Button onClick={handleSave} disabled={loading || !!error}>Save PDF</Button>
+            </div>
+         </div>
+      )}
+    </div>
+  );
+};
+
+export default BookmarkEditorTool;
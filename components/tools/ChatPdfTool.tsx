@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { pdfService } from '../../services/pdfService';
+import { pdfChatService, parseCitations, splitCitations, PdfChatSession, ChatTurn } from '../../services/pdfChatService';
+
+interface ChatPdfToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+const SUGGESTIONS = ['What is this document about?', 'List the key dates and deadlines.', 'Who are the parties involved?'];
+
+const friendlyError = (e: unknown) => {
+  const message = (e as Error).message || 'Something went wrong.';
+  return message.includes('API_KEY is not set')
+    ? 'API key not found. Add your Google Gemini API key in AI settings or the AI Studio sidebar, or switch to a local provider.'
+    : message;
+};
+
+const ChatPdfTool: React.FC<ChatPdfToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
+  const [session, setSession] = useState<PdfChatSession | null>(null);
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [question, setQuestion] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [previewPage, setPreviewPage] = useState(0);
+  const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sessionFileRef = useRef<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const file = uploadedFiles[0];
+
+  useEffect(() => {
+    if (!file) {
+      sessionFileRef.current = null;
+      setSession(null);
+      setTurns([]);
+      setError(null);
+      return;
+    }
+    if (!file.arrayBuffer || sessionFileRef.current === file.id) return;
+    sessionFileRef.current = file.id;
+
+    const start = async () => {
+      setLoading(true);
+      setError(null);
+      setTurns([]);
+      setPreviewPage(0);
+      try {
+        setSession(await pdfChatService.startSession(file));
+      } catch (e) {
+        console.error(e);
+        setSession(null);
+        setError(friendlyError(e));
+      } finally {
+        setLoading(false);
+      }
+    };
+    start();
+  }, [file]);
+
+  useEffect(() => {
+    if (!file?.arrayBuffer || !session) return;
+    let cancelled = false;
+    setPreviewImage(null);
+    pdfService.renderPage(file, previewPage, 1.0)
+      .then(image => { if (!cancelled) setPreviewImage(image); })
+      .catch(e => console.error(e));
+    return () => { cancelled = true; };
+  }, [file, session, previewPage]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [turns, pending]);
+
+  const handleAsk = async (text: string = question) => {
+    const trimmed = text.trim();
+    if (!session || !trimmed || pending) return;
+    setPending(trimmed);
+    setQuestion('');
+    setError(null);
+    try {
+      const turn = await pdfChatService.ask(session, trimmed);
+      setTurns([...session.turns]);
+      if (turn.citations.length > 0) setPreviewPage(turn.citations[0]);
+    } catch (e) {
+      console.error(e);
+      setError(friendlyError(e));
+      setQuestion(trimmed);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleNewConversation = () => {
+    if (!session) return;
+    session.turns = [];
+    setTurns([]);
+    setError(null);
+  };
+
+  const renderAnswer = (answer: string) =>
+    splitCitations(answer).map((part, i) => {
+      if (i % 2 === 0) return <React.Fragment key={i}>{part}</React.Fragment>;
+      const pages = parseCitations(part, session?.pages.length || 0);
+      if (pages.length === 0) return <React.Fragment key={i}>{part}</React.Fragment>;
+      return (
+        <button key={i} onClick={() => setPreviewPage(pages[0])} className="text-indigo-600 hover:underline font-medium" title={`Show page ${pages[0] + 1}`}>
+          {part}
+        </button>
+      );
+    });
+
+  const pageCount = session?.pages.length || 0;
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-6xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-indigo-100 text-indigo-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"/></svg>
+            </span>
+            Chat with PDF
+        </h2>
+        <p className="text-gray-500">Ask questions about a document and follow up. Every answer cites the pages it is based on.</p>
+      </div>
+
+      {!file ? (
+         <div className="flex-grow flex flex-col justify-center">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={false} label="Drag & drop a PDF here" />
+         </div>
+      ) : (
+         <div className="flex-grow">
+            <div className="flex items-center justify-between p-4 border border-gray-200 bg-gray-50 rounded-lg mb-6">
+               <div className="overflow-hidden">
+                  <p className="font-medium text-gray-800 truncate max-w-md">{file.name}</p>
+                  <p className="text-xs text-gray-500">{session ? `${pageCount} page${pageCount === 1 ? '' : 's'} of text loaded` : 'Reading document...'}</p>
+               </div>
+               <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+            </div>
+
+            {error && <div className="p-3 mb-6 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>}
+
+            {loading ? <LoadingSpinner message="Extracting the text of each page..." /> : session && (
+               <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                  <div className="lg:col-span-3 flex flex-col border border-gray-200 rounded-lg h-[600px]">
+                     <div className="flex-grow overflow-y-auto p-4 space-y-4">
+                        {turns.length === 0 && !pending && (
+                           <div className="text-center text-gray-400 text-sm mt-8">
+                              <p className="mb-4">Ask anything about the document, for example:</p>
+                              <div className="flex flex-wrap justify-center gap-2">
+                                 {SUGGESTIONS.map(s => (
+                                    <button key={s} onClick={() => handleAsk(s)} className="px-3 py-1.5 rounded-full border border-gray-200 text-gray-600 hover:bg-gray-50">{s}</button>
+                                 ))}
+                              </div>
+                           </div>
+                        )}
+                        {turns.map((turn, i) => (
+                           <div key={i} className="space-y-2">
+                              <div className="flex justify-end">
+                                 <p className="bg-indigo-600 text-white rounded-lg px-3 py-2 text-sm max-w-[85%] whitespace-pre-wrap">{turn.question}</p>
+                              </div>
+                              <div className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-800 max-w-[90%]">
+                                 <p className="whitespace-pre-wrap leading-relaxed">{renderAnswer(turn.answer)}</p>
+                                 {turn.citations.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-2 pt-2 border-t border-gray-200">
+                                       <span className="text-xs text-gray-500 mr-1">Sources:</span>
+                                       {turn.citations.map(page => (
+                                          <button
+                                             key={page}
+                                             onClick={() => setPreviewPage(page)}
+                                             className={`text-xs px-2 py-0.5 rounded-full border ${previewPage === page ? 'bg-indigo-100 border-indigo-300 text-indigo-700' : 'border-gray-300 text-gray-600 hover:bg-white'}`}
+                                          >
+                                             p. {page + 1}
+                                          </button>
+                                       ))}
+                                    </div>
+                                 )}
+                              </div>
+                           </div>
+                        ))}
+                        {pending && (
+                           <div className="space-y-2">
+                              <div className="flex justify-end">
+                                 <p className="bg-indigo-600 text-white rounded-lg px-3 py-2 text-sm max-w-[85%] whitespace-pre-wrap">{pending}</p>
+                              </div>
+                              <p className="text-sm text-gray-400 px-3">Thinking...</p>
+                           </div>
+                        )}
+                        <div ref={bottomRef} />
+                     </div>
+                     <form
+                        onSubmit={e => { e.preventDefault(); handleAsk(); }}
+                        className="border-t border-gray-200 p-3 flex gap-2"
+                     >
+                        <input
+                           value={question}
+                           onChange={e => setQuestion(e.target.value)}
+                           placeholder="Ask a question about the document..."
+                           disabled={!!pending}
+                           className="flex-grow px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                        <Button type="submit" disabled={!question.trim() || !!pending} loading={!!pending}>Ask</Button>
+                     </form>
+                     {turns.length > 0 && (
+                        <button onClick={handleNewConversation} className="text-xs text-gray-500 hover:text-red-500 pb-2">Start a new conversation</button>
+                     )}
+                  </div>
+
+                  <div className="lg:col-span-2">
+                     <div className="flex items-center justify-between mb-2">
+                        <p className="text-xs font-bold text-gray-600 uppercase">Page {previewPage + 1} of {pageCount}</p>
+                        <div className="flex gap-1">
+                           <button onClick={() => setPreviewPage(Math.max(0, previewPage - 1))} disabled={previewPage === 0} className="px-2 py-1 text-sm rounded border border-gray-300 disabled:opacity-40">‹</button>
+                           <button onClick={() => setPreviewPage(Math.min(pageCount - 1, previewPage + 1))} disabled={previewPage >= pageCount - 1} className="px-2 py-1 text-sm rounded border border-gray-300 disabled:opacity-40">›</button>
+                        </div>
+                     </div>
+                     <div className="border border-gray-200 rounded shadow-sm bg-gray-50 min-h-[300px] flex items-center justify-center">
+                        {previewImage ? <img src={previewImage} alt={`Page ${previewPage + 1}`} className="w-full block" /> : <LoadingSpinner message="Rendering page..." />}
+                     </div>
+                  </div>
+               </div>
+            )}
+         </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatPdfTool;
@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { commentReportService, CommentEntry, CommentReportFormat } from '../../services/commentReportService';
+
+interface CommentSummaryToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+const FORMATS: { format: CommentReportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF report' },
+  { format: 'docx', label: 'Word (DOCX)' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'xfdf', label: 'XFDF' },
+];
+
+const UNKNOWN_AUTHOR = 'Unknown author';
+
+const uniqueSorted = (values: string[]) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+
+const CommentSummaryTool: React.FC<CommentSummaryToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
+  const [entries, setEntries] = useState<CommentEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState<CommentReportFormat | null>(null);
+  const [hiddenAuthors, setHiddenAuthors] = useState<string[]>([]);
+  const [hiddenTypes, setHiddenTypes] = useState<string[]>([]);
+  const loadedRef = useRef<string | null>(null);
+
+  const file = uploadedFiles[0];
+
+  // Read the comments once the file's contents are available
+  useEffect(() => {
+    if (!file) {
+      loadedRef.current = null;
+      setEntries(null);
+      setError(null);
+      return;
+    }
+    if (!file.arrayBuffer || loadedRef.current === file.id) return;
+    loadedRef.current = file.id;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      setHiddenAuthors([]);
+      setHiddenTypes([]);
+      try {
+        setEntries(await commentReportService.readComments(file));
+      } catch (e) {
+        console.error(e);
+        setEntries(null);
+        setError((e as Error).message || 'Could not read this PDF.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [file]);
+
+  const authors = uniqueSorted((entries || []).map(e => e.author));
+  const types = uniqueSorted((entries || []).map(e => e.type));
+  const filtered = entries
+    ? commentReportService.filterComments(entries, {
+        authors: authors.filter(a => !hiddenAuthors.includes(a)),
+        types: types.filter(t => !hiddenTypes.includes(t)),
+      })
+    : [];
+  const shownIds = new Set(filtered.map(e => e.id));
+
+  const toggle = (list: string[], setList: (values: string[]) => void, value: string) => {
+    setList(list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+  };
+
+  const handleExport = async (format: CommentReportFormat) => {
+    if (!file) return;
+    setExporting(format);
+    try {
+      const result = await commentReportService.exportComments(filtered, format, file.name);
+      const link = document.createElement('a');
+      link.href = result.dataUrl;
+      link.download = result.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (e) {
+      console.error(e);
+      alert('Could not create the export: ' + ((e as Error).message || 'unknown error'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderFilter = (title: string, values: string[], hidden: string[], setHidden: (values: string[]) => void, label = (v: string) => v) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-bold text-gray-500 uppercase">{title}</p>
+        <button onClick={() => setHidden(hidden.length ? [] : values)} className="text-xs text-blue-600 hover:underline">
+          {hidden.length ? 'Select all' : 'Clear'}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {values.map(value => (
+          <label key={value} className={`flex items-center px-2 py-1 rounded border text-sm cursor-pointer ${hidden.includes(value) ? 'border-gray-200 text-gray-400' : 'border-blue-200 bg-blue-50 text-blue-800'}`}>
+            <input type="checkbox" className="mr-1.5" checked={!hidden.includes(value)} onChange={() => toggle(hidden, setHidden, value)} />
+            {label(value)}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-4xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-amber-100 text-amber-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"/></svg>
+            </span>
+            Comment Summary
+        </h2>
+        <p className="text-gray-500">Collect every comment and markup in a reviewed PDF and export them as a report.</p>
+      </div>
+
+      {!file ? (
+         <div className="flex-grow flex flex-col justify-center">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={false} label="Drag & drop a reviewed PDF here" />
+         </div>
+      ) : (
+         <div className="flex-grow">
+            <div className="flex items-center justify-between p-4 border border-gray-200 bg-gray-50 rounded-lg mb-6">
+               <div className="overflow-hidden">
+                  <p className="font-medium text-gray-800 truncate max-w-md">{file.name}</p>
+                  <p className="text-xs text-gray-500">
+                     {error ? <span className="text-red-500 font-bold">{error}</span>
+                        : entries ? `${entries.length} comment${entries.length === 1 ? '' : 's'} by ${authors.length} author${authors.length === 1 ? '' : 's'}`
+                        : 'Reading comments...'}
+                  </p>
+               </div>
+               <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+            </div>
+
+            {loading && <LoadingSpinner message="Reading comments..." />}
+
+            {entries && entries.length === 0 && (
+               <p className="text-center text-gray-500 py-12">This PDF has no comments or markup.</p>
+            )}
+
+            {entries && entries.length > 0 && (
+               <>
+                  <div className="space-y-4 mb-6 p-4 border border-gray-200 rounded-lg">
+                     {renderFilter('Authors', authors, hiddenAuthors, setHiddenAuthors, a => a || UNKNOWN_AUTHOR)}
+                     {renderFilter('Types', types, hiddenTypes, setHiddenTypes)}
+                  </div>
+
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-[28rem] overflow-y-auto mb-6">
+                     {filtered.length === 0 && <p className="text-center text-gray-400 text-sm py-8">No comments match the filters.</p>}
+                     {filtered.map(entry => {
+                        const isReply = !!entry.replyTo && shownIds.has(entry.replyTo);
+                        return (
+                           <div key={entry.id} className={`p-3 text-sm ${isReply ? 'pl-10 bg-gray-50/60' : ''}`}>
+                              <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-500 mb-1">
+                                 <span className="font-bold text-gray-700">Page {entry.pageIndex + 1}</span>
+                                 <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">{isReply ? 'Reply' : entry.type}</span>
+                                 <span>{entry.author || UNKNOWN_AUTHOR}</span>
+                                 {entry.date && <span>{new Date(entry.date).toLocaleString()}</span>}
+                              </div>
+                              {entry.markedText && <p className="italic text-gray-500 border-l-2 border-amber-300 pl-2 mb-1">“{entry.markedText}”</p>}
+                              {entry.contents && <p className="text-gray-800 whitespace-pre-wrap">{entry.contents}</p>}
+                           </div>
+                        );
+                     })}
+                  </div>
+
+                  <div className="flex flex-wrap justify-center gap-3">
+                     {FORMATS.map(({ format, label }) => (
+                        <Button key={format} variant={format === 'pdf' ? 'primary' : 'outline'} onClick={() => handleExport(format)} loading={exporting === format} disabled={!!exporting || filtered.length === 0}>
+                           {label}
+                        </Button>
+                     ))}
+                  </div>
+                  <p className="text-xs text-gray-400 text-center mt-4">
+                     Exports include the {filtered.length} comment{filtered.length === 1 ? '' : 's'} shown. XFDF can be imported into Acrobat and other PDF readers.
+                  </p>
+               </>
+            )}
+         </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentSummaryTool;
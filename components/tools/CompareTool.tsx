@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { AppFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { compareService, describeChange, ComparisonResult, CompareWord, TextChange } from '../../services/compareService';
+import { FormWidgetRect } from '../../services/pdfEditorService';
+
+interface CompareToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+  onReorderFiles: (newOrder: AppFile[]) => void;
+}
+
+const CHANGE_STYLES: Record<TextChange['type'], string> = {
+  insert: 'text-green-700 bg-green-50 border-green-200',
+  delete: 'text-red-700 bg-red-50 border-red-200',
+  replace: 'text-amber-800 bg-amber-50 border-amber-200',
+};
+
+/** Boxes positioned in percent of the page so they follow the image at any display size. */
+const Overlay: React.FC<{ rects: FormWidgetRect[]; size: { width: number; height: number }; className: string; title?: string }> = ({ rects, size, className, title }) => (
+  <>
+    {rects.map((r, i) => (
+      <div
+        key={i}
+        title={title}
+        className={`absolute pointer-events-auto ${className}`}
+        style={{ left: `${(r.left / size.width) * 100}%`, top: `${(r.top / size.height) * 100}%`, width: `${(r.width / size.width) * 100}%`, height: `${(r.height / size.height) * 100}%` }}
+      />
+    ))}
+  </>
+);
+
+const CompareTool: React.FC<CompareToolProps> = ({ onUpload, uploadedFiles, onRemoveFile, onReorderFiles }) => {
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [pairIndex, setPairIndex] = useState(0);
+  const [showPixels, setShowPixels] = useState(true);
+  const [activeChange, setActiveChange] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState('');
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const [original, revised] = uploadedFiles;
+
+  // A different pair of files invalidates the comparison
+  useEffect(() => {
+    setResult(null);
+    setPairIndex(0);
+    setError(null);
+  }, [original?.id, revised?.id]);
+
+  const handleCompare = async () => {
+    if (!original || !revised) return;
+    if (!original.arrayBuffer || !revised.arrayBuffer) {
+      setError('The files are still loading. Please wait a moment and try again.');
+      return;
+    }
+    setLoading(true);
+    setLoadingMessage('Comparing text and rendering pages...');
+    setProgress(0);
+    setError(null);
+    try {
+      const comparison = await compareService.comparePdfs(original, revised, setProgress);
+      setResult(comparison);
+      // Start on the first page that differs
+      const first = comparison.pages.findIndex((p, i) => p.oldPage === undefined || p.newPage === undefined || p.visualChanges.length > 0 || changesOn(comparison, i).length > 0);
+      setPairIndex(Math.max(0, first));
+    } catch (e) {
+      console.error(e);
+      setError((e as Error).message || 'Could not compare these files.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!original || !revised || !result) return;
+    setLoading(true);
+    setLoadingMessage('Building the comparison report...');
+    try {
+      const report = await compareService.exportReport(original, revised, result);
+      const link = document.createElement('a');
+      link.href = report.dataUrl;
+      link.download = report.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (e) {
+      console.error(e);
+      alert('Could not create the report: ' + ((e as Error).message || 'unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changesOn = (comparison: ComparisonResult, index: number) => {
+    const pair = comparison.pages[index];
+    return comparison.changes.filter(c => c.oldWords.some(w => w.pageIndex === pair.oldPage) || c.newWords.some(w => w.pageIndex === pair.newPage));
+  };
+
+  const rectsOf = (words: CompareWord[], pageIndex: number | undefined) => words.filter(w => w.pageIndex === pageIndex).map(w => w.rect);
+
+  const jumpTo = (change: TextChange) => {
+    if (!result) return;
+    const index = result.pages.findIndex(p =>
+      change.newWords.some(w => w.pageIndex === p.newPage) || (change.newWords.length === 0 && change.oldWords.some(w => w.pageIndex === p.oldPage)));
+    if (index >= 0) setPairIndex(index);
+    setActiveChange(change.id);
+  };
+
+  const pair = result?.pages[pairIndex];
+  const pairChanges = result ? changesOn(result, pairIndex) : [];
+  const count = (type: TextChange['type']) => result?.changes.filter(c => c.type === type).length || 0;
+  const pageLabel = (index: number) => {
+    const p = result!.pages[index];
+    if (p.oldPage === undefined) return `Added page (revised p. ${p.newPage! + 1})`;
+    if (p.newPage === undefined) return `Removed page (original p. ${p.oldPage + 1})`;
+    return p.oldPage === p.newPage ? `Page ${p.newPage + 1}` : `Original p. ${p.oldPage + 1} ↔ revised p. ${p.newPage + 1}`;
+  };
+
+  const fileRow = (file: AppFile | undefined, role: string) => (
+    <div className="flex-1 flex items-center justify-between p-3 border border-gray-200 bg-gray-50 rounded-lg min-w-0">
+      <div className="overflow-hidden">
+        <p className="text-xs font-bold text-gray-500 uppercase">{role}</p>
+        <p className="font-medium text-gray-800 truncate">{file ? file.name : 'Not uploaded yet'}</p>
+      </div>
+      {file && <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500 ml-2"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>}
+    </div>
+  );
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-6xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-indigo-100 text-indigo-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2"/></svg>
+            </span>
+            Compare PDFs
+        </h2>
+        <p className="text-gray-500">See what changed between two versions of a document: text insertions and deletions, and changes to images and layout.</p>
+      </div>
+
+      {uploadedFiles.length < 2 && (
+         <div className="mb-6">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={true} label={original ? 'Now drop the revised PDF' : 'Drag & drop the original and the revised PDF'} />
+         </div>
+      )}
+
+      {original && (
+         <div className="flex flex-col md:flex-row items-stretch gap-3 mb-6">
+            {fileRow(original, 'Original')}
+            <button
+               onClick={() => revised && onReorderFiles([revised, original, ...uploadedFiles.slice(2)])}
+               disabled={!revised}
+               title="Swap original and revised"
+               className="self-center p-2 rounded-full text-gray-500 hover:bg-gray-100 disabled:opacity-40"
+            >
+               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"/></svg>
+            </button>
+            {fileRow(revised, 'Revised')}
+         </div>
+      )}
+      {uploadedFiles.length > 2 && <p className="text-xs text-gray-500 mb-4">Only the first two files are compared.</p>}
+
+      {error && <div className="p-3 mb-6 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>}
+
+      {loading ? (
+         <div>
+            <LoadingSpinner message={loadingMessage} />
+            {progress > 0 && progress < 100 && (
+               <div className="w-full max-w-md mx-auto h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-600 transition-all duration-300" style={{ width: `${progress}%` }}></div>
+               </div>
+            )}
+         </div>
+      ) : !result ? (
+         original && revised && (
+            <div className="flex justify-center">
+               <Button onClick={handleCompare}>Compare</Button>
+            </div>
+         )
+      ) : (
+         <div className="flex-grow">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+               <div className="flex flex-wrap gap-2 text-sm">
+                  {result.sameText ? (
+                     <span className="px-2 py-1 rounded border bg-gray-50 text-gray-700">Text is identical</span>
+                  ) : (
+                     <>
+                        <span className={`px-2 py-1 rounded border ${CHANGE_STYLES.insert}`}>{count('insert')} inserted</span>
+                        <span className={`px-2 py-1 rounded border ${CHANGE_STYLES.delete}`}>{count('delete')} deleted</span>
+                        <span className={`px-2 py-1 rounded border ${CHANGE_STYLES.replace}`}>{count('replace')} replaced</span>
+                     </>
+                  )}
+                  <span className="px-2 py-1 rounded border bg-orange-50 text-orange-700 border-orange-200">
+                     {result.pages.reduce((n, p) => n + p.visualChanges.length, 0)} visual changes
+                  </span>
+               </div>
+               <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setResult(null)}>Compare again</Button>
+                  <Button onClick={handleExport}>Export report</Button>
+               </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+               <Button variant="secondary" disabled={pairIndex === 0} onClick={() => setPairIndex(pairIndex - 1)}>Previous</Button>
+               <select value={pairIndex} onChange={e => setPairIndex(parseInt(e.target.value))} className="border border-gray-300 rounded-md px-3 py-2 text-sm">
+                  {result.pages.map((p, i) => {
+                     const changed = p.oldPage === undefined || p.newPage === undefined || p.visualChanges.length > 0 || changesOn(result, i).length > 0;
+                     return <option key={i} value={i}>{pageLabel(i)}{changed ? ' •' : ''}</option>;
+                  })}
+               </select>
+               <Button variant="secondary" disabled={pairIndex >= result.pages.length - 1} onClick={() => setPairIndex(pairIndex + 1)}>Next</Button>
+               <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto">
+                  <input type="checkbox" checked={showPixels} onChange={e => setShowPixels(e.target.checked)} className="rounded text-indigo-600" />
+                  Show pixel differences
+               </label>
+            </div>
+
+            {pair && (
+               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                  {[
+                     { label: 'Original', page: pair.oldPage, image: pair.oldImage, size: pair.oldSize, words: (c: TextChange) => c.oldWords, style: 'bg-red-500/30 border border-red-500' },
+                     { label: 'Revised', page: pair.newPage, image: pair.newImage, size: pair.newSize, words: (c: TextChange) => c.newWords, style: 'bg-green-500/30 border border-green-500' },
+                  ].map(side => (
+                     <div key={side.label}>
+                        <p className="text-xs font-bold text-gray-600 uppercase mb-2">{side.label}{side.page !== undefined ? ` · page ${side.page + 1}` : ''}</p>
+                        {side.image && side.size ? (
+                           <div className="relative border border-gray-200 shadow-sm">
+                              <img src={side.image} alt={`${side.label} page`} className="w-full block" />
+                              {side.label === 'Revised' && showPixels && pair.diffImage && <img src={pair.diffImage} alt="" className="absolute inset-0 w-full h-full pointer-events-none" />}
+                              {pairChanges.map(change => (
+                                 <Overlay
+                                    key={change.id}
+                                    rects={rectsOf(side.words(change), side.page)}
+                                    size={side.size!}
+                                    title={describeChange(change)}
+                                    className={`${side.style} ${activeChange === change.id ? 'ring-2 ring-indigo-500' : ''}`}
+                                 />
+                              ))}
+                              {side.label === 'Revised' && <Overlay rects={pair.visualChanges} size={side.size} title="Visual change" className="border-2 border-dashed border-orange-500" />}
+                           </div>
+                        ) : (
+                           <div className="h-64 flex items-center justify-center border-2 border-dashed border-gray-200 rounded text-gray-400 text-sm">
+                              {side.label === 'Original' ? 'Page added in the revision' : 'Page removed in the revision'}
+                           </div>
+                        )}
+                     </div>
+                  ))}
+               </div>
+            )}
+
+            <div>
+               <p className="text-xs font-bold text-gray-600 uppercase mb-2">Text changes ({result.changes.length})</p>
+               {result.changes.length === 0 && <p className="text-sm text-gray-400">No text changes.</p>}
+               <ul className="space-y-1 max-h-72 overflow-y-auto">
+                  {result.changes.map(change => (
+                     <li key={change.id}>
+                        <button
+                           onClick={() => jumpTo(change)}
+                           className={`w-full text-left text-sm px-3 py-2 rounded border ${CHANGE_STYLES[change.type]} ${activeChange === change.id ? 'ring-2 ring-indigo-400' : ''}`}
+                        >
+                           <span className="text-xs text-gray-500 mr-2">
+                              {change.newWords[0] ? `p. ${change.newWords[0].pageIndex + 1}` : `orig. p. ${change.oldWords[0].pageIndex + 1}`}
+                           </span>
+                           {describeChange(change)}
+                        </button>
+                     </li>
+                  ))}
+               </ul>
+            </div>
+         </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareTool;
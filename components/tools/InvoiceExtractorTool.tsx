@@ -0,0 +1,260 @@
+import React, { useState, useCallback } from 'react';
+import { AppFile, ProcessedFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import FilePreviewCard from '../FilePreviewCard';
+import { invoiceService, InvoiceExtraction, InvoiceExportFormat } from '../../services/invoiceService';
+
+interface InvoiceExtractorToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+const EXPORT_FORMATS: { format: InvoiceExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+];
+
+const formatMoney = (value: number | undefined, currency?: string) =>
+  value === undefined ? '—' : `${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}${currency ? ` ${currency}` : ''}`;
+
+const downloadFile = (file: ProcessedFile) => {
+  const link = document.createElement('a');
+  link.href = file.dataUrl;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const InvoiceExtractorTool: React.FC<InvoiceExtractorToolProps> = ({
+  onUpload,
+  uploadedFiles,
+  onRemoveFile,
+}) => {
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [results, setResults] = useState<InvoiceExtraction[]>([]);
+  const [failures, setFailures] = useState<{ fileName: string; message: string }[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [exporting, setExporting] = useState<InvoiceExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExtract = useCallback(async () => {
+    setError(null);
+    setResults([]);
+    setFailures([]);
+    setExpanded(null);
+    if (uploadedFiles.length === 0) {
+      setError('Please upload at least one invoice or receipt.');
+      return;
+    }
+    if (uploadedFiles.some(file => !file.arrayBuffer)) {
+      setError('File content not loaded yet. Please wait for the files to finish processing or try re-uploading.');
+      return;
+    }
+
+    setLoading(true);
+    const extracted: InvoiceExtraction[] = [];
+    const failed: { fileName: string; message: string }[] = [];
+    try {
+      for (let i = 0; i < uploadedFiles.length; i++) {
+        const file = uploadedFiles[i];
+        const prefix = uploadedFiles.length > 1 ? `File ${i + 1} of ${uploadedFiles.length}: ` : '';
+        try {
+          extracted.push(await invoiceService.extractInvoice(file, message => setProgress(prefix + message)));
+        } catch (e) {
+          let errorMessage = (e as Error).message;
+          if (errorMessage.includes("API_KEY is not set")) {
+            // Every other file would fail the same way
+            throw new Error("API key not found. Add your Google Gemini API key in AI settings or the AI Studio sidebar, or switch to a local provider.");
+          }
+          console.error(e);
+          failed.push({ fileName: file.name, message: errorMessage });
+        }
+        setResults([...extracted]);
+        setFailures([...failed]);
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+      setProgress('');
+    }
+  }, [uploadedFiles]);
+
+  const handleExport = useCallback(async (format: InvoiceExportFormat) => {
+    setExporting(format);
+    try {
+      const baseName = results.length === 1 ? results[0].fileName.replace(/\.[^.]+$/, '') : 'invoices';
+      downloadFile(await invoiceService.exportInvoices(results, format, baseName));
+    } catch (e) {
+      console.error(e);
+      setError(`Export failed: ${(e as Error).message}`);
+    } finally {
+      setExporting(null);
+    }
+  }, [results]);
+
+  const acceptedFileTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+  const errorCount = (result: InvoiceExtraction) => result.issues.filter(issue => issue.severity === 'error').length;
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-5xl mx-auto">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Invoice & Receipt Extractor</h2>
+      <p className="text-gray-600 mb-6">
+        Upload invoices or receipts (PDFs or photos). The vendor, invoice number, dates, line items, tax and totals are read into a table, the math is checked, and everything can be downloaded as JSON, CSV or Excel with one row per invoice.
+      </p>
+
+      <Dropzone
+        onFilesSelected={onUpload}
+        acceptedFileTypes={acceptedFileTypes}
+        multiple={true}
+        label="Drag & drop invoices or receipts here, or click to select"
+      />
+
+      {uploadedFiles.length > 0 && (
+        <div className="mt-6 border-t pt-6">
+          <h3 className="text-xl font-semibold text-gray-800 mb-4">Uploaded Files ({uploadedFiles.length})</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            {uploadedFiles.map((file) => (
+              <FilePreviewCard key={file.id} file={file} onRemove={onRemoveFile} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-100 text-red-700 rounded-md">
+          <p className="font-medium">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-center">
+        <Button onClick={handleExtract} disabled={uploadedFiles.length === 0 || loading} loading={loading}>
+          Extract Invoice Data
+        </Button>
+      </div>
+
+      {loading && <LoadingSpinner message={progress || 'Reading invoices, please wait...'} />}
+
+      {(results.length > 0 || failures.length > 0) && (
+        <div className="mt-8">
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-bold text-gray-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2">File</th>
+                  <th className="px-3 py-2">Vendor</th>
+                  <th className="px-3 py-2">Number</th>
+                  <th className="px-3 py-2">Date</th>
+                  <th className="px-3 py-2 text-right">Tax</th>
+                  <th className="px-3 py-2 text-right">Total</th>
+                  <th className="px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {results.map((result, i) => (
+                  <React.Fragment key={i}>
+                    <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(expanded === i ? null : i)}>
+                      <td className="px-3 py-2 text-gray-700 truncate max-w-[12rem]" title={result.fileName}>{result.fileName}</td>
+                      <td className="px-3 py-2 font-medium text-gray-800">{result.data.vendorName || '—'}</td>
+                      <td className="px-3 py-2 text-gray-700">{result.data.invoiceNumber || '—'}</td>
+                      <td className="px-3 py-2 text-gray-700">{result.data.invoiceDate || '—'}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{formatMoney(result.data.tax, result.data.currency)}</td>
+                      <td className="px-3 py-2 text-right font-semibold text-gray-800">{formatMoney(result.data.total, result.data.currency)}</td>
+                      <td className="px-3 py-2">
+                        {errorCount(result) > 0 ? (
+                          <span className="px-2 py-1 rounded text-xs font-bold bg-red-100 text-red-700">Mismatch</span>
+                        ) : result.issues.length > 0 ? (
+                          <span className="px-2 py-1 rounded text-xs font-bold bg-amber-100 text-amber-700">Review</span>
+                        ) : (
+                          <span className="px-2 py-1 rounded text-xs font-bold bg-green-100 text-green-700">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded === i && (
+                      <tr>
+                        <td colSpan={7} className="px-3 py-4 bg-gray-50">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs text-gray-600 mb-3">
+                            <p><span className="font-semibold">Type:</span> {result.data.documentType}</p>
+                            <p><span className="font-semibold">Due:</span> {result.data.dueDate || '—'}</p>
+                            <p><span className="font-semibold">Tax ID:</span> {result.data.vendorTaxId || '—'}</p>
+                            {result.data.vendorAddress && <p className="md:col-span-3"><span className="font-semibold">Address:</span> {result.data.vendorAddress}</p>}
+                          </div>
+                          {result.data.lineItems.length > 0 && (
+                            <table className="w-full text-xs mb-3">
+                              <thead className="text-left text-gray-500">
+                                <tr>
+                                  <th className="py-1">Description</th>
+                                  <th className="py-1 text-right">Qty</th>
+                                  <th className="py-1 text-right">Unit price</th>
+                                  <th className="py-1 text-right">Amount</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {result.data.lineItems.map((item, n) => (
+                                  <tr key={n} className="border-t border-gray-200">
+                                    <td className="py-1 pr-2">{item.description}</td>
+                                    <td className="py-1 text-right">{item.quantity ?? ''}</td>
+                                    <td className="py-1 text-right">{item.unitPrice !== undefined ? formatMoney(item.unitPrice) : ''}</td>
+                                    <td className="py-1 text-right">{formatMoney(item.amount)}</td>
+                                  </tr>
+                                ))}
+                                {([['Subtotal', result.data.subtotal], ['Shipping', result.data.shipping], ['Discount', result.data.discount], ['Tax', result.data.tax], ['Total', result.data.total]] as [string, number | undefined][])
+                                  .filter(([, value]) => value !== undefined)
+                                  .map(([label, value]) => (
+                                    <tr key={label} className="border-t border-gray-200 font-semibold">
+                                      <td className="py-1" colSpan={3}>{label}</td>
+                                      <td className="py-1 text-right">{formatMoney(value, result.data.currency)}</td>
+                                    </tr>
+                                  ))}
+                              </tbody>
+                            </table>
+                          )}
+                          {result.issues.length > 0 && (
+                            <ul className="space-y-1">
+                              {result.issues.map((issue, n) => (
+                                <li key={n} className={`text-xs ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}>
+                                  {issue.severity === 'error' ? '✕' : '!'} {issue.message}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+                {failures.map((failure, i) => (
+                  <tr key={`failed-${i}`}>
+                    <td className="px-3 py-2 text-gray-700 truncate max-w-[12rem]" title={failure.fileName}>{failure.fileName}</td>
+                    <td className="px-3 py-2 text-red-600 text-xs" colSpan={5}>{failure.message}</td>
+                    <td className="px-3 py-2"><span className="px-2 py-1 rounded text-xs font-bold bg-red-100 text-red-700">Failed</span></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">Click a row to see line items and checks. Always compare flagged invoices with the original before paying.</p>
+
+          {results.length > 0 && !loading && (
+            <div className="mt-4 flex flex-wrap justify-center gap-2">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <Button key={format} onClick={() => handleExport(format)} variant="secondary" loading={exporting === format} disabled={!!exporting}>
+                  Download {label}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceExtractorTool;
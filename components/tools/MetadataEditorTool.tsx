@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppFile, ProcessedFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { metadataService, PdfMetadata } from '../../services/metadataService';
+
+interface MetadataEditorToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+type TextField = 'title' | 'author' | 'subject' | 'keywords' | 'creator' | 'producer';
+
+const TEXT_FIELDS: { key: TextField; label: string; placeholder?: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'author', label: 'Author' },
+  { key: 'subject', label: 'Subject' },
+  { key: 'keywords', label: 'Keywords', placeholder: 'Separated by commas' },
+  { key: 'creator', label: 'Creator', placeholder: 'Application the document was made with' },
+  { key: 'producer', label: 'Producer', placeholder: 'Application that wrote the PDF' },
+];
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+const MetadataEditorTool: React.FC<MetadataEditorToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
+  const [metadata, setMetadata] = useState<PdfMetadata | null>(null);
+  const [customRows, setCustomRows] = useState<{ key: string; value: string }[]>([]);
+  const [xmp, setXmp] = useState<string | undefined>();
+  const [touchModified, setTouchModified] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const loadedRef = useRef<string | null>(null);
+
+  const file = uploadedFiles[0];
+
+  useEffect(() => {
+    if (!file) {
+      loadedRef.current = null;
+      setMetadata(null);
+      setError(null);
+      return;
+    }
+    if (!file.arrayBuffer || loadedRef.current === file.id) return;
+    loadedRef.current = file.id;
+
+    const load = async () => {
+      setLoading(true);
+      setLoadingMessage('Reading document properties...');
+      setError(null);
+      try {
+        const result = await metadataService.readMetadata(file);
+        setMetadata(result.metadata);
+        setCustomRows(Object.entries(result.metadata.custom).map(([key, value]) => ({ key, value })));
+        setXmp(result.xmp);
+      } catch (e) {
+        console.error(e);
+        setError((e as Error).message || 'Could not read this PDF.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [file]);
+
+  const download = (result: ProcessedFile, suffix: string) => {
+    const link = document.createElement('a');
+    link.href = result.dataUrl;
+    link.download = result.name.replace(/\.pdf$/i, `${suffix}.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleSave = async () => {
+    if (!file || !metadata) return;
+    setLoading(true);
+    setLoadingMessage('Saving document properties...');
+    try {
+      const custom: Record<string, string> = {};
+      customRows.forEach(({ key, value }) => {
+        if (key.trim()) custom[key.trim()] = value;
+      });
+      const result = await metadataService.applyMetadata(file, {
+        ...metadata,
+        modificationDate: touchModified ? new Date().toISOString() : metadata.modificationDate,
+        custom,
+      });
+      download(result, '_metadata');
+    } catch (e) {
+      console.error(e);
+      alert('Could not save the PDF: ' + ((e as Error).message || 'unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStrip = async () => {
+    if (!file) return;
+    setLoading(true);
+    setLoadingMessage('Removing metadata...');
+    try {
+      download(await metadataService.stripMetadataFromFile(file), '_clean');
+    } catch (e) {
+      console.error(e);
+      alert('Could not strip the metadata: ' + ((e as Error).message || 'unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-4xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-orange-100 text-orange-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"/></svg>
+            </span>
+            Edit Metadata
+        </h2>
+        <p className="text-gray-500">Set the title, author, keywords and dates of a PDF before publishing it, or remove all metadata.</p>
+      </div>
+
+      {!file ? (
+         <div className="flex-grow flex flex-col justify-center">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={false} label="Drag & drop a PDF here" />
+         </div>
+      ) : (
+         <div className="flex-grow">
+            <div className="flex items-center justify-between p-4 border border-gray-200 bg-gray-50 rounded-lg mb-6">
+               <div className="overflow-hidden">
+                  <p className="font-medium text-gray-800 truncate max-w-md">{file.name}</p>
+                  <p className="text-xs text-gray-500">
+                     {error ? <span className="text-red-500 font-bold">{error}</span> : xmp ? 'Document info and XMP metadata' : 'Document info only (no XMP packet yet)'}
+                  </p>
+               </div>
+               <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+            </div>
+
+            {loading ? <LoadingSpinner message={loadingMessage} /> : metadata && (
+               <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                     {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+                        <div key={key} className={key === 'title' || key === 'subject' ? 'md:col-span-2' : ''}>
+                           <label className="text-xs font-bold text-gray-600 uppercase block mb-1">{label}</label>
+                           <input value={metadata[key]} placeholder={placeholder} onChange={e => setMetadata({ ...metadata, [key]: e.target.value })} className={inputClass} />
+                        </div>
+                     ))}
+                     <div>
+                        <label className="text-xs font-bold text-gray-600 uppercase block mb-1">Created</label>
+                        <input type="datetime-local" value={toLocalInput(metadata.creationDate)} onChange={e => setMetadata({ ...metadata, creationDate: fromLocalInput(e.target.value) })} className={inputClass} />
+                     </div>
+                     <div>
+                        <label className="text-xs font-bold text-gray-600 uppercase block mb-1">Modified</label>
+                        <input type="datetime-local" value={toLocalInput(metadata.modificationDate)} disabled={touchModified} onChange={e => setMetadata({ ...metadata, modificationDate: fromLocalInput(e.target.value) })} className={`${inputClass} disabled:bg-gray-100 disabled:text-gray-400`} />
+                        <label className="flex items-center gap-2 text-xs text-gray-600 mt-1">
+                           <input type="checkbox" checked={touchModified} onChange={e => setTouchModified(e.target.checked)} className="rounded text-blue-600" />
+                           Set to the time of saving
+                        </label>
+                     </div>
+                  </div>
+
+                  <div className="mb-6">
+                     <div className="flex items-center justify-between mb-2">
+                        <p className="text-xs font-bold text-gray-600 uppercase">Custom properties</p>
+                        <button onClick={() => setCustomRows([...customRows, { key: '', value: '' }])} className="text-xs text-blue-600 hover:underline">Add property</button>
+                     </div>
+                     {customRows.length === 0 && <p className="text-sm text-gray-400">None.</p>}
+                     <div className="space-y-2">
+                        {customRows.map((row, i) => (
+                           <div key={i} className="flex gap-2">
+                              <input value={row.key} placeholder="Name" onChange={e => setCustomRows(customRows.map((r, j) => (j === i ? { ...r, key: e.target.value } : r)))} className={`${inputClass} md:w-1/3`} />
+                              <input value={row.value} placeholder="Value" onChange={e => setCustomRows(customRows.map((r, j) => (j === i ? { ...r, value: e.target.value } : r)))} className={inputClass} />
+                              <button onClick={() => setCustomRows(customRows.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-500 px-2"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                           </div>
+                        ))}
+                     </div>
+                  </div>
+
+                  {xmp && (
+                     <details className="mb-6 text-sm">
+                        <summary className="cursor-pointer text-gray-600">Show the current XMP packet</summary>
+                        <pre className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded text-xs overflow-auto max-h-64 whitespace-pre-wrap">{xmp.trim()}</pre>
+                     </details>
+                  )}
+
+                  <div className="flex flex-wrap justify-center gap-4">
+                     <Button onClick={handleSave}>Save PDF</Button>
+                     <Button variant="danger" onClick={handleStrip}>Strip all metadata</Button>
+                  </div>
+                  <p className="text-xs text-gray-400 text-center mt-4">
+                     Stripping removes the document info, XMP packets, application data and page thumbnails. The page content is not changed.
+                  </p>
+               </>
+            )}
+         </div>
+      )}
+    </div>
+  );
+};
+
+export default MetadataEditorTool;
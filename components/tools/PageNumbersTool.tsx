@@ -0,0 +1,329 @@
+import React, { useState, useEffect } from 'react';
+import { AppFile, ProcessedFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { pageStampService, PageStampSettings, StampAnchor, StampPageFilter, STAMP_ANCHORS, STAMP_VARIABLES } from '../../services/pageStampService';
+import { pdfService } from '../../services/pdfService';
+import { fontService } from '../../services/fontService';
+
+interface PageNumbersToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+type Preset = 'numbers' | 'bates' | 'custom';
+
+const PRESETS: Record<Exclude<Preset, 'custom'>, Partial<Record<StampAnchor, string>>> = {
+  numbers: { 'bottom-center': 'Page {n} of {N}' },
+  bates: { 'bottom-right': '{bates}' },
+};
+
+const ANCHOR_LABELS: Record<StampAnchor, string> = {
+  'top-left': 'Top left',
+  'top-center': 'Top center',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-center': 'Bottom center',
+  'bottom-right': 'Bottom right',
+};
+
+const PageNumbersTool: React.FC<PageNumbersToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
+  const [preset, setPreset] = useState<Preset>('numbers');
+  const [settings, setSettings] = useState<PageStampSettings>({
+    templates: PRESETS.numbers,
+    fontFamily: 'Helvetica',
+    fontSize: 10,
+    color: '#000000',
+    marginX: 36,
+    marginY: 24,
+    startNumber: 1,
+    skipFirstPage: false,
+    pageFilter: 'all',
+    pageRange: '',
+    bates: { prefix: 'ABC', suffix: '', start: 1, digits: 6 },
+  });
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [processingStatus, setProcessingStatus] = useState('');
+  const [processedFiles, setProcessedFiles] = useState<ProcessedFile[]>([]);
+  const [nextBates, setNextBates] = useState<number | null>(null);
+
+  // Rendered at scale 1, so one preview pixel is one PDF point
+  useEffect(() => {
+    if (uploadedFiles.length > 0 && uploadedFiles[0].arrayBuffer) {
+      pdfService.renderPage(uploadedFiles[0], 0, 1.0).then(setPreviewUrl);
+    } else {
+      setPreviewUrl(null);
+      setPreviewSize(null);
+    }
+    setProcessedFiles([]);
+  }, [uploadedFiles]);
+
+  const update = (changes: Partial<PageStampSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const choosePreset = (value: Preset) => {
+    setPreset(value);
+    if (value !== 'custom') update({ templates: PRESETS[value] });
+  };
+
+  const setTemplate = (anchor: StampAnchor, value: string) => {
+    setPreset('custom');
+    update({ templates: { ...settings.templates, [anchor]: value } });
+  };
+
+  const usesBates = STAMP_ANCHORS.some(a => settings.templates[a]?.includes('{bates}'));
+
+  const handleProcess = async () => {
+    if (uploadedFiles.length === 0) return;
+    setLoading(true);
+    setProcessedFiles([]);
+    try {
+      const results: ProcessedFile[] = [];
+      let bates = settings.bates.start;
+      // Files are numbered in the order they are listed, continuing the Bates sequence
+      for (let i = 0; i < uploadedFiles.length; i++) {
+        setProcessingStatus(`Numbering file ${i + 1} of ${uploadedFiles.length}...`);
+        await new Promise(r => setTimeout(r, 10));
+        const result = await pageStampService.stampPdf(uploadedFiles[i], settings, bates);
+        bates = result.nextBatesNumber;
+        results.push(result.file);
+      }
+      setProcessedFiles(results);
+      setNextBates(usesBates ? bates : null);
+    } catch (e) {
+      alert((e as Error).message);
+    } finally {
+      setLoading(false);
+      setProcessingStatus('');
+    }
+  };
+
+  const handleDownloadAll = () => {
+    processedFiles.forEach(file => {
+      const link = document.createElement('a');
+      link.href = file.dataUrl;
+      link.download = file.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    });
+  };
+
+  // Preview of the first page of the first file, when the filters select it
+  let previewValues: Record<string, string> | null = null;
+  let rangeError: string | null = null;
+  try {
+    if (previewSize && pageStampService.selectPages(1, settings).includes(0)) {
+      const name = uploadedFiles[0]?.name.replace(/\.pdf$/i, '') || '';
+      previewValues = {
+        n: String(settings.startNumber),
+        N: '…',
+        bates: pageStampService.formatBates(settings.bates.start, settings.bates),
+        filename: name,
+        title: name,
+        date: new Date().toLocaleDateString(),
+      };
+    }
+  } catch (e) {
+    rangeError = (e as Error).message;
+  }
+
+  const inputClass = 'w-full border border-gray-300 rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+  const labelClass = 'block text-xs font-bold text-gray-500 uppercase mb-1';
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-6xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-teal-100 text-teal-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14"/></svg>
+            </span>
+            Page Numbers & Bates
+        </h2>
+        <p className="text-gray-500">Add page numbers, Bates numbers and header or footer text to one or more PDFs.</p>
+      </div>
+
+      {uploadedFiles.length === 0 ? (
+         <div className="flex-grow flex flex-col justify-center">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={true} label="Drag & drop PDFs to number" />
+         </div>
+      ) : (
+         <div className="flex-grow grid grid-cols-1 lg:grid-cols-[22rem_1fr] gap-6">
+            <div className="space-y-5">
+               <div>
+                  <label className={labelClass}>Style</label>
+                  <div className="grid grid-cols-3 gap-1 bg-gray-100 p-1 rounded-lg">
+                     {(['numbers', 'bates', 'custom'] as Preset[]).map(value => (
+                        <button key={value} onClick={() => choosePreset(value)} className={`py-1.5 text-sm rounded-md ${preset === value ? 'bg-white shadow font-semibold text-blue-700' : 'text-gray-600'}`}>
+                           {value === 'numbers' ? 'Page numbers' : value === 'bates' ? 'Bates' : 'Custom'}
+                        </button>
+                     ))}
+                  </div>
+               </div>
+
+               <div>
+                  <label className={labelClass}>Header</label>
+                  <div className="grid grid-cols-3 gap-2 mb-3">
+                     {STAMP_ANCHORS.slice(0, 3).map(anchor => (
+                        <input key={anchor} value={settings.templates[anchor] || ''} onChange={e => setTemplate(anchor, e.target.value)} placeholder={ANCHOR_LABELS[anchor]} className={inputClass} />
+                     ))}
+                  </div>
+                  <label className={labelClass}>Footer</label>
+                  <div className="grid grid-cols-3 gap-2">
+                     {STAMP_ANCHORS.slice(3).map(anchor => (
+                        <input key={anchor} value={settings.templates[anchor] || ''} onChange={e => setTemplate(anchor, e.target.value)} placeholder={ANCHOR_LABELS[anchor]} className={inputClass} />
+                     ))}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">
+                     {STAMP_VARIABLES.map(v => <span key={v.token} className="mr-2 whitespace-nowrap"><code className="text-gray-600">{v.token}</code> {v.description.toLowerCase()}</span>)}
+                  </p>
+               </div>
+
+               {usesBates && (
+                  <div className="grid grid-cols-2 gap-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                     <div>
+                        <label className={labelClass}>Prefix</label>
+                        <input value={settings.bates.prefix} onChange={e => update({ bates: { ...settings.bates, prefix: e.target.value } })} className={inputClass} />
+                     </div>
+                     <div>
+                        <label className={labelClass}>Suffix</label>
+                        <input value={settings.bates.suffix} onChange={e => update({ bates: { ...settings.bates, suffix: e.target.value } })} className={inputClass} />
+                     </div>
+                     <div>
+                        <label className={labelClass}>Start number</label>
+                        <input type="number" min="0" value={settings.bates.start} onChange={e => update({ bates: { ...settings.bates, start: Math.max(0, parseInt(e.target.value) || 0) } })} className={inputClass} />
+                     </div>
+                     <div>
+                        <label className={labelClass}>Digits</label>
+                        <input type="number" min="1" max="12" value={settings.bates.digits} onChange={e => update({ bates: { ...settings.bates, digits: Math.min(12, Math.max(1, parseInt(e.target.value) || 1)) } })} className={inputClass} />
+                     </div>
+                     <p className="col-span-2 text-xs text-gray-500">
+                        First number: <span className="font-mono">{pageStampService.formatBates(settings.bates.start, settings.bates)}</span>. Numbering continues across the files in the order listed.
+                     </p>
+                  </div>
+               )}
+
+               <div className="grid grid-cols-2 gap-3">
+                  <div className="col-span-2">
+                     <label className={labelClass}>Font</label>
+                     <select
+                        value={settings.fontFamily}
+                        onChange={e => {
+                           update({ fontFamily: e.target.value });
+                           fontService.loadForDisplay(e.target.value).catch(err => console.error('Failed to load font preview', err));
+                        }}
+                        className={inputClass}
+                     >
+                        {fontService.listFamilies().map(f => <option key={f.name} value={f.name}>{f.name}{f.description ? ` (${f.description})` : ''}</option>)}
+                     </select>
+                  </div>
+                  <div>
+                     <label className={labelClass}>Size</label>
+                     <input type="number" min="4" max="72" value={settings.fontSize} onChange={e => update({ fontSize: Math.max(4, parseInt(e.target.value) || 4) })} className={inputClass} />
+                  </div>
+                  <div>
+                     <label className={labelClass}>Color</label>
+                     <input type="color" value={settings.color} onChange={e => update({ color: e.target.value })} className="h-9 w-full border border-gray-300 rounded cursor-pointer" />
+                  </div>
+                  <div>
+                     <label className={labelClass}>Side margin (pt)</label>
+                     <input type="number" min="0" value={settings.marginX} onChange={e => update({ marginX: Math.max(0, parseInt(e.target.value) || 0) })} className={inputClass} />
+                  </div>
+                  <div>
+                     <label className={labelClass}>Top/bottom margin (pt)</label>
+                     <input type="number" min="0" value={settings.marginY} onChange={e => update({ marginY: Math.max(0, parseInt(e.target.value) || 0) })} className={inputClass} />
+                  </div>
+               </div>
+
+               <div className="grid grid-cols-2 gap-3">
+                  <div>
+                     <label className={labelClass}>Pages</label>
+                     <select value={settings.pageFilter} onChange={e => update({ pageFilter: e.target.value as StampPageFilter })} className={inputClass}>
+                        <option value="all">All pages</option>
+                        <option value="odd">Odd pages only</option>
+                        <option value="even">Even pages only</option>
+                     </select>
+                  </div>
+                  <div>
+                     <label className={labelClass}>Number of first page</label>
+                     <input type="number" value={settings.startNumber} onChange={e => update({ startNumber: parseInt(e.target.value) || 0 })} className={inputClass} />
+                  </div>
+                  <div className="col-span-2">
+                     <label className={labelClass}>Page range</label>
+                     <input value={settings.pageRange} onChange={e => update({ pageRange: e.target.value })} placeholder="All, or e.g. 1-3, 7, 10-" className={`${inputClass} ${rangeError ? 'border-red-400' : ''}`} />
+                     {rangeError && <p className="text-xs text-red-500 mt-1">{rangeError}</p>}
+                  </div>
+                  <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                     <input type="checkbox" checked={settings.skipFirstPage} onChange={e => update({ skipFirstPage: e.target.checked })} className="rounded text-blue-600" />
+                     Skip the first page (cover)
+                  </label>
+               </div>
+            </div>
+
+            <div className="flex flex-col min-w-0">
+               <div className="space-y-2 mb-4">
+                  {uploadedFiles.map((file, i) => (
+                     <div key={file.id} className="flex items-center justify-between px-3 py-2 border border-gray-200 bg-gray-50 rounded-lg text-sm">
+                        <span className="truncate"><span className="text-gray-400 mr-2">{i + 1}.</span>{file.name}</span>
+                        <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500 ml-2"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                     </div>
+                  ))}
+                  <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={true} label="Add more PDFs" />
+               </div>
+
+               <div className="flex-grow bg-gray-100 rounded-lg p-4 overflow-auto flex justify-center items-start">
+                  {previewUrl ? (
+                     <div className="relative shadow-lg bg-white shrink-0" style={previewSize ? { width: previewSize.width, height: previewSize.height } : undefined}>
+                        <img src={previewUrl} alt="First page" className="block" onLoad={e => setPreviewSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })} />
+                        {previewValues && STAMP_ANCHORS.filter(a => settings.templates[a]?.trim()).map(anchor => {
+                           const [vertical, horizontal] = anchor.split('-');
+                           return (
+                              <div
+                                 key={anchor}
+                                 className="absolute whitespace-nowrap leading-none pointer-events-none"
+                                 style={{
+                                    [vertical]: settings.marginY,
+                                    ...(horizontal === 'center' ? { left: '50%', transform: 'translateX(-50%)' } : { [horizontal]: settings.marginX }),
+                                    fontFamily: settings.fontFamily,
+                                    fontSize: settings.fontSize,
+                                    color: settings.color,
+                                 }}
+                              >
+                                 {pageStampService.fillTemplate(settings.templates[anchor]!, previewValues!)}
+                              </div>
+                           );
+                        })}
+                     </div>
+                  ) : (
+                     <LoadingSpinner message="Loading PDF Preview..." />
+                  )}
+               </div>
+
+               <div className="flex items-center justify-between mt-4">
+                  <div className="text-sm text-gray-500">
+                     {processedFiles.length > 0
+                        ? <span className="text-green-600 font-bold">{processedFiles.length} file{processedFiles.length === 1 ? '' : 's'} numbered{nextBates !== null && `, next Bates number ${pageStampService.formatBates(nextBates, settings.bates)}`}</span>
+                        : <span>Ready to process {uploadedFiles.length} file(s)</span>}
+                  </div>
+                  {processedFiles.length > 0 ? (
+                     <div className="flex space-x-3">
+                        <Button onClick={() => setProcessedFiles([])} variant="secondary">Reset</Button>
+                        <Button onClick={handleDownloadAll} className="bg-green-600 hover:bg-green-700">Download Files</Button>
+                     </div>
+                  ) : (
+                     <Button onClick={handleProcess} disabled={loading || !!rangeError || !STAMP_ANCHORS.some(a => settings.templates[a]?.trim())} loading={loading}>
+                        {loading ? processingStatus : 'Add Numbers'}
+                     </Button>
+                  )}
+               </div>
+            </div>
+         </div>
+      )}
+    </div>
+  );
+};
+
+export default PageNumbersTool;
@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { AppFile, ProcessedFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { pdfService, OrganizerPage, PAGE_SIZES } from '../../services/pdfService';
+import { fileToArrayBuffer } from '../../utils/fileUtils';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+
+interface PageOrganizerToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+// Each card needs a stable id for drag-and-drop, independent of its position
+type OrganizerItem = OrganizerPage & { id: string };
+
+const BLANK_SIZE_LABELS: Record<string, string> = {
+  'a4': 'A4',
+  'letter': 'Letter',
+  'a3': 'A3',
+};
+
+const thumbKey = (sourceId: string, pageIndex: number) => `${sourceId}:${pageIndex}`;
+
+const PageOrganizerTool: React.FC<PageOrganizerToolProps> = ({
+  onUpload,
+  uploadedFiles,
+  onRemoveFile,
+}) => {
+  const [items, setItems] = useState<OrganizerItem[]>([]);
+  const [sources, setSources] = useState<AppFile[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [insertPosition, setInsertPosition] = useState<number>(-1); // -1 = end of document
+  const [blankSize, setBlankSize] = useState('a4');
+  const [blankLandscape, setBlankLandscape] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [processingStatus, setProcessingStatus] = useState('');
+  const [processedFile, setProcessedFile] = useState<ProcessedFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const insertInputRef = useRef<HTMLInputElement>(null);
+
+  const mainFile = uploadedFiles[0];
+
+  const renderThumbnails = useCallback(async (file: AppFile, count: number) => {
+    // Render sequentially so large documents don't spin up dozens of pdf.js instances at once
+    for (let i = 0; i < count; i++) {
+      try {
+        const dataUrl = await pdfService.renderPage(file, i, 0.3);
+        setThumbnails(prev => ({ ...prev, [thumbKey(file.id, i)]: dataUrl }));
+      } catch (e) {
+        console.error(`Error previewing page ${i + 1} of ${file.name}`, e);
+      }
+    }
+  }, []);
+
+  const pagesFor = (file: AppFile, count: number): OrganizerItem[] =>
+    Array.from({ length: count }, (_, pageIndex) => ({
+      id: crypto.randomUUID(),
+      kind: 'page',
+      sourceId: file.id,
+      pageIndex,
+      rotation: 0,
+    }));
+
+  // Load the main document when it arrives
+  useEffect(() => {
+    const loadDocument = async () => {
+      if (mainFile && mainFile.arrayBuffer) {
+        try {
+          setError(null);
+          const count = await pdfService.getPageCount(mainFile);
+          setSources([mainFile]);
+          setItems(pagesFor(mainFile, count));
+          setInsertPosition(-1);
+          renderThumbnails(mainFile, count);
+        } catch (e) {
+          setError('Failed to load PDF structure. The file might be corrupted or encrypted.');
+        }
+      } else {
+        setItems([]);
+        setSources([]);
+        setThumbnails({});
+        setProcessedFile(null);
+      }
+    };
+    loadDocument();
+  }, [mainFile?.id, mainFile?.arrayBuffer, renderThumbnails]);
+
+  const insertItems = (newItems: OrganizerItem[]) => {
+    setItems(prev => {
+      const at = insertPosition < 0 || insertPosition > prev.length ? prev.length : insertPosition;
+      return [...prev.slice(0, at), ...newItems, ...prev.slice(at)];
+    });
+    setProcessedFile(null);
+  };
+
+  const onDragEnd = (result: DropResult) => {
+    if (!result.destination) {
+      return;
+    }
+    const reordered = Array.from(items);
+    const [moved] = reordered.splice(result.source.index, 1);
+    reordered.splice(result.destination.index, 0, moved);
+    setItems(reordered);
+    setProcessedFile(null);
+  };
+
+  const handleRotate = (id: string, delta: number) => {
+    setItems(prev => prev.map(item => item.id === id && item.kind === 'page' ? { ...item, rotation: (item.rotation + delta + 360) % 360 } : item));
+    setProcessedFile(null);
+  };
+
+  const handleDelete = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+    setProcessedFile(null);
+  };
+
+  const handleDuplicate = (id: string) => {
+    setItems(prev => {
+      const index = prev.findIndex(item => item.id === id);
+      if (index === -1) return prev;
+      const copy = { ...prev[index], id: crypto.randomUUID() };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+    setProcessedFile(null);
+  };
+
+  const handleAddBlank = () => {
+    const [w, h] = PAGE_SIZES[blankSize];
+    insertItems([{ id: crypto.randomUUID(), kind: 'blank', width: blankLandscape ? h : w, height: blankLandscape ? w : h }]);
+  };
+
+  const handleInsertFromPdf = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!selectedFile) return;
+    if (selectedFile.type !== 'application/pdf') {
+      setError('Only PDF files can be inserted.');
+      return;
+    }
+
+    setError(null);
+    setLoading(true);
+    setProcessingStatus(`Reading ${selectedFile.name}...`);
+    try {
+      const arrayBuffer = await fileToArrayBuffer(selectedFile);
+      const source: AppFile = {
+        id: crypto.randomUUID(),
+        file: selectedFile,
+        name: selectedFile.name,
+        type: selectedFile.type,
+        size: selectedFile.size,
+        objectURL: URL.createObjectURL(selectedFile),
+        arrayBuffer,
+      };
+      const count = await pdfService.getPageCount(source);
+      setSources(prev => [...prev, source]);
+      insertItems(pagesFor(source, count));
+      renderThumbnails(source, count);
+    } catch (err) {
+      console.error(err);
+      setError(`Could not read "${selectedFile.name}". The file might be corrupted or encrypted.`);
+    } finally {
+      setLoading(false);
+      setProcessingStatus('');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!mainFile) return;
+    if (items.length === 0) {
+      setError('The document must contain at least one page.');
+      return;
+    }
+    setError(null);
+    setProcessedFile(null);
+    setLoading(true);
+    setProcessingStatus('Building your PDF...');
+    try {
+      const pages: OrganizerPage[] = items.map(({ id, ...page }) => page);
+      const result = await pdfService.organizePages(mainFile, pages, sources);
+      setProcessedFile(result);
+    } catch (e) {
+      console.error(e);
+      setError(`Failed to save PDF: ${(e as Error).message}`);
+    } finally {
+      setLoading(false);
+      setProcessingStatus('');
+    }
+  };
+
+  const handleDownload = () => {
+    if (processedFile) {
+      const link = document.createElement('a');
+      link.href = processedFile.dataUrl;
+      link.download = processedFile.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    }
+  };
+
+  const sourceName = (sourceId: string) => sources.find(s => s.id === sourceId)?.name || '';
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-6xl mx-auto">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Organize PDF Pages</h2>
+      <p className="text-gray-600 mb-6">
+        Reorder, rotate, duplicate and delete pages, add blank pages, or insert pages from another PDF. Text and links are kept intact.
+      </p>
+
+      {!mainFile ? (
+        <Dropzone
+          onFilesSelected={onUpload}
+          acceptedFileTypes={['application/pdf']}
+          multiple={false}
+          label="Drag & drop your PDF here, or click to select"
+        />
+      ) : (
+        <div>
+          <div className="flex flex-wrap items-end gap-4 bg-gray-50 p-4 rounded-md border border-gray-200 mb-6">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Insert at</label>
+              <select
+                value={insertPosition}
+                onChange={(e) => setInsertPosition(Number(e.target.value))}
+                className="border border-gray-300 rounded-md px-2 py-1.5 text-sm bg-white focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={0}>Beginning</option>
+                {items.slice(0, -1).map((_, i) => (
+                  <option key={i} value={i + 1}>After page {i + 1}</option>
+                ))}
+                <option value={-1}>End</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Blank page size</label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={blankSize}
+                  onChange={(e) => setBlankSize(e.target.value)}
+                  className="border border-gray-300 rounded-md px-2 py-1.5 text-sm bg-white focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {Object.keys(PAGE_SIZES).map(size => <option key={size} value={size}>{BLANK_SIZE_LABELS[size] || size}</option>)}
+                </select>
+                <label className="flex items-center space-x-1 text-sm text-gray-700 cursor-pointer">
+                  <input type="checkbox" checked={blankLandscape} onChange={(e) => setBlankLandscape(e.target.checked)} className="rounded text-blue-600" />
+                  <span>Landscape</span>
+                </label>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleAddBlank} disabled={loading}>Add Blank Page</Button>
+            <Button variant="outline" size="sm" onClick={() => insertInputRef.current?.click()} disabled={loading}>Insert from PDF...</Button>
+            <input ref={insertInputRef} type="file" hidden accept="application/pdf" onChange={handleInsertFromPdf} />
+            <div className="flex-grow" />
+            <Button variant="secondary" size="sm" onClick={() => onRemoveFile(mainFile.id)} disabled={loading}>Start Over</Button>
+          </div>
+
+          <p className="text-sm text-gray-500 mb-4">{items.length} page(s). Drag to reorder.</p>
+
+          <DragDropContext onDragEnd={onDragEnd}>
+            <Droppable droppableId="organizerPages">
+              {(provided) => (
+                <div
+                  {...provided.droppableProps}
+                  ref={provided.innerRef}
+                  className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-4"
+                >
+                  {items.map((item, index) => (
+                    <Draggable key={item.id} draggableId={item.id} index={index}>
+                      {(provided, snapshot) => (
+                        <div
+                          ref={provided.innerRef}
+                          {...provided.draggableProps}
+                          {...provided.dragHandleProps}
+                          className={`flex flex-col items-center group ${snapshot.isDragging ? 'scale-105' : ''}`}
+                        >
+                          <div className={`relative w-full aspect-[1/1.4] bg-white rounded-sm overflow-hidden flex items-center justify-center border ${snapshot.isDragging ? 'shadow-lg border-blue-400' : 'shadow-md border-gray-200'}`}>
+                            {item.kind === 'blank' ? (
+                              <span className="text-xs text-gray-300">Blank</span>
+                            ) : thumbnails[thumbKey(item.sourceId, item.pageIndex)] ? (
+                              <img
+                                src={thumbnails[thumbKey(item.sourceId, item.pageIndex)]}
+                                alt={`Page ${item.pageIndex + 1}`}
+                                className="max-w-full max-h-full object-contain transition-transform duration-200"
+                                style={{ transform: `rotate(${item.rotation}deg)` }}
+                              />
+                            ) : (
+                              <span className="text-xs text-gray-300">Page {item.pageIndex + 1}</span>
+                            )}
+                            <div className="absolute inset-x-0 bottom-0 flex justify-center gap-1 p-1 bg-black bg-opacity-50 opacity-0 group-hover:opacity-100 transition-opacity">
+                              {item.kind === 'page' && (
+                                <>
+                                  <button onClick={() => handleRotate(item.id, -90)} className="p-1 text-white hover:text-blue-200" title="Rotate left">
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
+                                  </button>
+                                  <button onClick={() => handleRotate(item.id, 90)} className="p-1 text-white hover:text-blue-200" title="Rotate right">
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" /></svg>
+                                  </button>
+                                </>
+                              )}
+                              <button onClick={() => handleDuplicate(item.id)} className="p-1 text-white hover:text-blue-200" title="Duplicate">
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                              </button>
+                              <button onClick={() => handleDelete(item.id)} className="p-1 text-white hover:text-red-300" title="Delete">
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                              </button>
+                            </div>
+                            <span className="absolute top-1 right-1 bg-black bg-opacity-50 text-white text-[10px] px-1.5 py-0.5 rounded">
+                              {index + 1}
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1 truncate w-full text-center" title={item.kind === 'page' ? sourceName(item.sourceId) : undefined}>
+                            {item.kind === 'blank'
+                              ? `${Math.round(item.width)} x ${Math.round(item.height)} pt`
+                              : item.sourceId === mainFile.id ? `Page ${item.pageIndex + 1}` : `${sourceName(item.sourceId)} p.${item.pageIndex + 1}`}
+                          </p>
+                        </div>
+                      )}
+                    </Draggable>
+                  ))}
+                  {provided.placeholder}
+                </div>
+              )}
+            </Droppable>
+          </DragDropContext>
+
+          <div className="mt-6 flex justify-center">
+            <Button onClick={handleSave} disabled={items.length === 0 || loading} loading={loading && !processingStatus.startsWith('Reading')}>
+              Save PDF
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-100 text-red-700 rounded-md">
+          <p className="font-medium">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {loading && processingStatus && (
+        <div className="mt-4">
+          <LoadingSpinner message={processingStatus} />
+        </div>
+      )}
+
+      {processedFile && (
+        <div className="mt-8 p-6 bg-green-50 border border-green-200 rounded-lg text-center animate-fade-in">
+          <h3 className="text-xl font-semibold text-green-800 mb-2">Your PDF is ready!</h3>
+          <p className="text-green-700 mb-4">
+            {processedFile.name} ({(processedFile.size / 1024).toFixed(2)} KB)
+          </p>
+          <Button onClick={handleDownload} variant="primary" className="bg-green-600 hover:bg-green-700">
+            Download PDF
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageOrganizerTool;
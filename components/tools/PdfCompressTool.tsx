@@ -5,7 +5,7 @@ import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
 import { pdfService } from '../../services/pdfService';
-import { arrayBufferToFile } from '../../utils/fileUtils';
+import { compressionService, CompressionResult } from '../../services/compressionService';
 
 interface PdfCompressToolProps {
   onUpload: (files: File[]) => void;
@@ -13,6 +13,12 @@ interface PdfCompressToolProps {
   onRemoveFile: (id: string) => void;
 }
 
+type CompressionMode = 'structural' | 'aggressive';
+
+const DPI_OPTIONS = [72, 96, 150, 220, 300];
+
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(2)} KB`;
+
 const PdfCompressTool: React.FC<PdfCompressToolProps> = ({
   onUpload,
   uploadedFiles,
@@ -21,11 +27,17 @@ const PdfCompressTool: React.FC<PdfCompressToolProps> = ({
   const [loading, setLoading] = useState(false);
   const [processedFile, setProcessedFile] = useState<ProcessedFile | null>(null);
   const [compressionStrength, setCompressionStrength] = useState(75); // Renamed from 'quality' for better semantic
+  const [mode, setMode] = useState<CompressionMode>('structural');
+  const [targetDpi, setTargetDpi] = useState(150);
+  const [imageQuality, setImageQuality] = useState(75);
+  const [removeMetadata, setRemoveMetadata] = useState(true);
+  const [report, setReport] = useState<CompressionResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const handleCompress = useCallback(async () => {
     setError(null);
     setProcessedFile(null);
+    setReport(null);
     if (uploadedFiles.length === 0) {
       setError('Please upload a PDF file to compress.');
       return;
@@ -46,15 +58,21 @@ const PdfCompressTool: React.FC<PdfCompressToolProps> = ({
 
     setLoading(true);
     try {
-      const result = await pdfService.compressPdf(pdfFile, compressionStrength); 
-      setProcessedFile(result);
+      if (mode === 'structural') {
+        const result = await compressionService.compressPdfStructural(pdfFile, { targetDpi, imageQuality, removeMetadata });
+        setReport(result);
+        setProcessedFile(result.file);
+      } else {
+        const result = await pdfService.compressPdf(pdfFile, compressionStrength);
+        setProcessedFile(result);
+      }
     } catch (e) {
       console.error(e);
       setError(`Failed to compress PDF: ${(e as Error).message}`);
     } finally {
       setLoading(false);
     }
-  }, [uploadedFiles, compressionStrength]);
+  }, [uploadedFiles, compressionStrength, mode, targetDpi, imageQuality, removeMetadata]);
 
   const handleDownload = useCallback(() => {
     if (processedFile) {
@@ -89,7 +107,7 @@ const PdfCompressTool: React.FC<PdfCompressToolProps> = ({
     <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-4xl mx-auto">
       <h2 className="text-2xl font-bold text-gray-800 mb-4">Compress PDF</h2>
       <p className="text-gray-600 mb-6">
-        Reduce the file size of your PDF documents by re-encoding pages as compressed images.
+        Reduce the file size of your PDF documents. Structural mode keeps text, links, bookmarks and forms intact; aggressive mode re-encodes pages as compressed images.
       </p>
 
       <Dropzone
@@ -108,28 +126,86 @@ const PdfCompressTool: React.FC<PdfCompressToolProps> = ({
             ))}
           </div>
           <div className="mt-4">
-            <label htmlFor="compressionStrength" className="block text-sm font-medium text-gray-700 mb-2">
-              Compression Strength: <span className="font-semibold text-blue-600">{compressionStrength}%</span>
-            </label>
-            <input
-              type="range"
-              id="compressionStrength"
-              min="0"
-              max="100"
-              step="1"
-              value={compressionStrength}
-              onChange={(e) => setCompressionStrength(Number(e.target.value))}
-              className="w-full h-4 bg-blue-600 rounded-lg appearance-none cursor-pointer range-lg [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:appearance-none [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:bg-white [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:appearance-none"
-              disabled={loading}
-              aria-valuenow={compressionStrength}
-              aria-valuemin={0}
-              aria-valuemax={100}
-              aria-label="Compression Strength Slider"
-            />
-             <p className="text-xs text-gray-500 mt-1">
-              (Note: This process converts each page into a compressed image, which significantly reduces file size for image-heavy PDFs. This will rasterize text, making it non-selectable.)
-            </p>
-            {originalFileSize > 0 && (
+            <div className="flex bg-gray-100 rounded-lg p-1 mb-4" role="radiogroup" aria-label="Compression mode">
+              {(['structural', 'aggressive'] as CompressionMode[]).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  role="radio"
+                  aria-checked={mode === m}
+                  onClick={() => setMode(m)}
+                  disabled={loading}
+                  className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors ${mode === m ? 'bg-white shadow text-blue-700' : 'text-gray-600 hover:text-gray-800'}`}
+                >
+                  {m === 'structural' ? 'Structural (keeps text selectable)' : 'Aggressive (rasterize pages)'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'structural' ? (
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="targetDpi" className="block text-sm font-medium text-gray-700 mb-2">Maximum Image Resolution</label>
+                  <select
+                    id="targetDpi"
+                    value={targetDpi}
+                    onChange={(e) => setTargetDpi(Number(e.target.value))}
+                    disabled={loading}
+                    className="w-full border border-gray-300 rounded-lg p-2 bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    {DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="imageQuality" className="block text-sm font-medium text-gray-700 mb-2">
+                    Image Quality: <span className="font-semibold text-blue-600">{imageQuality}%</span>
+                  </label>
+                  <input
+                    type="range"
+                    id="imageQuality"
+                    min="10"
+                    max="100"
+                    step="1"
+                    value={imageQuality}
+                    onChange={(e) => setImageQuality(Number(e.target.value))}
+                    className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    disabled={loading}
+                  />
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                  <input type="checkbox" checked={removeMetadata} onChange={(e) => setRemoveMetadata(e.target.checked)} disabled={loading} className="rounded text-blue-600" />
+                  <span>Remove metadata, thumbnails and editor private data</span>
+                </label>
+                <p className="text-xs text-gray-500">
+                  (Note: Only embedded images are re-encoded. Duplicate images and fonts are merged and unused objects are dropped, so text stays selectable and links, bookmarks and form fields keep working.)
+                </p>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="compressionStrength" className="block text-sm font-medium text-gray-700 mb-2">
+                  Compression Strength: <span className="font-semibold text-blue-600">{compressionStrength}%</span>
+                </label>
+                <input
+                  type="range"
+                  id="compressionStrength"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={compressionStrength}
+                  onChange={(e) => setCompressionStrength(Number(e.target.value))}
+                  className="w-full h-4 bg-blue-600 rounded-lg appearance-none cursor-pointer range-lg [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:appearance-none [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:bg-white [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:appearance-none"
+                  disabled={loading}
+                  aria-valuenow={compressionStrength}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-label="Compression Strength Slider"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  (Note: This process converts each page into a compressed image, which significantly reduces file size for image-heavy PDFs. This will rasterize text, making it non-selectable.)
+                </p>
+              </div>
+            )}
+            {mode === 'aggressive' && originalFileSize > 0 && (
               <p className="text-sm text-gray-600 mt-2">
                 Original Size: {(originalFileSize / 1024).toFixed(2)} KB <br />
                 <span className="font-medium text-blue-700">Rough Estimated Size: {(estimatedCompressedSize / 1024).toFixed(2)} KB</span>
@@ -162,6 +238,33 @@ const PdfCompressTool: React.FC<PdfCompressToolProps> = ({
             Original Size: {(uploadedFiles[0].size / 1024).toFixed(2)} KB <br />
             Compressed Size: {(processedFile.size / 1024).toFixed(2)} KB
           </p>
+          {report && (
+            <div className="max-w-md mx-auto mb-4 text-left">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 border-b">
+                    <th className="py-1 font-medium">Category</th>
+                    <th className="py-1 font-medium text-right">Before</th>
+                    <th className="py-1 font-medium text-right">After</th>
+                    <th className="py-1 font-medium text-right">Saved</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {([['Images', report.savings.images], ['Fonts', report.savings.fonts], ['Other', report.savings.other]] as const).map(([label, s]) => (
+                    <tr key={label} className="border-b border-gray-100">
+                      <td className="py-1 text-gray-700">{label}</td>
+                      <td className="py-1 text-right text-gray-600">{formatKb(s.before)}</td>
+                      <td className="py-1 text-right text-gray-600">{formatKb(s.after)}</td>
+                      <td className="py-1 text-right font-semibold text-green-700">{formatKb(Math.max(0, s.before - s.after))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">
+                {report.imagesRecompressed} image(s) recompressed, {report.duplicatesRemoved} duplicate object(s) merged, {report.unusedObjectsRemoved} unused object(s) removed.
+              </p>
+            </div>
+          )}
           <Button onClick={handleDownload} variant="primary">
             Download Compressed PDF
           </Button>
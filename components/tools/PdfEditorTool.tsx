@@ -1,11 +1,20 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { AppFile } from '../../types';
+import { AppFile, ProcessedFile } from '../../types';
 import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import Dropzone from '../Dropzone';
-import { pdfEditorService, TextItem } from '../../services/pdfEditorService';
+import { pdfEditorService, TextItem, FormFieldInfo, FormFieldValue, FormWidgetRect, NewFormField } from '../../services/pdfEditorService';
 import { pdfService, getPdfJs } from '../../services/pdfService';
+import { formDataService, FormDataFormat } from '../../services/formDataService';
+import { signatureService, SigningCertificate, SignatureVerification } from '../../services/signatureService';
+import { redactionService } from '../../services/redactionService';
+import { textEditService, TextEdit } from '../../services/textEditService';
+import { fontService, FontFamily } from '../../services/fontService';
+import { annotationService, arrowHeadPoints, AnnotationPoint, AnnotationType, PdfAnnotation, ANNOTATION_LABELS } from '../../services/annotationService';
+import { sensitiveDataService, SensitiveDataType, SensitiveMatch, SENSITIVE_DATA_LABELS } from '../../services/sensitiveDataService';
+import SignaturePanel, { summarizeSignatures } from '../SignaturePanel';
+import { base64ToArrayBuffer } from '../../utils/fileUtils';
 import QRCode from 'qrcode';
 
 // Access Fabric from window
@@ -26,16 +35,20 @@ const Icon = ({ name, size = 5, className = "" }: { name: string, size?: number,
         case 'text': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#2563eb" strokeWidth="2"><path d="M4 7V4h16v3"/><path d="M9 20h6"/><path d="M12 4v16"/></svg>;
         case 'link': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#0ea5e9" strokeWidth="2"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"/><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"/></svg>;
         case 'whiteout': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#f43f5e" strokeWidth="2"><rect x="3" y="3" width="18" height="18" rx="2"/><path d="M9 3v18"/><path d="M14 3v18"/></svg>;
+        case 'redact': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#18181b" strokeWidth="2"><rect x="3" y="5" width="18" height="14" rx="2"/><rect x="6" y="10" width="12" height="4" fill="#18181b"/></svg>;
         case 'image': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#10b981" strokeWidth="2"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></svg>;
         case 'signature': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#4f46e5" strokeWidth="2"><path d="M16 8a6 6 0 0 1 6 6v7h-14a2 2 0 0 1-2-2v-3.5"/><path d="M2 17.5c2 0 3-3 3-3s.5-3 3-3 2 4 4 4 2-5 3-5 3 5 3 5"/></svg>;
         case 'annotate': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#f59e0b" strokeWidth="2"><path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"/><path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"/></svg>;
+        case 'sensitive': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#b91c1c" strokeWidth="2"><path d="M12 2l7 3v6c0 5-3.5 8.5-7 11-3.5-2.5-7-6-7-11V5z"/><circle cx="11.5" cy="11" r="2.5"/><path d="M13.5 13l2 2"/></svg>;
         case 'find': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#d946ef" strokeWidth="2"><circle cx="11" cy="11" r="8"/><line x1="21" y1="21" x2="16.65" y2="16.65"/></svg>;
         case 'trash': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#ef4444" strokeWidth="2"><polyline points="3 6 5 6 21 6"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>;
         case 'close': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#9ca3af" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>;
         case 'bold': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M6 4h8a4 4 0 0 1 4 4 4 4 0 0 1-4 4H6z"/><path d="M6 12h9a4 4 0 0 1 4 4 4 4 0 0 1-4 4H6z"/></svg>;
         case 'italic': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="19" y1="4" x2="10" y2="4"/><line x1="14" y1="20" x2="5" y2="20"/><line x1="15" y1="4" x2="9" y2="20"/></svg>;
         case 'underline': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M6 3v7a6 6 0 0 0 6 6 6 6 0 0 0 6-6V3"/><line x1="4" y1="21" x2="20" y2="21"/></svg>;
+        case 'certificate': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#059669" strokeWidth="2"><path d="M12 2l7 3v6c0 5-3.5 8.5-7 11-3.5-2.5-7-6-7-11V5z"/><path d="M9 12l2 2 4-4"/></svg>;
         case 'stamp': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#dc2626" strokeWidth="2"><path d="M16 3a2 2 0 0 1 2 2v2h-4V5a2 2 0 0 1 2-2z" /><path d="M20 7H4a2 2 0 0 0-2 2v2h20V9a2 2 0 0 0-2-2z" /><path d="M4 11h16v8a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2v-8z" /></svg>;
+        case 'form': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#0891b2" strokeWidth="2"><rect x="3" y="4" width="18" height="6" rx="1"/><rect x="3" y="14" width="6" height="6" rx="1"/><path d="M5 16.5l1 1 2-2"/><path d="M12 17h9"/></svg>;
         case 'qr': return <svg className={s} viewBox="0 0 24 24" fill="none" stroke="#18181b" strokeWidth="2"><rect x="3" y="3" width="7" height="7" /><rect x="14" y="3" width="7" height="7" /><rect x="14" y="14" width="7" height="7" /><rect x="3" y="14" width="7" height="7" /></svg>;
         default: return null;
     }
@@ -65,6 +78,166 @@ const SIGNATURE_FONTS = [
     { name: 'Homemade Apple', label: 'Homemade' },
 ];
 
+// Properties that, once changed, turn an in-place text edit back into an overlay
+const pickTextStyle = (obj: any) => ({
+    fontFamily: obj.fontFamily, fontSize: obj.fontSize, fill: obj.fill, fontWeight: obj.fontWeight, fontStyle: obj.fontStyle,
+    underline: !!obj.underline, angle: obj.angle || 0, scaleX: obj.scaleX ?? 1, scaleY: obj.scaleY ?? 1,
+});
+
+const ANNOTATION_TOOLS: AnnotationType[] = ['highlight', 'underline', 'strikeout', 'note', 'freeText', 'ink', 'square', 'circle', 'line', 'arrow'];
+const MARKUP_TOOLS: AnnotationType[] = ['highlight', 'underline', 'strikeout'];
+const ANNOTATION_COLORS = ['#facc15', '#4ade80', '#60a5fa', '#f472b6', '#ef4444', '#000000'];
+
+const ANNOTATION_HINTS: Record<AnnotationType, string> = {
+    highlight: 'Drag across text to highlight it.',
+    underline: 'Drag across text to underline it.',
+    strikeout: 'Drag across text to strike it out.',
+    note: 'Click to place a sticky note, then type the comment below.',
+    freeText: 'Click to add a text box.',
+    ink: 'Draw on the page.',
+    square: 'Click to place a rectangle, then resize it.',
+    circle: 'Click to place an ellipse, then resize it.',
+    line: 'Click to place a line, then move or stretch it.',
+    arrow: 'Click to place an arrow, then move or stretch it.',
+};
+
+const pathData = (strokes: AnnotationPoint[][], closed = false) => strokes
+    .filter(points => points.length > 0)
+    .map(points => `M ${points.map(p => `${p.x} ${p.y}`).join(' L ')}${closed ? ' Z' : ''}`)
+    .join(' ');
+
+const lerp = (a: AnnotationPoint, b: AnnotationPoint, t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Quads (upper-left, upper-right, lower-left, lower-right) of the characters inside a dragged box,
+// or of the whole run under a click. Character positions are estimated from the run's width.
+const selectTextQuads = (items: TextItem[], a: AnnotationPoint, b: AnnotationPoint): AnnotationPoint[][] => {
+    const left = Math.min(a.x, b.x), right = Math.max(a.x, b.x);
+    const top = Math.min(a.y, b.y), bottom = Math.max(a.y, b.y);
+    const click = right - left < 3 && bottom - top < 3;
+    const quads: AnnotationPoint[][] = [];
+    for (const item of items) {
+        if (!item.str.trim()) continue;
+        const x = item.transform[4];
+        const itemTop = item.transform[5] - item.height;
+        const itemBottom = item.transform[5] + item.height * 0.2;
+        if (itemBottom < top || itemTop > bottom) continue;
+        const charWidth = item.width / item.str.length;
+        let from = 0, to = item.str.length;
+        if (click) {
+            if (a.x < x || a.x > x + item.width) continue;
+        } else {
+            from = Math.max(0, Math.ceil((left - x) / charWidth - 0.5));
+            to = Math.min(item.str.length, Math.floor((right - x) / charWidth - 0.5) + 1);
+            if (to <= from) continue;
+        }
+        const x0 = x + from * charWidth, x1 = x + to * charWidth;
+        quads.push([{ x: x0, y: itemTop }, { x: x1, y: itemTop }, { x: x0, y: itemBottom }, { x: x1, y: itemBottom }]);
+    }
+    return quads;
+};
+
+// Builds the canvas object for an annotation. Quads and line ends are kept on the object relative to
+// its center, so they follow it when it is moved or resized.
+const createAnnotationObject = (annotation: PdfAnnotation): any => {
+    const { pageIndex, rect, inkList, ...meta } = annotation;
+    const width = annotation.borderWidth ?? 1;
+    const common = { subtype: 'annotation', opacity: annotation.opacity };
+    const stroked = { ...common, fill: '', stroke: annotation.color, strokeWidth: width, strokeLineCap: 'round', strokeLineJoin: 'round' };
+    const quads = annotation.quads || [];
+    let obj: any;
+
+    switch (annotation.type) {
+        case 'highlight':
+            obj = new fabric.Path(pathData(quads.map(([ul, ur, ll, lr]) => [ul, ur, lr, ll]), true), { ...common, fill: annotation.color, opacity: annotation.opacity * 0.4 });
+            break;
+        case 'underline':
+        case 'strikeout': {
+            const heights = quads.map(([ul, , ll]) => Math.hypot(ul.x - ll.x, ul.y - ll.y));
+            const thickness = Math.max(1, (heights.reduce((sum, h) => sum + h, 0) / Math.max(1, heights.length)) * 0.07);
+            const lines = quads.map(([ul, ur, ll, lr], i) => {
+                const t = annotation.type === 'underline' ? thickness / Math.max(1, heights[i]) : 0.5;
+                return [lerp(ll, ul, t), lerp(lr, ur, t)];
+            });
+            obj = new fabric.Path(pathData(lines), { ...stroked, strokeWidth: thickness, strokeLineCap: 'butt' });
+            break;
+        }
+        case 'ink':
+            obj = new fabric.Path(pathData(inkList || []) || `M ${rect.left} ${rect.top}`, stroked);
+            break;
+        case 'line':
+        case 'arrow': {
+            const [start, end] = annotation.line || [{ x: rect.left, y: rect.top }, { x: rect.left + rect.width, y: rect.top + rect.height }];
+            const strokes = [[start, end]];
+            if (annotation.type === 'arrow') {
+                const [a, b] = arrowHeadPoints(start, end, width);
+                strokes.push([a, end, b]);
+            }
+            obj = new fabric.Path(pathData(strokes), stroked);
+            if (!annotation.line) meta.line = [start, end];
+            break;
+        }
+        case 'square':
+            obj = new fabric.Rect({ ...stroked, left: rect.left, top: rect.top, width: rect.width - width, height: rect.height - width, fill: 'transparent', strokeUniform: true });
+            break;
+        case 'circle':
+            obj = new fabric.Ellipse({ ...stroked, left: rect.left, top: rect.top, rx: (rect.width - width) / 2, ry: (rect.height - width) / 2, fill: 'transparent', strokeUniform: true });
+            break;
+        case 'note': {
+            const at = (fx: number, fy: number) => ({ x: rect.left + rect.width * fx, y: rect.top + rect.height * fy });
+            const bubble = [at(0.05, 0.05), at(0.95, 0.05), at(0.95, 0.72), at(0.42, 0.72), at(0.2, 0.95), at(0.22, 0.72), at(0.05, 0.72)];
+            obj = new fabric.Path(pathData([bubble], true), { ...common, fill: annotation.color, stroke: '#78350f', strokeWidth: 1, lockScalingX: true, lockScalingY: true, hasControls: false });
+            break;
+        }
+        case 'freeText':
+            obj = new fabric.IText(annotation.contents, { ...common, left: rect.left, top: rect.top, fontSize: annotation.fontSize || 12, fill: annotation.color, fontFamily: 'Helvetica' });
+            break;
+    }
+
+    const toLocal = (p: AnnotationPoint) => ({ x: p.x - obj.pathOffset.x, y: p.y - obj.pathOffset.y });
+    obj.set('annotation', { ...meta, quads: meta.quads?.map(q => q.map(toLocal)), line: meta.line?.map(toLocal) });
+    return obj;
+};
+
+// Reads an annotation back from its canvas object, in page coordinates
+const toPdfAnnotation = (obj: any, pageIndex: number): PdfAnnotation => {
+    const matrix = obj.calcTransformMatrix();
+    const toCanvas = (p: AnnotationPoint) => {
+        const t = fabric.util.transformPoint(new fabric.Point(p.x, p.y), matrix);
+        return { x: t.x, y: t.y };
+    };
+    const bounds = obj.getBoundingRect(true, true);
+    const meta = obj.annotation;
+    const annotation: PdfAnnotation = {
+        ...meta,
+        pageIndex,
+        rect: { left: bounds.left, top: bounds.top, width: bounds.width, height: bounds.height },
+        quads: meta.quads?.map((q: AnnotationPoint[]) => q.map(toCanvas)),
+        line: meta.line?.map(toCanvas),
+    };
+    if (meta.type === 'ink') {
+        const strokes: AnnotationPoint[][] = [];
+        (obj.path || []).forEach((command: any[]) => {
+            if (command[0] === 'M') strokes.push([]);
+            if (command.length < 3 || strokes.length === 0) return;
+            strokes[strokes.length - 1].push(toCanvas({ x: command[command.length - 2] - obj.pathOffset.x, y: command[command.length - 1] - obj.pathOffset.y }));
+        });
+        annotation.inkList = strokes;
+    }
+    if (meta.type === 'freeText') {
+        annotation.contents = obj.text;
+        annotation.fontSize = obj.fontSize * (obj.scaleY || 1);
+        annotation.color = obj.fill;
+    }
+    return annotation;
+};
+
+// Marks an annotation as changed so it is saved with a new appearance and modification date
+const touchAnnotation = (obj: any) => {
+    if (obj?.annotation) obj.set('annotation', { ...obj.annotation, modified: new Date().toISOString() });
+};
+
+const SENSITIVE_TYPES: SensitiveDataType[] = ['email', 'phone', 'creditCard', 'iban', 'ssn', 'aadhaar', 'pan', 'date'];
+
 const STAMP_COLORS = ['#22c55e', '#ef4444', '#3b82f6', '#6b7280', '#8b5cf6', '#f97316', '#000000'];
 
 interface SignatureItem {
@@ -73,6 +246,13 @@ interface SignatureItem {
     type: 'type' | 'draw' | 'upload';
 }
 
+// Default widget sizes (in points) for fields created in the editor
+const NEW_FIELD_SIZES: Record<NewFormField['type'], { width: number, height: number }> = {
+    text: { width: 160, height: 22 },
+    checkbox: { width: 16, height: 16 },
+    signature: { width: 180, height: 50 },
+};
+
 interface HistoryState {
     pageIndex: number;
     json: string;
@@ -93,6 +273,7 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
   const [selectedTextObj, setSelectedTextObj] = useState<any>(null);
   const [fontSize, setFontSize] = useState(12);
   const [fontFamily, setFontFamily] = useState('Helvetica');
+  const [fontFamilies, setFontFamilies] = useState<FontFamily[]>(() => fontService.listFamilies());
   const [fontColor, setFontColor] = useState('#000000');
   const [isBold, setIsBold] = useState(false);
   const [isItalic, setIsItalic] = useState(false);
@@ -128,19 +309,79 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
   const [currentMatchIndex, setCurrentMatchIndex] = useState(-1);
   const [matchCase, setMatchCase] = useState(false);
 
+  // Form Fields
+  const [formFields, setFormFields] = useState<FormFieldInfo[]>([]);
+  const [formValues, setFormValues] = useState<Record<string, FormFieldValue>>({});
+  const [newFields, setNewFields] = useState<NewFormField[]>([]);
+  const [flattenOnSave, setFlattenOnSave] = useState(false);
+  const [fieldMenuPos, setFieldMenuPos] = useState<{ top: number, left: number } | null>(null);
+  const [showFormDataModal, setShowFormDataModal] = useState(false);
+  const [csvNameColumn, setCsvNameColumn] = useState('');
+  const [formDataMessage, setFormDataMessage] = useState<string | null>(null);
+  const formDataInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  // Digital Signature State
+  const [showDigitalSignModal, setShowDigitalSignModal] = useState(false);
+  const [certFile, setCertFile] = useState<File | null>(null);
+  const [certPassword, setCertPassword] = useState('');
+  const [signer, setSigner] = useState<SigningCertificate | null>(null);
+  const [signReason, setSignReason] = useState('');
+  const [signLocation, setSignLocation] = useState('');
+  const [signTarget, setSignTarget] = useState('');
+  const [signImageId, setSignImageId] = useState('');
+  const [signWithEdits, setSignWithEdits] = useState(true);
+  const [digitalSignError, setDigitalSignError] = useState<string | null>(null);
+  const [signatures, setSignatures] = useState<SignatureVerification[]>([]);
+  const [showSignaturePanel, setShowSignaturePanel] = useState(false);
+  const certInputRef = useRef<HTMLInputElement>(null);
+
+  // Redaction
+  const [redactionCount, setRedactionCount] = useState(0);
+  const [redactionFill, setRedactionFill] = useState('#000000');
+  const [redactionLabel, setRedactionLabel] = useState('');
+  const [redactionStripMetadata, setRedactionStripMetadata] = useState(true);
+
+  // Sensitive Data
+  const [showSensitivePanel, setShowSensitivePanel] = useState(false);
+  const [sensitiveTypes, setSensitiveTypes] = useState<SensitiveDataType[]>(SENSITIVE_TYPES.filter(t => t !== 'date'));
+  const [customPatterns, setCustomPatterns] = useState('');
+  const [ocrScannedPages, setOcrScannedPages] = useState(true);
+  const [sensitiveMatches, setSensitiveMatches] = useState<SensitiveMatch[] | null>(null);
+  const [selectedMatchIds, setSelectedMatchIds] = useState<Set<string>>(new Set());
+  const [sensitiveScanning, setSensitiveScanning] = useState(false);
+  const [sensitiveProgress, setSensitiveProgress] = useState(0);
+  const [sensitiveError, setSensitiveError] = useState<string | null>(null);
+
+  // Annotations
+  const [annotMenuPos, setAnnotMenuPos] = useState<{ top: number, left: number } | null>(null);
+  const [annotationAuthor, setAnnotationAuthor] = useState(() => localStorage.getItem('annotation_author') || '');
+  const [annotationColor, setAnnotationColor] = useState(ANNOTATION_COLORS[0]);
+  const [selectedAnnotation, setSelectedAnnotation] = useState<{ obj: any, pageIndex: number } | null>(null);
+  const annotationStyleRef = useRef({ author: annotationAuthor, color: annotationColor });
+  const loadedAnnotationsRef = useRef<PdfAnnotation[]>([]);
+  const markupStartRef = useRef<{ pageIndex: number, x: number, y: number } | null>(null);
+
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasesRef = useRef<{[key: number]: any}>({});
   const pageStateRef = useRef<{[key: number]: string}>({}); // Tracks current JSON state of each page to prevent duplicate history
   const pageTextItemsRef = useRef<Map<number, TextItem[]>>(new Map());
+  const formFieldsRef = useRef<FormFieldInfo[]>([]);
   const activeToolRef = useRef(activeTool);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const drawCanvasRef = useRef<HTMLCanvasElement>(null);
   const sigPadRef = useRef<any>(null);
   const sigUploadInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => { activeToolRef.current = activeTool; }, [activeTool]);
 
+  useEffect(() => {
+    annotationStyleRef.current = { author: annotationAuthor, color: annotationColor };
+    localStorage.setItem('annotation_author', annotationAuthor);
+  }, [annotationAuthor, annotationColor]);
+
   // Initialization & Cleanup
   useEffect(() => {
     if (uploadedFiles.length > 0 && uploadedFiles[0].arrayBuffer) {
@@ -154,6 +395,17 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
         setHistory([]);
         setRedoStack([]);
         pageStateRef.current = {};
+        setFormFields([]);
+        setFormValues({});
+        setNewFields([]);
+        formFieldsRef.current = [];
+        setSignatures([]);
+        setShowSignaturePanel(false);
+        setRedactionCount(0);
+        setSensitiveMatches(null);
+        setSelectedMatchIds(new Set());
+        loadedAnnotationsRef.current = [];
+        setSelectedAnnotation(null);
     };
   }, [uploadedFiles]);
 
@@ -162,7 +414,7 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
       const canvas = canvasesRef.current[pageIndex];
       if (!canvas) return;
       
-      const currentJson = JSON.stringify(canvas.toJSON(['id', 'subtype', 'isOriginalText']));
+      const currentJson = JSON.stringify(canvas.toJSON(['id', 'subtype', 'isOriginalText', 'textEdit', 'annotation']));
       const previousJson = pageStateRef.current[pageIndex];
 
       // Only save if changed
@@ -188,7 +440,7 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
       
       if (canvas) {
           // Push current state to Redo
-          const currentJson = JSON.stringify(canvas.toJSON(['id', 'subtype', 'isOriginalText']));
+          const currentJson = JSON.stringify(canvas.toJSON(['id', 'subtype', 'isOriginalText', 'textEdit', 'annotation']));
           setRedoStack(prev => [...prev, { pageIndex, json: currentJson }]);
           
           // Load Undo State
@@ -196,6 +448,7 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
               canvas.renderAll();
               pageStateRef.current[pageIndex] = lastState.json; // Update current ref
               setHistory(prev => prev.slice(0, -1)); // Pop
+              refreshRedactionCount();
           });
       }
   };
@@ -208,7 +461,7 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
       
       if (canvas) {
           // Push current state to Undo
-          const currentJson = JSON.stringify(canvas.toJSON(['id', 'subtype', 'isOriginalText']));
+          const currentJson = JSON.stringify(canvas.toJSON(['id', 'subtype', 'isOriginalText', 'textEdit', 'annotation']));
           setHistory(prev => [...prev, { pageIndex, json: currentJson }]);
           
           // Load Redo State
@@ -216,6 +469,7 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
               canvas.renderAll();
               pageStateRef.current[pageIndex] = nextState.json;
               setRedoStack(prev => prev.slice(0, -1)); // Pop
+              refreshRedactionCount();
           });
       }
   };
@@ -229,9 +483,37 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
           const textMap = await pdfEditorService.extractTextData(file);
           pageTextItemsRef.current = textMap;
 
-          await renderPage(file, 0); // Render first page
+          try {
+              const fields = await pdfEditorService.extractFormFields(file);
+              formFieldsRef.current = fields;
+              setFormFields(fields);
+              setFormValues(Object.fromEntries(fields.map(f => [f.name, f.value])));
+          } catch (e) {
+              console.warn('Could not read form fields', e);
+          }
+
+          try {
+              const found = await signatureService.verifyPdf(file.arrayBuffer!.slice(0));
+              setSignatures(found);
+              // Re-saving with edits would break existing signatures, so sign the original by default
+              setSignWithEdits(found.length === 0);
+          } catch (e) {
+              console.warn('Could not verify signatures', e);
+          }
+
+          let displayFile = file;
+          try {
+              const annotations = await annotationService.readAnnotations(file);
+              loadedAnnotationsRef.current = annotations;
+              // Editable annotations become canvas objects, so keep them out of the rendered page
+              if (annotations.length > 0) displayFile = { ...file, arrayBuffer: await annotationService.withoutEditableAnnotations(file) };
+          } catch (e) {
+              console.warn('Could not read annotations', e);
+          }
+
+          await renderPage(displayFile, 0); // Render first page
           for (let i = 1; i < count; i++) {
-              setTimeout(() => renderPage(file, i), i * 200);
+              setTimeout(() => renderPage(displayFile, i), i * 200);
           }
       } catch (e) {
           console.error(e);
@@ -273,23 +555,30 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
               fabricCanvas.add(img);
               fabricCanvas.sendToBack(img);
               canvasesRef.current[pageIndex] = fabricCanvas;
+              loadedAnnotationsRef.current.filter(a => a.pageIndex === pageIndex).forEach(a => fabricCanvas.add(createAnnotationObject(a)));
               
               // Initial State Save
-              pageStateRef.current[pageIndex] = JSON.stringify(fabricCanvas.toJSON(['id', 'subtype', 'isOriginalText']));
+              pageStateRef.current[pageIndex] = JSON.stringify(fabricCanvas.toJSON(['id', 'subtype', 'isOriginalText', 'textEdit', 'annotation']));
 
               setPages(prev => prev.map(p => p.id === pageIndex ? { ...p, loaded: true } : p));
 
               // Interaction Events
               fabricCanvas.on('mouse:down', (e: any) => handleCanvasClick(fabricCanvas, e, pageIndex));
+              fabricCanvas.on('mouse:up', (e: any) => handleCanvasMouseUp(fabricCanvas, e, pageIndex));
+              fabricCanvas.on('before:path:created', (e: any) => {
+                  if (activeToolRef.current === 'annot_ink') e.path.set({ subtype: 'annotation', annotation: newAnnotationMeta('ink', e.path.strokeWidth) });
+              });
               fabricCanvas.on('selection:created', (e: any) => handleSelection(e, pageIndex));
               fabricCanvas.on('selection:updated', (e: any) => handleSelection(e, pageIndex));
-              fabricCanvas.on('selection:cleared', () => setShowFloatingBar(false));
+              fabricCanvas.on('selection:cleared', () => { setShowFloatingBar(false); setSelectedAnnotation(null); });
               
               // Undo/Redo Triggers
               const save = () => saveHistory(pageIndex);
               fabricCanvas.on('object:added', (e: any) => { if(!e.target.isOriginalText && !e.target.excludeFromHistory) save(); });
-              fabricCanvas.on('object:modified', save);
+              fabricCanvas.on('object:modified', (e: any) => { touchAnnotation(e.target); save(); });
               fabricCanvas.on('object:removed', save);
+              fabricCanvas.on('object:added', refreshRedactionCount);
+              fabricCanvas.on('object:removed', refreshRedactionCount);
               
               switchTool(activeToolRef.current);
           });
@@ -300,6 +589,7 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
 
   const handleSelection = (e: any, pageIndex: number) => {
       const obj = e.selected?.[0];
+      setSelectedAnnotation(obj?.annotation ? { obj, pageIndex } : null);
       if (obj && (obj.type === 'i-text' || obj.type === 'text')) {
           setSelectedTextObj(obj);
           setFontSize(obj.fontSize || 12);
@@ -341,23 +631,27 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
           });
 
           if (hit) {
+              // The cover only hides the rendered original while editing; on save the string is
+              // rewritten in the page content unless the text was moved or restyled
+              const rect = { left: hit.transform[4], top: hit.transform[5] - hit.height, width: hit.width, height: hit.height * 1.2 };
+              const editId = crypto.randomUUID();
               const whiteout = new fabric.Rect({
-                  left: hit.transform[4],
-                  top: hit.transform[5] - hit.height,
-                  width: hit.width,
-                  height: hit.height * 1.2,
+                  ...rect,
                   fill: '#ffffff',
                   selectable: false,
-                  subtype: 'whiteout'
+                  subtype: 'text_edit_cover',
+                  textEdit: { id: editId }
               });
               
               const newText = new fabric.IText(hit.str, {
-                  left: hit.transform[4],
-                  top: hit.transform[5] - hit.height,
+                  left: rect.left,
+                  top: rect.top,
                   fontFamily: 'Helvetica',
                   fontSize: hit.height,
                   fill: '#000000',
+                  subtype: 'text_edit',
               });
+              newText.set('textEdit', { id: editId, originalText: hit.str, rect, style: pickTextStyle(newText) });
 
               canvas.add(whiteout);
               canvas.add(newText);
@@ -385,16 +679,108 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
           canvas.setActiveObject(rect);
           switchTool('select');
       }
-      else if (tool === 'annotate' && !opt.target) {
-          const note = new fabric.IText('Note', {
-              left: pointer.x, top: pointer.y, fontSize: 14, backgroundColor: '#fef3c7', padding: 8, fill: '#4b5563'
+      else if (tool === 'redact' && !opt.target) {
+          // Stay in redact mode so several areas can be marked in a row
+          const mark = createRedactionMark(pointer.x, pointer.y, 120, 20);
+          canvas.add(mark);
+          canvas.setActiveObject(mark);
+      }
+      else if (tool.startsWith('field_') && !opt.target) {
+          const type = tool.replace('field_', '') as NewFormField['type'];
+          const size = NEW_FIELD_SIZES[type];
+          setNewFields(prev => {
+              // Field names must be unique across the whole document
+              const taken = new Set([...formFieldsRef.current.map(f => f.name), ...prev.map(f => f.name)]);
+              const base = type === 'text' ? 'Text' : type === 'checkbox' ? 'CheckBox' : 'Signature';
+              let n = 1;
+              while (taken.has(`${base}${n}`)) n++;
+              return [...prev, { name: `${base}${n}`, type, pageIndex, rect: { left: pointer.x, top: pointer.y, ...size } }];
           });
-          canvas.add(note);
-          canvas.setActiveObject(note);
           switchTool('select');
       }
+      else if (tool.startsWith('annot_') && !opt.target) {
+          const type = tool.replace('annot_', '') as AnnotationType;
+          const { x, y } = pointer;
+          // Text markup is created on mouse up from the dragged box; ink is drawn by Fabric
+          if (MARKUP_TOOLS.includes(type)) {
+              markupStartRef.current = { pageIndex, x, y };
+              return;
+          }
+          if (type === 'ink') return;
+
+          switchTool('select');
+          if (type === 'note') addAnnotation(canvas, pageIndex, 'note', { rect: { left: x, top: y, width: 22, height: 22 } });
+          else if (type === 'square' || type === 'circle') addAnnotation(canvas, pageIndex, type, { rect: { left: x, top: y, width: 120, height: 80 } });
+          else if (type === 'line' || type === 'arrow') addAnnotation(canvas, pageIndex, type, { line: [{ x, y }, { x: x + 120, y }] });
+          else if (type === 'freeText') {
+              const text = addAnnotation(canvas, pageIndex, 'freeText', { rect: { left: x, top: y, width: 0, height: 0 }, contents: 'Comment', fontSize: 14 });
+              text.enterEditing();
+              text.selectAll();
+          }
+      }
   };
 
+  const handleCanvasMouseUp = (canvas: any, opt: any, pageIndex: number) => {
+      const start = markupStartRef.current;
+      markupStartRef.current = null;
+      const tool = activeToolRef.current;
+      if (!start || start.pageIndex !== pageIndex || !tool.startsWith('annot_')) return;
+      const quads = selectTextQuads(pageTextItemsRef.current.get(pageIndex) || [], start, canvas.getPointer(opt.e));
+      if (quads.length > 0) addAnnotation(canvas, pageIndex, tool.replace('annot_', '') as AnnotationType, { quads });
+  };
+
+  // --- ANNOTATIONS ---
+  const newAnnotationMeta = (type: AnnotationType, borderWidth = 2) => {
+      const now = new Date().toISOString();
+      const { author, color } = annotationStyleRef.current;
+      return { id: crypto.randomUUID(), type, author: author.trim(), contents: '', color, opacity: 1, created: now, modified: now, borderWidth };
+  };
+
+  const addAnnotation = (canvas: any, pageIndex: number, type: AnnotationType, fields: Partial<PdfAnnotation>) => {
+      const obj = createAnnotationObject({ ...newAnnotationMeta(type), pageIndex, rect: { left: 0, top: 0, width: 0, height: 0 }, ...fields });
+      canvas.add(obj);
+      // Markup tools stay active for the next selection, where only text objects take clicks
+      if (MARKUP_TOOLS.includes(type)) obj.set({ selectable: false, evented: false });
+      else canvas.setActiveObject(obj);
+      return obj;
+  };
+
+  const updateSelectedAnnotation = (changes: Partial<PdfAnnotation>) => {
+      if (!selectedAnnotation) return;
+      const { obj } = selectedAnnotation;
+      obj.set('annotation', { ...obj.annotation, ...changes, modified: new Date().toISOString() });
+      setSelectedAnnotation({ ...selectedAnnotation });
+  };
+
+  const handleAnnotationColor = (color: string) => {
+      setAnnotationColor(color);
+      Object.values(canvasesRef.current).forEach((c: any) => { if (c.freeDrawingBrush) c.freeDrawingBrush.color = color; });
+      if (!selectedAnnotation) return;
+      const { obj, pageIndex } = selectedAnnotation;
+      const filled = ['highlight', 'note', 'freeText'].includes(obj.annotation.type);
+      obj.set(filled ? 'fill' : 'stroke', color);
+      obj.canvas.requestRenderAll();
+      updateSelectedAnnotation({ color });
+      saveHistory(pageIndex);
+  };
+
+  const deleteSelectedAnnotation = () => {
+      if (!selectedAnnotation) return;
+      const { obj } = selectedAnnotation;
+      const canvas = obj.canvas;
+      canvas.remove(obj);
+      canvas.discardActiveObject();
+      canvas.requestRenderAll();
+      setSelectedAnnotation(null);
+  };
+
+  // Annotations of pages that were never rendered are kept as they were read
+  const collectAnnotations = (): PdfAnnotation[] => pages.flatMap(p => {
+      const canvas = canvasesRef.current[p.id];
+      if (!canvas) return loadedAnnotationsRef.current.filter(a => a.pageIndex === p.id);
+      return canvas.getObjects().filter((o: any) => o.subtype === 'annotation' && o.annotation).map((o: any) => toPdfAnnotation(o, p.id));
+  });
+
   const switchTool = (tool: string) => {
       setActiveTool(tool);
       Object.values(canvasesRef.current).forEach((c: any) => {
@@ -403,10 +789,16 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
           
           if (tool === 'select') {
               c.selection = true;
+              c.isDrawingMode = false;
               c.defaultCursor = 'default';
               c.forEachObject((o: any) => { o.selectable = true; o.evented = true; });
           } else {
               c.selection = false;
+              c.isDrawingMode = tool === 'annot_ink';
+              if (c.isDrawingMode) {
+                  c.freeDrawingBrush.color = annotationStyleRef.current.color;
+                  c.freeDrawingBrush.width = 2;
+              }
               c.defaultCursor = tool === 'text' ? 'text' : 'crosshair';
               c.forEachObject((o: any) => { 
                   const isText = o.type === 'i-text';
@@ -507,6 +899,88 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
       setShowFindModal(false);
   };
 
+  // --- Redaction ---
+  const createRedactionMark = (left: number, top: number, width: number, height: number) => new fabric.Rect({
+      left, top, width, height, fill: 'rgba(0, 0, 0, 0.35)', stroke: '#dc2626', strokeWidth: 1, strokeDashArray: [4, 4], subtype: 'redaction'
+  });
+
+  const refreshRedactionCount = () => {
+      const count = Object.values(canvasesRef.current).reduce((sum: number, c: any) => sum + c.getObjects().filter((o: any) => o.subtype === 'redaction').length, 0);
+      setRedactionCount(count);
+  };
+
+  const handleRedactAll = () => {
+      const query = matchCase ? findQuery : findQuery.toLowerCase();
+      if (!query) return;
+
+      searchResults.forEach(({ pageIndex, item }) => {
+          const canvas = canvasesRef.current[pageIndex];
+          if (!canvas) return;
+          const str = matchCase ? item.str : item.str.toLowerCase();
+          // Text items are whole runs, so place each hit by its character offset, padded a little
+          const charWidth = item.width / item.str.length;
+          for (let at = str.indexOf(query); at !== -1; at = str.indexOf(query, at + query.length)) {
+              canvas.add(createRedactionMark(
+                  item.transform[4] + (at - 0.25) * charWidth,
+                  item.transform[5] - item.height,
+                  (query.length + 0.5) * charWidth,
+                  item.height * 1.2
+              ));
+          }
+          canvas.renderAll();
+      });
+      setSearchResults([]);
+      setCurrentMatchIndex(-1);
+      setShowFindModal(false);
+  };
+
+  // --- Sensitive Data ---
+  const handleSensitiveScan = async () => {
+      if (!uploadedFiles[0]) return;
+      setSensitiveScanning(true);
+      setSensitiveProgress(0);
+      setSensitiveError(null);
+      try {
+          const matches = await sensitiveDataService.findSensitiveData(uploadedFiles[0], {
+              types: sensitiveTypes,
+              customPatterns: customPatterns.split('\n'),
+              ocrScannedPages,
+              onProgress: setSensitiveProgress,
+          }, pageTextItemsRef.current);
+          setSensitiveMatches(matches);
+          setSelectedMatchIds(new Set(matches.map(m => m.id)));
+      } catch (e) {
+          console.error(e);
+          setSensitiveError((e as Error).message || "Scan failed.");
+      } finally {
+          setSensitiveScanning(false);
+      }
+  };
+
+  const toggleMatches = (ids: string[], selected: boolean) => {
+      setSelectedMatchIds(prev => {
+          const next = new Set(prev);
+          ids.forEach(id => selected ? next.add(id) : next.delete(id));
+          return next;
+      });
+  };
+
+  // Marks are ordinary redaction areas, so they can still be adjusted or deleted before applying
+  const handleMarkSensitive = () => {
+      if (!sensitiveMatches) return;
+      const marked = sensitiveMatches.filter(m => selectedMatchIds.has(m.id));
+      const touchedPages = new Set<number>();
+      marked.forEach(match => {
+          const canvas = canvasesRef.current[match.pageIndex];
+          if (!canvas) return;
+          match.rects.forEach(r => canvas.add(createRedactionMark(r.left, r.top, r.width, r.height)));
+          touchedPages.add(match.pageIndex);
+      });
+      touchedPages.forEach(pageIndex => canvasesRef.current[pageIndex].renderAll());
+      setSensitiveMatches(sensitiveMatches.filter(m => !selectedMatchIds.has(m.id)));
+      setSelectedMatchIds(new Set());
+  };
+
   // --- Stamp Logic (Enhanced) ---
   const handleAddCustomStamp = () => {
       const canvas = canvasesRef.current[0]; // Default to first page
@@ -602,9 +1076,11 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
 
   const handleAddSignature = (src?: string) => {
       let finalSrc = src || '';
+      let typedSignature = false;
       
       if (!finalSrc) {
           if (signTab === 'type') {
+              typedSignature = true;
               const c = document.createElement('canvas');
               const ctx = c.getContext('2d');
               if (ctx) {
@@ -624,7 +1100,17 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
           if (finalSrc) saveSignature(finalSrc, signTab);
       }
 
-      if (finalSrc) {
+      // Typed signatures stay text so the script font is embedded as vectors when saving
+      if (typedSignature) {
+          const canvas = canvasesRef.current[0];
+          if (canvas) {
+              const text = new fabric.IText(typedName, { left: 100, top: 100, fontFamily: selectedSigFont, fontSize: 48, fill: sigColor });
+              canvas.add(text);
+              canvas.setActiveObject(text);
+              setShowSignModal(false);
+              switchTool('select');
+          }
+      } else if (finalSrc) {
           const canvas = canvasesRef.current[0]; 
           if (canvas) {
               fabric.Image.fromURL(finalSrc, (img: any) => {
@@ -639,22 +1125,79 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
       }
   };
 
+  // Splits edits of existing text that can be rewritten in the content stream from the rest.
+  // Moved or restyled text, and covers whose text was deleted, stay as whiteout and overlay.
+  const extractTextEdits = (pagesData: { pageIndex: number, objects: any[] }[]) => {
+      const textEdits: TextEdit[] = [];
+      const rewritten = new Set<string>();
+      pagesData.forEach(({ pageIndex, objects }) => {
+          objects.filter(o => o.subtype === 'text_edit' && o.textEdit).forEach(o => {
+              const { id, originalText, rect, style } = o.textEdit;
+              const hasCover = objects.some(c => c.subtype === 'text_edit_cover' && c.textEdit?.id === id);
+              const unchanged = Math.abs(o.left - rect.left) < 0.5 && Math.abs(o.top - rect.top) < 0.5 &&
+                  JSON.stringify(pickTextStyle(o)) === JSON.stringify(style);
+              if (!hasCover || !unchanged) return;
+              rewritten.add(id);
+              if (o.text !== originalText) textEdits.push({ pageIndex, rect, originalText, newText: o.text });
+          });
+      });
+      const remaining = pagesData.map(p => ({ ...p, objects: p.objects.filter(o => !(o.textEdit && rewritten.has(o.textEdit.id))) }));
+      return { pagesData: remaining, textEdits };
+  };
+
+  const collectPagesData = () => pages.map(p => {
+      const canvas = canvasesRef.current[p.id];
+      return {
+          pageIndex: p.id,
+          objects: canvas ? canvas.toJSON(['id', 'subtype', 'linkUrl', 'isOriginalText', 'textEdit', 'annotation']).objects : []
+      };
+  });
+
+  // Saves the canvas edits and form values, then truly redacts any marked areas.
+  // Returns null when the user backs out after the verification pass found leftover text,
+  // or after being told that edited text contains characters the replacement font lacks.
+  const buildEditedPdf = async (flatten: boolean): Promise<ProcessedFile | null> => {
+      const { pagesData, textEdits } = extractTextEdits(collectPagesData());
+      let saved = await pdfEditorService.savePdf(uploadedFiles[0], pagesData, 1.0, { values: formValues, newFields, flatten });
+      const annotations = collectAnnotations();
+      if (annotations.length > 0 || loadedAnnotationsRef.current.length > 0) {
+          const annotated = await annotationService.applyAnnotations({ ...uploadedFiles[0], arrayBuffer: base64ToArrayBuffer(saved.dataUrl.split(',')[1]) }, annotations);
+          saved = { ...annotated, name: saved.name };
+      }
+      if (textEdits.length > 0) {
+          const edited = await textEditService.applyTextEdits({ ...uploadedFiles[0], arrayBuffer: base64ToArrayBuffer(saved.dataUrl.split(',')[1]) }, textEdits);
+          const dropped = textEdits
+              .map((edit, i) => ({ edit, chars: edited.unsupported[i] }))
+              .filter(d => d.chars.length > 0);
+          if (dropped.length > 0) {
+              const sample = dropped.map(d => `${d.chars.join(' ')} in "${d.edit.newText}" (page ${d.edit.pageIndex + 1})`).slice(0, 5).join(', ');
+              if (!confirm(`Some characters cannot be written with the replacement font and would be left out: ${sample}. Save anyway?`)) return null;
+          }
+          saved = { ...edited.file, name: saved.name };
+      }
+      const areas = pagesData.flatMap(p => p.objects
+          .filter((o: any) => o.subtype === 'redaction')
+          .map((o: any) => ({ pageIndex: p.pageIndex, rect: { left: o.left, top: o.top, width: o.width * (o.scaleX || 1), height: o.height * (o.scaleY || 1) } })));
+      if (areas.length === 0) return saved;
+
+      const result = await redactionService.redactPdf(
+          { ...uploadedFiles[0], arrayBuffer: base64ToArrayBuffer(saved.dataUrl.split(',')[1]) },
+          areas,
+          { fillColor: redactionFill, label: redactionLabel.trim() || undefined, removeMetadata: redactionStripMetadata }
+      );
+      if (result.leftovers.length > 0) {
+          const sample = result.leftovers.map(l => `"${l.text}" (page ${l.pageIndex + 1})`).slice(0, 5).join(', ');
+          if (!confirm(`Some text can still be extracted from under the redaction boxes: ${sample}. Save anyway?`)) return null;
+      }
+      return result.file;
+  };
+
   const handleDownload = async () => {
       setLoading(true);
-      const pagesData = pages.map(p => {
-          const canvas = canvasesRef.current[p.id];
-          return {
-              pageIndex: p.id,
-              objects: canvas ? canvas.toJSON(['id', 'subtype', 'linkUrl', 'isOriginalText']).objects : []
-          };
-      });
       
       try {
-          const result = await pdfEditorService.savePdf(uploadedFiles[0], pagesData);
-          const link = document.createElement('a');
-          link.href = result.dataUrl;
-          link.download = result.name;
-          link.click();
+          const result = await buildEditedPdf(flattenOnSave);
+          if (result) downloadFile(result);
       } catch (e) {
           alert('Error saving PDF');
       } finally {
@@ -662,10 +1205,176 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
       }
   };
 
+  // --- FORM FIELDS ---
+  const setFieldValue = (name: string, value: FormFieldValue) => {
+      setFormValues(prev => ({ ...prev, [name]: value }));
+  };
+
+  const downloadFile = (file: { dataUrl: string, name: string }) => {
+      const link = document.createElement('a');
+      link.href = file.dataUrl;
+      link.download = file.name;
+      link.click();
+  };
+
+  const handleExportFormData = (format: FormDataFormat) => {
+      downloadFile(formDataService.exportFormData(formValues, format, uploadedFiles[0].name));
+  };
+
+  const handleImportFormData = async (file: File) => {
+      try {
+          const imported = formDataService.parseFormData(await file.arrayBuffer());
+          const knownNames = new Set([...formFields.map(f => f.name), ...newFields.map(f => f.name)]);
+          const matched = Object.keys(imported).filter(name => knownNames.has(name));
+          setFormValues(prev => ({ ...prev, ...Object.fromEntries(matched.map(name => [name, imported[name]])) }));
+          setFormDataMessage(`Filled ${matched.length} of ${Object.keys(imported).length} fields from ${file.name}.`);
+      } catch (e: any) {
+          setFormDataMessage(e.message || 'Could not read the form data file.');
+      }
+  };
+
+  const handleCsvFill = async (file: File) => {
+      setLoading(true);
+      setFormDataMessage(null);
+      try {
+          // The current edits become the template that every CSV row is filled into
+          const template = await buildEditedPdf(false);
+          if (!template) return;
+          const zip = await formDataService.fillFromCsv(
+              base64ToArrayBuffer(template.dataUrl.split(',')[1]),
+              uploadedFiles[0].name,
+              await file.text(),
+              { flatten: flattenOnSave, fileNameColumn: csvNameColumn.trim() || undefined }
+          );
+          downloadFile(zip);
+      } catch (e: any) {
+          setFormDataMessage(e.message || 'Error filling the form from CSV.');
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  // --- DIGITAL SIGNATURE ---
+  const signatureFieldNames = [
+      ...formFields.filter(f => f.type === 'signature').map(f => f.name),
+      // Fields drawn in this session only exist in the file once the edits are saved
+      ...(signWithEdits ? newFields.filter(f => f.type === 'signature').map(f => f.name) : []),
+  ];
+  const activeSignTarget = signatureFieldNames.includes(signTarget) ? signTarget : '';
+
+  const handleOpenCertificate = async () => {
+      if (!certFile) return;
+      try {
+          setSigner(signatureService.loadCertificate(await certFile.arrayBuffer(), certPassword));
+          setDigitalSignError(null);
+      } catch (e: any) {
+          setSigner(null);
+          setDigitalSignError(e.message);
+      }
+  };
+
+  const handleDigitalSign = async () => {
+      if (!signer || !uploadedFiles[0].arrayBuffer) return;
+      setLoading(true);
+      setDigitalSignError(null);
+      try {
+          let source: ArrayBuffer;
+          if (signWithEdits) {
+              // Flattening would remove the very field we are about to sign
+              const saved = await buildEditedPdf(flattenOnSave && !activeSignTarget);
+              if (!saved) return;
+              source = base64ToArrayBuffer(saved.dataUrl.split(',')[1]);
+          } else {
+              source = uploadedFiles[0].arrayBuffer.slice(0);
+          }
+          const result = await signatureService.signPdf(source, uploadedFiles[0].name, signer, {
+              reason: signReason.trim() || undefined,
+              location: signLocation.trim() || undefined,
+              fieldName: activeSignTarget || undefined,
+              imageDataUrl: activeSignTarget ? savedSignatures.find(sig => sig.id === signImageId)?.src : undefined,
+          });
+          downloadFile(result);
+          setShowDigitalSignModal(false);
+      } catch (e: any) {
+          setDigitalSignError(e.message || 'Error signing PDF');
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const removeNewField = (name: string) => {
+      setNewFields(prev => prev.filter(f => f.name !== name));
+      setFormValues(prev => {
+          const { [name]: _removed, ...rest } = prev;
+          return rest;
+      });
+  };
+
+  const renderFieldInput = (field: { name: string, type: string, options?: string[], multiline?: boolean, readOnly?: boolean, maxLength?: number }, rect: FormWidgetRect, exportValue?: string) => {
+      const value = formValues[field.name];
+      const inputClass = 'w-full h-full bg-sky-50/80 border border-sky-300 hover:border-sky-500 focus:border-sky-600 focus:bg-white outline-none text-gray-900 px-1 disabled:opacity-60';
+      const style = { fontSize: Math.max(8, Math.min(14, rect.height * 0.65)) };
+
+      switch (field.type) {
+          case 'text':
+              return field.multiline ? (
+                  <textarea value={String(value ?? '')} onChange={e => setFieldValue(field.name, e.target.value)} maxLength={field.maxLength} disabled={field.readOnly} className={`${inputClass} resize-none`} style={style} title={field.name} />
+              ) : (
+                  <input type="text" value={String(value ?? '')} onChange={e => setFieldValue(field.name, e.target.value)} maxLength={field.maxLength} disabled={field.readOnly} className={inputClass} style={style} title={field.name} />
+              );
+          case 'checkbox':
+              return <input type="checkbox" checked={value === true} onChange={e => setFieldValue(field.name, e.target.checked)} disabled={field.readOnly} className="w-full h-full cursor-pointer accent-sky-600" title={field.name} />;
+          case 'radio':
+              return <input type="radio" name={`radio-${field.name}`} checked={!!exportValue && value === exportValue} onChange={() => exportValue && setFieldValue(field.name, exportValue)} disabled={field.readOnly} className="w-full h-full cursor-pointer accent-sky-600" title={`${field.name}: ${exportValue}`} />;
+          case 'dropdown':
+              return (
+                  <select value={String(value ?? '')} onChange={e => setFieldValue(field.name, e.target.value)} disabled={field.readOnly} className={inputClass} style={style} title={field.name}>
+                      <option value=""></option>
+                      {field.options?.map(o => <option key={o} value={o}>{o}</option>)}
+                  </select>
+              );
+          case 'optionlist':
+              return (
+                  <select multiple value={Array.isArray(value) ? value : []} onChange={e => setFieldValue(field.name, Array.from(e.target.selectedOptions).map(o => o.value))} disabled={field.readOnly} className={inputClass} style={style} title={field.name}>
+                      {field.options?.map(o => <option key={o} value={o}>{o}</option>)}
+                  </select>
+              );
+          case 'signature':
+              return <div className="w-full h-full border-2 border-dashed border-indigo-400 bg-indigo-50/60 flex items-center justify-center text-[10px] font-bold uppercase tracking-wide text-indigo-500" title={field.name}>Signature</div>;
+          default:
+              return null;
+      }
+  };
+
+  const handleFontFamilyChange = async (family: string) => {
+      if (family === '__upload') {
+          fontInputRef.current?.click();
+          return;
+      }
+      updateTextObj('fontFamily', family);
+      try {
+          await fontService.loadForDisplay(family);
+          selectedTextObj?.canvas?.requestRenderAll();
+      } catch (e) {
+          console.error('Failed to load font preview', e);
+      }
+  };
+
+  const handleFontUpload = async (file: File) => {
+      try {
+          const family = await fontService.addFontFile(file);
+          setFontFamilies(fontService.listFamilies());
+          updateTextObj('fontFamily', family.name);
+      } catch (e: any) {
+          alert(e.message || 'Could not load the font.');
+      }
+  };
+
   // --- HELPER FOR TEXT UPDATES ---
   const updateTextObj = (prop: string, val: any) => {
       if (!selectedTextObj) return;
       selectedTextObj.set(prop, val);
+      touchAnnotation(selectedTextObj);
       selectedTextObj.canvas.renderAll();
       if (prop === 'fontSize') setFontSize(val);
       if (prop === 'fontFamily') setFontFamily(val);
@@ -713,25 +1422,63 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
                </button>
                <span className="font-medium text-sm text-gray-200 truncate max-w-xs">{uploadedFiles[0].name}</span>
             </div>
+            <div className="flex items-center gap-4">
+            {(formFields.length > 0 || newFields.length > 0) && (
+                <button onClick={() => { setFormDataMessage(null); setShowFormDataModal(true); }} className="text-xs text-gray-300 hover:text-white border border-white/20 hover:bg-white/10 rounded px-3 py-1 transition-colors">
+                    Form Data
+                </button>
+            )}
+            {(formFields.length > 0 || newFields.length > 0) && (
+                <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer select-none" title="Burn field values into the page so they can no longer be edited">
+                    <input type="checkbox" checked={flattenOnSave} onChange={e => setFlattenOnSave(e.target.checked)} className="rounded" />
+                    Flatten form on save
+                </label>
+            )}
             <Button onClick={handleDownload} className="bg-[#007bff] hover:bg-blue-600 text-white font-bold py-1.5 px-6 rounded-lg text-sm shadow-lg border border-blue-500 transition-all hover:shadow-blue-500/30">
                 Apply Changes
             </Button>
+            </div>
         </div>
 
         {/* Toolbar */}
         <div className="bg-white border-b border-gray-200 h-20 flex items-center px-4 shadow-sm z-20 shrink-0 gap-2 overflow-x-auto no-scrollbar justify-center">
             <ToolbarButton label="Text" icon={<Icon name="text" />} active={activeTool === 'text'} onClick={() => switchTool('text')} />
             <ToolbarButton label="Whiteout" icon={<Icon name="whiteout" />} active={activeTool === 'whiteout'} onClick={() => switchTool('whiteout')} />
+            <ToolbarButton label="Redact" icon={<Icon name="redact" />} active={activeTool === 'redact'} onClick={() => switchTool('redact')} />
             <ToolbarButton label="Image" icon={<Icon name="image" />} onClick={() => imageInputRef.current?.click()} />
             <ToolbarButton label="Link" icon={<Icon name="link" />} active={activeTool === 'link'} onClick={() => switchTool('link')} />
             <div className="w-px h-8 bg-gray-200 mx-2"></div>
             <ToolbarButton label="Sign" icon={<Icon name="signature" />} onClick={() => setShowSignModal(true)} />
-            <ToolbarButton label="Annotate" icon={<Icon name="annotate" />} active={activeTool === 'annotate'} onClick={() => switchTool('annotate')} />
+            <ToolbarButton label="Digital ID" icon={<Icon name="certificate" />} onClick={() => { setDigitalSignError(null); setShowDigitalSignModal(true); }} />
+            <ToolbarButton label="Annotate" icon={<Icon name="annotate" />} active={activeTool.startsWith('annot_') || !!annotMenuPos} onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+                const r = e.currentTarget.getBoundingClientRect();
+                setAnnotMenuPos(annotMenuPos ? null : { top: r.bottom + 4, left: r.left });
+            }} />
+            {annotMenuPos && (
+                <div className="fixed bg-white border border-gray-200 rounded-lg shadow-xl py-1 z-50 w-40" style={annotMenuPos}>
+                    {ANNOTATION_TOOLS.map(type => (
+                        <button key={type} onClick={() => { switchTool(`annot_${type}`); setAnnotMenuPos(null); }} className={`block w-full text-left px-3 py-2 text-sm hover:bg-gray-50 ${activeTool === `annot_${type}` ? 'text-blue-600 font-medium' : 'text-gray-700'}`}>{ANNOTATION_LABELS[type]}</button>
+                    ))}
+                </div>
+            )}
+            <ToolbarButton label="Form Field" icon={<Icon name="form" />} active={activeTool.startsWith('field_') || !!fieldMenuPos} onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+                // The toolbar scrolls horizontally, so the menu is positioned against the viewport instead
+                const r = e.currentTarget.getBoundingClientRect();
+                setFieldMenuPos(fieldMenuPos ? null : { top: r.bottom + 4, left: r.left });
+            }} />
+            {fieldMenuPos && (
+                <div className="fixed bg-white border border-gray-200 rounded-lg shadow-xl py-1 z-50 w-40" style={fieldMenuPos}>
+                    {([['field_text', 'Text Field'], ['field_checkbox', 'Checkbox'], ['field_signature', 'Signature Field']] as const).map(([tool, label]) => (
+                        <button key={tool} onClick={() => { switchTool(tool); setFieldMenuPos(null); }} className={`block w-full text-left px-3 py-2 text-sm hover:bg-gray-50 ${activeTool === tool ? 'text-blue-600 font-medium' : 'text-gray-700'}`}>{label}</button>
+                    ))}
+                </div>
+            )}
             <div className="w-px h-8 bg-gray-200 mx-2"></div>
             <ToolbarButton label="Stamp" icon={<Icon name="stamp" />} onClick={() => setShowStampModal(true)} />
             <ToolbarButton label="QR Code" icon={<Icon name="qr" />} onClick={() => setShowQrModal(true)} />
             <div className="w-px h-8 bg-gray-200 mx-2"></div>
             <ToolbarButton label="Find" icon={<Icon name="find" />} onClick={() => setShowFindModal(true)} />
+            <ToolbarButton label="Sensitive" icon={<Icon name="sensitive" />} active={showSensitivePanel} onClick={() => setShowSensitivePanel(v => !v)} />
             <div className="w-px h-8 bg-gray-200 mx-2"></div>
             <ToolbarButton label="Undo" icon={<Icon name="undo" />} onClick={handleUndo} />
             <ToolbarButton label="Redo" icon={<Icon name="redo" />} onClick={handleRedo} />
@@ -756,12 +1503,102 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
             }} />
         </div>
 
+        {(activeTool === 'redact' || redactionCount > 0) && (
+            <div className="px-6 py-2 text-xs flex flex-wrap items-center gap-x-6 gap-y-1 shrink-0 border-b bg-red-50 border-red-200 text-red-800">
+                <span>
+                    <span className="font-bold">Redaction:</span> {redactionCount} area{redactionCount === 1 ? '' : 's'} marked.
+                    {' '}Text, images and annotations under them are permanently removed when you apply changes.
+                </span>
+                <label className="flex items-center gap-2">
+                    Box
+                    <select value={redactionFill} onChange={e => setRedactionFill(e.target.value)} className="border border-red-200 rounded px-1 py-0.5 bg-white text-gray-700">
+                        <option value="#000000">Black</option>
+                        <option value="#ffffff">White</option>
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    Label
+                    <input type="text" value={redactionLabel} onChange={e => setRedactionLabel(e.target.value)} placeholder="e.g. REDACTED" className="border border-red-200 rounded px-2 py-0.5 w-32 bg-white text-gray-700" />
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer select-none">
+                    <input type="checkbox" checked={redactionStripMetadata} onChange={e => setRedactionStripMetadata(e.target.checked)} className="rounded" />
+                    Remove document metadata
+                </label>
+            </div>
+        )}
+
+        {(activeTool.startsWith('annot_') || selectedAnnotation) && (
+            <div className="px-6 py-2 text-xs flex flex-wrap items-center gap-x-6 gap-y-1 shrink-0 border-b bg-amber-50 border-amber-200 text-amber-900">
+                {selectedAnnotation ? (
+                    <span>
+                        <span className="font-bold">{ANNOTATION_LABELS[selectedAnnotation.obj.annotation.type as AnnotationType]}</span>
+                        {selectedAnnotation.obj.annotation.author && ` by ${selectedAnnotation.obj.annotation.author}`}
+                        {selectedAnnotation.obj.annotation.modified && `, ${new Date(selectedAnnotation.obj.annotation.modified).toLocaleString()}`}
+                    </span>
+                ) : (
+                    <span>
+                        <span className="font-bold">{ANNOTATION_LABELS[activeTool.replace('annot_', '') as AnnotationType]}:</span>
+                        {' '}{ANNOTATION_HINTS[activeTool.replace('annot_', '') as AnnotationType]}
+                    </span>
+                )}
+                <div className="flex items-center gap-1">
+                    {ANNOTATION_COLORS.map(c => (
+                        <button key={c} onClick={() => handleAnnotationColor(c)} className={`w-5 h-5 rounded-full border-2 ${(selectedAnnotation ? selectedAnnotation.obj.annotation.color : annotationColor) === c ? 'border-amber-700' : 'border-white'}`} style={{ backgroundColor: c }} />
+                    ))}
+                </div>
+                {selectedAnnotation && selectedAnnotation.obj.annotation.type !== 'freeText' && (
+                    <label className="flex items-center gap-2 flex-1 min-w-[200px]">
+                        Comment
+                        <input
+                            type="text"
+                            value={selectedAnnotation.obj.annotation.contents}
+                            onChange={e => updateSelectedAnnotation({ contents: e.target.value })}
+                            onBlur={() => saveHistory(selectedAnnotation.pageIndex)}
+                            className="border border-amber-200 rounded px-2 py-0.5 flex-1 bg-white text-gray-700"
+                        />
+                    </label>
+                )}
+                {selectedAnnotation ? (
+                    <button onClick={deleteSelectedAnnotation} className="text-red-600 hover:underline">Delete</button>
+                ) : (
+                    <label className="flex items-center gap-2">
+                        Author
+                        <input type="text" value={annotationAuthor} onChange={e => setAnnotationAuthor(e.target.value)} placeholder="Your name" className="border border-amber-200 rounded px-2 py-0.5 w-32 bg-white text-gray-700" />
+                    </label>
+                )}
+            </div>
+        )}
+
+        {signatures.length > 0 && (
+            <div className={`px-6 py-2 text-xs flex items-center justify-between shrink-0 border-b ${signatures.every(s => s.status === 'valid') ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                <span><span className="font-bold">Digitally signed document:</span> {summarizeSignatures(signatures)} Applying changes re-saves the file and invalidates these signatures.</span>
+                <button onClick={() => setShowSignaturePanel(v => !v)} className="font-bold underline hover:no-underline shrink-0 ml-4">
+                    {showSignaturePanel ? 'Hide signatures' : 'Show signatures'}
+                </button>
+            </div>
+        )}
+
         {/* Canvas Area */}
         <div className="flex-1 overflow-auto relative p-8 bg-[#e5e7eb]" ref={containerRef}>
             <div className="flex flex-col items-center space-y-8 pb-32">
                 {pages.map(page => (
                     <div key={page.id} className="shadow-xl bg-white relative">
                         <canvas id={`fabric-page-${page.id}`} />
+                        {/* Live form inputs positioned over the page */}
+                        <div className="absolute inset-0 pointer-events-none z-10">
+                            {formFields.flatMap(field => field.widgets.filter(w => w.pageIndex === page.id).map((w, i) => (
+                                <div key={`${field.name}-${i}`} className="absolute pointer-events-auto" style={{ left: w.rect.left, top: w.rect.top, width: w.rect.width, height: w.rect.height }}>
+                                    {renderFieldInput(field, w.rect, w.exportValue)}
+                                </div>
+                            )))}
+                            {newFields.filter(f => f.pageIndex === page.id).map(field => (
+                                <div key={field.name} className="absolute pointer-events-auto group/field outline outline-1 outline-dashed outline-sky-500" style={{ left: field.rect.left, top: field.rect.top, width: field.rect.width, height: field.rect.height }}>
+                                    {renderFieldInput(field, field.rect)}
+                                    <span className="absolute -top-4 left-0 text-[9px] font-bold text-sky-700 bg-white/90 px-1 rounded whitespace-nowrap">{field.name}</span>
+                                    <button onClick={() => removeNewField(field.name)} className="absolute -top-2 -right-2 w-4 h-4 rounded-full bg-red-500 text-white text-[10px] leading-none hidden group-hover/field:flex items-center justify-center" title="Remove field">×</button>
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 ))}
             </div>
@@ -772,11 +1609,15 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
                     className="absolute bg-white border border-gray-300 rounded-lg shadow-2xl p-1.5 flex items-center gap-2 z-50 animate-in fade-in zoom-in-95 duration-150"
                     style={{ top: floatingBarPos.top, left: floatingBarPos.left }}
                 >
-                    <select className="text-xs border-r pr-2 outline-none font-medium text-gray-700 bg-transparent cursor-pointer" value={fontFamily} onChange={(e) => updateTextObj('fontFamily', e.target.value)}>
-                        <option value="Helvetica">Helvetica</option>
-                        <option value="Times New Roman">Times Roman</option>
-                        <option value="Courier">Courier</option>
+                    <select className="text-xs border-r pr-2 outline-none font-medium text-gray-700 bg-transparent cursor-pointer max-w-[8rem]" value={fontFamily} onChange={(e) => handleFontFamilyChange(e.target.value)}>
+                        {fontFamilies.map(f => <option key={f.name} value={f.name} title={f.description}>{f.name}</option>)}
+                        {!fontFamilies.some(f => f.name === fontFamily) && <option value={fontFamily}>{fontFamily}</option>}
+                        <option value="__upload">Upload font…</option>
                     </select>
+                    <input ref={fontInputRef} type="file" hidden accept=".ttf,.otf,font/ttf,font/otf" onChange={(e) => {
+                        if (e.target.files?.[0]) handleFontUpload(e.target.files[0]);
+                        e.target.value = '';
+                    }} />
                     <select className="text-xs border-r pr-2 outline-none font-medium text-gray-700 bg-transparent cursor-pointer w-14" value={fontSize} onChange={(e) => updateTextObj('fontSize', parseInt(e.target.value))}>
                         {[8,10,12,14,16,18,24,36,48,72].map(s => <option key={s} value={s}>{s}px</option>)}
                     </select>
@@ -912,6 +1753,124 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
             </div>
         )}
 
+        {/* Digital Signature Modal */}
+        {showDigitalSignModal && (
+            <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                <div className="bg-white rounded-xl shadow-2xl w-full max-w-md animate-in fade-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+                    <div className="flex justify-between items-center p-4 border-b bg-gray-50">
+                        <h3 className="font-bold text-gray-800 text-lg">Digital Signature</h3>
+                        <button onClick={() => setShowDigitalSignModal(false)} className="text-gray-400 hover:text-gray-600"><Icon name="close" /></button>
+                    </div>
+                    <div className="p-6 space-y-4">
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 mb-1">Certificate (.p12 / .pfx)</label>
+                            <div className="flex gap-2">
+                                <Button size="sm" variant="secondary" onClick={() => certInputRef.current?.click()} className="flex-1 truncate">{certFile ? certFile.name : 'Choose File...'}</Button>
+                                <input ref={certInputRef} type="file" hidden accept=".p12,.pfx" onChange={(e) => {
+                                    if (e.target.files?.[0]) { setCertFile(e.target.files[0]); setSigner(null); }
+                                    e.target.value = '';
+                                }} />
+                            </div>
+                            <div className="flex gap-2 mt-2">
+                                <input type="password" value={certPassword} onChange={e => setCertPassword(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleOpenCertificate()} placeholder="Certificate password" className="flex-1 border rounded p-2 text-sm" />
+                                <Button size="sm" variant="outline" onClick={handleOpenCertificate} disabled={!certFile}>Open</Button>
+                            </div>
+                            {signer && (
+                                <div className="mt-2 text-xs bg-green-50 border border-green-200 rounded p-2 text-green-800">
+                                    <div><span className="font-bold">Signer:</span> {signer.subjectName}</div>
+                                    <div><span className="font-bold">Issued by:</span> {signer.issuerName}</div>
+                                    <div><span className="font-bold">Valid until:</span> {signer.validTo.toLocaleDateString()}</div>
+                                </div>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div><label className="block text-xs font-bold text-gray-500 mb-1">Reason</label><input type="text" value={signReason} onChange={e => setSignReason(e.target.value)} placeholder="I approve this document" className="w-full border rounded p-2 text-sm" /></div>
+                            <div><label className="block text-xs font-bold text-gray-500 mb-1">Location</label><input type="text" value={signLocation} onChange={e => setSignLocation(e.target.value)} className="w-full border rounded p-2 text-sm" /></div>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 mb-1">Signature field</label>
+                            <select value={activeSignTarget} onChange={e => setSignTarget(e.target.value)} className="w-full border rounded p-2 text-sm">
+                                <option value="">Invisible signature</option>
+                                {signatureFieldNames.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                            {signatureFieldNames.length === 0 && <p className="text-xs text-gray-400 mt-1">Add a Signature field with the Form Field tool to place a visible signature.</p>}
+                        </div>
+                        {activeSignTarget && (
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 mb-1">Appearance</label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <button onClick={() => setSignImageId('')} className={`h-14 border rounded text-xs text-gray-600 ${!signImageId ? 'ring-2 ring-blue-500 bg-blue-50' : 'hover:bg-gray-50'}`}>Text only</button>
+                                    {savedSignatures.map(sig => (
+                                        <button key={sig.id} onClick={() => setSignImageId(sig.id)} className={`h-14 border rounded p-1 flex items-center justify-center ${signImageId === sig.id ? 'ring-2 ring-blue-500 bg-blue-50' : 'hover:bg-gray-50'}`}>
+                                            <img src={sig.src} alt="Saved signature" className="max-h-full max-w-full object-contain" />
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        <label className="flex items-start gap-2 text-xs text-gray-600 cursor-pointer select-none">
+                            <input type="checkbox" checked={signWithEdits} onChange={e => setSignWithEdits(e.target.checked)} className="rounded mt-0.5" />
+                            <span>Include my edits. Turn this off to sign the original file unchanged and keep any existing signatures valid.</span>
+                        </label>
+                        {digitalSignError && <p className="text-xs text-red-600 bg-red-50 rounded p-2">{digitalSignError}</p>}
+                        <Button onClick={handleDigitalSign} disabled={!signer} loading={loading} className="w-full">Sign & Download</Button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* Form Data Modal */}
+        {showFormDataModal && (
+            <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                <div className="bg-white rounded-xl shadow-2xl w-full max-w-md animate-in fade-in zoom-in-95 duration-200">
+                    <div className="flex justify-between items-center p-4 border-b bg-gray-50">
+                        <h3 className="font-bold text-gray-800 text-lg">Form Data</h3>
+                        <button onClick={() => setShowFormDataModal(false)} className="text-gray-400 hover:text-gray-600"><Icon name="close" /></button>
+                    </div>
+                    <div className="p-6 space-y-5">
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 mb-2">Export field values</label>
+                            <div className="flex gap-2">
+                                <Button size="sm" variant="outline" onClick={() => handleExportFormData('xfdf')} className="flex-1">XFDF</Button>
+                                <Button size="sm" variant="outline" onClick={() => handleExportFormData('fdf')} className="flex-1">FDF</Button>
+                                <Button size="sm" variant="outline" onClick={() => handleExportFormData('json')} className="flex-1">JSON</Button>
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-500 mb-2">Import values from XFDF, FDF or JSON</label>
+                            <Button size="sm" variant="secondary" onClick={() => formDataInputRef.current?.click()} className="w-full">Choose File...</Button>
+                            <input ref={formDataInputRef} type="file" hidden accept=".xfdf,.fdf,.json,.xml" onChange={(e) => {
+                                if (e.target.files?.[0]) handleImportFormData(e.target.files[0]);
+                                e.target.value = '';
+                            }} />
+                        </div>
+                        <div className="border-t pt-4">
+                            <label className="block text-xs font-bold text-gray-500 mb-1">Fill from CSV</label>
+                            <p className="text-xs text-gray-500 mb-2">The header row names the fields. One filled PDF is created per row and all are downloaded as a ZIP{flattenOnSave ? ' (flattened)' : ''}.</p>
+                            <input type="text" value={csvNameColumn} onChange={e => setCsvNameColumn(e.target.value)} placeholder="File name column (optional)" className="w-full border rounded p-2 text-sm mb-2" />
+                            <Button size="sm" onClick={() => csvInputRef.current?.click()} loading={loading} className="w-full">Choose CSV...</Button>
+                            <input ref={csvInputRef} type="file" hidden accept=".csv,text/csv" onChange={(e) => {
+                                if (e.target.files?.[0]) handleCsvFill(e.target.files[0]);
+                                e.target.value = '';
+                            }} />
+                        </div>
+                        {formDataMessage && <p className="text-xs text-center text-gray-600 bg-gray-50 rounded p-2">{formDataMessage}</p>}
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* Signature Panel */}
+        {showSignaturePanel && (
+            <div className="fixed top-36 right-8 w-80 max-h-[70vh] overflow-y-auto bg-gray-50 shadow-xl rounded-lg border border-gray-200 p-4 z-40 animate-in slide-in-from-right-10 duration-200">
+                <div className="flex justify-between items-center mb-3 border-b pb-2">
+                    <h4 className="font-bold text-gray-700">Signatures</h4>
+                    <button onClick={() => setShowSignaturePanel(false)} className="text-gray-400 hover:text-red-500"><Icon name="close" size={4} /></button>
+                </div>
+                <SignaturePanel signatures={signatures} />
+            </div>
+        )}
+
         {/* Find & Replace Modal */}
         {showFindModal && (
             <div className="fixed top-20 right-8 w-80 bg-white shadow-xl rounded-lg border border-gray-200 p-4 z-40 animate-in slide-in-from-right-10 duration-200">
@@ -930,11 +1889,80 @@ const PdfEditorTool: React.FC<PdfEditorToolProps> = ({ onUpload, uploadedFiles,
                         <Button size="sm" variant="secondary" onClick={handleFind} className="flex-1">Find</Button>
                         <Button size="sm" onClick={handleReplace} disabled={currentMatchIndex === -1} className="flex-1">Replace</Button>
                     </div>
-                    <Button size="sm" variant="outline" onClick={handleReplaceAll} disabled={searchResults.length === 0} className="w-full">Replace All</Button>
+                    <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={handleReplaceAll} disabled={searchResults.length === 0} className="flex-1">Replace All</Button>
+                        <Button size="sm" variant="danger" onClick={handleRedactAll} disabled={searchResults.length === 0} className="flex-1">Redact All</Button>
+                    </div>
                     {searchResults.length > 0 && <p className="text-xs text-center text-gray-500 mt-1">{currentMatchIndex + 1} of {searchResults.length} matches</p>}
                 </div>
             </div>
         )}
+
+        {/* Sensitive Data Panel */}
+        {showSensitivePanel && (
+            <div className="fixed top-20 right-8 w-96 max-h-[80vh] flex flex-col bg-white shadow-xl rounded-lg border border-gray-200 p-4 z-40 animate-in slide-in-from-right-10 duration-200">
+                <div className="flex justify-between items-center mb-3 border-b pb-2">
+                    <h4 className="font-bold text-gray-700">Find Sensitive Data</h4>
+                    <button onClick={() => setShowSensitivePanel(false)} className="text-gray-400 hover:text-red-500"><Icon name="close" size={4} /></button>
+                </div>
+                <div className="space-y-3 shrink-0">
+                    <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+                        {SENSITIVE_TYPES.map(type => (
+                            <label key={type} className="flex items-center space-x-2 text-xs text-gray-600 select-none cursor-pointer">
+                                <input type="checkbox" checked={sensitiveTypes.includes(type)} onChange={e => setSensitiveTypes(prev => e.target.checked ? [...prev, type] : prev.filter(t => t !== type))} className="rounded text-blue-600" />
+                                <span>{SENSITIVE_DATA_LABELS[type]}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <textarea value={customPatterns} onChange={e => setCustomPatterns(e.target.value)} rows={2} placeholder={'Custom patterns, one regex per line\ne.g. EMP-\\d{6}'} className="w-full border border-gray-300 rounded p-2 text-xs font-mono focus:ring-2 focus:ring-blue-500 outline-none" />
+                    <label className="flex items-center space-x-2 text-xs text-gray-600 select-none cursor-pointer">
+                        <input type="checkbox" checked={ocrScannedPages} onChange={e => setOcrScannedPages(e.target.checked)} className="rounded text-blue-600" />
+                        <span>Run OCR on scanned pages (slower)</span>
+                    </label>
+                    {sensitiveError && <p className="text-xs text-red-600">{sensitiveError}</p>}
+                    <Button size="sm" variant="secondary" onClick={handleSensitiveScan} disabled={sensitiveScanning} className="w-full">
+                        {!sensitiveScanning ? 'Scan Document' : sensitiveProgress > 0 ? `Reading scanned pages... ${sensitiveProgress}%` : 'Scanning...'}
+                    </Button>
+                </div>
+
+                {sensitiveMatches && (
+                    <>
+                        <div className="flex-1 overflow-y-auto mt-3 border-t pt-2 space-y-3 min-h-0">
+                            {sensitiveMatches.length === 0 && <p className="text-xs text-center text-gray-500 py-4">No sensitive data found.</p>}
+                            {Array.from(new Set(sensitiveMatches.map(m => m.pageIndex))).map(pageIndex => {
+                                const pageMatches = sensitiveMatches.filter(m => m.pageIndex === pageIndex);
+                                const allSelected = pageMatches.every(m => selectedMatchIds.has(m.id));
+                                return (
+                                    <div key={pageIndex}>
+                                        <div className="flex justify-between items-center mb-1">
+                                            <button onClick={() => document.getElementById(`fabric-page-${pageIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })} className="text-xs font-bold text-gray-700 hover:text-blue-600">
+                                                Page {pageIndex + 1} <span className="font-normal text-gray-400">({pageMatches.length})</span>
+                                            </button>
+                                            <button onClick={() => toggleMatches(pageMatches.map(m => m.id), !allSelected)} className="text-[11px] text-blue-600 hover:underline">
+                                                {allSelected ? 'Select none' : 'Select all'}
+                                            </button>
+                                        </div>
+                                        {pageMatches.map(match => (
+                                            <label key={match.id} className="flex items-center space-x-2 text-xs py-0.5 cursor-pointer">
+                                                <input type="checkbox" checked={selectedMatchIds.has(match.id)} onChange={e => toggleMatches([match.id], e.target.checked)} className="rounded text-red-600" />
+                                                <span className="shrink-0 px-1.5 rounded bg-red-50 text-red-700 font-semibold max-w-[6rem] truncate" title={match.label}>{match.type === 'custom' ? 'Custom' : match.label}</span>
+                                                <span className="truncate font-mono text-gray-700" title={match.text}>{match.text}</span>
+                                                {match.fromOcr && <span className="shrink-0 text-[10px] text-gray-400">OCR</span>}
+                                            </label>
+                                        ))}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        {sensitiveMatches.length > 0 && (
+                            <Button size="sm" variant="danger" onClick={handleMarkSensitive} disabled={selectedMatchIds.size === 0} className="w-full mt-3 shrink-0">
+                                Mark {selectedMatchIds.size} for Redaction
+                            </Button>
+                        )}
+                    </>
+                )}
+            </div>
+        )}
     </div>
   );
 };
@@ -84,7 +84,7 @@ const PdfMergeTool: React.FC<PdfMergeToolProps> = ({
     <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-4xl mx-auto">
       <h2 className="text-2xl font-bold text-gray-800 mb-4">Merge PDF</h2>
       <p className="text-gray-600 mb-6">
-        Combine multiple PDF files into a single document. Drag and drop to reorder your PDFs.
+        Combine multiple PDF files into a single document. Drag and drop to reorder your PDFs. Bookmarks, links and form fields are kept, with a bookmark added for each file.
       </p>
 
       <Dropzone
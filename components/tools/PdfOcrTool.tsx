@@ -4,7 +4,7 @@ import Dropzone from '../Dropzone';
 import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
-import { geminiService } from '../../services/geminiService';
+import { aiService } from '../../services/aiService';
 import { pdfToWordService } from '../../services/pdfToWordService';
 
 interface PdfOcrToolProps {
@@ -55,7 +55,7 @@ const PdfOcrTool: React.FC<PdfOcrToolProps> = ({
     try {
       if (mode === 'extract_text') {
           // Use Gemini for high quality text extraction
-          const result = await geminiService.ocrPdf(pdfFile.arrayBuffer);
+          const result = await aiService.ocrPdf(pdfFile.arrayBuffer);
           setOcrText(result);
       } else {
           // Use Tesseract for Searchable PDF (Client-side)
@@ -65,7 +65,7 @@ const PdfOcrTool: React.FC<PdfOcrToolProps> = ({
     } catch (e) {
       let errorMessage = (e as Error).message;
       if (errorMessage.includes("API_KEY is not set")) {
-        errorMessage = "API key not found. Please ensure your Google Gemini API key is configured in the AI Studio sidebar.";
+        errorMessage = "API key not found. Add your Google Gemini API key in AI settings or the AI Studio sidebar, or switch to a local provider.";
       }
       console.error(e);
       setError(errorMessage);
@@ -130,7 +130,7 @@ const PdfOcrTool: React.FC<PdfOcrToolProps> = ({
                     className={`flex flex-col items-center p-4 border-2 rounded-lg transition-all ${mode === 'extract_text' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-blue-300 bg-white'}`}
                   >
                       <span className="text-lg font-bold mb-1">Extract Text (TXT)</span>
-                      <span className="text-xs text-center opacity-80">Best for copying content. Uses Gemini AI for high accuracy.</span>
+                      <span className="text-xs text-center opacity-80">Best for copying content. Uses the AI provider from AI settings for high accuracy.</span>
                   </button>
                   <button 
                     onClick={() => setMode('searchable_pdf')}
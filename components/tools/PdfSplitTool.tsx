@@ -5,8 +5,8 @@ import Dropzone from '../Dropzone';
 import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
-import { pdfService } from '../../services/pdfService';
-import { geminiService } from '../../services/geminiService';
+import { pdfService, SplitRange as ServiceSplitRange } from '../../services/pdfService';
+import { aiService } from '../../services/aiService';
 
 interface PdfSplitToolProps {
   onUpload: (files: File[]) => void;
@@ -22,6 +22,16 @@ interface SplitRange {
   isAutoLabeled?: boolean;
 }
 
+type SplitStrategy = 'manual' | 'every_n' | 'bookmarks' | 'max_size' | 'blank_pages';
+
+const STRATEGIES: { value: SplitStrategy, label: string }[] = [
+  { value: 'manual', label: 'Custom ranges' },
+  { value: 'every_n', label: 'Every N pages' },
+  { value: 'bookmarks', label: 'By bookmarks' },
+  { value: 'max_size', label: 'By maximum file size' },
+  { value: 'blank_pages', label: 'At blank separator pages' },
+];
+
 const PdfSplitTool: React.FC<PdfSplitToolProps> = ({
   onUpload,
   uploadedFiles,
@@ -35,6 +45,10 @@ const PdfSplitTool: React.FC<PdfSplitToolProps> = ({
   const [processedFile, setProcessedFile] = useState<ProcessedFile | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeRangeInput, setActiveRangeInput] = useState<string>('');
+  const [strategy, setStrategy] = useState<SplitStrategy>('manual');
+  const [pagesPerFile, setPagesPerFile] = useState<number>(5);
+  const [maxSizeMb, setMaxSizeMb] = useState<number>(10);
+  const [blankSensitivity, setBlankSensitivity] = useState<number>(0.5); // % of page covered by ink
 
   // Load PDF details when file is uploaded
   useEffect(() => {
@@ -124,6 +138,45 @@ const PdfSplitTool: React.FC<PdfSplitToolProps> = ({
     }
   };
 
+  const handleGenerateRanges = async () => {
+    const file = uploadedFiles[0];
+    if (!file) return;
+    setError(null);
+    setProcessedFile(null);
+    setLoading(true);
+
+    try {
+      let generated: ServiceSplitRange[] = [];
+      switch (strategy) {
+        case 'every_n':
+          generated = pdfService.getEveryNPagesRanges(pageCount, pagesPerFile);
+          break;
+        case 'bookmarks':
+          setProcessingStatus('Reading bookmarks...');
+          generated = await pdfService.getBookmarkRanges(file);
+          break;
+        case 'max_size':
+          setProcessingStatus('Measuring page sizes...');
+          generated = await pdfService.getSizeLimitedRanges(file, maxSizeMb * 1024 * 1024);
+          break;
+        case 'blank_pages':
+          setProcessingStatus('Looking for blank separator pages...');
+          generated = await pdfService.getBlankSeparatorRanges(file, blankSensitivity / 100);
+          break;
+      }
+
+      setRanges(generated.map(r => ({ id: crypto.randomUUID(), start: r.start, end: r.end, label: r.label || '' })));
+      // Only preview the first few ranges; large batches can produce hundreds of splits
+      generatePreviews(file, generated.slice(0, 12).map(r => r.start));
+    } catch (e) {
+      console.error(e);
+      setError((e as Error).message || 'Could not generate ranges.');
+    } finally {
+      setLoading(false);
+      setProcessingStatus('');
+    }
+  };
+
   const handleRemoveRange = (id: string) => {
     setRanges(prev => prev.filter(r => r.id !== id));
   };
@@ -152,7 +205,7 @@ const PdfSplitTool: React.FC<PdfSplitToolProps> = ({
            setPagePreviews(prev => ({ ...prev, [range.start]: imageBase64 }));
         }
 
-        const suggestedLabel = await geminiService.identifyDocumentType(imageBase64);
+        const suggestedLabel = await aiService.identifyDocumentType(imageBase64);
         newRanges[i] = { ...newRanges[i], label: suggestedLabel, isAutoLabeled: true };
       }
       setRanges(newRanges);
@@ -217,22 +270,63 @@ const PdfSplitTool: React.FC<PdfSplitToolProps> = ({
         <div className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Column: Settings */}
           <div className="lg:col-span-1 space-y-6">
-             <div className="bg-gray-50 p-4 rounded-md border border-gray-200">
-                <h3 className="font-semibold text-gray-700 mb-2">Add Range</h3>
-                <div className="flex space-x-2">
-                  <input 
-                    type="text" 
-                    className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="e.g. 1-3 or 1"
-                    value={activeRangeInput}
-                    onChange={(e) => setActiveRangeInput(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleAddRange()}
-                  />
-                  <Button size="sm" onClick={handleAddRange}>Add</Button>
-                </div>
-                <p className="text-xs text-gray-500 mt-1">Total Pages: {pageCount}. (Type "1" for just page 1)</p>
+             <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Split Method</label>
+                <select
+                  value={strategy}
+                  onChange={(e) => setStrategy(e.target.value as SplitStrategy)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:ring-blue-500 focus:border-blue-500"
+                  disabled={loading}
+                >
+                  {STRATEGIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                </select>
              </div>
 
+             {strategy === 'manual' ? (
+               <div className="bg-gray-50 p-4 rounded-md border border-gray-200">
+                  <h3 className="font-semibold text-gray-700 mb-2">Add Range</h3>
+                  <div className="flex space-x-2">
+                    <input 
+                      type="text" 
+                      className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="e.g. 1-3 or 1"
+                      value={activeRangeInput}
+                      onChange={(e) => setActiveRangeInput(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddRange()}
+                    />
+                    <Button size="sm" onClick={handleAddRange}>Add</Button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Total Pages: {pageCount}. (Type "1" for just page 1)</p>
+               </div>
+             ) : (
+               <div className="bg-gray-50 p-4 rounded-md border border-gray-200 space-y-3">
+                  {strategy === 'every_n' && (
+                    <div>
+                      <label className="text-xs text-gray-500 block mb-1">Pages per file</label>
+                      <input type="number" min={1} max={pageCount} value={pagesPerFile} onChange={(e) => setPagesPerFile(Math.max(1, parseInt(e.target.value) || 1))} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500" />
+                    </div>
+                  )}
+                  {strategy === 'bookmarks' && (
+                    <p className="text-xs text-gray-500">Starts a new file at every top-level bookmark and names it after the bookmark title.</p>
+                  )}
+                  {strategy === 'max_size' && (
+                    <div>
+                      <label className="text-xs text-gray-500 block mb-1">Maximum size per file (MB)</label>
+                      <input type="number" min={0.1} step={0.5} value={maxSizeMb} onChange={(e) => setMaxSizeMb(Math.max(0.1, parseFloat(e.target.value) || 0.1))} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500" />
+                      <p className="text-xs text-gray-500 mt-1">Useful for e-mail attachment limits. A single page larger than the limit gets its own file.</p>
+                    </div>
+                  )}
+                  {strategy === 'blank_pages' && (
+                    <div>
+                      <label className="text-xs text-gray-500 block mb-1">Blank page tolerance: {blankSensitivity.toFixed(1)}% ink</label>
+                      <input type="range" min={0.1} max={5} step={0.1} value={blankSensitivity} onChange={(e) => setBlankSensitivity(parseFloat(e.target.value))} className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer accent-blue-600" />
+                      <p className="text-xs text-gray-500 mt-1">Raise this if scanned separator sheets have specks or stamps. Separator pages are removed.</p>
+                    </div>
+                  )}
+                  <Button size="sm" className="w-full" onClick={handleGenerateRanges} disabled={loading}>Generate Ranges</Button>
+               </div>
+             )}
+
              <div className="bg-blue-50 p-4 rounded-md border border-blue-100">
                 <div className="flex justify-between items-center mb-3">
                   <h3 className="font-semibold text-blue-900">Split Ranges</h3>
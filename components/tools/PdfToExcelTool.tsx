@@ -6,7 +6,7 @@ import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
 import { pdfService } from '../../services/pdfService';
-import { geminiService } from '../../services/geminiService';
+import { aiService } from '../../services/aiService';
 import { excelService } from '../../services/excelService';
 
 interface PdfToExcelToolProps {
@@ -44,7 +44,7 @@ const PdfToExcelTool: React.FC<PdfToExcelToolProps> = ({ onUpload, uploadedFiles
             setProgressValue(Math.round(((i) / totalPages) * 100));
             
             const image = images[i];
-            const result = await geminiService.extractTableData(image.dataUrl);
+            const result = await aiService.extractTableData(image.dataUrl);
             
             if (result.rows && result.rows.length > 0) {
                 excelData.push({
@@ -6,7 +6,7 @@ import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
 import { pdfService } from '../../services/pdfService';
-import { geminiService } from '../../services/geminiService';
+import { aiService } from '../../services/aiService';
 import { pptService } from '../../services/pptService';
 
 interface PdfToPptToolProps {
@@ -42,7 +42,7 @@ const PdfToPptTool: React.FC<PdfToPptToolProps> = ({ onUpload, uploadedFiles, on
             setProgressValue(Math.round(((i) / totalPages) * 100));
             
             const image = images[i];
-            const result = await geminiService.extractSlideContent(image.dataUrl);
+            const result = await aiService.extractSlideContent(image.dataUrl);
             slidesData.push(result);
         }
 
@@ -5,7 +5,7 @@ import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
 import { pdfToWordService, WordStructureItem } from '../../services/pdfToWordService';
-import { geminiService } from '../../services/geminiService';
+import { aiService } from '../../services/aiService';
 
 interface PdfToWordToolProps {
   onUpload: (files: File[]) => void;
@@ -60,7 +60,7 @@ const PdfToWordTool: React.FC<PdfToWordToolProps> = ({
     setLoading(true);
     setLoadingMessage('AI is analyzing and reformatting structure...');
     try {
-      const jsonStr = await geminiService.reformatTextForWord(extractedText);
+      const jsonStr = await aiService.reformatTextForWord(extractedText);
       const parsedData = JSON.parse(jsonStr) as WordStructureItem[];
       setStructuredData(parsedData);
     } catch (e) {
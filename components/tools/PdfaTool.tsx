@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { pdfaService, PdfaIssue, PdfaValidationResult, PdfaConversionResult } from '../../services/pdfaService';
+
+interface PdfaToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+const formatPages = (pages?: number[]) => {
+  if (!pages?.length) return '';
+  const shown = pages.slice(0, 12).map(p => p + 1).join(', ');
+  return `${pages.length === 1 ? 'Page' : 'Pages'} ${shown}${pages.length > 12 ? ` and ${pages.length - 12} more` : ''}`;
+};
+
+const IssueList: React.FC<{ issues: PdfaIssue[] }> = ({ issues }) => (
+  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+    {issues.map((issue, i) => (
+      <li key={i} className="p-3 flex gap-3 text-sm">
+        <span className="font-mono text-xs text-gray-500 bg-gray-100 rounded px-2 py-0.5 h-fit whitespace-nowrap">{issue.clause}</span>
+        <div>
+          <p className="text-gray-800">{issue.message}</p>
+          {issue.pages && <p className="text-xs text-gray-500">{formatPages(issue.pages)}</p>}
+        </div>
+      </li>
+    ))}
+  </ul>
+);
+
+const PdfaTool: React.FC<PdfaToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
+  const [validation, setValidation] = useState<PdfaValidationResult | null>(null);
+  const [conversion, setConversion] = useState<PdfaConversionResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const checkedRef = useRef<string | null>(null);
+
+  const file = uploadedFiles[0];
+
+  useEffect(() => {
+    if (!file) {
+      checkedRef.current = null;
+      setValidation(null);
+      setConversion(null);
+      setError(null);
+      return;
+    }
+    if (!file.arrayBuffer || checkedRef.current === file.id) return;
+    checkedRef.current = file.id;
+
+    const check = async () => {
+      setLoading(true);
+      setLoadingMessage('Checking PDF/A-2b rules...');
+      setError(null);
+      setConversion(null);
+      try {
+        setValidation(await pdfaService.validatePdfa(file));
+      } catch (e) {
+        console.error(e);
+        setError((e as Error).message || 'Could not read this PDF.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    check();
+  }, [file]);
+
+  const handleConvert = async () => {
+    if (!file) return;
+    setLoading(true);
+    setLoadingMessage('Converting to PDF/A-2b...');
+    setError(null);
+    try {
+      setConversion(await pdfaService.convertToPdfa(file));
+    } catch (e) {
+      console.error(e);
+      setError((e as Error).message || 'Could not convert this PDF.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!conversion) return;
+    const link = document.createElement('a');
+    link.href = conversion.file.dataUrl;
+    link.download = conversion.file.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-4xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-emerald-100 text-emerald-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"/></svg>
+            </span>
+            PDF to PDF/A
+        </h2>
+        <p className="text-gray-500">Check a PDF against the PDF/A-2b archiving rules and convert it to a compliant file.</p>
+      </div>
+
+      {!file ? (
+         <div className="flex-grow flex flex-col justify-center">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={false} label="Drag & drop a PDF here" />
+         </div>
+      ) : (
+         <div className="flex-grow">
+            <div className="flex items-center justify-between p-4 border border-gray-200 bg-gray-50 rounded-lg mb-6">
+               <div className="overflow-hidden">
+                  <p className="font-medium text-gray-800 truncate max-w-md">{file.name}</p>
+                  <p className="text-xs text-gray-500">
+                     {validation?.claimed ? `Claims ${validation.claimed}` : 'No PDF/A conformance claimed'}
+                  </p>
+               </div>
+               <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+            </div>
+
+            {error && <div className="p-3 mb-6 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>}
+
+            {loading ? <LoadingSpinner message={loadingMessage} /> : conversion ? (
+               <div className="space-y-6">
+                  <div className={`p-4 rounded-lg border ${conversion.issues.length ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                     <p className="font-bold">{conversion.issues.length ? 'Converted, but some rules are still broken' : 'The converted file passes all PDF/A-2b checks'}</p>
+                     {conversion.flattenedPages.length > 0 && (
+                        <p className="text-sm mt-1">
+                           {formatPages(conversion.flattenedPages)} could not be fixed directly and {conversion.flattenedPages.length === 1 ? 'was' : 'were'} converted to an image. Text on {conversion.flattenedPages.length === 1 ? 'this page' : 'these pages'} is no longer selectable.
+                        </p>
+                     )}
+                  </div>
+
+                  <div>
+                     <p className="text-xs font-bold text-gray-600 uppercase mb-2">Changes made</p>
+                     <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                        {conversion.fixes.map((fix, i) => <li key={i}>{fix}</li>)}
+                     </ul>
+                  </div>
+
+                  {conversion.issues.length > 0 && (
+                     <div>
+                        <p className="text-xs font-bold text-gray-600 uppercase mb-2">Remaining issues</p>
+                        <IssueList issues={conversion.issues} />
+                     </div>
+                  )}
+
+                  <div className="flex flex-wrap justify-center gap-4">
+                     <Button onClick={handleDownload}>Download PDF/A</Button>
+                     <Button variant="outline" onClick={() => setConversion(null)}>Back to report</Button>
+                  </div>
+               </div>
+            ) : validation && (
+               <div className="space-y-6">
+                  {validation.issues.length === 0 ? (
+                     <div className="p-4 rounded-lg border bg-green-50 border-green-200 text-green-800">
+                        <p className="font-bold">No PDF/A-2b problems found</p>
+                        <p className="text-sm mt-1">This check covers the most common rules; a dedicated validator can confirm full conformance.</p>
+                     </div>
+                  ) : (
+                     <div>
+                        <p className="text-xs font-bold text-gray-600 uppercase mb-2">
+                           {validation.issues.length} {validation.issues.length === 1 ? 'rule' : 'rules'} broken (ISO 19005-2 clause)
+                        </p>
+                        <IssueList issues={validation.issues} />
+                     </div>
+                  )}
+
+                  <div className="flex justify-center">
+                     <Button onClick={handleConvert}>Convert to PDF/A-2b</Button>
+                  </div>
+                  <p className="text-xs text-gray-400 text-center">
+                     Fonts that are only referenced are replaced with embedded fonts of the same metrics. Pages with CMYK colour, symbol fonts that cannot be embedded or unsupported blending are converted to images.
+                  </p>
+               </div>
+            )}
+         </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfaTool;
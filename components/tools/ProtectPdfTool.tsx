@@ -1,9 +1,227 @@
+import React, { useState } from 'react';
+import { AppFile, ProcessedFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import { securityService, EncryptionAlgorithm, PdfPermissions } from '../../services/securityService';
 
-import React from 'react';
+interface ProtectPdfToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
 
-// Tool has been removed.
-const ProtectPdfTool: React.FC<any> = () => {
-  return null;
+const ALGORITHMS: { value: EncryptionAlgorithm, label: string }[] = [
+  { value: 'aes-256', label: 'AES 256-bit (Acrobat X and later)' },
+  { value: 'aes-128', label: 'AES 128-bit (Acrobat 7 and later)' },
+  { value: 'rc4-128', label: 'RC4 128-bit (legacy readers)' },
+];
+
+const PERMISSION_LABELS: { key: keyof PdfPermissions, label: string }[] = [
+  { key: 'printing', label: 'Allow printing' },
+  { key: 'copying', label: 'Allow copying text & images' },
+  { key: 'modifying', label: 'Allow editing & annotations' },
+  { key: 'formFilling', label: 'Allow filling form fields' },
+];
+
+const ProtectPdfTool: React.FC<ProtectPdfToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
+  const [userPassword, setUserPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [ownerPassword, setOwnerPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [algorithm, setAlgorithm] = useState<EncryptionAlgorithm>('aes-256');
+  const [permissions, setPermissions] = useState<PdfPermissions>({ printing: true, copying: false, modifying: false, formFilling: true });
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState<{ id: string, file: ProcessedFile }[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [generalError, setGeneralError] = useState<string | null>(null);
+
+  const handleProtect = async () => {
+    if (uploadedFiles.length === 0) return;
+    if (!userPassword) {
+      setGeneralError("Please enter a password.");
+      return;
+    }
+    if (userPassword !== confirmPassword) {
+      setGeneralError("Passwords do not match.");
+      return;
+    }
+    if (ownerPassword && ownerPassword === userPassword) {
+      setGeneralError("The permissions password must differ from the open password, otherwise restrictions can be bypassed.");
+      return;
+    }
+
+    setLoading(true);
+    setResults([]);
+    setErrors({});
+    setGeneralError(null);
+
+    const newResults = [];
+    const newErrors: Record<string, string> = {};
+
+    for (const file of uploadedFiles) {
+      try {
+        const result = await securityService.protectPdf(file, { userPassword, ownerPassword, algorithm, permissions });
+        newResults.push({ id: file.id, file: result });
+      } catch (e) {
+        console.error(e);
+        newErrors[file.id] = (e as Error).message || "Encryption failed.";
+      }
+    }
+
+    setResults(newResults);
+    setErrors(newErrors);
+    setLoading(false);
+
+    if (Object.keys(newErrors).length > 0 && newResults.length === 0) {
+       setGeneralError("Failed to protect file(s).");
+    }
+  };
+
+  const handleDownloadAll = () => {
+    results.forEach(({ file }) => {
+        const link = document.createElement('a');
+        link.href = file.dataUrl;
+        link.download = file.name;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    });
+  };
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-4xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-red-100 text-red-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"/></svg>
+            </span>
+            Protect PDF
+        </h2>
+        <p className="text-gray-500">Encrypt PDFs with a password and restrict printing, copying and editing.</p>
+      </div>
+
+      {uploadedFiles.length === 0 ? (
+         <div className="flex-grow flex flex-col justify-center">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={true} label="Drag & drop PDFs to protect here" />
+         </div>
+      ) : (
+         <div className="flex-grow">
+            <div className="max-w-lg mx-auto mb-8 space-y-4">
+               <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Open Password</label>
+                  <div className="relative">
+                     <input
+                       type={showPassword ? "text" : "password"}
+                       value={userPassword}
+                       onChange={(e) => { setUserPassword(e.target.value); setGeneralError(null); }}
+                       className="w-full border border-gray-300 rounded-lg p-3 pr-16 focus:ring-2 focus:ring-blue-500 outline-none"
+                       placeholder="Password required to open the file..."
+                     />
+                     <button
+                       type="button"
+                       onClick={() => setShowPassword(!showPassword)}
+                       className="absolute inset-y-0 right-0 px-3 flex items-center text-xs font-bold text-gray-400 hover:text-gray-600"
+                     >
+                       {showPassword ? 'HIDE' : 'SHOW'}
+                     </button>
+                  </div>
+               </div>
+               <input
+                 type={showPassword ? "text" : "password"}
+                 value={confirmPassword}
+                 onChange={(e) => { setConfirmPassword(e.target.value); setGeneralError(null); }}
+                 className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 outline-none"
+                 placeholder="Confirm password..."
+               />
+
+               <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Permissions Password <span className="text-gray-400 font-normal">(optional)</span></label>
+                  <input
+                    type={showPassword ? "text" : "password"}
+                    value={ownerPassword}
+                    onChange={(e) => { setOwnerPassword(e.target.value); setGeneralError(null); }}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="Leave empty to generate a random one"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Needed to lift the restrictions below. If left empty, nobody can change them.</p>
+               </div>
+
+               <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Encryption</label>
+                  <select value={algorithm} onChange={(e) => setAlgorithm(e.target.value as EncryptionAlgorithm)} className="w-full border border-gray-300 rounded-lg p-3 bg-white focus:ring-2 focus:ring-blue-500 outline-none">
+                     {ALGORITHMS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+                  </select>
+               </div>
+
+               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  {PERMISSION_LABELS.map(p => (
+                     <label key={p.key} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={permissions[p.key]}
+                          onChange={(e) => setPermissions(prev => ({ ...prev, [p.key]: e.target.checked }))}
+                          className="rounded text-blue-600"
+                        />
+                        <span>{p.label}</span>
+                     </label>
+                  ))}
+               </div>
+               {generalError && <p className="text-red-500 text-sm mt-2">{generalError}</p>}
+            </div>
+
+            <div className="space-y-3 mb-8">
+               {uploadedFiles.map(file => {
+                  const res = results.find(r => r.id === file.id);
+                  const err = errors[file.id];
+
+                  return (
+                     <div key={file.id} className={`flex items-center justify-between p-4 bg-white border rounded-lg ${res ? 'border-green-300 bg-green-50' : err ? 'border-red-300 bg-red-50' : 'border-gray-200'}`}>
+                        <div className="flex items-center space-x-3 overflow-hidden">
+                           <div className="p-2 bg-gray-100 rounded text-red-500"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg></div>
+                           <div>
+                              <p className="font-medium text-gray-800 truncate max-w-xs">{file.name}</p>
+                              <div className="text-xs text-gray-500 flex gap-2">
+                                 <span>Original: {(file.size / 1024).toFixed(1)} KB</span>
+                                 {res && <span className="text-green-600 font-bold">Protected: {(res.file.size / 1024).toFixed(1)} KB</span>}
+                              </div>
+                           </div>
+                        </div>
+
+                        <div className="flex items-center space-x-2">
+                           {res ? (
+                              <button onClick={() => { const l = document.createElement('a'); l.href=res.file.dataUrl; l.download=res.file.name; l.click(); }} className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-xs font-bold rounded shadow-sm">
+                                 Download
+                              </button>
+                           ) : err ? (
+                              <span className="text-red-500 text-xs font-bold max-w-xs text-right">{err}</span>
+                           ) : (
+                              <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                           )}
+                        </div>
+                     </div>
+                  );
+               })}
+            </div>
+
+            <div className="flex justify-center space-x-4">
+                {!loading && (
+                   <>
+                      <Button variant="secondary" onClick={() => onUpload([])}>Add More Files</Button>
+                      <Button onClick={handleProtect} className="bg-red-600 hover:bg-red-700 shadow-lg px-8">
+                         {results.length > 0 ? "Protect Again" : "Protect PDF"}
+                      </Button>
+                      {results.length > 1 && (
+                         <Button variant="primary" onClick={handleDownloadAll}>Download All</Button>
+                      )}
+                   </>
+                )}
+                {loading && <LoadingSpinner message="Encrypting files..." />}
+            </div>
+         </div>
+      )}
+    </div>
+  );
 };
 
 export default ProtectPdfTool;
@@ -0,0 +1,544 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AppFile, ProcessedFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import FilePreviewCard from '../FilePreviewCard';
+import { pdfService } from '../../services/pdfService';
+import {
+  extractionTemplateService,
+  REVIEW_CONFIDENCE,
+  ExtractionTemplate,
+  TemplateField,
+  TemplateFieldType,
+  TemplateFieldSource,
+  TemplateRegion,
+  TemplateExtraction,
+  TemplateResultFormat,
+} from '../../services/extractionTemplateService';
+
+interface TemplateExtractorToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+type Tab = 'design' | 'extract';
+
+const FIELD_TYPES: { type: TemplateFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+];
+
+const SOURCE_LABELS: Record<TemplateFieldSource, string> = {
+  text: 'Text layer',
+  ocr: 'OCR',
+  ai: 'AI',
+  none: 'Not found',
+};
+
+const SOURCE_STYLES: Record<TemplateFieldSource, string> = {
+  text: 'bg-green-100 text-green-700',
+  ocr: 'bg-blue-100 text-blue-700',
+  ai: 'bg-purple-100 text-purple-700',
+  none: 'bg-gray-100 text-gray-500',
+};
+
+const newField = (): TemplateField => ({ id: crypto.randomUUID(), name: '', type: 'text' });
+
+const newTemplate = (): ExtractionTemplate => ({
+  id: crypto.randomUUID(),
+  name: '',
+  dateOrder: 'DMY',
+  fields: [newField()],
+  updatedAt: '',
+});
+
+const confidenceColor = (confidence: number) =>
+  confidence >= 0.85 ? 'bg-green-500' : confidence >= REVIEW_CONFIDENCE ? 'bg-amber-500' : 'bg-red-500';
+
+const downloadFile = (file: ProcessedFile) => {
+  const link = document.createElement('a');
+  link.href = file.dataUrl;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const TemplateExtractorTool: React.FC<TemplateExtractorToolProps> = ({
+  onUpload,
+  uploadedFiles,
+  onRemoveFile,
+}) => {
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>(() => extractionTemplateService.loadTemplates());
+  const [draft, setDraft] = useState<ExtractionTemplate>(() => templates[0] || newTemplate());
+  const [tab, setTab] = useState<Tab>('design');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Sample page for drawing regions
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageCount, setPageCount] = useState(0);
+  const [pageImage, setPageImage] = useState<string | null>(null);
+  const [drawingFieldId, setDrawingFieldId] = useState<string | null>(null);
+  const [dragBox, setDragBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Extraction
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [results, setResults] = useState<{ file: AppFile; extraction: TemplateExtraction }[]>([]);
+  const [selected, setSelected] = useState<{ resultIndex: number; fieldId: string } | null>(null);
+  const [resultImage, setResultImage] = useState<string | null>(null);
+
+  const sample = uploadedFiles.find(f => f.type === 'application/pdf' && f.arrayBuffer);
+
+  useEffect(() => {
+    if (!sample) {
+      setPageCount(0);
+      setPageImage(null);
+      return;
+    }
+    pdfService.getPageCount(sample).then(count => {
+      setPageCount(count);
+      setPageIndex(prev => Math.min(prev, count - 1));
+    }).catch(console.error);
+  }, [sample?.id]);
+
+  useEffect(() => {
+    if (!sample || pageIndex >= pageCount) return;
+    let cancelled = false;
+    pdfService.renderPage(sample, pageIndex, 1.0)
+      .then(url => { if (!cancelled) setPageImage(url); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [sample?.id, pageIndex, pageCount]);
+
+  const selectedResult = selected ? results[selected.resultIndex] : undefined;
+  const selectedField = selectedResult?.extraction.fields.find(f => f.fieldId === selected?.fieldId);
+
+  useEffect(() => {
+    setResultImage(null);
+    if (!selectedResult || selectedField?.pageIndex === undefined) return;
+    let cancelled = false;
+    pdfService.renderPage(selectedResult.file, selectedField.pageIndex, 1.0)
+      .then(url => { if (!cancelled) setResultImage(url); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [selectedResult?.file.id, selectedField?.pageIndex]);
+
+  const updateDraft = (patch: Partial<ExtractionTemplate>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const updateField = (id: string, patch: Partial<TemplateField>) =>
+    setDraft(prev => ({ ...prev, fields: prev.fields.map(f => (f.id === id ? { ...f, ...patch } : f)) }));
+
+  const removeField = (id: string) => {
+    setDraft(prev => ({ ...prev, fields: prev.fields.filter(f => f.id !== id) }));
+    if (drawingFieldId === id) setDrawingFieldId(null);
+  };
+
+  const showNotice = (message: string) => {
+    setError(null);
+    setNotice(message);
+  };
+
+  const handleSelectTemplate = (id: string) => {
+    setDraft(templates.find(t => t.id === id) || newTemplate());
+    setDrawingFieldId(null);
+    setNotice(null);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = extractionTemplateService.saveTemplate(draft);
+      setTemplates(extractionTemplateService.loadTemplates());
+      setDraft(saved);
+      showNotice(`Template "${saved.name}" saved in this browser.`);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!templates.some(t => t.id === draft.id) || !confirm(`Delete the template "${draft.name}"?`)) return;
+    extractionTemplateService.deleteTemplate(draft.id);
+    const remaining = extractionTemplateService.loadTemplates();
+    setTemplates(remaining);
+    setDraft(remaining[0] || newTemplate());
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = extractionTemplateService.importTemplates(await file.text());
+      setTemplates(extractionTemplateService.loadTemplates());
+      setDraft(imported[0]);
+      showNotice(`Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      setError(`Import failed: ${(err as Error).message}`);
+    }
+  };
+
+  // Region drawing, in fractions of the page
+  const pointerPosition = (e: React.MouseEvent) => {
+    const rect = viewerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!drawingFieldId || !viewerRef.current) return;
+    e.preventDefault();
+    const { x, y } = pointerPosition(e);
+    setDragBox({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!dragBox || !viewerRef.current) return;
+    const { x, y } = pointerPosition(e);
+    setDragBox(prev => (prev ? { ...prev, x1: x, y1: y } : prev));
+  };
+
+  const handleMouseUp = async () => {
+    if (!dragBox || !drawingFieldId || !sample) return;
+    const region: TemplateRegion = {
+      pageIndex,
+      left: Math.min(dragBox.x0, dragBox.x1),
+      top: Math.min(dragBox.y0, dragBox.y1),
+      width: Math.abs(dragBox.x1 - dragBox.x0),
+      height: Math.abs(dragBox.y1 - dragBox.y0),
+    };
+    const fieldId = drawingFieldId;
+    setDragBox(null);
+    setDrawingFieldId(null);
+    if (region.width < 0.005 || region.height < 0.005) return;
+
+    const field = draft.fields.find(f => f.id === fieldId);
+    // A label typed by hand is kept; one picked up from an earlier region is replaced
+    const keepAnchor = field?.anchor && field.anchor.left === undefined;
+    updateField(fieldId, { region, sampleValue: undefined, anchor: keepAnchor ? field!.anchor : undefined });
+    try {
+      const { sampleValue, anchor } = await extractionTemplateService.describeRegion(sample, region);
+      updateField(fieldId, { sampleValue, ...(keepAnchor ? {} : { anchor }) });
+    } catch (e) {
+      console.error(e);
+      setError(`Could not read the region: ${(e as Error).message}`);
+    }
+  };
+
+  const handleApply = useCallback(async () => {
+    setError(null);
+    setNotice(null);
+    setResults([]);
+    setSelected(null);
+    const pdfs = uploadedFiles.filter(f => f.type === 'application/pdf');
+    if (pdfs.length === 0) {
+      setError('Please upload at least one PDF to extract from.');
+      return;
+    }
+    if (pdfs.some(f => !f.arrayBuffer)) {
+      setError('File content not loaded yet. Please wait for the files to finish processing or try re-uploading.');
+      return;
+    }
+
+    setLoading(true);
+    const done: { file: AppFile; extraction: TemplateExtraction }[] = [];
+    try {
+      for (let i = 0; i < pdfs.length; i++) {
+        const prefix = pdfs.length > 1 ? `File ${i + 1} of ${pdfs.length}: ` : '';
+        done.push({ file: pdfs[i], extraction: await extractionTemplateService.applyTemplate(pdfs[i], draft, message => setProgress(prefix + message)) });
+        setResults([...done]);
+      }
+    } catch (e) {
+      let errorMessage = (e as Error).message;
+      if (errorMessage.includes("API_KEY is not set")) {
+        errorMessage = "API key not found. Add your Google Gemini API key in AI settings or the AI Studio sidebar, or switch to a local provider.";
+      }
+      console.error(e);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+      setProgress('');
+    }
+  }, [uploadedFiles, draft]);
+
+  const handleExportResults = (format: TemplateResultFormat) => {
+    const baseName = `${(draft.name || 'extracted').replace(/[^\w-]+/g, '_')}_data`;
+    downloadFile(extractionTemplateService.exportResults(results.map(r => r.extraction), format, baseName));
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500';
+  const isSaved = templates.some(t => t.id === draft.id);
+  const regionsOnPage = draft.fields.filter(f => f.region?.pageIndex === pageIndex);
+
+  const renderBox = (box: TemplateRegion, className: string, label?: string, key?: string) => (
+    <div
+      key={key}
+      className={`absolute border-2 pointer-events-none ${className}`}
+      style={{ left: `${box.left * 100}%`, top: `${box.top * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+    >
+      {label && <span className="absolute -top-5 left-0 text-[10px] font-bold px-1 rounded bg-blue-600 text-white whitespace-nowrap">{label}</span>}
+    </div>
+  );
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-6xl mx-auto">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Template Data Extractor</h2>
+      <p className="text-gray-600 mb-6">
+        Define the fields of a recurring document such as a bank statement, purchase order or lab report once, optionally by drawing where each value sits on a sample page. Apply the template to new PDFs: values are read from the text layer, then OCR, and only then AI, each with a confidence score and the spot it came from.
+      </p>
+
+      <Dropzone
+        onFilesSelected={onUpload}
+        acceptedFileTypes={['application/pdf']}
+        multiple={true}
+        label="Drag & drop PDFs here, or click to select. The first one is the sample page for drawing regions."
+      />
+
+      {uploadedFiles.length > 0 && (
+        <div className="mt-6 border-t pt-6">
+          <h3 className="text-xl font-semibold text-gray-800 mb-4">Uploaded Files ({uploadedFiles.length})</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+            {uploadedFiles.map((file) => (
+              <FilePreviewCard key={file.id} file={file} onRemove={onRemoveFile} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6 border-t pt-6 flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-xs font-bold text-gray-600 uppercase mb-2">Template</label>
+          <select value={isSaved ? draft.id : ''} onChange={e => handleSelectTemplate(e.target.value)} className={inputClass}>
+            <option value="">{isSaved ? 'New template' : `New template${draft.name ? `: ${draft.name}` : ''} (unsaved)`}</option>
+            {templates.map(t => <option key={t.id} value={t.id}>{t.name} ({t.fields.length} fields)</option>)}
+          </select>
+        </div>
+        <input type="file" accept="application/json,.json" ref={importInputRef} className="hidden" onChange={handleImport} />
+        <Button variant="outline" onClick={() => importInputRef.current?.click()}>Import</Button>
+        <Button variant="outline" onClick={() => downloadFile(extractionTemplateService.exportTemplates([draft]))} disabled={!isSaved}>Export</Button>
+        <Button variant="outline" onClick={() => downloadFile(extractionTemplateService.exportTemplates(templates))} disabled={templates.length === 0}>Export all</Button>
+        <Button variant="danger" onClick={handleDelete} disabled={!isSaved}>Delete</Button>
+      </div>
+
+      <div className="mt-4 flex border-b border-gray-200">
+        {(['design', 'extract'] as Tab[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`px-4 py-2 text-sm font-semibold border-b-2 -mb-px ${tab === key ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            {key === 'design' ? 'Design template' : 'Extract data'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-100 text-red-700 rounded-md">
+          <p className="font-medium">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+      {notice && <div className="mt-4 p-3 bg-green-50 text-green-700 rounded-md text-sm">{notice}</div>}
+
+      {tab === 'design' && (
+        <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <label className="block text-xs font-bold text-gray-600 uppercase mb-1">Name</label>
+                <input value={draft.name} onChange={e => updateDraft({ name: e.target.value })} placeholder="e.g. Bank statement (Acme Bank)" className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 uppercase mb-1">Dates like 03/04</label>
+                <select value={draft.dateOrder} onChange={e => updateDraft({ dateOrder: e.target.value as ExtractionTemplate['dateOrder'] })} className={inputClass}>
+                  <option value="DMY">Day first</option>
+                  <option value="MDY">Month first</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-600 uppercase mb-1">Description</label>
+              <input value={draft.description || ''} onChange={e => updateDraft({ description: e.target.value })} placeholder="What kind of document this is, for the AI fallback" className={inputClass} />
+            </div>
+
+            <div className="space-y-3">
+              {draft.fields.map((field, i) => (
+                <div key={field.id} className={`p-3 rounded-lg border ${drawingFieldId === field.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
+                  <div className="flex gap-2 mb-2">
+                    <input value={field.name} onChange={e => updateField(field.id, { name: e.target.value })} placeholder={`Field ${i + 1} name`} className={`${inputClass} flex-1`} />
+                    <select value={field.type} onChange={e => updateField(field.id, { type: e.target.value as TemplateFieldType })} className={`${inputClass} w-28`}>
+                      {FIELD_TYPES.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+                    </select>
+                    <button onClick={() => removeField(field.id)} className="text-gray-400 hover:text-red-500 px-1" title="Remove field">✕</button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 mb-2">
+                    <input
+                      value={field.anchor?.text || ''}
+                      onChange={e => updateField(field.id, { anchor: e.target.value ? { text: e.target.value } : undefined })}
+                      placeholder="Label on the page, e.g. Account number"
+                      className={inputClass}
+                      title="Printed label next to the value. Without a region, the value is read to the right of this label."
+                    />
+                    <input
+                      value={field.pattern || ''}
+                      onChange={e => updateField(field.id, { pattern: e.target.value || undefined })}
+                      placeholder="Pattern (regex, optional)"
+                      className={`${inputClass} font-mono`}
+                    />
+                  </div>
+                  <input value={field.hint || ''} onChange={e => updateField(field.id, { hint: e.target.value || undefined })} placeholder="Hint for the AI, e.g. closing balance of the statement period" className={`${inputClass} mb-2`} />
+                  <div className="flex items-center gap-2 text-xs">
+                    {field.region ? (
+                      <>
+                        <button onClick={() => setPageIndex(field.region!.pageIndex)} className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200">Region on page {field.region.pageIndex + 1}</button>
+                        <button onClick={() => updateField(field.id, { region: undefined, sampleValue: undefined, anchor: field.anchor ? { text: field.anchor.text } : undefined })} className="text-red-500 hover:underline">Clear</button>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">No region</span>
+                    )}
+                    <button
+                      onClick={() => setDrawingFieldId(drawingFieldId === field.id ? null : field.id)}
+                      disabled={!sample}
+                      className="ml-auto px-2 py-1 rounded border border-blue-300 text-blue-600 hover:bg-blue-50 disabled:opacity-40"
+                    >
+                      {drawingFieldId === field.id ? 'Cancel drawing' : field.region ? 'Redraw region' : 'Draw region'}
+                    </button>
+                  </div>
+                  {field.sampleValue && <p className="mt-2 text-xs text-gray-500 truncate" title={field.sampleValue}>Sample: {field.sampleValue}</p>}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => updateDraft({ fields: [...draft.fields, newField()] })}>Add field</Button>
+              <Button onClick={handleSave} className="ml-auto">Save template</Button>
+            </div>
+          </div>
+
+          <div>
+            {sample && pageImage ? (
+              <>
+                <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+                  <button onClick={() => setPageIndex(p => Math.max(0, p - 1))} disabled={pageIndex === 0} className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40">‹ Prev</button>
+                  <span className="truncate px-2">{sample.name}: page {pageIndex + 1} of {pageCount}</span>
+                  <button onClick={() => setPageIndex(p => Math.min(pageCount - 1, p + 1))} disabled={pageIndex >= pageCount - 1} className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40">Next ›</button>
+                </div>
+                <div
+                  ref={viewerRef}
+                  className={`relative border border-gray-200 shadow-sm select-none ${drawingFieldId ? 'cursor-crosshair' : ''}`}
+                  onMouseDown={handleMouseDown}
+                  onMouseMove={handleMouseMove}
+                  onMouseUp={handleMouseUp}
+                  onMouseLeave={handleMouseUp}
+                >
+                  <img src={pageImage} alt={`Sample page ${pageIndex + 1}`} className="w-full block pointer-events-none" />
+                  {regionsOnPage.map(f => renderBox(f.region!, 'border-blue-500 bg-blue-500/10', f.name || 'Unnamed', f.id))}
+                  {dragBox && renderBox({
+                    pageIndex,
+                    left: Math.min(dragBox.x0, dragBox.x1),
+                    top: Math.min(dragBox.y0, dragBox.y1),
+                    width: Math.abs(dragBox.x1 - dragBox.x0),
+                    height: Math.abs(dragBox.y1 - dragBox.y0),
+                  }, 'border-dashed border-blue-600 bg-blue-600/10')}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  {drawingFieldId ? 'Drag a box around where the value appears.' : 'Choose "Draw region" on a field, then drag a box around its value. The nearest label is remembered so the region can follow small layout shifts.'}
+                </p>
+              </>
+            ) : (
+              <div className="h-full min-h-[16rem] flex items-center justify-center border-2 border-dashed border-gray-200 rounded-lg text-sm text-gray-400 p-6 text-center">
+                Upload a sample PDF to draw field regions. Fields with only a label or a hint work without one.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {tab === 'extract' && (
+        <div className="mt-6">
+          <div className="flex justify-center">
+            <Button onClick={handleApply} disabled={uploadedFiles.length === 0 || loading} loading={loading}>
+              Extract with "{draft.name || 'Untitled template'}"
+            </Button>
+          </div>
+
+          {loading && <LoadingSpinner message={progress || 'Extracting data, please wait...'} />}
+
+          {results.length > 0 && (
+            <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-6">
+                {results.map(({ extraction }, resultIndex) => (
+                  <div key={resultIndex} className="border border-gray-200 rounded-lg overflow-hidden">
+                    <div className="px-3 py-2 bg-gray-50 text-sm font-semibold text-gray-800">{extraction.fileName}</div>
+                    {extraction.warnings.map((warning, i) => <p key={i} className="px-3 py-1 text-xs text-amber-700 bg-amber-50">{warning}</p>)}
+                    <table className="min-w-full text-sm">
+                      <tbody className="divide-y divide-gray-100">
+                        {extraction.fields.map(field => (
+                          <tr
+                            key={field.fieldId}
+                            onClick={() => setSelected({ resultIndex, fieldId: field.fieldId })}
+                            className={`cursor-pointer ${selected?.resultIndex === resultIndex && selected.fieldId === field.fieldId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                          >
+                            <td className="px-3 py-2 text-gray-600 w-1/3">{field.name}</td>
+                            <td className="px-3 py-2 font-medium text-gray-800 whitespace-pre-wrap">
+                              {field.value ?? <span className="text-gray-400 font-normal">{field.text ? `Unreadable: ${field.text}` : '—'}</span>}
+                            </td>
+                            <td className="px-3 py-2 w-28">
+                              <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden" title={`${Math.round(field.confidence * 100)}% confidence`}>
+                                <div className={`h-full ${confidenceColor(field.confidence)}`} style={{ width: `${field.confidence * 100}%` }} />
+                              </div>
+                              <span className="text-[10px] text-gray-500">{Math.round(field.confidence * 100)}%</span>
+                            </td>
+                            <td className="px-3 py-2 w-24">
+                              <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${SOURCE_STYLES[field.source]}`}>{SOURCE_LABELS[field.source]}</span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+                {!loading && (
+                  <div className="flex flex-wrap justify-center gap-2">
+                    <Button variant="secondary" onClick={() => handleExportResults('json')}>Download JSON</Button>
+                    <Button variant="secondary" onClick={() => handleExportResults('csv')}>Download CSV</Button>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                {selectedField && resultImage ? (
+                  <>
+                    <p className="text-sm text-gray-600 mb-2">
+                      {selectedField.name}: page {selectedField.pageIndex! + 1} of {selectedResult!.file.name}
+                    </p>
+                    <div className="relative border border-gray-200 shadow-sm">
+                      <img src={resultImage} alt="Source page" className="w-full block" />
+                      {selectedField.box && renderBox(selectedField.box, 'border-amber-500 bg-amber-400/20')}
+                    </div>
+                    {!selectedField.box && <p className="text-xs text-gray-400 mt-2">The AI did not report where on the page this value is.</p>}
+                  </>
+                ) : (
+                  <div className="min-h-[16rem] flex items-center justify-center border-2 border-dashed border-gray-200 rounded-lg text-sm text-gray-400 p-6 text-center">
+                    {selectedField ? 'No source page for this value.' : 'Click a value to see where it was read.'}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateExtractorTool;
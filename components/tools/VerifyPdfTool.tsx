@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppFile } from '../../types';
+import Dropzone from '../Dropzone';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import SignaturePanel, { summarizeSignatures } from '../SignaturePanel';
+import { signatureService, SignatureVerification } from '../../services/signatureService';
+
+interface VerifyPdfToolProps {
+  onUpload: (files: File[]) => void;
+  uploadedFiles: AppFile[];
+  onRemoveFile: (id: string) => void;
+}
+
+const VerifyPdfTool: React.FC<VerifyPdfToolProps> = ({ onUpload, uploadedFiles, onRemoveFile }) => {
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState<Record<string, SignatureVerification[]>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const startedRef = useRef<Set<string>>(new Set());
+
+  // Verify files as soon as their contents have been read
+  useEffect(() => {
+    const pending = uploadedFiles.filter(file => file.arrayBuffer && !startedRef.current.has(file.id));
+    if (pending.length === 0) return;
+    pending.forEach(file => startedRef.current.add(file.id));
+
+    const verifyAll = async () => {
+      setLoading(true);
+      const newResults: Record<string, SignatureVerification[]> = {};
+      const newErrors: Record<string, string> = {};
+
+      for (const file of pending) {
+        try {
+          newResults[file.id] = await signatureService.verifyPdf(file.arrayBuffer!.slice(0));
+        } catch (e) {
+          console.error(e);
+          newErrors[file.id] = (e as Error).message || "Could not read this PDF.";
+        }
+      }
+
+      setResults(prev => ({ ...prev, ...newResults }));
+      setErrors(prev => ({ ...prev, ...newErrors }));
+      setLoading(false);
+    };
+    verifyAll();
+  }, [uploadedFiles]);
+
+  return (
+    <div className="p-4 sm:p-6 bg-white rounded-lg shadow-md max-w-4xl mx-auto min-h-[500px] flex flex-col">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-800 mb-2 flex items-center justify-center">
+            <span className="bg-emerald-100 text-emerald-600 p-2 rounded-full mr-3">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"/></svg>
+            </span>
+            Verify PDF
+        </h2>
+        <p className="text-gray-500">Check digital signatures: who signed, when, and whether the document changed since.</p>
+      </div>
+
+      {uploadedFiles.length === 0 ? (
+         <div className="flex-grow flex flex-col justify-center">
+            <Dropzone onFilesSelected={onUpload} acceptedFileTypes={['application/pdf']} multiple={true} label="Drag & drop signed PDFs here" />
+         </div>
+      ) : (
+         <div className="flex-grow">
+            <div className="space-y-4 mb-8">
+               {uploadedFiles.map(file => {
+                  const signatures = results[file.id];
+                  const err = errors[file.id];
+                  const hasProblem = signatures?.some(s => s.status !== 'valid');
+
+                  return (
+                     <div key={file.id} className={`p-4 border rounded-lg ${err || hasProblem ? 'border-red-200 bg-red-50/40' : signatures?.length ? 'border-green-200 bg-green-50/40' : 'border-gray-200 bg-gray-50'}`}>
+                        <div className="flex items-center justify-between mb-3">
+                           <div className="overflow-hidden">
+                              <p className="font-medium text-gray-800 truncate max-w-md">{file.name}</p>
+                              <p className="text-xs text-gray-500">
+                                 {err ? <span className="text-red-500 font-bold">{err}</span> : signatures ? summarizeSignatures(signatures) : 'Verifying...'}
+                              </p>
+                           </div>
+                           <button onClick={() => onRemoveFile(file.id)} className="text-gray-400 hover:text-red-500"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                        </div>
+                        {signatures && signatures.length > 0 && <SignaturePanel signatures={signatures} />}
+                     </div>
+                  );
+               })}
+            </div>
+
+            <p className="text-xs text-gray-400 text-center mb-6">
+               Signatures are checked against the certificates embedded in the file. Whether the signer's certificate authority is trusted is not checked.
+            </p>
+
+            <div className="flex justify-center space-x-4">
+                {loading ? <LoadingSpinner message="Verifying signatures..." /> : <Button variant="secondary" onClick={() => onUpload([])}>Add More Files</Button>}
+            </div>
+         </div>
+      )}
+    </div>
+  );
+};
+
+export default VerifyPdfTool;
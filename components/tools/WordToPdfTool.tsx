@@ -5,7 +5,7 @@ import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import FilePreviewCard from '../FilePreviewCard';
 import { wordService } from '../../services/wordService';
-import { geminiService } from '../../services/geminiService';
+import { aiService } from '../../services/aiService';
 
 interface WordToPdfToolProps {
   onUpload: (files: File[]) => void;
@@ -63,7 +63,7 @@ const WordToPdfTool: React.FC<WordToPdfToolProps> = ({
 
     try {
       // Limit text length for demo purposes if needed, but Gemini handles large contexts well.
-      const corrected = await geminiService.proofreadText(rawText);
+      const corrected = await aiService.proofreadText(rawText);
       setProofreadText(corrected);
     } catch (e) {
       setError(`AI Proofreading failed: ${(e as Error).message}`);
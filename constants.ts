@@ -1,17 +1,27 @@
 import { ToolType } from './types';
 
-export const GEMINI_MODEL_TEXT = 'gemini-2.5-flash';
-
 export const TOOLS = [
   { type: ToolType.BATCH_PROCESSING, label: 'Batch Processing', description: 'Process multiple files at once. Compress, Convert, or Watermark up to 20 files simultaneously.' },
   { type: ToolType.PDF_EDITOR, label: 'PDF Editor', description: 'Edit PDF files for free. Add text, images, signatures, and shapes. Fill forms.' },
   { type: ToolType.QR_CODE_GENERATOR, label: 'QR Code Generator', description: 'Create custom QR codes for URLs, WiFi, Contact Cards, SMS, and more.' },
+  { type: ToolType.PROTECT_PDF, label: 'Protect PDF', description: 'Encrypt PDFs with a password (AES-256, AES-128, RC4) and restrict printing, copying and editing.' },
+  { type: ToolType.TEMPLATE_EXTRACTOR, label: 'Template Data Extractor', description: 'Define fields once for recurring forms like bank statements or lab reports, then pull them from new PDFs with confidence scores.' },
+  { type: ToolType.INVOICE_EXTRACTOR, label: 'Invoice & Receipt Extractor', description: 'Pull vendor, dates, line items, tax and totals from invoices and receipts, check the math, and export to JSON, CSV or Excel.' },
+  { type: ToolType.CHAT_PDF, label: 'Chat with PDF', description: 'Ask questions about a PDF and follow up. Answers cite the pages they come from.' },
+  { type: ToolType.COMPARE_PDF, label: 'Compare PDFs', description: 'Find what changed between two versions: highlighted text edits, image and layout changes, and an annotated report.' },
+  { type: ToolType.PDF_TO_PDFA, label: 'PDF to PDF/A', description: 'Convert PDFs to PDF/A-2b for long-term archiving, or check which archival rules a file breaks.' },
+  { type: ToolType.PAGE_NUMBERS, label: 'Page Numbers & Bates', description: 'Add "Page 1 of N", Bates numbers and header/footer text with file name, date and title.' },
+  { type: ToolType.EDIT_METADATA, label: 'Edit Metadata', description: 'Set title, author, keywords, dates and custom properties, or strip all metadata before sharing.' },
+  { type: ToolType.BOOKMARK_EDITOR, label: 'Edit Bookmarks', description: 'Add, rename, nest and reorder PDF bookmarks, or generate them from the document headings.' },
+  { type: ToolType.COMMENT_SUMMARY, label: 'Comment Summary', description: 'Collect all comments and markups of a reviewed PDF into a PDF, Word, CSV or XFDF report.' },
+  { type: ToolType.VERIFY_PDF, label: 'Verify PDF', description: 'Check digital signatures: who signed, when, and whether the document was changed after signing.' },
   { type: ToolType.UNLOCK_PDF, label: 'Unlock PDF', description: 'Remove passwords from PDF files. Decrypt documents instantly.' },
   { type: ToolType.REPAIR_PDF, label: 'Repair PDF', description: 'Recover damaged or corrupted PDF files. Rebuilds document structure to fix errors.' },
   { type: ToolType.HTML_TO_PDF, label: 'HTML to PDF', description: 'Convert webpages or raw HTML code into high-quality PDF documents.' },
   { type: ToolType.PHOTO_EDITOR, label: 'Photo Editor', description: 'Professional AI-powered photo editing. Layers, filters, background removal, and smart enhancements.' },
   { type: ToolType.PDF_MERGE, label: 'Merge PDF', description: 'Combine multiple PDFs into one single document.' },
   { type: ToolType.PDF_SPLIT, label: 'Split PDF', description: 'Extract pages, split documents, and auto-tag content with AI.' },
+  { type: ToolType.PDF_ORGANIZE, label: 'Organize PDF', description: 'Reorder, rotate, duplicate or delete pages, add blank pages and insert pages from other PDFs.' },
   { type: ToolType.PDF_RESIZE, label: 'Resize PDF', description: 'Change PDF page size to A4, Letter, A3 or custom dimensions. Scales content to fit.' },
   { type: ToolType.IMAGE_MERGE, label: 'Image Merge', description: 'Combine front/back cards or multiple photos side-by-side or stacked. AI Layout suggestions.' },
   { type: ToolType.ADD_WATERMARK, label: 'Add Watermark', description: 'Stamp text or images over your PDF pages. Supports transparency, tiling, and batch processing.' },
@@ -26,7 +36,7 @@ export const TOOLS = [
   { type: ToolType.IMAGE_COMPRESS, label: 'Compress Image', description: 'Reduce the file size of JPG and PNG images.' },
   { type: ToolType.IMAGE_RESIZE, label: 'Resize Image', description: 'Resize JPG, PNG or WebP images. Define pixel dimensions or percentage scaling.' },
   { type: ToolType.IMAGE_CONVERT, label: 'Convert Image', description: 'Change the format of an image (e.g. PNG to JPG).' },
-  { type: ToolType.AI_PDF_SUMMARY, label: 'AI PDF Summary', description: 'Get a quick summary of a PDF using AI.' },
+  { type: ToolType.AI_PDF_SUMMARY, label: 'AI PDF Summary', description: 'Summarize a PDF with AI: TL;DR, executive brief, key points with page references, action items or glossary.' },
   { type: ToolType.PDF_OCR, label: 'PDF OCR', description: 'Extract text or create searchable PDFs from scanned documents.' },
   { type: ToolType.PHOTO_SIGN_RESIZER, label: 'Photo Sign Resizer', description: 'Resize photos and signatures to specific dimensions for forms.' },
 ];
\ No newline at end of file
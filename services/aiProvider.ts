@@ -0,0 +1,96 @@
+/** One turn of a conversation. The assistant's turns use Gemini's name for the role, "model". */
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** An inline image or document, base64 encoded without the data URL prefix. */
+export interface AiMedia {
+  mimeType: string;
+  data: string;
+}
+
+export interface AiRequest {
+  prompt: string;
+  systemInstruction?: string;
+  history?: ChatMessage[]; // earlier turns, sent before the prompt
+  media?: AiMedia[]; // images (vision) or, for providers that read them, PDFs
+}
+
+export interface AiCapabilities {
+  pdfInput: boolean;
+  imageEdit: boolean;
+  maxInputChars: number; // how much document text fits in one request; longer input is split by callers
+}
+
+/**
+ * A backend that can run the app's AI features. Requests carrying images are vision
+ * requests; whether a provider can read PDFs or edit images is reported in `capabilities`
+ * so callers can fall back (e.g. send rendered pages instead of the PDF).
+ */
+export interface AiProvider {
+  readonly name: string;
+  readonly capabilities: AiCapabilities;
+  generateText(request: AiRequest): Promise<string>;
+  /** Prompts must ask for a top-level object: JSON modes such as OpenAI's `json_object` reject arrays. */
+  generateJson(request: AiRequest): Promise<any>;
+  /** Returns the edited image. */
+  editImage(image: AiMedia, instruction: string): Promise<AiMedia>;
+}
+
+export type AiProviderKind = 'gemini' | 'openai';
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model: string;
+  imageModel: string; // used for image editing
+  endpoint: string; // base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+  apiKey: string; // empty: Gemini falls back to the API_KEY environment variable
+}
+
+export const AI_PROVIDER_DEFAULTS: Record<AiProviderKind, AiSettings> = {
+  gemini: { provider: 'gemini', model: 'gemini-2.5-flash', imageModel: 'gemini-2.5-flash-image', endpoint: '', apiKey: '' },
+  openai: { provider: 'openai', model: 'llama3.2-vision', imageModel: '', endpoint: 'http://localhost:11434/v1', apiKey: '' },
+};
+
+const SETTINGS_KEY = 'ai_settings';
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    const provider: AiProviderKind = stored?.provider === 'openai' ? 'openai' : 'gemini';
+    return { ...AI_PROVIDER_DEFAULTS[provider], ...stored, provider };
+  } catch {
+    return AI_PROVIDER_DEFAULTS.gemini;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Removes a data URL prefix ("data:image/jpeg;base64,") if present. */
+export const stripDataUrl = (data: string) => data.split(',')[1] || data;
+
+/**
+ * Parses a JSON reply. Models without a strict JSON mode often wrap the JSON in a
+ * markdown fence or add a sentence around it, so the outermost object or array is tried too.
+ */
+export const parseJsonReply = (text: string): any => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(trimmed.slice(start, end + 1));
+      } catch {
+        // fall through to the error below
+      }
+    }
+    const excerpt = text.trim().replace(/\s+/g, ' ');
+    throw new Error(`AI response was not valid JSON: ${excerpt.length > 200 ? `${excerpt.slice(0, 200)}...` : excerpt || '(empty)'}`);
+  }
+};
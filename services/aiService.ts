@@ -0,0 +1,280 @@
+
+import { arrayBufferToBase64 } from '../utils/fileUtils';
+import { AiProvider, AiMedia, AiRequest, AiSettings, ChatMessage, loadAiSettings, stripDataUrl } from './aiProvider';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { getPdfJs } from './pdfService';
+
+export type { ChatMessage } from './aiProvider';
+
+/** Builds the provider described by the given settings. */
+export const createAiProvider = (settings: AiSettings): AiProvider =>
+  settings.provider === 'openai' ? new OpenAiCompatibleProvider(settings) : new GeminiProvider(settings);
+
+const jpeg = (imageBase64: string): AiMedia => ({ mimeType: 'image/jpeg', data: stripDataUrl(imageBase64) });
+
+// Providers that cannot read PDFs get rendered pages for OCR instead
+const MAX_RENDERED_PAGES = 30;
+
+const renderPdfPages = async (pdfArrayBuffer: ArrayBuffer): Promise<string[]> => {
+  const pdfjs = await getPdfJs();
+  const pdf = await pdfjs.getDocument(pdfArrayBuffer.slice(0)).promise;
+  if (pdf.numPages > MAX_RENDERED_PAGES) {
+    throw new Error(`This provider reads PDFs page by page as images, up to ${MAX_RENDERED_PAGES} pages. Split the document first or switch to Gemini in AI settings.`);
+  }
+  const images: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 1.5 });
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas context missing');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: context, viewport }).promise;
+    images.push(canvas.toDataURL('image/jpeg', 0.85));
+  }
+  return images;
+};
+
+/**
+ * The app's AI features. Each call goes to the provider chosen in AI settings (Gemini by
+ * default); pass a provider to the constructor to pin one, e.g. a `MockAiProvider` in tests.
+ */
+export class AiService {
+  constructor(private provider?: AiProvider) {}
+
+  /** The pinned provider, or a fresh one built from the current settings. */
+  public getProvider(): AiProvider {
+    return this.provider || createAiProvider(loadAiSettings());
+  }
+
+  /**
+   * Helper to execute an async function with retry logic.
+   * @param fn The async function to execute.
+   * @param maxRetries Maximum number of retries.
+   * @param baseDelayMs Base delay for exponential backoff.
+   * @returns A Promise that resolves with the result of `fn`.
+   */
+  private async callWithRetry<T>(
+    fn: () => Promise<T>,
+    maxRetries: number = 3,
+    baseDelayMs: number = 1000, // 1 second
+  ): Promise<T> {
+    for (let i = 0; i <= maxRetries; i++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (i < maxRetries) {
+          const delay = baseDelayMs * Math.pow(2, i); // Exponential backoff
+          await new Promise(resolve => setTimeout(resolve, delay));
+        } else {
+          // If all retries failed, re-throw a more informative error
+          let errorMessage = "An unknown error occurred.";
+          if (error instanceof Error) {
+            errorMessage = error.message;
+          } else if (typeof error === 'object' && error !== null && 'status' in error && 'message' in error) {
+            errorMessage = `${(error as any).status}: ${(error as any).message}`;
+          }
+          throw new Error(`API call failed after ${maxRetries + 1} attempts: ${errorMessage}`);
+        }
+      }
+    }
+    throw new Error('Unexpected state in callWithRetry'); // Should not be reached
+  }
+
+  /**
+   * Continues a multi-turn conversation. The whole history is sent each time (the APIs are
+   * stateless), so callers should keep turns short and put bulky context only in the last one.
+   * @param systemInstruction Standing instructions for the model.
+   * @param messages The conversation so far, ending with the user's new message.
+   * @returns A Promise that resolves with the model's reply.
+   */
+  public async chat(systemInstruction: string, messages: ChatMessage[]): Promise<string> {
+    const provider = this.getProvider();
+    const last = messages[messages.length - 1];
+    return this.callWithRetry(() => provider.generateText({
+      systemInstruction,
+      history: messages.slice(0, -1),
+      prompt: last?.text || '',
+    }));
+  }
+
+  /**
+   * Performs Optical Character Recognition (OCR) on a PDF document.
+   * Extracts all text content from the PDF, including scanned or image-based pages.
+   * @param pdfArrayBuffer The ArrayBuffer of the PDF file.
+   * @returns A Promise that resolves with the extracted text content.
+   */
+  public async ocrPdf(pdfArrayBuffer: ArrayBuffer): Promise<string> {
+    const provider = this.getProvider();
+    const prompt = `Extract all text content from the following PDF document.
+                    Provide the extracted text as a plain string, preserving as much of the original formatting (paragraphs, line breaks) as possible.
+                    Do not add any introductory or concluding remarks, just the raw extracted text.`;
+
+    if (!provider.capabilities.pdfInput) {
+      const pages: string[] = [];
+      for (const image of await renderPdfPages(pdfArrayBuffer)) {
+        pages.push(await this.callWithRetry(() => provider.generateText({
+          prompt: prompt.replace('PDF document', 'document page'),
+          media: [jpeg(image)],
+        })));
+      }
+      return pages.join('\n\n');
+    }
+
+    const pdfBase64 = arrayBufferToBase64(pdfArrayBuffer);
+    return this.callWithRetry(() => provider.generateText({
+      prompt,
+      media: [{ mimeType: 'application/pdf', data: pdfBase64 }],
+    }));
+  }
+
+  /**
+   * Identifies the type of document based on an image of its first page.
+   * Used for auto-labeling split PDF sections.
+   * @param imageBase64 Base64 string of the page image (JPEG).
+   * @returns A Promise resolving to a short 1-3 word label (e.g., "Invoice", "Tax Form").
+   */
+  public async identifyDocumentType(imageBase64: string): Promise<string> {
+    const provider = this.getProvider();
+    const prompt = `Look at this document page. Provide a very short file name label (1-3 words max) that describes what this document is (e.g., "Invoice", "Bank Statement", "Resume", "Contract"). Return ONLY the label, no punctuation.`;
+
+    return this.callWithRetry(() => provider.generateText({ prompt, media: [jpeg(imageBase64)] }));
+  }
+
+  /**
+   * Proofreads the given text, correcting grammar and spelling errors.
+   * @param text The text to proofread.
+   * @returns The corrected text.
+   */
+  public async proofreadText(text: string): Promise<string> {
+    const provider = this.getProvider();
+    const prompt = `You are a professional editor. Proofread the following text for grammar, spelling, and punctuation errors.
+      Return ONLY the corrected version of the text. Do not add any conversational filler, explanations, or markdown code blocks unless the original text had them.
+      Preserve the original paragraph structure as much as possible.
+
+      Text to proofread:
+      ${text}`;
+
+    return this.callWithRetry(() => provider.generateText({ prompt }));
+  }
+
+  /**
+   * Reformats raw extracted text into a structured JSON format for Word document generation.
+   * Identifies headings, lists, and paragraphs.
+   * @param text The raw text extracted from a PDF.
+   * @returns A JSON string representing the document structure.
+   */
+  public async reformatTextForWord(text: string): Promise<string> {
+    const provider = this.getProvider();
+    const prompt = `Analyze the following extracted text. Structure it into a list of blocks suitable for generating a Word document.
+      Identify headings (Title, Heading 1, Heading 2), bullet points, and standard paragraphs.
+
+      Output strictly a JSON object { "items": [...] } whose items follow this schema:
+      { "type": "title" | "heading1" | "heading2" | "bullet" | "paragraph", "content": "string" }
+
+      Do not change the meaning of the text, just structure it.
+      If the text is too long, summarize sections but keep the structure.
+      Return ONLY the raw JSON string. No markdown code fences.
+
+      Text:
+      ${text.substring(0, 30000)}
+      `; // Limit context to avoid token limits
+
+    return this.callWithRetry(async () => {
+      const result = await provider.generateJson({ prompt });
+      if (!Array.isArray(result?.items)) throw new Error('The AI did not return a list of document blocks.');
+      return JSON.stringify(result.items);
+    });
+  }
+
+  /**
+   * Generates a structured JSON response based on text prompt and optional images.
+   * Useful for analyzing images and getting structured data back.
+   * @param prompt The text prompt.
+   * @param imagesBase64 Array of base64 encoded image strings.
+   * @returns Parsed JSON object.
+   */
+  public async generateJson(prompt: string, imagesBase64: string[] = []): Promise<any> {
+    const provider = this.getProvider();
+    return this.callWithRetry(() => provider.generateJson({ prompt, media: imagesBase64.map(jpeg) }));
+  }
+
+  /**
+   * Sends a request whose JSON reply must pass `validate`. Replies that fail validation are
+   * retried like failed calls, since models occasionally drop or misname a field.
+   * @param request The prompt, with any images or (for providers that read them) PDFs.
+   * @param validate Checks the parsed reply and returns it typed; throws when it does not fit.
+   * @returns The validated reply.
+   */
+  public async generateStructured<T>(request: AiRequest, validate: (reply: any) => T): Promise<T> {
+    const provider = this.getProvider();
+    return this.callWithRetry(async () => validate(await provider.generateJson(request)));
+  }
+
+  /**
+   * Extracts tabular data from an image for Excel conversion.
+   * @param imageBase64 The base64 string of the image containing the table.
+   * @returns A JSON object representing the table data (array of rows).
+   */
+  public async extractTableData(imageBase64: string): Promise<{ rows: string[][] }> {
+    const provider = this.getProvider();
+    const prompt = `Analyze this image. Identify any tables or structured data grids.
+      Extract the content into a 2D array of strings representing rows and columns.
+      If there are merged cells, duplicate the value or leave empty as appropriate to maintain grid structure.
+      Return ONLY a JSON object with this schema:
+      { "rows": [ ["Header1", "Header2"], ["Row1Col1", "Row1Col2"] ] }
+      If no table is found, return { "rows": [] } but still attempt to extract text line by line as rows.`;
+
+    return this.callWithRetry(async () => {
+      const result = await provider.generateJson({ prompt, media: [jpeg(imageBase64)] });
+      if (!Array.isArray(result?.rows)) throw new Error("Failed to parse AI response for table extraction.");
+      return result;
+    });
+  }
+
+  /**
+   * Extracts slide content (title, bullets, body) from an image for PowerPoint conversion.
+   * @param imageBase64 The base64 string of the slide image.
+   * @returns A JSON object representing the slide structure.
+   */
+  public async extractSlideContent(imageBase64: string): Promise<{ title: string, body: string, bullets: string[] }> {
+    const provider = this.getProvider();
+    const prompt = `Analyze this presentation slide image. Extract the main components.
+      1. Identify the Title.
+      2. Identify the main body text.
+      3. Identify any bullet points (list items).
+
+      Return a JSON object with this schema:
+      {
+        "title": "Slide Title string",
+        "body": "Main paragraph text string",
+        "bullets": ["Bullet 1", "Bullet 2"]
+      }
+      If a section is missing, return empty string or empty array.`;
+
+    return this.callWithRetry(async () => {
+      const result = await provider.generateJson({ prompt, media: [jpeg(imageBase64)] });
+      if (!result || typeof result !== 'object') throw new Error("Failed to parse AI response for slide extraction.");
+      return { title: result.title || '', body: result.body || '', bullets: Array.isArray(result.bullets) ? result.bullets : [] };
+    });
+  }
+
+  /**
+   * Edits an image according to a natural language instruction.
+   * @param imageBase64 The image as base64 or a data URL (JPEG).
+   * @param instruction What to change.
+   * @returns The edited image as a data URL.
+   */
+  public async editImage(imageBase64: string, instruction: string): Promise<string> {
+    const provider = this.getProvider();
+    if (!provider.capabilities.imageEdit) {
+      throw new Error(`Image editing is not available with the ${provider.name} provider. Switch to Gemini in AI settings to use generative edits.`);
+    }
+    const edited = await provider.editImage(jpeg(imageBase64), instruction);
+    return `data:${edited.mimeType};base64,${edited.data}`;
+  }
+}
+
+export const aiService = new AiService();
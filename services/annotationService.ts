@@ -0,0 +1,459 @@
+import {
+  PDFDocument, PDFFont, PDFPage, PDFArray, PDFDict, PDFHexString, PDFName, PDFNumber, PDFOperator, PDFRef, PDFString, LineCapStyle,
+  closePath, degrees, drawEllipse, drawLine, drawRectangle, drawText, fill, lineTo, moveTo, popGraphicsState,
+  pushGraphicsState, rgb, setGraphicsState, setFillingColor, setLineCap, setLineWidth, setStrokingColor, stroke,
+} from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { Box, canvasPointToUser, canvasRectToUserBox, formatPdfDate, numbersOf, parsePdfDate, userBoxToCanvasRect, userPointToCanvas } from '../utils/pdfText';
+import { FormWidgetRect } from './pdfEditorService';
+import { compressionService } from './compressionService';
+import { fontService } from './fontService';
+
+export type AnnotationType = 'highlight' | 'underline' | 'strikeout' | 'note' | 'freeText' | 'ink' | 'square' | 'circle' | 'line' | 'arrow';
+
+export const ANNOTATION_LABELS: Record<AnnotationType, string> = {
+  highlight: 'Highlight',
+  underline: 'Underline',
+  strikeout: 'Strikeout',
+  note: 'Sticky note',
+  freeText: 'Text box',
+  ink: 'Freehand',
+  square: 'Rectangle',
+  circle: 'Ellipse',
+  line: 'Line',
+  arrow: 'Arrow',
+};
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+/** A markup annotation in editor coordinates (points, top-left origin over the rotated crop box). */
+export interface PdfAnnotation {
+  id: string; // The annotation's NM entry when the file has one
+  type: AnnotationType;
+  pageIndex: number;
+  rect: FormWidgetRect;
+  color: string; // Hex; the text color for free text
+  opacity: number;
+  author: string;
+  contents: string;
+  modified?: string; // ISO timestamp
+  created?: string;
+  quads?: AnnotationPoint[][]; // Text markup: upper-left, upper-right, lower-left, lower-right of each line
+  inkList?: AnnotationPoint[][];
+  line?: AnnotationPoint[]; // Start and end of lines and arrows
+  borderWidth?: number;
+  fontSize?: number;
+  ref?: string; // Object of an annotation read from the file, e.g. "12 0 R"
+}
+
+interface EditableAnnotation {
+  page: PDFPage;
+  pageIndex: number;
+  ref: PDFRef;
+  dict: PDFDict;
+  type: AnnotationType;
+}
+
+const SUBTYPES: Record<AnnotationType, string> = {
+  highlight: 'Highlight', underline: 'Underline', strikeout: 'StrikeOut', note: 'Text', freeText: 'FreeText',
+  ink: 'Ink', square: 'Square', circle: 'Circle', line: 'Line', arrow: 'Line',
+};
+
+const ARROW_ENDINGS = new Set(['OpenArrow', 'ClosedArrow', 'ROpenArrow', 'RClosedArrow']);
+const MARKUP_TYPES: AnnotationType[] = ['highlight', 'underline', 'strikeout'];
+
+// Print flag; popups additionally keep their size and orientation when zooming or rotating
+const FLAG_PRINT = 4;
+const FLAG_POPUP = 28;
+
+const hexToComponents = (hex: string): [number, number, number] => {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.padEnd(6, '0');
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255) as [number, number, number];
+};
+
+const componentsToHex = (values: number[]): string | undefined => {
+  let [r, g, b] = values;
+  if (values.length === 1) r = g = b = values[0];
+  else if (values.length === 4) {
+    const [c, m, y, k] = values;
+    [r, g, b] = [(1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k)];
+  } else if (values.length !== 3) return undefined;
+  return `#${[r, g, b].map(v => Math.round(Math.min(1, Math.max(0, v)) * 255).toString(16).padStart(2, '0')).join('')}`;
+};
+
+const textOf = (dict: PDFDict, key: string): string | undefined => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+};
+
+const numberOf = (dict: PDFDict | undefined, key: string): number | undefined =>
+  dict?.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber();
+
+/** The two short strokes of an open arrowhead at `end`, sized for the line width. */
+export const arrowHeadPoints = (start: AnnotationPoint, end: AnnotationPoint, width: number): AnnotationPoint[] => {
+  const length = Math.max(8, width * 4);
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  return [-1, 1].map(side => ({
+    x: end.x - length * Math.cos(angle + side * Math.PI / 7),
+    y: end.y - length * Math.sin(angle + side * Math.PI / 7),
+  }));
+};
+
+const boundsOf = (points: AnnotationPoint[], pad: number): FormWidgetRect => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const left = Math.min(...xs) - pad;
+  const top = Math.min(...ys) - pad;
+  return { left, top, width: Math.max(...xs) + pad - left, height: Math.max(...ys) + pad - top };
+};
+
+const unionRect = (a: FormWidgetRect, b: FormWidgetRect): FormWidgetRect => {
+  const left = Math.min(a.left, b.left);
+  const top = Math.min(a.top, b.top);
+  return { left, top, width: Math.max(a.left + a.width, b.left + b.width) - left, height: Math.max(a.top + a.height, b.top + b.height) - top };
+};
+
+const distance = (a: AnnotationPoint, b: AnnotationPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+class AnnotationService {
+
+  /**
+   * Reads the markup annotations the editor can change. Replies, popups, links, widgets and
+   * other annotation kinds are left untouched in the file.
+   */
+  public async readAnnotations(file: AppFile): Promise<PdfAnnotation[]> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0));
+    return this.collect(pdfDoc).map(entry => this.read(entry));
+  }
+
+  /** A copy of the file without the annotations returned by `readAnnotations`, used as the editor background. */
+  public async withoutEditableAnnotations(file: AppFile): Promise<ArrayBuffer> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0));
+    this.collect(pdfDoc).forEach(entry => this.detach(entry));
+    const pdfBytes = await pdfDoc.save();
+    return pdfBytes.buffer.slice(pdfBytes.byteOffset, pdfBytes.byteOffset + pdfBytes.byteLength) as ArrayBuffer;
+  }
+
+  /**
+   * Makes the file's editable annotations match `annotations`: new ones are added with an
+   * appearance stream and a popup, changed ones are updated in place so replies keep pointing
+   * at them, and ones missing from the list are deleted. An annotation whose `modified`
+   * timestamp is unchanged keeps its original appearance.
+   */
+  public async applyAnnotations(file: AppFile, annotations: PdfAnnotation[]): Promise<ProcessedFile> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+    const pages = pdfDoc.getPages();
+    const existing = new Map(this.collect(pdfDoc).map(entry => [entry.ref.toString(), entry]));
+    const kept = new Set<string>();
+
+    for (const annotation of annotations) {
+      const page = pages[annotation.pageIndex];
+      if (!page) continue;
+      const current = annotation.ref ? existing.get(annotation.ref) : undefined;
+      if (current && current.pageIndex === annotation.pageIndex) {
+        kept.add(annotation.ref!);
+        if (this.read(current).modified !== annotation.modified) await this.write(pdfDoc, page, current.dict, annotation);
+        continue;
+      }
+      await this.addAnnotation(pdfDoc, annotation);
+    }
+
+    for (const [key, entry] of existing) {
+      if (!kept.has(key)) this.detach(entry);
+    }
+
+    // Replaced appearance streams and deleted annotations would otherwise still be written
+    compressionService.removeUnreachableObjects(pdfDoc);
+    const pdfBytes = await pdfDoc.save();
+    return {
+      id: crypto.randomUUID(),
+      name: file.name,
+      mimeType: 'application/pdf',
+      dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'),
+      size: pdfBytes.byteLength,
+    };
+  }
+
+  /** Adds a new annotation, with its appearance stream and popup, to a document being built. */
+  public async addAnnotation(pdfDoc: PDFDocument, annotation: PdfAnnotation): Promise<void> {
+    const context = pdfDoc.context;
+    const page = pdfDoc.getPage(annotation.pageIndex);
+    const dict = context.obj({});
+    const ref = context.register(dict);
+    await this.write(pdfDoc, page, dict, annotation);
+    const added = [ref];
+    if (annotation.type !== 'freeText') {
+      const box = canvasRectToUserBox(page, annotation.rect);
+      const popup = context.register(context.obj({
+        Type: 'Annot', Subtype: 'Popup', Parent: ref, Open: false, F: FLAG_POPUP,
+        Rect: [box.x1, box.y1 - 120, box.x1 + 200, box.y1],
+      }));
+      dict.set(PDFName.of('Popup'), popup);
+      added.push(popup);
+    }
+    const annots = page.node.Annots();
+    if (annots) added.forEach(r => annots.push(r));
+    else page.node.set(PDFName.of('Annots'), context.obj(added));
+  }
+
+  private collect(pdfDoc: PDFDocument): EditableAnnotation[] {
+    const found: EditableAnnotation[] = [];
+    pdfDoc.getPages().forEach((page, pageIndex) => {
+      const annots = page.node.Annots();
+      if (!annots) return;
+      for (let i = 0; i < annots.size(); i++) {
+        const ref = annots.get(i);
+        // Annotations written inline cannot be told apart after saving, so only indirect ones are editable
+        if (!(ref instanceof PDFRef)) continue;
+        const dict = pdfDoc.context.lookup(ref);
+        if (!(dict instanceof PDFDict) || dict.has(PDFName.of('IRT'))) continue;
+        const type = this.typeOf(dict);
+        if (type) found.push({ page, pageIndex, ref, dict, type });
+      }
+    });
+    return found;
+  }
+
+  private typeOf(dict: PDFDict): AnnotationType | undefined {
+    const subtype = dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+    if (subtype === 'Line') {
+      const endings = dict.lookupMaybe(PDFName.of('LE'), PDFArray)?.asArray() || [];
+      return endings.some(e => e instanceof PDFName && ARROW_ENDINGS.has(e.decodeText())) ? 'arrow' : 'line';
+    }
+    return (Object.keys(SUBTYPES) as AnnotationType[]).find(type => SUBTYPES[type] === subtype);
+  }
+
+  private read({ page, pageIndex, ref, dict, type }: EditableAnnotation): PdfAnnotation {
+    const toCanvas = (values: number[]): AnnotationPoint[] => {
+      const points: AnnotationPoint[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        const [x, y] = userPointToCanvas(page, values[i], values[i + 1]);
+        points.push({ x, y });
+      }
+      return points;
+    };
+    const [x0 = 0, y0 = 0, x1 = 0, y1 = 0] = numbersOf(dict.lookupMaybe(PDFName.of('Rect'), PDFArray)) || [];
+    const box: Box = { x0: Math.min(x0, x1), y0: Math.min(y0, y1), x1: Math.max(x0, x1), y1: Math.max(y0, y1) };
+    const da = textOf(dict, 'DA') || '';
+    const daColor = /([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+rg/.exec(da)?.slice(1).map(Number) || /([\d.]+)\s+g\b/.exec(da)?.slice(1).map(Number);
+    const color = type === 'freeText'
+      ? componentsToHex(daColor || [0])
+      : componentsToHex(numbersOf(dict.lookupMaybe(PDFName.of('C'), PDFArray)) || []);
+    const border = dict.lookupMaybe(PDFName.of('BS'), PDFDict);
+    const borderArray = numbersOf(dict.lookupMaybe(PDFName.of('Border'), PDFArray));
+
+    const annotation: PdfAnnotation = {
+      id: textOf(dict, 'NM') || crypto.randomUUID(),
+      type,
+      pageIndex,
+      rect: userBoxToCanvasRect(page, box),
+      color: color || (type === 'highlight' || type === 'note' ? '#facc15' : '#000000'),
+      opacity: numberOf(dict, 'CA') ?? 1,
+      author: textOf(dict, 'T') || '',
+      contents: textOf(dict, 'Contents') || '',
+      modified: parsePdfDate(textOf(dict, 'M'))?.toISOString(),
+      created: parsePdfDate(textOf(dict, 'CreationDate'))?.toISOString(),
+      borderWidth: numberOf(border, 'W') ?? borderArray?.[2] ?? 1,
+      ref: ref.toString(),
+    };
+
+    const quadPoints = numbersOf(dict.lookupMaybe(PDFName.of('QuadPoints'), PDFArray));
+    if (MARKUP_TYPES.includes(type)) {
+      const points = quadPoints ? toCanvas(quadPoints) : [];
+      annotation.quads = [];
+      for (let i = 0; i + 3 < points.length; i += 4) annotation.quads.push(points.slice(i, i + 4));
+      // QuadPoints are optional in practice; fall back to the whole rectangle
+      if (annotation.quads.length === 0) {
+        const { left, top, width, height } = annotation.rect;
+        annotation.quads.push([{ x: left, y: top }, { x: left + width, y: top }, { x: left, y: top + height }, { x: left + width, y: top + height }]);
+      }
+    }
+    const inkList = dict.lookupMaybe(PDFName.of('InkList'), PDFArray);
+    if (type === 'ink' && inkList) {
+      annotation.inkList = inkList.asArray().map((_, i) => toCanvas(numbersOf(inkList.lookupMaybe(i, PDFArray)) || []));
+    }
+    const line = numbersOf(dict.lookupMaybe(PDFName.of('L'), PDFArray));
+    if ((type === 'line' || type === 'arrow') && line?.length === 4) annotation.line = toCanvas(line);
+    if (type === 'freeText') annotation.fontSize = Number(/([\d.]+)\s+Tf/.exec(da)?.[1]) || 12;
+    return annotation;
+  }
+
+  private async write(pdfDoc: PDFDocument, page: PDFPage, dict: PDFDict, annotation: PdfAnnotation) {
+    const context = pdfDoc.context;
+    const toUser = (points: AnnotationPoint[]) => points.flatMap(p => canvasPointToUser(page, p.x, p.y));
+    const width = annotation.borderWidth ?? 1;
+
+    // Make sure the rectangle covers strokes and arrowheads so the appearance is not clipped
+    let rect = annotation.rect;
+    const geometry = [...(annotation.quads || []).flat(), ...(annotation.inkList || []).flat(), ...(annotation.line || [])];
+    if (annotation.type === 'arrow' && annotation.line) geometry.push(...arrowHeadPoints(annotation.line[0], annotation.line[1], width));
+    if (geometry.length > 0) rect = unionRect(rect, boundsOf(geometry, width));
+    const box = canvasRectToUserBox(page, rect);
+    const now = formatPdfDate(new Date());
+
+    const entries: Record<string, any> = {
+      Type: 'Annot',
+      Subtype: SUBTYPES[annotation.type],
+      Rect: [box.x0, box.y0, box.x1, box.y1],
+      Contents: PDFHexString.fromText(annotation.contents),
+      NM: PDFHexString.fromText(annotation.id),
+      M: PDFString.of(annotation.modified ? formatPdfDate(new Date(annotation.modified)) : now),
+      CreationDate: PDFString.of(annotation.created ? formatPdfDate(new Date(annotation.created)) : now),
+      F: FLAG_PRINT,
+      P: page.ref,
+    };
+    if (annotation.author) entries.T = PDFHexString.fromText(annotation.author);
+    if (annotation.opacity < 1) entries.CA = annotation.opacity;
+    if (annotation.type === 'freeText') {
+      const [r, g, b] = hexToComponents(annotation.color);
+      entries.DA = PDFString.of(`/Helv ${annotation.fontSize || 12} Tf ${r.toFixed(3)} ${g.toFixed(3)} ${b.toFixed(3)} rg`);
+    } else {
+      entries.C = hexToComponents(annotation.color);
+    }
+    if (annotation.type === 'note') entries.Name = 'Comment';
+    if (['ink', 'square', 'circle', 'line', 'arrow'].includes(annotation.type)) entries.BS = { W: width, S: 'S' };
+    if (annotation.quads) entries.QuadPoints = toUser(annotation.quads.flat());
+    if (annotation.inkList) entries.InkList = annotation.inkList.map(toUser);
+    if (annotation.line) entries.L = toUser(annotation.line);
+    if (annotation.type === 'arrow') entries.LE = ['None', 'OpenArrow'];
+
+    // Drop what the previous version set but this one does not, keeping everything else (popups, replies' targets, ...)
+    ['T', 'CA', 'DA', 'C', 'IC', 'Name', 'BS', 'Border', 'QuadPoints', 'InkList', 'L', 'LE', 'AP', 'AS', 'RC', 'DS']
+      .forEach(key => dict.delete(PDFName.of(key)));
+    Object.entries(entries).forEach(([key, value]) => dict.set(PDFName.of(key), context.obj(value)));
+    dict.set(PDFName.of('AP'), context.obj({ N: await this.appearance(pdfDoc, page, annotation, box) }));
+  }
+
+  /** Builds the normal appearance in the page's user space, with the bounding box equal to the annotation's Rect. */
+  private async appearance(pdfDoc: PDFDocument, page: PDFPage, annotation: PdfAnnotation, box: Box): Promise<PDFRef> {
+    const context = pdfDoc.context;
+    const user = (p: AnnotationPoint) => {
+      const [x, y] = canvasPointToUser(page, p.x, p.y);
+      return { x, y };
+    };
+    const [r, g, b] = hexToComponents(annotation.color);
+    const color = rgb(r, g, b);
+    const width = annotation.borderWidth ?? 1;
+    const resources: Record<string, any> = {};
+    const ops: PDFOperator[] = [pushGraphicsState()];
+
+    const extGState: Record<string, any> = { CA: annotation.opacity, ca: annotation.opacity };
+    if (annotation.type === 'highlight') extGState.BM = 'Multiply';
+    resources.ExtGState = { GS0: extGState };
+    ops.push(setGraphicsState('GS0'));
+
+    const polyline = (points: AnnotationPoint[], closed = false) => {
+      const [first, ...rest] = points.map(user);
+      ops.push(moveTo(first.x, first.y), ...rest.map(p => lineTo(p.x, p.y)));
+      if (closed) ops.push(closePath());
+    };
+
+    switch (annotation.type) {
+      case 'highlight':
+        ops.push(setFillingColor(color));
+        annotation.quads?.forEach(([ul, ur, ll, lr]) => polyline([ul, ur, lr, ll], true));
+        ops.push(fill());
+        break;
+      case 'underline':
+      case 'strikeout':
+        ops.push(setStrokingColor(color));
+        annotation.quads?.forEach(([ul, ur, ll, lr]) => {
+          const thickness = Math.max(1, distance(ul, ll) * 0.07);
+          // Underlines sit just above the bottom edge, strikeouts through the middle of the line
+          const t = annotation.type === 'underline' ? thickness / Math.max(1, distance(ul, ll)) : 0.5;
+          const start = { x: ll.x + (ul.x - ll.x) * t, y: ll.y + (ul.y - ll.y) * t };
+          const end = { x: lr.x + (ur.x - lr.x) * t, y: lr.y + (ur.y - lr.y) * t };
+          ops.push(setLineWidth(thickness));
+          polyline([start, end]);
+          ops.push(stroke());
+        });
+        break;
+      case 'ink':
+        ops.push(setStrokingColor(color), setLineWidth(width), setLineCap(LineCapStyle.Round));
+        annotation.inkList?.filter(points => points.length > 0).forEach(points => polyline(points.length === 1 ? [points[0], points[0]] : points));
+        ops.push(stroke());
+        break;
+      case 'line':
+      case 'arrow':
+        if (annotation.line) {
+          const [start, end] = annotation.line;
+          ops.push(setStrokingColor(color), setLineWidth(width), setLineCap(LineCapStyle.Round));
+          polyline([start, end]);
+          if (annotation.type === 'arrow') {
+            const [left, right] = arrowHeadPoints(start, end, width);
+            polyline([left, end, right]);
+          }
+          ops.push(stroke());
+        }
+        break;
+      case 'square':
+        ops.push(...drawRectangle({
+          x: box.x0 + width / 2, y: box.y0 + width / 2, width: box.x1 - box.x0 - width, height: box.y1 - box.y0 - width,
+          borderWidth: width, color: undefined, borderColor: color, rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0),
+        }));
+        break;
+      case 'circle':
+        ops.push(...drawEllipse({
+          x: (box.x0 + box.x1) / 2, y: (box.y0 + box.y1) / 2,
+          xScale: (box.x1 - box.x0 - width) / 2, yScale: (box.y1 - box.y0 - width) / 2,
+          borderWidth: width, color: undefined, borderColor: color,
+        }));
+        break;
+      case 'note': {
+        // A speech bubble filling the icon rectangle
+        const { x0, y0, x1, y1 } = box;
+        const w = x1 - x0;
+        const h = y1 - y0;
+        const at = (fx: number, fy: number) => ({ x: x0 + w * fx, y: y1 - h * fy });
+        ops.push(setFillingColor(color), setStrokingColor(rgb(r * 0.5, g * 0.5, b * 0.5)), setLineWidth(1));
+        const outline = [at(0.05, 0.05), at(0.95, 0.05), at(0.95, 0.72), at(0.42, 0.72), at(0.2, 0.95), at(0.22, 0.72), at(0.05, 0.72)];
+        ops.push(moveTo(outline[0].x, outline[0].y), ...outline.slice(1).map(p => lineTo(p.x, p.y)), closePath(), fill());
+        ops.push(moveTo(outline[0].x, outline[0].y), ...outline.slice(1).map(p => lineTo(p.x, p.y)), closePath(), stroke());
+        [0.25, 0.4, 0.55].forEach(fy => ops.push(...drawLine({ start: at(0.2, fy), end: at(0.8, fy), thickness: 0.8, color: rgb(r * 0.5, g * 0.5, b * 0.5) })));
+        break;
+      }
+      case 'freeText': {
+        const size = annotation.fontSize || 12;
+        const fonts = new Map<PDFFont, string>();
+        let y = box.y1 - size * 0.95;
+        for (const line of annotation.contents.split('\n')) {
+          let x = box.x0 + 1;
+          for (const run of await fontService.layoutText(pdfDoc, line, 'Helvetica')) {
+            if (!fonts.has(run.font)) fonts.set(run.font, `F${fonts.size}`);
+            ops.push(...drawText(run.font.encodeText(run.text), {
+              color, font: fonts.get(run.font)!, size, x, y, rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0),
+            }));
+            x += run.font.widthOfTextAtSize(run.text, size);
+          }
+          y -= size * 1.16;
+        }
+        resources.Font = Object.fromEntries(Array.from(fonts, ([font, name]) => [name, font.ref]));
+        break;
+      }
+    }
+
+    ops.push(popGraphicsState());
+    const stream = context.formXObject(ops, { BBox: [box.x0, box.y0, box.x1, box.y1], Resources: resources });
+    return context.register(stream);
+  }
+
+  private detach({ page, ref, dict }: EditableAnnotation) {
+    const annots = page.node.Annots();
+    if (!annots) return;
+    const popup = dict.get(PDFName.of('Popup'));
+    for (let i = annots.size() - 1; i >= 0; i--) {
+      const entry = annots.get(i);
+      if (entry === ref || (popup && entry === popup)) annots.remove(i);
+    }
+  }
+}
+
+export const annotationService = new AnnotationService();
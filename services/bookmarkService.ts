@@ -0,0 +1,267 @@
+import { PDFDocument, PDFName, PDFNumber } from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { canvasPointToUser } from '../utils/pdfText';
+import { outlineService, OutlineNode } from './outlineService';
+import { pdfEditorService, TextItem } from './pdfEditorService';
+import { compressionService } from './compressionService';
+import { aiService } from './aiService';
+
+/** A bookmark as edited in the UI; plain data so it can live in React state. */
+export interface Bookmark {
+  id: string;
+  title: string;
+  pageIndex?: number; // Undefined when the bookmark has no page target
+  // Destination after the page, e.g. ['XYZ', 72, 700, null], so saved bookmarks land where they did
+  view?: (string | number | null)[];
+  color?: number[];
+  flags?: number;
+  open: boolean;
+  children: Bookmark[];
+  ref?: string; // Outline item it was read from, e.g. "12 0 R"; used to keep non-page actions
+}
+
+export interface BookmarkDocument {
+  bookmarks: Bookmark[];
+  pageCount: number;
+}
+
+/** A line of text set larger than the body text, with the outline level its size suggests. */
+export interface HeadingCandidate {
+  pageIndex: number;
+  title: string;
+  size: number;
+  top: number; // Canvas y of the top of the line
+  level: number; // 1 for the largest headings
+}
+
+interface TextLine {
+  text: string;
+  size: number;
+  baseline: number;
+}
+
+const MAX_LEVELS = 3;
+// Text this much larger than the body text counts as a heading
+const HEADING_RATIO = 1.15;
+// Font sizes closer than this (relative) share a level
+const LEVEL_TOLERANCE = 0.08;
+// Candidates sent to the AI refinement, to keep the prompt small
+const MAX_AI_CANDIDATES = 400;
+
+const newId = () => crypto.randomUUID();
+
+/** Groups pdf.js text items into lines by baseline, in reading order. */
+const toLines = (items: TextItem[]): TextLine[] => {
+  const sorted = items
+    .filter(item => item.str.trim() && item.height > 0)
+    .sort((a, b) => a.transform[5] - b.transform[5] || a.transform[4] - b.transform[4]);
+  const lines: { items: TextItem[]; baseline: number }[] = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(item.transform[5] - line.baseline) < item.height * 0.3) line.items.push(item);
+    else lines.push({ items: [item], baseline: item.transform[5] });
+  }
+
+  return lines.map(({ items: lineItems, baseline }) => {
+    lineItems.sort((a, b) => a.transform[4] - b.transform[4]);
+    let text = '';
+    lineItems.forEach((item, i) => {
+      const previous = lineItems[i - 1];
+      const gap = previous ? item.transform[4] - (previous.transform[4] + previous.width) : 0;
+      text += (gap > item.height * 0.15 && !/\s$/.test(text) ? ' ' : '') + item.str;
+    });
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      size: Math.max(...lineItems.map(item => item.height)),
+      baseline,
+    };
+  });
+};
+
+const looksLikeHeading = (text: string) =>
+  text.length >= 2 && text.length <= 120 && /\p{L}/u.test(text) && text.split(' ').length <= 16 && !/[.,;:]$/.test(text);
+
+/** Nests headings by level; a heading deeper than the one before it becomes its child. */
+const buildTree = (items: { title: string; level: number; pageIndex: number; view?: (string | number | null)[] }[]): Bookmark[] => {
+  const roots: Bookmark[] = [];
+  const stack: { level: number; node: Bookmark }[] = [];
+  for (const item of items) {
+    const node: Bookmark = { id: newId(), title: item.title, pageIndex: item.pageIndex, view: item.view, open: true, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= item.level) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].node.children : roots).push(node);
+    stack.push({ level: item.level, node });
+  }
+  return roots;
+};
+
+class BookmarkService {
+
+  public async readBookmarks(file: AppFile): Promise<BookmarkDocument> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { ignoreEncryption: true });
+
+    const convert = (nodes: OutlineNode[]): Bookmark[] => nodes.map(node => ({
+      id: newId(),
+      title: node.title,
+      pageIndex: node.pageIndex,
+      view: node.pageIndex !== undefined
+        ? node.dest?.asArray().slice(1).map(v => (v instanceof PDFName ? v.decodeText() : v instanceof PDFNumber ? v.asNumber() : null))
+        : undefined,
+      color: node.color,
+      flags: node.flags,
+      open: node.open,
+      children: convert(node.children),
+      ref: node.ref?.toString(),
+    }));
+    return { bookmarks: convert(outlineService.readOutline(pdfDoc)), pageCount: pdfDoc.getPageCount() };
+  }
+
+  /**
+   * Replaces the file's outline with `bookmarks`. Bookmarks read from the file that run an
+   * action instead of opening a page (web links, scripts) keep that action.
+   */
+  public async saveBookmarks(file: AppFile, bookmarks: Bookmark[]): Promise<ProcessedFile> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+    const context = pdfDoc.context;
+    const pageRefs = pdfDoc.getPages().map(page => page.ref);
+
+    const original = new Map<string, OutlineNode>();
+    const index = (nodes: OutlineNode[]) => nodes.forEach(node => {
+      if (node.ref) original.set(node.ref.toString(), node);
+      index(node.children);
+    });
+    index(outlineService.readOutline(pdfDoc));
+
+    const convert = (items: Bookmark[]): OutlineNode[] => items.map(item => {
+      const page = item.pageIndex !== undefined ? pageRefs[item.pageIndex] : undefined;
+      return {
+        title: item.title,
+        dest: page && item.view?.length ? context.obj([page, ...item.view]) : undefined,
+        pageIndex: page ? item.pageIndex : undefined,
+        action: !page && item.ref ? original.get(item.ref)?.action : undefined,
+        color: item.color,
+        flags: item.flags,
+        open: item.open,
+        children: convert(item.children),
+      };
+    });
+    outlineService.writeOutline(pdfDoc, convert(bookmarks));
+
+    // Open the bookmarks panel when the file has bookmarks, as readers otherwise hide it
+    if (bookmarks.length > 0) pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+    else if (pdfDoc.catalog.get(PDFName.of('PageMode')) === PDFName.of('UseOutlines')) pdfDoc.catalog.delete(PDFName.of('PageMode'));
+
+    // The previous outline items are no longer referenced
+    compressionService.removeUnreachableObjects(pdfDoc);
+    const pdfBytes = await pdfDoc.save();
+    return {
+      id: crypto.randomUUID(),
+      name: file.name,
+      mimeType: 'application/pdf',
+      dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'),
+      size: pdfBytes.byteLength,
+    };
+  }
+
+  /**
+   * Finds headings by font size: lines set noticeably larger than the most common (body)
+   * size are candidates, and their sizes are clustered into up to three levels. Lines
+   * repeated on many pages are treated as running headers and skipped.
+   */
+  public async detectHeadings(file: AppFile): Promise<HeadingCandidate[]> {
+    const textData = await pdfEditorService.extractTextData(file);
+    const pages = Array.from(textData.entries()).map(([pageIndex, items]) => ({ pageIndex, lines: toLines(items) }));
+
+    const weights = new Map<number, number>();
+    pages.forEach(({ lines }) => lines.forEach(line => {
+      const size = Math.round(line.size * 2) / 2;
+      weights.set(size, (weights.get(size) || 0) + line.text.length);
+    }));
+    if (weights.size === 0) return [];
+    const bodySize = Array.from(weights.entries()).sort((a, b) => b[1] - a[1])[0][0];
+
+    const candidates: Omit<HeadingCandidate, 'level'>[] = [];
+    for (const { pageIndex, lines } of pages) {
+      lines.forEach((line, i) => {
+        if (line.size < bodySize * HEADING_RATIO) return;
+        const previous = candidates[candidates.length - 1];
+        const before = lines[i - 1];
+        // Headings wrapped over several lines continue the candidate from the line above
+        if (previous && before && previous.pageIndex === pageIndex && Math.abs(before.size - line.size) < 0.5
+          && before.size >= bodySize * HEADING_RATIO && line.baseline - before.baseline < line.size * 1.6) {
+          previous.title = `${previous.title} ${line.text}`;
+          return;
+        }
+        candidates.push({ pageIndex, title: line.text, size: line.size, top: line.baseline - line.size * 0.8 });
+      });
+    }
+
+    // Running headers repeat at the same height, often with a changing page or chapter number
+    const keyOf = (c: Omit<HeadingCandidate, 'level'>) => `${Math.round(c.top / 10)}|${c.title.toLowerCase().replace(/\d+/g, '#')}`;
+    const repeats = new Map<string, Set<number>>();
+    candidates.forEach(c => repeats.set(keyOf(c), (repeats.get(keyOf(c)) || new Set()).add(c.pageIndex)));
+    const runningHeader = (c: Omit<HeadingCandidate, 'level'>) => {
+      const count = repeats.get(keyOf(c))!.size;
+      return count >= 3 && count > pages.length / 2;
+    };
+    const headings = candidates.filter(c => looksLikeHeading(c.title) && !runningHeader(c));
+
+    // Largest sizes first; each new level starts once a size is clearly smaller than the level's largest
+    const levels: number[] = [];
+    Array.from(new Set(headings.map(h => Math.round(h.size * 2) / 2))).sort((a, b) => b - a).forEach(size => {
+      const current = levels[levels.length - 1];
+      if (current === undefined || size < current * (1 - LEVEL_TOLERANCE)) levels.push(size);
+    });
+    const levelOf = (size: number) => {
+      const rounded = Math.round(size * 2) / 2;
+      for (let i = 0; i < levels.length; i++) {
+        if (rounded >= levels[i] * (1 - LEVEL_TOLERANCE) - 0.01) return i + 1;
+      }
+      return levels.length;
+    };
+
+    return headings
+      .map(h => ({ ...h, level: levelOf(h.size) }))
+      .filter(h => h.level <= MAX_LEVELS);
+  }
+
+  /**
+   * Lets the AI decide which candidates are real section headings and at which level,
+   * which helps with documents whose headings differ by weight rather than size.
+   */
+  public async refineHeadingsWithAi(candidates: HeadingCandidate[]): Promise<HeadingCandidate[]> {
+    const listed = candidates.slice(0, MAX_AI_CANDIDATES);
+    const lines = listed.map((c, i) => `${i}\tpage ${c.pageIndex + 1}\tsize ${c.size.toFixed(1)}\t${c.title}`).join('\n');
+    const prompt = `These lines were set in a larger font in a PDF document (index, page, font size, text):
+${lines}
+
+Decide which of them are section headings that belong in the document's table of contents.
+Skip running headers, figure labels, page numbers and decorative text.
+Return a JSON object { "headings": [...] } whose entries have "index" (the line index) and "level" (1 for chapters, 2 for sections, 3 for subsections), in document order.`;
+
+    const result = await aiService.generateJson(prompt);
+    if (!Array.isArray(result?.headings)) throw new Error('The AI did not return a list of headings.');
+    return result.headings
+      .filter((r: any) => Number.isInteger(r?.index) && listed[r.index])
+      .map((r: any) => ({ ...listed[r.index], level: Math.min(MAX_LEVELS, Math.max(1, Math.round(Number(r.level)) || 1)) }));
+  }
+
+  /** Turns headings into a bookmark tree whose entries open at the heading's position. */
+  public async headingsToBookmarks(file: AppFile, headings: HeadingCandidate[]): Promise<Bookmark[]> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { ignoreEncryption: true });
+    const pages = pdfDoc.getPages();
+
+    return buildTree(headings.map(h => {
+      const page = pages[h.pageIndex];
+      // Sideways pages open at the top; a vertical offset there is not a position readers agree on
+      if (!page || page.getRotation().angle % 180 !== 0) return { ...h, view: undefined };
+      const [, y] = canvasPointToUser(page, 0, Math.max(0, h.top - 6));
+      return { ...h, view: ['XYZ', null, y, null] };
+    }));
+  }
+}
+
+export const bookmarkService = new BookmarkService();
@@ -0,0 +1,461 @@
+import { PDFDocument, PDFPage, PDFArray, PDFDict, PDFHexString, PDFName, PDFNumber, PDFRef, PDFString, rgb } from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { numbersOf, parsePdfDate, userPointToCanvas } from '../utils/pdfText';
+import { ANNOTATION_LABELS } from './annotationService';
+import { pdfEditorService, TextItem } from './pdfEditorService';
+import { fontService, FontStyle } from './fontService';
+
+export type CommentReportFormat = 'pdf' | 'docx' | 'csv' | 'xfdf';
+
+/** One annotation of a reviewed PDF, as listed in the comment summary. */
+export interface CommentEntry {
+  id: string; // Unique within the file: the object reference, e.g. "12 0 R"
+  name: string; // The annotation's NM entry, or the id when it has none
+  pageIndex: number;
+  subtype: string; // PDF annotation subtype, e.g. "Highlight"
+  type: string; // Readable type used in reports and filters
+  author: string;
+  date?: string; // ISO timestamp of the last change, or of creation
+  markedText: string; // Text under highlights, underlines and strikeouts
+  contents: string;
+  replyTo?: string; // Id of the comment this one answers
+  // Page user space geometry and raw entries, kept for XFDF
+  rect: number[];
+  quadPoints?: number[];
+  inkList?: number[][];
+  line?: number[];
+  lineEndings?: string[];
+  vertices?: number[];
+  color?: string;
+  opacity?: number;
+  icon?: string;
+  subject?: string;
+  modifiedRaw?: string;
+  createdRaw?: string;
+  defaultAppearance?: string;
+}
+
+export interface CommentFilter {
+  authors?: string[]; // Only comments by these authors; all when omitted
+  types?: string[]; // Readable types as in `CommentEntry.type`
+}
+
+const MIME_TYPES: Record<CommentReportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  csv: 'text/csv',
+  xfdf: 'application/vnd.adobe.xfdf',
+};
+
+// Annotations that are part of the page rather than review comments
+const IGNORED_SUBTYPES = new Set(['Popup', 'Link', 'Widget', 'PrinterMark', 'TrapNet', 'Watermark', 'Screen', 'Movie', '3D', 'RichMedia']);
+const TEXT_MARKUP = new Set(['Highlight', 'Underline', 'StrikeOut', 'Squiggly']);
+
+const TYPE_LABELS: Record<string, string> = {
+  Text: ANNOTATION_LABELS.note,
+  FreeText: ANNOTATION_LABELS.freeText,
+  Highlight: ANNOTATION_LABELS.highlight,
+  Underline: ANNOTATION_LABELS.underline,
+  StrikeOut: ANNOTATION_LABELS.strikeout,
+  Squiggly: 'Squiggly underline',
+  Ink: ANNOTATION_LABELS.ink,
+  Square: ANNOTATION_LABELS.square,
+  Circle: ANNOTATION_LABELS.circle,
+  Line: ANNOTATION_LABELS.line,
+  Polygon: 'Polygon',
+  PolyLine: 'Polyline',
+  Stamp: 'Stamp',
+  Caret: 'Insert text',
+  FileAttachment: 'File attachment',
+  Sound: 'Sound',
+  Redact: 'Redaction mark',
+};
+
+const ARROW_ENDINGS = new Set(['OpenArrow', 'ClosedArrow', 'ROpenArrow', 'RClosedArrow']);
+
+// Report page layout, A4 in points
+const PAGE_SIZE: [number, number] = [595.28, 841.89];
+const MARGIN = 50;
+const REPLY_INDENT = 18;
+
+const createProcessedFile = (bytes: Uint8Array, name: string, mimeType: string): ProcessedFile => ({
+  id: crypto.randomUUID(),
+  name,
+  mimeType,
+  dataUrl: arrayBufferToDataURL(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer, mimeType),
+  size: bytes.byteLength,
+});
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const textOf = (dict: PDFDict, key: string): string | undefined => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+};
+
+const nameOf = (dict: PDFDict, key: string): string | undefined => dict.lookupMaybe(PDFName.of(key), PDFName)?.decodeText();
+
+const componentsToHex = (values: number[] | undefined): string | undefined => {
+  if (!values || values.length !== 3) return undefined;
+  return `#${values.map(v => Math.round(Math.min(1, Math.max(0, v)) * 255).toString(16).padStart(2, '0')).join('')}`;
+};
+
+const formatNumbers = (values: number[]) => values.map(v => +v.toFixed(3)).join(',');
+
+const formatDate = (iso: string | undefined) => (iso ? new Date(iso).toLocaleString() : '');
+
+/**
+ * Reads the text under text markup quads from the page's text layer. Quads and text items are
+ * compared in canvas space; characters are picked by their estimated position in the item.
+ */
+const textUnderQuads = (page: PDFPage, quadPoints: number[], items: TextItem[]): string => {
+  const lines: string[] = [];
+  for (let i = 0; i + 7 < quadPoints.length; i += 8) {
+    const corners = [0, 2, 4, 6].map(j => userPointToCanvas(page, quadPoints[i + j], quadPoints[i + j + 1]));
+    const xs = corners.map(([x]) => x);
+    const ys = corners.map(([, y]) => y);
+    const [qx0, qx1, qy0, qy1] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+
+    const pieces: { x0: number; x1: number; text: string; size: number }[] = [];
+    for (const item of items) {
+      if (!item.str || item.height <= 0) continue;
+      const [, , , , x, baseline] = item.transform;
+      const top = baseline - item.height * 0.8;
+      const bottom = baseline + item.height * 0.2;
+      const overlap = Math.min(bottom, qy1) - Math.max(top, qy0);
+      if (overlap < Math.min(bottom - top, qy1 - qy0) * 0.5) continue;
+
+      const chars = Array.from(item.str);
+      const charWidth = item.width / chars.length;
+      let first = -1;
+      let last = -1;
+      chars.forEach((_, c) => {
+        const center = x + (c + 0.5) * charWidth;
+        if (center >= qx0 && center <= qx1) {
+          if (first < 0) first = c;
+          last = c;
+        }
+      });
+      if (first >= 0) {
+        pieces.push({ x0: x + first * charWidth, x1: x + (last + 1) * charWidth, text: chars.slice(first, last + 1).join(''), size: item.height });
+      }
+    }
+
+    pieces.sort((a, b) => a.x0 - b.x0);
+    let line = '';
+    pieces.forEach((piece, p) => {
+      const gap = p > 0 ? piece.x0 - pieces[p - 1].x1 : 0;
+      line += (gap > piece.size * 0.15 && !/\s$/.test(line) ? ' ' : '') + piece.text;
+    });
+    if (line.trim()) lines.push(line.trim());
+  }
+
+  // Words hyphenated across lines are joined back together
+  return lines.reduce((text, line) => (!text ? line : /\w-$/.test(text) ? text.slice(0, -1) + line : `${text} ${line}`), '')
+    .replace(/\s+/g, ' ');
+};
+
+class CommentReportService {
+
+  /**
+   * Lists every review comment in the file: markup annotations of any kind and their replies.
+   * Each page's comments are ordered top to bottom, with replies following the comment they
+   * answer.
+   */
+  public async readComments(file: AppFile): Promise<CommentEntry[]> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { ignoreEncryption: true });
+    const pages = pdfDoc.getPages();
+    const found: { entry: CommentEntry; parent?: string; top: number; left: number }[] = [];
+
+    pages.forEach((page, pageIndex) => {
+      const annots = page.node.Annots();
+      if (!annots) return;
+      for (let i = 0; i < annots.size(); i++) {
+        const raw = annots.get(i);
+        const dict = raw instanceof PDFRef ? pdfDoc.context.lookup(raw) : raw;
+        if (!(dict instanceof PDFDict)) continue;
+        const subtype = nameOf(dict, 'Subtype');
+        if (!subtype || IGNORED_SUBTYPES.has(subtype)) continue;
+
+        const id = raw instanceof PDFRef ? raw.toString() : `p${pageIndex}-${i}`;
+        const entry = this.read(dict, subtype, id, pageIndex);
+        const [x0 = 0, y0 = 0, x1 = 0, y1 = 0] = entry.rect;
+        const [left, top] = userPointToCanvas(page, Math.min(x0, x1), Math.max(y0, y1));
+        const irt = dict.get(PDFName.of('IRT'));
+        found.push({ entry, parent: irt instanceof PDFRef ? irt.toString() : undefined, top, left });
+      }
+    });
+
+    // Text under text markup comes from pdf.js, which is only loaded when needed
+    if (found.some(({ entry }) => entry.quadPoints && TEXT_MARKUP.has(entry.subtype))) {
+      const textData = await pdfEditorService.extractTextData(file);
+      for (const { entry } of found) {
+        if (!entry.quadPoints || !TEXT_MARKUP.has(entry.subtype)) continue;
+        entry.markedText = textUnderQuads(pages[entry.pageIndex], entry.quadPoints, textData.get(entry.pageIndex) || []);
+      }
+    }
+
+    const ids = new Set(found.map(({ entry }) => entry.id));
+    const replies = new Map<string, CommentEntry[]>();
+    const roots: typeof found = [];
+    for (const item of found) {
+      if (item.parent && ids.has(item.parent) && item.parent !== item.entry.id) {
+        item.entry.replyTo = item.parent;
+        replies.set(item.parent, [...(replies.get(item.parent) || []), item.entry]);
+      } else {
+        roots.push(item);
+      }
+    }
+    roots.sort((a, b) => a.entry.pageIndex - b.entry.pageIndex || a.top - b.top || a.left - b.left);
+
+    const ordered: CommentEntry[] = [];
+    const visit = (entry: CommentEntry) => {
+      if (ordered.includes(entry)) return;
+      ordered.push(entry);
+      (replies.get(entry.id) || [])
+        .sort((a, b) => (a.date || '').localeCompare(b.date || ''))
+        .forEach(visit);
+    };
+    roots.forEach(({ entry }) => visit(entry));
+    // Reply cycles have no root; keep them rather than dropping comments
+    found.forEach(({ entry }) => visit(entry));
+    return ordered;
+  }
+
+  public filterComments(entries: CommentEntry[], { authors, types }: CommentFilter): CommentEntry[] {
+    return entries.filter(entry => (!authors || authors.includes(entry.author)) && (!types || types.includes(entry.type)));
+  }
+
+  /** Writes the comments as a PDF report, a Word document, a spreadsheet-friendly CSV or Acrobat's XFDF. */
+  public async exportComments(entries: CommentEntry[], format: CommentReportFormat, pdfFileName: string): Promise<ProcessedFile> {
+    const baseName = pdfFileName.replace(/\.pdf$/i, '');
+    const fileName = format === 'xfdf' ? `${baseName}.xfdf` : `${baseName}_comments.${format}`;
+    let bytes: Uint8Array;
+
+    if (format === 'pdf') {
+      bytes = await this.buildPdf(entries, pdfFileName);
+    } else if (format === 'docx') {
+      bytes = await this.buildDocx(entries, pdfFileName);
+    } else {
+      const content = format === 'csv' ? this.buildCsv(entries) : this.buildXfdf(entries, pdfFileName);
+      bytes = new TextEncoder().encode(content);
+    }
+    return createProcessedFile(bytes, fileName, MIME_TYPES[format]);
+  }
+
+  private read(dict: PDFDict, subtype: string, id: string, pageIndex: number): CommentEntry {
+    const modifiedRaw = textOf(dict, 'M');
+    const createdRaw = textOf(dict, 'CreationDate');
+    const lineEndings = dict.lookupMaybe(PDFName.of('LE'), PDFArray)?.asArray()
+      .map(e => (e instanceof PDFName ? e.decodeText() : 'None'));
+    const inkList = dict.lookupMaybe(PDFName.of('InkList'), PDFArray);
+
+    let type = TYPE_LABELS[subtype] || subtype.replace(/([a-z])([A-Z])/g, '$1 $2');
+    if (subtype === 'Line' && lineEndings?.some(e => ARROW_ENDINGS.has(e))) type = ANNOTATION_LABELS.arrow;
+    // Review state changes ("Accepted", "Completed", ...) are replies without a body of their own
+    const state = textOf(dict, 'State');
+    const contents = textOf(dict, 'Contents') || (state ? `Status: ${state}` : '');
+
+    return {
+      id,
+      name: textOf(dict, 'NM') || id,
+      pageIndex,
+      subtype,
+      type,
+      author: textOf(dict, 'T') || '',
+      date: (parsePdfDate(modifiedRaw) || parsePdfDate(createdRaw))?.toISOString(),
+      markedText: '',
+      contents,
+      rect: numbersOf(dict.lookupMaybe(PDFName.of('Rect'), PDFArray)) || [0, 0, 0, 0],
+      quadPoints: numbersOf(dict.lookupMaybe(PDFName.of('QuadPoints'), PDFArray)),
+      inkList: inkList?.asArray().map((_, i) => numbersOf(inkList.lookupMaybe(i, PDFArray)) || []),
+      line: numbersOf(dict.lookupMaybe(PDFName.of('L'), PDFArray)),
+      lineEndings,
+      vertices: numbersOf(dict.lookupMaybe(PDFName.of('Vertices'), PDFArray)),
+      color: componentsToHex(numbersOf(dict.lookupMaybe(PDFName.of('C'), PDFArray))),
+      opacity: dict.lookupMaybe(PDFName.of('CA'), PDFNumber)?.asNumber(),
+      icon: nameOf(dict, 'Name'),
+      subject: textOf(dict, 'Subj'),
+      modifiedRaw,
+      createdRaw,
+      defaultAppearance: textOf(dict, 'DA'),
+    };
+  }
+
+  private async buildPdf(entries: CommentEntry[], pdfFileName: string): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle(`Comments on ${pdfFileName}`);
+    const contentWidth = PAGE_SIZE[0] - MARGIN * 2;
+    const numbers = new Map(entries.map((entry, i) => [entry.id, i + 1]));
+    let page = pdfDoc.addPage(PAGE_SIZE);
+    let y = PAGE_SIZE[1] - MARGIN;
+
+    const write = async (text: string, size: number, options: { style?: FontStyle; gray?: number; indent?: number } = {}) => {
+      const indent = options.indent || 0;
+      const color = rgb(options.gray ?? 0.1, options.gray ?? 0.1, options.gray ?? 0.1);
+      for (const runs of await fontService.wrapText(pdfDoc, text, 'Helvetica', size, contentWidth - indent, options.style)) {
+        if (y - size < MARGIN) {
+          page = pdfDoc.addPage(PAGE_SIZE);
+          y = PAGE_SIZE[1] - MARGIN;
+        }
+        y -= size;
+        fontService.drawRuns(page, runs, { x: MARGIN + indent, y, size, color });
+        y -= size * 0.35;
+      }
+    };
+
+    await write('Comment summary', 20, { style: { bold: true } });
+    y -= 4;
+    await write(pdfFileName, 11, { gray: 0.4 });
+    await write(`${entries.length} comment${entries.length === 1 ? '' : 's'} · generated ${new Date().toLocaleString()}`, 9, { gray: 0.4 });
+    y -= 14;
+
+    for (const [i, entry] of entries.entries()) {
+      const parent = entry.replyTo ? numbers.get(entry.replyTo) : undefined;
+      const indent = parent ? REPLY_INDENT : 0;
+      // Keep an entry's heading together with at least its first line
+      if (y - 40 < MARGIN) {
+        page = pdfDoc.addPage(PAGE_SIZE);
+        y = PAGE_SIZE[1] - MARGIN;
+      }
+      page.drawLine({ start: { x: MARGIN + indent, y }, end: { x: PAGE_SIZE[0] - MARGIN, y }, thickness: 0.5, color: rgb(0.85, 0.85, 0.85) });
+      y -= 8;
+      const heading = [`#${i + 1}`, `Page ${entry.pageIndex + 1}`, parent ? `Reply to #${parent}` : entry.type, entry.author || 'Unknown author', formatDate(entry.date)];
+      await write(heading.filter(Boolean).join(' · '), 10, { style: { bold: true }, indent });
+      if (entry.markedText) await write(`“${entry.markedText}”`, 10, { style: { italic: true }, gray: 0.35, indent });
+      if (entry.contents) await write(entry.contents, 10, { indent });
+      y -= 8;
+    }
+
+    return pdfDoc.save();
+  }
+
+  private async buildDocx(entries: CommentEntry[], pdfFileName: string): Promise<Uint8Array> {
+    const docx = await import('docx');
+    const numbers = new Map(entries.map((entry, i) => [entry.id, i + 1]));
+    const children: any[] = [
+      new docx.Paragraph({ text: 'Comment summary', heading: docx.HeadingLevel.TITLE }),
+      new docx.Paragraph({
+        children: [new docx.TextRun({ text: `${pdfFileName} · ${entries.length} comment${entries.length === 1 ? '' : 's'}`, color: '666666' })],
+        spacing: { after: 300 },
+      }),
+    ];
+
+    entries.forEach((entry, i) => {
+      const parent = entry.replyTo ? numbers.get(entry.replyTo) : undefined;
+      const indent = parent ? { left: 720 } : undefined;
+      const heading = [`#${i + 1}`, `Page ${entry.pageIndex + 1}`, parent ? `Reply to #${parent}` : entry.type, entry.author || 'Unknown author', formatDate(entry.date)];
+      children.push(new docx.Paragraph({
+        children: [new docx.TextRun({ text: heading.filter(Boolean).join(' · '), bold: true })],
+        indent,
+        spacing: { before: 240, after: 80 },
+      }));
+      if (entry.markedText) {
+        children.push(new docx.Paragraph({
+          children: [new docx.TextRun({ text: `“${entry.markedText}”`, italics: true, color: '555555' })],
+          indent,
+          spacing: { after: 80 },
+        }));
+      }
+      if (entry.contents) {
+        children.push(new docx.Paragraph({
+          children: entry.contents.split(/\r\n|\r|\n/).map((line, l) => new docx.TextRun({ text: line, break: l > 0 ? 1 : undefined })),
+          indent,
+          spacing: { after: 120 },
+        }));
+      }
+    });
+
+    const doc = new docx.Document({
+      sections: [{
+        properties: {},
+        children: children,
+      }],
+    });
+    const blob = await docx.Packer.toBlob(doc);
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  private buildCsv(entries: CommentEntry[]): string {
+    const numbers = new Map(entries.map((entry, i) => [entry.id, i + 1]));
+    const rows = [['#', 'Page', 'Type', 'Author', 'Date', 'Marked text', 'Comment', 'Reply to #']];
+    entries.forEach((entry, i) => rows.push([
+      String(i + 1),
+      String(entry.pageIndex + 1),
+      entry.type,
+      entry.author,
+      entry.date || '',
+      entry.markedText,
+      entry.contents,
+      String((entry.replyTo && numbers.get(entry.replyTo)) || ''),
+    ]));
+    // The byte order mark makes Excel read the file as UTF-8
+    return '\ufeff' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private buildXfdf(entries: CommentEntry[], pdfFileName: string): string {
+    const names = new Map(entries.map(entry => [entry.id, entry.name]));
+    const annots = entries.map(entry => {
+      const attributes: Record<string, string | undefined> = {
+        page: String(entry.pageIndex),
+        rect: formatNumbers(entry.rect),
+        name: entry.name,
+        title: entry.author || undefined,
+        subject: entry.subject,
+        date: entry.modifiedRaw,
+        creationdate: entry.createdRaw,
+        color: entry.color,
+        opacity: entry.opacity !== undefined ? String(entry.opacity) : undefined,
+        icon: entry.icon,
+        inreplyto: entry.replyTo ? names.get(entry.replyTo) : undefined,
+        coords: entry.quadPoints ? formatNumbers(entry.quadPoints) : undefined,
+        vertices: entry.vertices ? formatNumbers(entry.vertices) : undefined,
+      };
+      if (entry.line?.length === 4) {
+        attributes.start = formatNumbers(entry.line.slice(0, 2));
+        attributes.end = formatNumbers(entry.line.slice(2));
+        if (entry.lineEndings) [attributes.head, attributes.tail] = entry.lineEndings;
+      }
+
+      const tag = entry.subtype.toLowerCase();
+      const open = `    <${tag}${Object.entries(attributes)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => ` ${key}="${escapeXml(value!)}"`).join('')}>`;
+      const lines = [open];
+      if (entry.contents) lines.push(`      <contents>${escapeXml(entry.contents)}</contents>`);
+      if (entry.defaultAppearance && entry.subtype === 'FreeText') lines.push(`      <defaultappearance>${escapeXml(entry.defaultAppearance)}</defaultappearance>`);
+      if (entry.inkList) {
+        lines.push('      <inklist>');
+        entry.inkList.forEach(stroke => {
+          const points: string[] = [];
+          for (let i = 0; i + 1 < stroke.length; i += 2) points.push(formatNumbers(stroke.slice(i, i + 2)));
+          lines.push(`        <gesture>${points.join(';')}</gesture>`);
+        });
+        lines.push('      </inklist>');
+      }
+      lines.push(`    </${tag}>`);
+      return lines.join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<xfdf xmlns="http://ns.adobe.com/xfdf/" xml:space="preserve">',
+      `  <f href="${escapeXml(pdfFileName)}"/>`,
+      '  <annots>',
+      ...annots,
+      '  </annots>',
+      '</xfdf>',
+      '',
+    ].join('\n');
+  }
+}
+
+export const commentReportService = new CommentReportService();
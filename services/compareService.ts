@@ -0,0 +1,617 @@
+import { PDFDocument, PDFName, PDFPage, rgb, degrees } from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { pdfService } from './pdfService';
+import { pdfEditorService, TextItem, FormWidgetRect } from './pdfEditorService';
+import { annotationService, AnnotationPoint } from './annotationService';
+import { fontService } from './fontService';
+import { compressionService } from './compressionService';
+
+/** A word of the text layer with its box in page points (top-left origin, as rendered at scale 1). */
+export interface CompareWord {
+  text: string;
+  pageIndex: number;
+  rect: FormWidgetRect;
+}
+
+export type TextChangeType = 'insert' | 'delete' | 'replace';
+
+/** A run of words that differs between the two versions, with the words on each side. */
+export interface TextChange {
+  id: string;
+  type: TextChangeType;
+  oldText: string;
+  newText: string;
+  oldWords: CompareWord[];
+  newWords: CompareWord[];
+}
+
+/** A page of the original aligned with a page of the revision; one side is missing for added or removed pages. */
+export interface PageComparison {
+  oldPage?: number;
+  newPage?: number;
+  oldImage?: string;
+  newImage?: string;
+  oldSize?: { width: number; height: number }; // Points, as displayed
+  newSize?: { width: number; height: number };
+  diffImage?: string; // Transparent PNG the size of the revised render, changed pixels in red
+  changedRatio: number; // Share of pixels that differ, 0..1
+  visualChanges: FormWidgetRect[]; // Changed areas not explained by text changes, in revised page points
+}
+
+export interface ComparisonResult {
+  pages: PageComparison[];
+  changes: TextChange[];
+  sameText: boolean; // True when the extracted text is identical
+}
+
+// Render scale for previews and the pixel diff
+const RENDER_SCALE = 1.5;
+// Channel difference below this is treated as rendering noise (JPEG artefacts, anti-aliasing)
+const PIXEL_THRESHOLD = 48;
+// Pixel diff is grouped into cells of this many rendered pixels to find changed areas
+const CELL_SIZE = 12;
+const MIN_CELL_PIXELS = 4;
+// Word diffs that need more edits than this fall back to comparing aligned pages one by one
+const MAX_EDITS = 2000;
+
+const INSERT_COLOR = '#16a34a';
+const DELETE_COLOR = '#dc2626';
+const VISUAL_COLOR = '#ea580c';
+
+const REPORT_MARGIN = 36;
+const REPORT_GUTTER = 24;
+const REPORT_HEADER = 40;
+const SUMMARY_PAGE: [number, number] = [595.28, 841.89];
+
+type DiffOp = { type: 'equal' | 'insert' | 'delete'; oldIndex: number; newIndex: number };
+
+const normalize = (text: string) => text.normalize('NFKC');
+
+/**
+ * Splits pdf.js text items into words. Items that continue a word without a gap (pdf.js
+ * often breaks words at kerning or font changes) are joined so both versions tokenise alike.
+ */
+const wordsOf = (pageIndex: number, items: TextItem[]): CompareWord[] => {
+  const words: CompareWord[] = [];
+  let previous: { word: CompareWord; right: number; baseline: number; open: boolean } | undefined;
+
+  for (const item of items) {
+    if (!item.str) continue;
+    const charWidth = item.width / item.str.length;
+    const baseline = item.transform[5];
+    const top = baseline - item.height;
+    const height = item.height * 1.2;
+    const pattern = /\S+/g;
+    for (let m = pattern.exec(item.str); m; m = pattern.exec(item.str)) {
+      const left = item.transform[4] + m.index * charWidth;
+      const width = m[0].length * charWidth;
+      const continues = previous?.open && m.index === 0
+        && Math.abs(previous.baseline - baseline) < item.height * 0.5
+        && Math.abs(left - previous.right) < item.height * 0.2;
+      if (continues && previous) {
+        const rect = previous.word.rect;
+        previous.word.text += m[0];
+        rect.width = left + width - rect.left;
+        rect.top = Math.min(rect.top, top);
+      } else {
+        const word = { text: m[0], pageIndex, rect: { left, top, width, height } };
+        words.push(word);
+        previous = { word, right: 0, baseline, open: false };
+      }
+      previous!.right = left + width;
+      previous!.open = m.index + m[0].length === item.str.length;
+    }
+    if (/\s$/.test(item.str) && previous) previous.open = false;
+  }
+  return words;
+};
+
+/** Myers' O(ND) diff; returns undefined when the sequences need more than `maxEdits` edits. */
+const diffSequences = (a: string[], b: string[], maxEdits: number): DiffOp[] | undefined => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const n = endA - start;
+  const m = endB - start;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x per diagonal before step d, for k in [-d-1, d+1]
+  const trace: Int32Array[] = [];
+  let edits = -1;
+
+  for (let d = 0; d <= max && edits < 0; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x] === b[start + y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) { edits = d; break; }
+    }
+  }
+  if (edits < 0) return undefined;
+
+  const middle: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = edits; d >= 0; d--) {
+    const row = trace[d];
+    const at = (k: number) => row[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--; y--;
+      middle.push({ type: 'equal', oldIndex: start + x, newIndex: start + y });
+    }
+    if (d > 0) middle.push(x === prevX ? { type: 'insert', oldIndex: start + x, newIndex: start + prevY } : { type: 'delete', oldIndex: start + prevX, newIndex: start + y });
+    x = prevX;
+    y = prevY;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: 'equal', oldIndex: i, newIndex: i });
+  ops.push(...middle.reverse());
+  for (let i = 0; i < a.length - endA; i++) ops.push({ type: 'equal', oldIndex: endA + i, newIndex: endB + i });
+  return ops;
+};
+
+/** Jaccard similarity of two pages' word sets. */
+const pageSimilarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Aligns pages by content so inserted or removed pages do not shift every later comparison.
+ * Matching two pages scores their similarity plus a small bonus, so that dissimilar pages at
+ * the same position are compared with each other rather than reported as added and removed.
+ */
+const alignPages = (oldPages: CompareWord[][], newPages: CompareWord[][]): [number | undefined, number | undefined][] => {
+  const oldSets = oldPages.map(words => new Set(words.map(w => normalize(w.text))));
+  const newSets = newPages.map(words => new Set(words.map(w => normalize(w.text))));
+  const n = oldSets.length;
+  const m = newSets.length;
+  const match = oldSets.map(a => newSets.map(b => pageSimilarity(a, b) + 0.01));
+  const score = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], score[i - 1][j - 1] + match[i - 1][j - 1]);
+    }
+  }
+  const pairs: [number | undefined, number | undefined][] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && score[i][j] === score[i - 1][j - 1] + match[i - 1][j - 1]) {
+      pairs.push([--i, --j]);
+    } else if (i > 0 && (j === 0 || score[i][j] === score[i - 1][j])) {
+      pairs.push([--i, undefined]);
+    } else {
+      pairs.push([undefined, --j]);
+    }
+  }
+  return pairs.reverse();
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const overlaps = (a: FormWidgetRect, b: FormWidgetRect) =>
+  a.left < b.left + b.width && b.left < a.left + a.width && a.top < b.top + b.height && b.top < a.top + a.height;
+
+/** Converts word boxes into the upper-left, upper-right, lower-left, lower-right quads of text markup. */
+const quadsOf = (rects: FormWidgetRect[]): AnnotationPoint[][] =>
+  rects.map(r => [
+    { x: r.left, y: r.top },
+    { x: r.left + r.width, y: r.top },
+    { x: r.left, y: r.top + r.height },
+    { x: r.left + r.width, y: r.top + r.height },
+  ]);
+
+const boundsOf = (rects: FormWidgetRect[]): FormWidgetRect => {
+  const left = Math.min(...rects.map(r => r.left));
+  const top = Math.min(...rects.map(r => r.top));
+  const right = Math.max(...rects.map(r => r.left + r.width));
+  const bottom = Math.max(...rects.map(r => r.top + r.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+/** Joins words on the same line into one box each, so highlights cover the gaps between them. */
+const lineRects = (words: CompareWord[], pageIndex: number): FormWidgetRect[] => {
+  const rects: FormWidgetRect[] = [];
+  for (const word of words) {
+    if (word.pageIndex !== pageIndex) continue;
+    const last = rects[rects.length - 1];
+    if (last && Math.abs(last.top - word.rect.top) < word.rect.height * 0.5 && word.rect.left >= last.left) {
+      const right = Math.max(last.left + last.width, word.rect.left + word.rect.width);
+      last.width = right - last.left;
+      last.height = Math.max(last.height, word.rect.height);
+    } else {
+      rects.push({ ...word.rect });
+    }
+  }
+  return rects;
+};
+
+const quote = (text: string, length = 80) => `“${text.length > length ? `${text.slice(0, length - 1)}…` : text}”`;
+
+export const describeChange = (change: TextChange) =>
+  change.type === 'insert' ? `Inserted ${quote(change.newText)}`
+    : change.type === 'delete' ? `Deleted ${quote(change.oldText)}`
+    : `Replaced ${quote(change.oldText)} with ${quote(change.newText)}`;
+
+class CompareService {
+
+  /**
+   * Compares two versions of a document. Pages are aligned by their text, the text is
+   * diffed word by word across the whole document (so text that only moved to another page
+   * is not reported), and each aligned page pair is rendered and compared pixel by pixel to
+   * catch changes to images and layout.
+   */
+  public async comparePdfs(oldFile: AppFile, newFile: AppFile, onProgress?: (percent: number) => void): Promise<ComparisonResult> {
+    const oldText = await pdfEditorService.extractTextData(oldFile);
+    const newText = await pdfEditorService.extractTextData(newFile);
+    const pageWords = (map: Map<number, TextItem[]>) => Array.from({ length: map.size }, (_, i) => wordsOf(i, map.get(i) || []));
+    const oldPages = pageWords(oldText);
+    const newPages = pageWords(newText);
+    const pairs = alignPages(oldPages, newPages);
+
+    const changes = this.diffWords(oldPages, newPages, pairs);
+    const sameText = changes.length === 0;
+
+    const pages: PageComparison[] = [];
+    for (const [index, [oldPage, newPage]] of pairs.entries()) {
+      if (onProgress) onProgress(Math.round((index / pairs.length) * 100));
+      const comparison: PageComparison = { oldPage, newPage, changedRatio: oldPage === undefined || newPage === undefined ? 1 : 0, visualChanges: [] };
+      if (oldPage !== undefined) comparison.oldImage = await pdfService.renderPage(oldFile, oldPage, RENDER_SCALE);
+      if (newPage !== undefined) comparison.newImage = await pdfService.renderPage(newFile, newPage, RENDER_SCALE);
+      const [oldImg, newImg] = await Promise.all([comparison.oldImage, comparison.newImage].map(src => (src ? loadImage(src) : undefined)));
+      if (oldImg) comparison.oldSize = { width: oldImg.naturalWidth / RENDER_SCALE, height: oldImg.naturalHeight / RENDER_SCALE };
+      if (newImg) comparison.newSize = { width: newImg.naturalWidth / RENDER_SCALE, height: newImg.naturalHeight / RENDER_SCALE };
+
+      if (oldImg && newImg) {
+        const textRects = changes.flatMap(c => [
+          ...c.oldWords.filter(w => w.pageIndex === oldPage).map(w => w.rect),
+          ...c.newWords.filter(w => w.pageIndex === newPage).map(w => w.rect),
+        ]);
+        Object.assign(comparison, this.diffPixels(oldImg, newImg, textRects));
+      }
+      pages.push(comparison);
+    }
+    if (onProgress) onProgress(100);
+
+    return { pages, changes, sameText };
+  }
+
+  /**
+   * Builds an annotated PDF report: a summary of all changes, then one page per aligned
+   * page pair with the original on the left and the revision on the right. Deletions are
+   * struck out, insertions highlighted and other visual changes boxed, as real annotations
+   * whose notes carry the changed text.
+   */
+  public async exportReport(oldFile: AppFile, newFile: AppFile, result: ComparisonResult): Promise<ProcessedFile> {
+    if (!oldFile.arrayBuffer || !newFile.arrayBuffer) throw new Error('File buffer missing');
+    const report = await PDFDocument.create();
+    report.setTitle(`Comparison of ${oldFile.name} and ${newFile.name}`);
+    const oldDoc = await PDFDocument.load(oldFile.arrayBuffer.slice(0));
+    const newDoc = await PDFDocument.load(newFile.arrayBuffer.slice(0));
+
+    const pageNumberOf = new Map<number, number>(); // Report page of each comparison
+    const summaryPages = await this.writeSummary(report, oldFile.name, newFile.name, result);
+
+    for (const [index, comparison] of result.pages.entries()) {
+      const oldSize = comparison.oldSize || { width: 0, height: 0 };
+      const newSize = comparison.newSize || { width: 0, height: 0 };
+      const sideWidth = Math.max(oldSize.width, newSize.width, 200);
+      const width = REPORT_MARGIN * 2 + sideWidth * 2 + REPORT_GUTTER;
+      const height = REPORT_HEADER + Math.max(oldSize.height, newSize.height, 200) + REPORT_MARGIN;
+      const page = report.addPage([width, height]);
+      pageNumberOf.set(index, report.getPageCount() - 1);
+
+      const sides = [
+        { label: 'Original', source: oldDoc, pageIndex: comparison.oldPage, size: oldSize, left: REPORT_MARGIN, missing: 'Page added in the revision' },
+        { label: 'Revised', source: newDoc, pageIndex: comparison.newPage, size: newSize, left: REPORT_MARGIN + sideWidth + REPORT_GUTTER, missing: 'Page removed in the revision' },
+      ];
+      for (const side of sides) {
+        const heading = side.pageIndex === undefined ? `${side.label} · ${side.missing}` : `${side.label} · page ${side.pageIndex + 1}`;
+        fontService.drawRuns(page, await fontService.layoutText(report, heading, 'Helvetica', { bold: true }), {
+          x: side.left, y: height - REPORT_HEADER + 14, size: 11, color: rgb(0.2, 0.2, 0.2),
+        });
+        if (side.pageIndex === undefined) continue;
+        await this.drawSourcePage(report, page, side.source.getPage(side.pageIndex), side.left, REPORT_HEADER);
+        page.drawRectangle({
+          x: side.left, y: height - REPORT_HEADER - side.size.height, width: side.size.width, height: side.size.height,
+          borderColor: rgb(0.75, 0.75, 0.75), borderWidth: 0.5,
+        });
+      }
+
+      const offset = (rect: FormWidgetRect, left: number): FormWidgetRect => ({ ...rect, left: rect.left + left, top: rect.top + REPORT_HEADER });
+      const pageIndex = report.getPageCount() - 1;
+      const annotate = async (type: 'highlight' | 'strikeout' | 'square', rects: FormWidgetRect[], color: string, contents: string) => {
+        if (rects.length === 0) return;
+        await annotationService.addAnnotation(report, {
+          id: crypto.randomUUID(),
+          type,
+          pageIndex,
+          rect: boundsOf(rects),
+          color,
+          opacity: type === 'highlight' ? 0.5 : 1,
+          author: 'Compare',
+          contents,
+          quads: type === 'square' ? undefined : quadsOf(rects),
+          borderWidth: 1.5,
+        });
+      };
+
+      for (const change of result.changes) {
+        const description = describeChange(change);
+        if (comparison.oldPage !== undefined) {
+          await annotate('strikeout', lineRects(change.oldWords, comparison.oldPage).map(r => offset(r, sides[0].left)), DELETE_COLOR, description);
+        }
+        if (comparison.newPage !== undefined) {
+          await annotate('highlight', lineRects(change.newWords, comparison.newPage).map(r => offset(r, sides[1].left)), INSERT_COLOR, description);
+        }
+      }
+      for (const region of comparison.visualChanges) {
+        await annotate('square', [offset(region, sides[1].left)], VISUAL_COLOR, 'Visual change (image, graphics or layout)');
+      }
+    }
+
+    // Point summary lines at their pages now that the page numbers are known
+    this.linkSummary(report, summaryPages, pageNumberOf);
+
+    // Embedded pages are only copied in on flush; clean up after that so nothing they use is dropped
+    await report.flush();
+    compressionService.removeUnreachableObjects(report);
+    const pdfBytes = await report.save();
+    return {
+      id: crypto.randomUUID(),
+      name: `comparison_${newFile.name.replace(/\.pdf$/i, '')}.pdf`,
+      mimeType: 'application/pdf',
+      dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'),
+      size: pdfBytes.byteLength,
+    };
+  }
+
+  private diffWords(oldPages: CompareWord[][], newPages: CompareWord[][], pairs: [number | undefined, number | undefined][]): TextChange[] {
+    const oldWords = oldPages.flat();
+    const newWords = newPages.flat();
+    const key = (w: CompareWord) => normalize(w.text);
+    let ops = diffSequences(oldWords.map(key), newWords.map(key), MAX_EDITS);
+
+    if (!ops) {
+      // Too different for one pass: diff the aligned pages separately, and treat pages that
+      // still differ too much as entirely replaced
+      ops = [];
+      let oldBase = 0;
+      let newBase = 0;
+      const oldStarts = oldPages.map(words => { const s = oldBase; oldBase += words.length; return s; });
+      const newStarts = newPages.map(words => { const s = newBase; newBase += words.length; return s; });
+      for (const [oldPage, newPage] of pairs) {
+        const a = oldPage === undefined ? [] : oldPages[oldPage];
+        const b = newPage === undefined ? [] : newPages[newPage];
+        const aStart = oldPage === undefined ? 0 : oldStarts[oldPage];
+        const bStart = newPage === undefined ? 0 : newStarts[newPage];
+        const pageOps = diffSequences(a.map(key), b.map(key), MAX_EDITS) || [
+          ...a.map((_, i) => ({ type: 'delete' as const, oldIndex: i, newIndex: 0 })),
+          ...b.map((_, i) => ({ type: 'insert' as const, oldIndex: 0, newIndex: i })),
+        ];
+        ops.push(...pageOps.map(op => ({ ...op, oldIndex: op.oldIndex + aStart, newIndex: op.newIndex + bStart })));
+      }
+    }
+
+    const changes: TextChange[] = [];
+    let deleted: CompareWord[] = [];
+    let inserted: CompareWord[] = [];
+    const flush = () => {
+      if (deleted.length === 0 && inserted.length === 0) return;
+      changes.push({
+        id: crypto.randomUUID(),
+        type: deleted.length === 0 ? 'insert' : inserted.length === 0 ? 'delete' : 'replace',
+        oldText: deleted.map(w => w.text).join(' '),
+        newText: inserted.map(w => w.text).join(' '),
+        oldWords: deleted,
+        newWords: inserted,
+      });
+      deleted = [];
+      inserted = [];
+    };
+    for (const op of ops) {
+      if (op.type === 'equal') flush();
+      else if (op.type === 'delete') deleted.push(oldWords[op.oldIndex]);
+      else inserted.push(newWords[op.newIndex]);
+    }
+    flush();
+    return changes;
+  }
+
+  /**
+   * Compares two renders pixel by pixel. Returns an overlay marking changed pixels and the
+   * changed areas, in revised page points, that no text change accounts for.
+   */
+  private diffPixels(oldImg: HTMLImageElement, newImg: HTMLImageElement, textRects: FormWidgetRect[]): Pick<PageComparison, 'diffImage' | 'changedRatio' | 'visualChanges'> {
+    const width = Math.max(oldImg.naturalWidth, newImg.naturalWidth);
+    const height = Math.max(oldImg.naturalHeight, newImg.naturalHeight);
+    const pixelsOf = (img: HTMLImageElement) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas context missing');
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(img, 0, 0);
+      return ctx.getImageData(0, 0, width, height).data;
+    };
+    const a = pixelsOf(oldImg);
+    const b = pixelsOf(newImg);
+
+    const overlay = document.createElement('canvas');
+    overlay.width = newImg.naturalWidth;
+    overlay.height = newImg.naturalHeight;
+    const overlayCtx = overlay.getContext('2d');
+    if (!overlayCtx) throw new Error('Canvas context missing');
+    const marked = overlayCtx.createImageData(overlay.width, overlay.height);
+
+    const columns = Math.ceil(width / CELL_SIZE);
+    const rows = Math.ceil(height / CELL_SIZE);
+    const cells = new Uint16Array(columns * rows);
+    let changed = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const delta = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+        if (delta < PIXEL_THRESHOLD) continue;
+        changed++;
+        cells[Math.floor(y / CELL_SIZE) * columns + Math.floor(x / CELL_SIZE)]++;
+        if (x < overlay.width && y < overlay.height) {
+          const o = (y * overlay.width + x) * 4;
+          marked.data[o] = 239;
+          marked.data[o + 1] = 68;
+          marked.data[o + 2] = 68;
+          marked.data[o + 3] = 170;
+        }
+      }
+    }
+    overlayCtx.putImageData(marked, 0, 0);
+
+    // Group neighbouring changed cells into areas
+    const visited = new Uint8Array(cells.length);
+    const regions: FormWidgetRect[] = [];
+    for (let start = 0; start < cells.length; start++) {
+      if (visited[start] || cells[start] < MIN_CELL_PIXELS) continue;
+      let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+      const stack = [start];
+      visited[start] = 1;
+      while (stack.length) {
+        const cell = stack.pop()!;
+        const cx = cell % columns;
+        const cy = Math.floor(cell / columns);
+        minX = Math.min(minX, cx); maxX = Math.max(maxX, cx);
+        minY = Math.min(minY, cy); maxY = Math.max(maxY, cy);
+        for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          const next = ny * columns + nx;
+          if (nx < 0 || ny < 0 || nx >= columns || ny >= rows || visited[next] || cells[next] < MIN_CELL_PIXELS) continue;
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+      const unit = CELL_SIZE / RENDER_SCALE;
+      const region = { left: minX * unit, top: minY * unit, width: (maxX - minX + 1) * unit, height: (maxY - minY + 1) * unit };
+      if (!textRects.some(rect => overlaps(rect, region))) regions.push(region);
+    }
+
+    return {
+      diffImage: changed > 0 ? overlay.toDataURL('image/png') : undefined,
+      changedRatio: changed / (width * height),
+      visualChanges: regions,
+    };
+  }
+
+  /** Draws a source page as displayed (crop box, rotation) with its top-left corner at the given report position. */
+  private async drawSourcePage(report: PDFDocument, target: PDFPage, source: PDFPage, left: number, top: number) {
+    const crop = source.getCropBox();
+    const embedded = await report.embedPage(source, { left: crop.x, bottom: crop.y, right: crop.x + crop.width, top: crop.y + crop.height });
+    const rotation = ((source.getRotation().angle % 360) + 360) % 360;
+    const shownHeight = rotation % 180 === 0 ? crop.height : crop.width;
+    const x = left;
+    const y = target.getHeight() - top - shownHeight;
+    // Rotating the embedded page clockwise about its origin moves it out of the target box; shift it back
+    const origin: Record<number, [number, number]> = {
+      0: [x, y],
+      90: [x, y + crop.width],
+      180: [x + crop.width, y + crop.height],
+      270: [x + crop.height, y],
+    };
+    const [ox, oy] = origin[rotation] || origin[0];
+    target.drawPage(embedded, { x: ox, y: oy, rotate: degrees(-rotation) });
+  }
+
+  private async writeSummary(report: PDFDocument, oldName: string, newName: string, result: ComparisonResult): Promise<{ page: PDFPage; y: number; pairIndex: number }[]> {
+    const [pageWidth, pageHeight] = SUMMARY_PAGE;
+    const contentWidth = pageWidth - REPORT_MARGIN * 2;
+    let page = report.addPage(SUMMARY_PAGE);
+    let y = pageHeight - REPORT_MARGIN;
+    const lines: { page: PDFPage; y: number; pairIndex: number }[] = [];
+
+    const write = async (text: string, size: number, options: { bold?: boolean; gray?: number; color?: string } = {}) => {
+      if (y - size < REPORT_MARGIN) {
+        page = report.addPage(SUMMARY_PAGE);
+        y = pageHeight - REPORT_MARGIN;
+      }
+      // One line per entry; long text is shortened to fit
+      let value = text;
+      let runs = await fontService.layoutText(report, value, 'Helvetica', { bold: options.bold });
+      while (value.length > 1 && fontService.widthOfRuns(runs, size) > contentWidth) {
+        value = value.slice(0, Math.floor(value.length * 0.9));
+        runs = await fontService.layoutText(report, `${value}…`, 'Helvetica', { bold: options.bold });
+      }
+      y -= size;
+      const gray = options.gray ?? 0.1;
+      const color = options.color ? rgb(parseInt(options.color.slice(1, 3), 16) / 255, parseInt(options.color.slice(3, 5), 16) / 255, parseInt(options.color.slice(5, 7), 16) / 255) : rgb(gray, gray, gray);
+      fontService.drawRuns(page, runs, { x: REPORT_MARGIN, y, size, color });
+      y -= size * 0.4;
+    };
+
+    const count = (type: TextChangeType) => result.changes.filter(c => c.type === type).length;
+    const added = result.pages.filter(p => p.oldPage === undefined).length;
+    const removed = result.pages.filter(p => p.newPage === undefined).length;
+    const visual = result.pages.reduce((n, p) => n + p.visualChanges.length, 0);
+
+    await write('Comparison report', 20, { bold: true });
+    y -= 4;
+    await write(`Original: ${oldName}`, 10, { gray: 0.4 });
+    await write(`Revised: ${newName}`, 10, { gray: 0.4 });
+    await write(`Generated ${new Date().toLocaleString()}`, 9, { gray: 0.4 });
+    y -= 10;
+    await write(result.sameText ? 'The text of both versions is identical.' : `${count('insert')} insertions, ${count('delete')} deletions, ${count('replace')} replacements`, 11, { bold: true });
+    if (added || removed) await write(`${added} page${added === 1 ? '' : 's'} added, ${removed} page${removed === 1 ? '' : 's'} removed`, 11);
+    if (visual) await write(`${visual} visual change${visual === 1 ? '' : 's'} outside the text`, 11);
+    y -= 10;
+
+    for (const change of result.changes) {
+      const pairIndex = result.pages.findIndex(p =>
+        (change.newWords[0] && p.newPage === change.newWords[0].pageIndex) || (!change.newWords[0] && change.oldWords[0] && p.oldPage === change.oldWords[0].pageIndex));
+      const where = change.newWords[0] ? `p. ${change.newWords[0].pageIndex + 1}` : `old p. ${change.oldWords[0].pageIndex + 1}`;
+      await write(`${where}  ${describeChange(change)}`, 9, { color: change.type === 'insert' ? INSERT_COLOR : change.type === 'delete' ? DELETE_COLOR : undefined });
+      if (pairIndex >= 0) lines.push({ page, y, pairIndex });
+    }
+    return lines;
+  }
+
+  private linkSummary(report: PDFDocument, lines: { page: PDFPage; y: number; pairIndex: number }[], pageNumberOf: Map<number, number>) {
+    const context = report.context;
+    for (const line of lines) {
+      const target = pageNumberOf.get(line.pairIndex);
+      if (target === undefined) continue;
+      const link = context.register(context.obj({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: [REPORT_MARGIN, line.y, SUMMARY_PAGE[0] - REPORT_MARGIN, line.y + 12],
+        Border: [0, 0, 0],
+        Dest: [report.getPage(target).ref, 'Fit'],
+      }));
+      const annots = line.page.node.Annots();
+      if (annots) annots.push(link);
+      else line.page.node.set(PDFName.of('Annots'), context.obj([link]));
+    }
+  }
+}
+
+export const compareService = new CompareService();
@@ -0,0 +1,439 @@
+import {
+  PDFDocument, PDFArray, PDFDict, PDFName, PDFNumber, PDFObject, PDFRawStream, PDFRef, PDFStream, decodePDFRawStream,
+} from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { IDENTITY, Matrix, decodeStream, isDelimiter, isWhitespace, multiply, readPageContent } from '../utils/contentStream';
+
+export interface StructuralCompressionOptions {
+  targetDpi: number; // Images placed above this resolution are downsampled
+  imageQuality: number; // JPEG quality 0-100 for re-encoded images
+  removeMetadata: boolean; // Drop XMP packets, page thumbnails and application private data
+}
+
+export interface CategorySavings {
+  before: number;
+  after: number;
+}
+
+export interface CompressionResult {
+  file: ProcessedFile;
+  savings: {
+    images: CategorySavings;
+    fonts: CategorySavings;
+    other: CategorySavings;
+  };
+  imagesRecompressed: number;
+  duplicatesRemoved: number;
+  unusedObjectsRemoved: number;
+}
+
+/**
+ * Minimal content stream scanner. Yields operators with their numeric/name operands,
+ * skipping strings, arrays, dictionaries and inline image data.
+ */
+function* scanContentStream(bytes: Uint8Array): Generator<{ op: string; operands: (number | string)[] }> {
+  let operands: (number | string)[] = [];
+  let i = 0;
+  const len = bytes.length;
+
+  while (i < len) {
+    const c = bytes[i];
+    if (isWhitespace(c)) { i++; continue; }
+    if (c === 0x25) { // % comment
+      while (i < len && bytes[i] !== 0x0a && bytes[i] !== 0x0d) i++;
+      continue;
+    }
+    if (c === 0x28) { // (string)
+      let depth = 0;
+      for (; i < len; i++) {
+        if (bytes[i] === 0x5c) { i++; continue; }
+        if (bytes[i] === 0x28) depth++;
+        else if (bytes[i] === 0x29 && --depth === 0) { i++; break; }
+      }
+      operands.push('');
+      continue;
+    }
+    if (c === 0x3c && bytes[i + 1] !== 0x3c) { // <hex string>
+      while (i < len && bytes[i] !== 0x3e) i++;
+      i++;
+      operands.push('');
+      continue;
+    }
+    if (isDelimiter(c) && c !== 0x2f) { // [ ] << >> { } carry no information we need
+      i += (c === 0x3c || c === 0x3e) ? 2 : 1;
+      continue;
+    }
+
+    const start = i;
+    i++;
+    while (i < len && !isWhitespace(bytes[i]) && !isDelimiter(bytes[i])) i++;
+    const token = String.fromCharCode.apply(null, bytes.subarray(start, i) as unknown as number[]);
+
+    if (token[0] === '/') {
+      operands.push(token.slice(1));
+    } else if (token === 'true' || token === 'false' || token === 'null') {
+      operands.push(token);
+    } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      operands.push(parseFloat(token));
+    } else if (token === 'ID') {
+      // Inline image data runs until whitespace + "EI" + whitespace
+      i++;
+      while (i < len && !(isWhitespace(bytes[i - 1]) && bytes[i] === 0x45 && bytes[i + 1] === 0x49 && (i + 2 >= len || isWhitespace(bytes[i + 2])))) i++;
+      i += 2;
+      operands = [];
+    } else {
+      yield { op: token, operands };
+      operands = [];
+    }
+  }
+}
+
+const refKey = (ref: PDFRef) => ref.toString();
+
+const sha256Hex = async (data: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data as unknown as ArrayBuffer);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+class CompressionService {
+
+  /**
+   * Lossless-first compression that keeps the document structure intact.
+   * Text, links, bookmarks and form fields survive; only image XObjects are re-encoded.
+   */
+  public async compressPdfStructural(file: AppFile, options: StructuralCompressionOptions): Promise<CompressionResult> {
+    if (!file.arrayBuffer) throw new Error('File buffer is missing for compression.');
+
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+
+    const before = this.measureCategories(pdfDoc, file.size);
+
+    if (options.removeMetadata) this.removeMetadata(pdfDoc);
+
+    const imagesRecompressed = await this.recompressImages(pdfDoc, options);
+    const duplicatesRemoved = await this.deduplicateObjects(pdfDoc);
+    const unusedObjectsRemoved = this.removeUnreachableObjects(pdfDoc);
+
+    const pdfBytes = await pdfDoc.save({ useObjectStreams: true });
+    const after = this.measureCategories(pdfDoc, pdfBytes.byteLength);
+
+    return {
+      file: {
+        id: crypto.randomUUID(),
+        name: `compressed_${file.name}`,
+        mimeType: 'application/pdf',
+        dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'),
+        size: pdfBytes.byteLength,
+      },
+      savings: {
+        images: { before: before.images, after: after.images },
+        fonts: { before: before.fonts, after: after.fonts },
+        other: { before: before.other, after: after.other },
+      },
+      imagesRecompressed,
+      duplicatesRemoved,
+      unusedObjectsRemoved,
+    };
+  }
+
+  /**
+   * Splits the file size into images, fonts and everything else.
+   * Streams are measured directly; "other" is whatever remains of the real file size.
+   */
+  private measureCategories(pdfDoc: PDFDocument, totalSize: number) {
+    const context = pdfDoc.context;
+    const fontRefs = new Set<string>();
+
+    for (const [, obj] of context.enumerateIndirectObjects()) {
+      if (!(obj instanceof PDFDict)) continue;
+      const type = obj.get(PDFName.of('Type'));
+      if (type !== PDFName.of('Font') && type !== PDFName.of('FontDescriptor')) continue;
+      for (const value of obj.values()) {
+        if (value instanceof PDFRef) fontRefs.add(refKey(value));
+      }
+    }
+
+    let images = 0;
+    let fonts = 0;
+    for (const [ref, obj] of context.enumerateIndirectObjects()) {
+      const size = obj.sizeInBytes();
+      if (obj instanceof PDFStream && obj.dict.get(PDFName.of('Subtype')) === PDFName.of('Image')) {
+        images += size;
+      } else if (fontRefs.has(refKey(ref)) || (obj instanceof PDFDict && (obj.get(PDFName.of('Type')) === PDFName.of('Font') || obj.get(PDFName.of('Type')) === PDFName.of('FontDescriptor')))) {
+        fonts += size;
+      }
+    }
+
+    // Object streams compress small dictionaries, so clamp to keep the categories consistent with the real size.
+    images = Math.min(images, totalSize);
+    fonts = Math.min(fonts, totalSize - images);
+    return { images, fonts, other: totalSize - images - fonts };
+  }
+
+  private removeMetadata(pdfDoc: PDFDocument) {
+    const strip = (dict: PDFDict) => {
+      dict.delete(PDFName.of('Metadata'));
+      dict.delete(PDFName.of('PieceInfo'));
+    };
+
+    strip(pdfDoc.catalog);
+    for (const page of pdfDoc.getPages()) {
+      strip(page.node);
+      page.node.delete(PDFName.of('Thumb'));
+    }
+    for (const [, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+      if (obj instanceof PDFStream) strip(obj.dict);
+    }
+  }
+
+  /**
+   * Walks every page's content (including nested form XObjects) and records the largest
+   * size, in points, at which each image XObject is painted.
+   */
+  private collectImagePlacements(pdfDoc: PDFDocument): Map<string, { width: number; height: number }> {
+    const context = pdfDoc.context;
+    const placements = new Map<string, { width: number; height: number }>();
+    const visitedForms = new Set<string>();
+
+    const walk = (content: Uint8Array, resources: PDFDict | undefined, baseCtm: Matrix) => {
+      const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+      const stack: Matrix[] = [];
+      let ctm = baseCtm;
+
+      for (const { op, operands } of scanContentStream(content)) {
+        if (op === 'q') stack.push(ctm);
+        else if (op === 'Q') ctm = stack.pop() || baseCtm;
+        else if (op === 'cm' && operands.length >= 6) {
+          ctm = multiply(operands.slice(-6) as Matrix, ctm);
+        } else if (op === 'Do' && xObjects && typeof operands[0] === 'string') {
+          const ref = xObjects.get(PDFName.of(operands[0]));
+          if (!(ref instanceof PDFRef)) continue;
+          const xObject = context.lookup(ref);
+          if (!(xObject instanceof PDFStream)) continue;
+          const subtype = xObject.dict.get(PDFName.of('Subtype'));
+
+          if (subtype === PDFName.of('Image')) {
+            const width = Math.hypot(ctm[0], ctm[1]);
+            const height = Math.hypot(ctm[2], ctm[3]);
+            const prev = placements.get(refKey(ref));
+            placements.set(refKey(ref), {
+              width: Math.max(width, prev?.width || 0),
+              height: Math.max(height, prev?.height || 0),
+            });
+          } else if (subtype === PDFName.of('Form')) {
+            const key = `${refKey(ref)}@${ctm.join(',')}`;
+            if (visitedForms.has(key)) continue;
+            visitedForms.add(key);
+            const matrix = xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray);
+            const formMatrix = matrix ? (matrix.asArray().map(n => (n as PDFNumber).asNumber()) as Matrix) : IDENTITY;
+            const formContent = decodeStream(xObject);
+            if (formContent) {
+              walk(formContent, xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) || resources, multiply(formMatrix, ctm));
+            }
+          }
+        }
+      }
+    };
+
+    for (const page of pdfDoc.getPages()) {
+      walk(readPageContent(context, page.node), page.node.Resources(), IDENTITY);
+    }
+
+    return placements;
+  }
+
+  private async recompressImages(pdfDoc: PDFDocument, options: StructuralCompressionOptions): Promise<number> {
+    const context = pdfDoc.context;
+    const placements = this.collectImagePlacements(pdfDoc);
+    const quality = Math.min(1, Math.max(0.1, options.imageQuality / 100));
+
+    // Soft masks hold alpha data and must stay lossless
+    const maskRefs = new Set<string>();
+    for (const [, obj] of context.enumerateIndirectObjects()) {
+      if (!(obj instanceof PDFStream)) continue;
+      const sMask = obj.dict.get(PDFName.of('SMask'));
+      if (sMask instanceof PDFRef) maskRefs.add(refKey(sMask));
+    }
+
+    let count = 0;
+    for (const [ref, obj] of context.enumerateIndirectObjects()) {
+      if (!(obj instanceof PDFRawStream)) continue;
+      const dict = obj.dict;
+      if (dict.get(PDFName.of('Subtype')) !== PDFName.of('Image') || maskRefs.has(refKey(ref))) continue;
+
+      const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() || 0;
+      const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() || 0;
+      const bpc = dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber();
+      if (!width || !height || bpc !== 8) continue;
+      if (dict.has(PDFName.of('ImageMask')) || dict.has(PDFName.of('Decode')) || dict.lookup(PDFName.of('Mask')) instanceof PDFArray) continue;
+
+      const components = this.getColorComponents(pdfDoc, dict.lookup(PDFName.of('ColorSpace')));
+      if (components !== 1 && components !== 3) continue;
+
+      const filter = dict.lookup(PDFName.of('Filter'));
+      const isJpeg = filter === PDFName.of('DCTDecode');
+      const isRaw = (filter === undefined || filter === PDFName.of('FlateDecode')) && !dict.has(PDFName.of('DecodeParms'));
+      if (!isJpeg && !isRaw) continue;
+
+      // Work out how far we can shrink the image without dropping below the target DPI
+      let scale = 1;
+      const placement = placements.get(refKey(ref));
+      if (placement && placement.width > 0 && placement.height > 0) {
+        const dpiX = width / (placement.width / 72);
+        const dpiY = height / (placement.height / 72);
+        scale = Math.min(1, options.targetDpi / Math.min(dpiX, dpiY));
+      }
+      const newWidth = Math.max(1, Math.round(width * scale));
+      const newHeight = Math.max(1, Math.round(height * scale));
+
+      try {
+        const source = isJpeg
+          ? await createImageBitmap(new Blob([obj.contents as unknown as ArrayBuffer], { type: 'image/jpeg' }))
+          : this.rawPixelsToCanvas(decodePDFRawStream(obj).decode(), width, height, components);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = newWidth;
+        canvas.height = newHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get 2D context from canvas.');
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, newWidth, newHeight);
+        ctx.drawImage(source, 0, 0, newWidth, newHeight);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+        if (!blob) continue;
+        const jpegBytes = new Uint8Array(await blob.arrayBuffer());
+        if (jpegBytes.length >= obj.contents.length) continue;
+
+        const newDict = dict.clone(context);
+        newDict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+        newDict.set(PDFName.of('Width'), PDFNumber.of(newWidth));
+        newDict.set(PDFName.of('Height'), PDFNumber.of(newHeight));
+        newDict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+        newDict.delete(PDFName.of('DecodeParms'));
+        context.assign(ref, PDFRawStream.of(newDict, jpegBytes));
+        count++;
+      } catch (e) {
+        console.warn(`Could not recompress image ${refKey(ref)}`, e);
+      }
+    }
+    return count;
+  }
+
+  private getColorComponents(pdfDoc: PDFDocument, colorSpace: PDFObject | undefined): number {
+    if (colorSpace === PDFName.of('DeviceRGB') || colorSpace === PDFName.of('CalRGB')) return 3;
+    if (colorSpace === PDFName.of('DeviceGray') || colorSpace === PDFName.of('CalGray')) return 1;
+    if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('ICCBased')) {
+      const profile = colorSpace.lookup(1);
+      if (profile instanceof PDFStream) return profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber() || 0;
+    }
+    return 0; // CMYK, Indexed, Lab etc. are left untouched
+  }
+
+  private rawPixelsToCanvas(pixels: Uint8Array, width: number, height: number, components: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get 2D context from canvas.');
+    const imageData = ctx.createImageData(width, height);
+    const out = imageData.data;
+    for (let p = 0, s = 0; p < width * height; p++, s += components) {
+      const r = pixels[s];
+      out[p * 4] = r;
+      out[p * 4 + 1] = components === 3 ? pixels[s + 1] : r;
+      out[p * 4 + 2] = components === 3 ? pixels[s + 2] : r;
+      out[p * 4 + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+  }
+
+  /**
+   * Merges byte-identical streams (images, font programs, ICC profiles...) and identical
+   * font dictionaries, which is common in merged documents. Repeats until nothing changes
+   * because deduplicating streams can make their parent dictionaries identical.
+   */
+  private async deduplicateObjects(pdfDoc: PDFDocument): Promise<number> {
+    const context = pdfDoc.context;
+    let removed = 0;
+
+    for (let pass = 0; pass < 3; pass++) {
+      const canonical = new Map<string, PDFRef>();
+      const replacements = new Map<string, PDFRef>();
+
+      for (const [ref, obj] of context.enumerateIndirectObjects()) {
+        let key: string | undefined;
+        if (obj instanceof PDFRawStream) {
+          const dict = obj.dict.clone(context);
+          dict.delete(PDFName.of('Length'));
+          key = `stream:${dict.toString()}:${await sha256Hex(obj.contents)}`;
+        } else if (obj instanceof PDFDict) {
+          const type = obj.get(PDFName.of('Type'));
+          if (type === PDFName.of('Font') || type === PDFName.of('FontDescriptor')) key = `dict:${obj.toString()}`;
+        }
+        if (!key) continue;
+
+        const existing = canonical.get(key);
+        if (existing) replacements.set(refKey(ref), existing);
+        else canonical.set(key, ref);
+      }
+
+      if (replacements.size === 0) break;
+
+      const rewrite = (obj: PDFObject): PDFObject => {
+        if (obj instanceof PDFRef) return replacements.get(refKey(obj)) || obj;
+        if (obj instanceof PDFArray) {
+          for (let i = 0; i < obj.size(); i++) obj.set(i, rewrite(obj.get(i)));
+        } else if (obj instanceof PDFDict) {
+          for (const [k, v] of obj.entries()) obj.set(k, rewrite(v));
+        } else if (obj instanceof PDFStream) {
+          rewrite(obj.dict);
+        }
+        return obj;
+      };
+
+      for (const [, obj] of context.enumerateIndirectObjects()) rewrite(obj);
+      for (const [ref] of context.enumerateIndirectObjects()) {
+        if (replacements.has(refKey(ref))) context.delete(ref);
+      }
+      removed += replacements.size;
+    }
+    return removed;
+  }
+
+  /** Mark-and-sweep from the trailer; pdf-lib otherwise writes every object it parsed. */
+  public removeUnreachableObjects(pdfDoc: PDFDocument): number {
+    const context = pdfDoc.context;
+    const reachable = new Set<string>();
+    const queue: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info].filter((o): o is PDFObject => !!o);
+
+    while (queue.length > 0) {
+      const obj = queue.pop()!;
+      if (obj instanceof PDFRef) {
+        if (reachable.has(refKey(obj))) continue;
+        reachable.add(refKey(obj));
+        const target = context.lookup(obj);
+        if (target) queue.push(target);
+      } else if (obj instanceof PDFArray) {
+        queue.push(...obj.asArray());
+      } else if (obj instanceof PDFDict) {
+        queue.push(...obj.values());
+      } else if (obj instanceof PDFStream) {
+        queue.push(obj.dict);
+      }
+    }
+
+    let removed = 0;
+    for (const [ref] of context.enumerateIndirectObjects()) {
+      if (!reachable.has(refKey(ref))) {
+        context.delete(ref);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+export const compressionService = new CompressionService();
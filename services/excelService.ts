@@ -6,10 +6,11 @@ import * as XLSX from 'xlsx';
 class ExcelService {
   /**
    * Generates an Excel (.xlsx) file from a list of page data (2D arrays).
+   * Numbers are written as numeric cells, strings as text.
    * @param pagesData Array of objects containing sheet names and row data.
    * @param filename Output filename.
    */
-  public async generateExcel(pagesData: { name: string, rows: string[][] }[], filename: string): Promise<ProcessedFile> {
+  public async generateExcel(pagesData: { name: string, rows: (string | number)[][] }[], filename: string): Promise<ProcessedFile> {
     // Robust check for library availability
     if (!XLSX || (!XLSX.utils && !(XLSX as any).default?.utils)) {
       console.error("XLSX Library Object:", XLSX);
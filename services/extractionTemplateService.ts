@@ -0,0 +1,647 @@
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { AiMedia, stripDataUrl } from './aiProvider';
+import { AiService, aiService } from './aiService';
+import { parseAmount } from './invoiceService';
+import { getPdfJs, pdfService } from './pdfService';
+import { pdfToWordService } from './pdfToWordService';
+
+export type TemplateFieldType = 'text' | 'number' | 'date';
+export type TemplateDateOrder = 'DMY' | 'MDY';
+export type TemplateFieldSource = 'text' | 'ocr' | 'ai' | 'none';
+export type TemplateResultFormat = 'json' | 'csv';
+
+/** A box on a page as fractions (0–1) of the page's width and height, top-left origin, so it fits any page size. */
+export interface TemplateRegion {
+  pageIndex: number; // 0-based
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Label text printed next to a value, e.g. "Account number". Its position is known when it was
+ * picked up from a region drawn on the sample page; the region then moves with the label.
+ */
+export interface TemplateAnchor {
+  text: string;
+  left?: number;
+  top?: number;
+}
+
+export interface TemplateField {
+  id: string;
+  name: string;
+  type: TemplateFieldType;
+  hint?: string; // what the field means, for the AI fallback
+  pattern?: string; // regex picking the value out of the text found; group 1 if it has one
+  region?: TemplateRegion;
+  anchor?: TemplateAnchor;
+  sampleValue?: string; // text inside the region on the sample page
+}
+
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  dateOrder: TemplateDateOrder; // how to read dates such as 03/04/2026
+  fields: TemplateField[];
+  updatedAt: string; // ISO timestamp
+}
+
+export interface TemplateFieldResult {
+  fieldId: string;
+  name: string;
+  value: string | number | null; // numbers for number fields, YYYY-MM-DD for dates
+  text: string; // as found on the page
+  confidence: number; // 0–1
+  source: TemplateFieldSource;
+  pageIndex?: number;
+  box?: TemplateRegion; // where the value was read, for highlighting
+}
+
+export interface TemplateExtraction {
+  fileName: string;
+  templateName: string;
+  fields: TemplateFieldResult[];
+  warnings: string[];
+}
+
+// A run of text with its box as page fractions (top-left origin)
+interface PageSpan {
+  text: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface PageLayout {
+  width: number; // points
+  height: number;
+  spans: PageSpan[];
+}
+
+interface LookupHit {
+  text: string;
+  pageIndex: number;
+  box: TemplateRegion;
+  anchored?: boolean; // false when the region's anchor label was not found and the region was used as drawn
+}
+
+const STORAGE_KEY = 'extraction_templates';
+const FILE_FORMAT = 'smart-pdf-ai/extraction-templates';
+
+// Pages with fewer visible characters than this are treated as scanned images
+const MIN_TEXT_LAYER_CHARS = 20;
+const MAX_OCR_PAGES = 5;
+const MAX_AI_PAGES = 4;
+const AI_RENDER_SCALE = 1.5;
+
+// Confidence of a value that parsed cleanly, by where it came from; AI answers are capped
+const TEXT_CONFIDENCE = 0.95;
+const OCR_CONFIDENCE = 0.75;
+const AI_CONFIDENCE = 0.7;
+const MISSING_ANCHOR_PENALTY = 0.2;
+/** Values below this confidence are worth checking by hand. */
+export const REVIEW_CONFIDENCE = 0.6;
+
+// How far (in page fractions) a label may sit from the region it anchors
+const MAX_ANCHOR_DISTANCE = 0.2;
+// Gap that ends a value read to the right of a label
+const MAX_WORD_GAP = 0.08;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const createProcessedFile = (bytes: Uint8Array, name: string, mimeType: string): ProcessedFile => ({
+  id: crypto.randomUUID(),
+  name,
+  mimeType,
+  dataUrl: arrayBufferToDataURL(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer, mimeType),
+  size: bytes.byteLength,
+});
+
+const csvField = (value: string | number | null | undefined) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').replace(/[\s:#.]+$/, '').trim();
+
+const isFraction = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+const centerOf = (span: PageSpan) => ({ x: span.left + span.width / 2, y: span.top + span.height / 2 });
+
+const isInside = (span: PageSpan, region: TemplateRegion) => {
+  const { x, y } = centerOf(span);
+  return x >= region.left && x <= region.left + region.width && y >= region.top && y <= region.top + region.height;
+};
+
+const boundsOf = (spans: PageSpan[], pageIndex: number): TemplateRegion => {
+  const left = Math.min(...spans.map(s => s.left));
+  const top = Math.min(...spans.map(s => s.top));
+  return {
+    pageIndex,
+    left,
+    top,
+    width: Math.max(...spans.map(s => s.left + s.width)) - left,
+    height: Math.max(...spans.map(s => s.top + s.height)) - top,
+  };
+};
+
+/** Groups spans into visual lines, top to bottom, each sorted left to right. */
+const groupLines = (spans: PageSpan[]) => {
+  const lines: PageSpan[][] = [];
+  [...spans].sort((a, b) => a.top - b.top).forEach(span => {
+    const line = lines[lines.length - 1];
+    if (line && span.top < line[0].top + line[0].height * 0.5) line.push(span);
+    else lines.push([span]);
+  });
+  return lines.map(line => line.sort((a, b) => a.left - b.left));
+};
+
+/** Puts spans back in reading order: one output line per visual line, words left to right. */
+const joinLines = (spans: PageSpan[]) =>
+  groupLines(spans).map(line => line.map(s => s.text.trim()).filter(Boolean).join(' ')).join('\n').trim();
+
+const mergeSpans = (spans: PageSpan[]): PageSpan => {
+  const { left, top, width, height } = boundsOf(spans, 0);
+  return { text: spans.map(s => s.text.trim()).join(' '), left, top, width, height };
+};
+
+/** Merges runs of words on one line into phrases, the way a text layer stores them; OCR yields single words. */
+const groupPhrases = (spans: PageSpan[]) => groupLines(spans.filter(s => s.text.trim())).flatMap(line => {
+  const phrases: PageSpan[][] = [];
+  line.forEach((span, i) => {
+    const previous = line[i - 1];
+    if (previous && span.left - (previous.left + previous.width) <= MAX_WORD_GAP) phrases[phrases.length - 1].push(span);
+    else phrases.push([span]);
+  });
+  return phrases.map(mergeSpans);
+});
+
+const describePosition = (region: TemplateRegion) => {
+  const y = region.top + region.height / 2;
+  const x = region.left + region.width / 2;
+  return `${y < 0.33 ? 'top' : y < 0.66 ? 'middle' : 'bottom'} ${x < 0.33 ? 'left' : x < 0.66 ? 'center' : 'right'} of page ${region.pageIndex + 1}`;
+};
+
+/** Reads a date in common printed forms into YYYY-MM-DD; all-numeric day/month order follows `order`. */
+const parseDate = (text: string, order: TemplateDateOrder): string | null => {
+  let year: number, month: number, day: number;
+  let m = /(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(text);
+  if (m) {
+    [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if ((m = /(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})(?!\d)/.exec(text))) {
+    const [a, b] = [Number(m[1]), Number(m[3])];
+    // Dotted dates are day first everywhere; otherwise a part above 12 settles the order
+    const dayFirst = m[2] === '.' || a > 12 || (b <= 12 && order === 'DMY');
+    [day, month] = dayFirst ? [a, b] : [b, a];
+    year = m[4].length === 2 ? 2000 + Number(m[4]) : Number(m[4]);
+  } else if ((m = /(\d{1,2})(?:st|nd|rd|th)?\.?\s+([A-Za-z]{3,})\.?,?\s+(\d{4})/.exec(text))) {
+    [day, month, year] = [Number(m[1]), MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, Number(m[3])];
+  } else if ((m = /([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/.exec(text))) {
+    [month, day, year] = [MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, Number(m[2]), Number(m[3])];
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/** Turns found text into the field's value, or null when it does not fit the field's pattern or type. */
+const parseValue = (field: TemplateField, text: string, order: TemplateDateOrder, usePattern: boolean = true): string | number | null => {
+  let raw = text.trim();
+  if (usePattern && field.pattern) {
+    const m = new RegExp(field.pattern, 'i').exec(raw);
+    if (!m) return null;
+    raw = (m[1] ?? m[0]).trim();
+  }
+  if (!raw) return null;
+  if (field.type === 'number') {
+    // Labels and units may come along; amounts are usually the last number
+    const numbers = raw.match(/\(?-?\d[\d.,]*\)?/g);
+    return numbers ? parseAmount(numbers[numbers.length - 1]) ?? null : null;
+  }
+  if (field.type === 'date') return parseDate(raw, order);
+  return raw;
+};
+
+/**
+ * Finds the span carrying an anchor label. A label split over consecutive words of a line
+ * (as OCR returns it) is matched too and comes back as one merged span.
+ */
+const findLabel = (spans: PageSpan[], anchor: TemplateAnchor): PageSpan | undefined => {
+  const label = normalize(anchor.text);
+  const contains = (words: PageSpan[]) => normalize(words.map(s => s.text.trim()).join(' ')).includes(label);
+  const matches = spans.filter(span => contains([span]));
+  groupLines(spans.filter(s => s.text.trim())).forEach(line => {
+    for (let i = 0; i < line.length; i++) {
+      if (contains([line[i]])) continue;
+      for (let j = i + 1; j < line.length && line[j].left - (line[j - 1].left + line[j - 1].width) <= MAX_WORD_GAP; j++) {
+        if (!contains(line.slice(i, j + 1))) continue;
+        // Only the shortest run starting at the label's first word
+        if (!contains(line.slice(i + 1, j + 1))) matches.push(mergeSpans(line.slice(i, j + 1)));
+        break;
+      }
+    }
+  });
+  if (matches.length === 0 || anchor.left === undefined || anchor.top === undefined) return matches[0];
+  const distance = (s: PageSpan) => Math.hypot(s.left - anchor.left!, s.top - anchor.top!);
+  return matches.reduce((best, s) => (distance(s) < distance(best) ? s : best));
+};
+
+/**
+ * Finds a field's text on a page: inside its region (moved along with its anchor label if
+ * the label has shifted), or, for fields with only a label, to the right of the label.
+ */
+const lookupField = (field: TemplateField, pages: PageSpan[][]): LookupHit | null => {
+  if (field.region) {
+    const spans = pages[field.region.pageIndex];
+    if (!spans) return null;
+    let region = field.region;
+    let anchored: boolean | undefined;
+    if (field.anchor?.text && field.anchor.left !== undefined && field.anchor.top !== undefined) {
+      const label = findLabel(spans, field.anchor);
+      anchored = !!label;
+      if (label) region = { ...region, left: region.left + label.left - field.anchor.left, top: region.top + label.top - field.anchor.top };
+    }
+    const hits = spans.filter(span => span.text.trim() && isInside(span, region));
+    if (hits.length === 0) return null;
+    return { text: joinLines(hits), pageIndex: region.pageIndex, box: boundsOf(hits, region.pageIndex), anchored };
+  }
+
+  if (!field.anchor?.text) return null;
+  const labelPattern = new RegExp(`${escapeRegExp(field.anchor.text.trim()).replace(/\s+/g, '\\s+')}\\s*[:#.]?\\s*`, 'i');
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    const label = findLabel(pages[pageIndex], field.anchor);
+    if (!label) continue;
+    const m = labelPattern.exec(label.text);
+    const rest = m ? label.text.slice(m.index + m[0].length).trim() : '';
+    const labelY = centerOf(label).y;
+    const right = pages[pageIndex]
+      .filter(s => s !== label && s.text.trim() && s.left >= label.left + label.width - 0.005 && Math.abs(centerOf(s).y - labelY) < label.height / 2)
+      .sort((a, b) => a.left - b.left);
+    const value: PageSpan[] = [];
+    let edge = label.left + label.width;
+    for (const span of right) {
+      // The first word may be tabbed far out; after that, a wide gap starts another column
+      if (value.length > 0 && span.left - edge > MAX_WORD_GAP) break;
+      value.push(span);
+      edge = span.left + span.width;
+    }
+    const text = [rest, ...value.map(s => s.text.trim())].filter(Boolean).join(' ');
+    if (text) return { text, pageIndex, box: boundsOf(rest ? [label, ...value] : value, pageIndex), anchored: true };
+  }
+  return null;
+};
+
+/** Checks a field list from the AI against the fields that were asked for. */
+const validateAiFields = (reply: any, names: string[]) => {
+  if (!Array.isArray(reply?.fields)) throw new Error('The AI reply has no "fields" list.');
+  const found = new Map<string, { value: string; page?: number; confidence: number }>();
+  reply.fields.forEach((item: any) => {
+    if (!item || !names.includes(item.name)) return;
+    if (item.value === null || item.value === undefined || String(item.value).trim() === '') return;
+    found.set(item.name, {
+      value: String(item.value).trim(),
+      page: Number.isInteger(item.page) ? item.page : undefined,
+      confidence: typeof item.confidence === 'number' ? Math.max(0, Math.min(1, item.confidence)) : 0.5,
+    });
+  });
+  return found;
+};
+
+/** Checks a template read from storage or a file; fills in ids and defaults, throws on anything unusable. */
+const validateTemplate = (raw: any): ExtractionTemplate => {
+  if (!raw || typeof raw !== 'object') throw new Error('Not a template.');
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) throw new Error('The template needs a name.');
+  if (!Array.isArray(raw.fields) || raw.fields.length === 0) throw new Error(`Template "${name}" has no fields.`);
+
+  const names = new Set<string>();
+  const fields: TemplateField[] = raw.fields.map((f: any, i: number) => {
+    const fieldName = typeof f?.name === 'string' ? f.name.trim() : '';
+    if (!fieldName) throw new Error(`Field ${i + 1} of "${name}" needs a name.`);
+    if (names.has(fieldName.toLowerCase())) throw new Error(`"${name}" has two fields named "${fieldName}".`);
+    names.add(fieldName.toLowerCase());
+    if (f.pattern) {
+      try {
+        new RegExp(f.pattern);
+      } catch {
+        throw new Error(`Field "${fieldName}" has an invalid pattern: ${f.pattern}`);
+      }
+    }
+    const region = f.region;
+    const hasRegion = region && Number.isInteger(region.pageIndex) && region.pageIndex >= 0
+      && [region.left, region.top, region.width, region.height].every(isFraction);
+    const anchorText = typeof f.anchor?.text === 'string' ? f.anchor.text.trim() : '';
+    return {
+      id: typeof f.id === 'string' && f.id ? f.id : crypto.randomUUID(),
+      name: fieldName,
+      type: ['number', 'date'].includes(f.type) ? f.type : 'text',
+      hint: typeof f.hint === 'string' && f.hint.trim() ? f.hint.trim() : undefined,
+      pattern: typeof f.pattern === 'string' && f.pattern ? f.pattern : undefined,
+      region: hasRegion ? { pageIndex: region.pageIndex, left: region.left, top: region.top, width: region.width, height: region.height } : undefined,
+      anchor: anchorText
+        ? { text: anchorText, ...(isFraction(f.anchor.left) && isFraction(f.anchor.top) ? { left: f.anchor.left, top: f.anchor.top } : {}) }
+        : undefined,
+      sampleValue: typeof f.sampleValue === 'string' && f.sampleValue ? f.sampleValue : undefined,
+    };
+  });
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    name,
+    description: typeof raw.description === 'string' && raw.description.trim() ? raw.description.trim() : undefined,
+    dateOrder: raw.dateOrder === 'MDY' ? 'MDY' : 'DMY',
+    fields,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+  };
+};
+
+/**
+ * Templates for recurring documents (bank statements, purchase orders, lab reports, ...): a
+ * named list of fields, each optionally tied to a region drawn on a sample page. Applying a
+ * template reads each field from the text layer first, then from OCR of scanned pages, and
+ * asks the AI only for what is still missing. Every value carries a confidence and, where
+ * known, the box it was read from. Templates live in localStorage and travel as JSON files.
+ */
+export class ExtractionTemplateService {
+  constructor(private ai: AiService = aiService) {}
+
+  public loadTemplates(): ExtractionTemplate[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      if (!Array.isArray(stored)) return [];
+      return stored.flatMap(raw => {
+        try {
+          return [validateTemplate(raw)];
+        } catch (e) {
+          console.warn('Skipping unreadable extraction template', e);
+          return [];
+        }
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  /** Validates and stores a template, replacing the stored one with the same id. */
+  public saveTemplate(template: ExtractionTemplate): ExtractionTemplate {
+    const checked = validateTemplate({ ...template, updatedAt: new Date().toISOString() });
+    const templates = this.loadTemplates();
+    const index = templates.findIndex(t => t.id === checked.id);
+    if (index >= 0) templates[index] = checked;
+    else templates.push(checked);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+    return checked;
+  }
+
+  public deleteTemplate(id: string) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.loadTemplates().filter(t => t.id !== id)));
+  }
+
+  /** Writes templates to a JSON file that teammates can import. */
+  public exportTemplates(templates: ExtractionTemplate[]): ProcessedFile {
+    const content = JSON.stringify({ format: FILE_FORMAT, version: 1, templates }, null, 2);
+    const name = templates.length === 1
+      ? `${templates[0].name.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'template'}.template.json`
+      : 'extraction-templates.json';
+    return createProcessedFile(new TextEncoder().encode(content), name, 'application/json');
+  }
+
+  /**
+   * Reads a file written by `exportTemplates` (or a bare template or list of templates) and
+   * stores every template in it. Templates already stored under the same id are replaced.
+   */
+  public importTemplates(json: string): ExtractionTemplate[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+    const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.templates) ? parsed.templates : [parsed];
+    const templates = list.map(validateTemplate);
+    if (templates.length === 0) throw new Error('The file contains no templates.');
+    return templates.map((template: ExtractionTemplate) => this.saveTemplate(template));
+  }
+
+  /**
+   * Reads what a region covers on the sample page and the label beside it (the nearest text
+   * to its left or above), which later lets the region follow layout shifts.
+   */
+  public async describeRegion(file: AppFile, region: TemplateRegion): Promise<{ sampleValue?: string; anchor?: TemplateAnchor }> {
+    const layout = await this.readLayout(file);
+    const page = layout[region.pageIndex];
+    if (!page) throw new Error(`The sample has no page ${region.pageIndex + 1}.`);
+    let spans = page.spans;
+    const scanned = this.visibleChars(spans) < MIN_TEXT_LAYER_CHARS;
+    if (scanned) {
+      spans = (await this.readOcrSpans(file, layout, [region.pageIndex]))[region.pageIndex];
+    }
+
+    const inside = spans.filter(span => span.text.trim() && isInside(span, region));
+    const outside = spans.filter(span => !inside.includes(span));
+    const middle = region.top + region.height / 2;
+    let best: { span: PageSpan; distance: number } | undefined;
+    (scanned ? groupPhrases(outside) : outside).filter(span => /\p{L}/u.test(span.text)).forEach(span => {
+      let distance = Infinity;
+      const toLeft = span.left + span.width <= region.left + 0.01 && Math.abs(centerOf(span).y - middle) < Math.max(region.height / 2, span.height);
+      const above = span.top + span.height <= region.top + 0.01 && span.left < region.left + region.width && span.left + span.width > region.left;
+      if (toLeft) distance = region.left - (span.left + span.width);
+      else if (above) distance = region.top - (span.top + span.height);
+      if (distance <= MAX_ANCHOR_DISTANCE && (!best || distance < best.distance)) best = { span, distance };
+    });
+
+    return {
+      sampleValue: inside.length > 0 ? joinLines(inside) : undefined,
+      anchor: best ? { text: best.span.text.trim().replace(/[\s:#]+$/, ''), left: best.span.left, top: best.span.top } : undefined,
+    };
+  }
+
+  /** Applies a template, saved or still being edited, to a PDF. */
+  public async applyTemplate(file: AppFile, draft: ExtractionTemplate, onProgress?: (message: string) => void): Promise<TemplateExtraction> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    if (file.type !== 'application/pdf') throw new Error('Templates can only be applied to PDFs.');
+    const template = validateTemplate(draft);
+
+    onProgress?.('Reading text layer...');
+    const layout = await this.readLayout(file);
+    const results = new Map<string, TemplateFieldResult>();
+    const warnings: string[] = [];
+
+    const resolve = (field: TemplateField, pages: PageSpan[][], source: TemplateFieldSource, confidence: number) => {
+      const hit = lookupField(field, pages);
+      if (!hit) return;
+      const value = parseValue(field, hit.text, template.dateOrder);
+      if (value === null) return;
+      results.set(field.id, {
+        fieldId: field.id,
+        name: field.name,
+        value,
+        text: hit.text,
+        confidence: hit.anchored === false ? confidence - MISSING_ANCHOR_PENALTY : confidence,
+        source,
+        pageIndex: hit.pageIndex,
+        box: hit.box,
+      });
+    };
+
+    template.fields.forEach(field => resolve(field, layout.map(page => page.spans), 'text', TEXT_CONFIDENCE));
+
+    // OCR only scanned pages that a missing field could be on
+    const locatable = template.fields.filter(f => !results.has(f.id) && (f.region || f.anchor?.text));
+    const scanned = layout.map((page, i) => (this.visibleChars(page.spans) < MIN_TEXT_LAYER_CHARS ? i : -1)).filter(i => i >= 0);
+    const wanted = locatable.some(f => !f.region) ? scanned : scanned.filter(i => locatable.some(f => f.region?.pageIndex === i));
+    const ocrPages = wanted.slice(0, MAX_OCR_PAGES);
+    if (ocrPages.length > 0) {
+      if (wanted.length > ocrPages.length) warnings.push(`OCR was limited to the first ${MAX_OCR_PAGES} scanned pages.`);
+      const ocrSpans = await this.readOcrSpans(file, layout, ocrPages, percent => onProgress?.(`Running OCR (${percent}%)...`));
+      locatable.forEach(field => resolve(field, ocrSpans, 'ocr', OCR_CONFIDENCE));
+    }
+
+    const missing = template.fields.filter(f => !results.has(f.id));
+    if (missing.length > 0) {
+      onProgress?.(`Asking AI for ${missing.length} field${missing.length === 1 ? '' : 's'}...`);
+      try {
+        (await this.askAi(file, template, missing, layout.length)).forEach(result => results.set(result.fieldId, result));
+      } catch (e) {
+        const message = (e as Error).message;
+        // Without a key nothing else will work either; let the caller explain
+        if (message.includes('API_KEY is not set') && results.size === 0) throw e;
+        console.error(e);
+        warnings.push(`AI fallback failed: ${message}`);
+      }
+    }
+
+    return {
+      fileName: file.name,
+      templateName: template.name,
+      fields: template.fields.map(field => results.get(field.id) || {
+        fieldId: field.id, name: field.name, value: null, text: '', confidence: 0, source: 'none',
+      }),
+      warnings,
+    };
+  }
+
+  /** Exports results as JSON or as CSV with one row per document and one column per field. */
+  public exportResults(extractions: TemplateExtraction[], format: TemplateResultFormat, baseName: string = 'extracted-data'): ProcessedFile {
+    if (format === 'json') {
+      return createProcessedFile(new TextEncoder().encode(JSON.stringify(extractions, null, 2)), `${baseName}.json`, 'application/json');
+    }
+    const names = Array.from(new Set(extractions.flatMap(e => e.fields.map(f => f.name))));
+    const rows = [
+      ['File', 'Template', ...names, 'Needs review'],
+      ...extractions.map(e => [
+        e.fileName,
+        e.templateName,
+        ...names.map(name => e.fields.find(f => f.name === name)?.value ?? ''),
+        e.fields.filter(f => f.confidence < REVIEW_CONFIDENCE).map(f => f.name).join('; '),
+      ]),
+    ];
+    // The byte order mark makes Excel read the file as UTF-8
+    const content = '﻿' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+    return createProcessedFile(new TextEncoder().encode(content), `${baseName}.csv`, 'text/csv');
+  }
+
+  private visibleChars(spans: PageSpan[]) {
+    return spans.reduce((n, span) => n + span.text.replace(/\s/g, '').length, 0);
+  }
+
+  private async readLayout(file: AppFile): Promise<PageLayout[]> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfjs = await getPdfJs();
+    const pdf = await pdfjs.getDocument(file.arrayBuffer.slice(0)).promise;
+    const pages: PageLayout[] = [];
+
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: 1.0 });
+      const textContent = await page.getTextContent();
+      const spans = textContent.items.filter((item: any) => item.str?.trim()).map((item: any) => {
+        const tx = pdfjs.Util.transform(viewport.transform, item.transform);
+        const fontSize = Math.sqrt(tx[0] * tx[0] + tx[1] * tx[1]);
+        return {
+          text: item.str,
+          left: tx[4] / viewport.width,
+          top: (tx[5] - fontSize) / viewport.height,
+          width: item.width / viewport.width,
+          height: (fontSize * 1.2) / viewport.height,
+        };
+      });
+      pages.push({ width: viewport.width, height: viewport.height, spans });
+    }
+    return pages;
+  }
+
+  /** OCR words of the given pages as spans; other pages come back empty. */
+  private async readOcrSpans(file: AppFile, layout: PageLayout[], pageIndexes: number[], onProgress?: (percent: number) => void): Promise<PageSpan[][]> {
+    const words = await pdfToWordService.recognizeWords(file, pageIndexes, onProgress);
+    return layout.map((page, i) => (words.get(i) || []).map(word => ({
+      text: word.text,
+      left: word.bbox.x0 / page.width,
+      top: word.bbox.y0 / page.height,
+      width: (word.bbox.x1 - word.bbox.x0) / page.width,
+      height: (word.bbox.y1 - word.bbox.y0) / page.height,
+    })));
+  }
+
+  /** Sends the pages the missing fields are expected on and asks for just those fields. */
+  private async askAi(file: AppFile, template: ExtractionTemplate, fields: TemplateField[], pageCount: number): Promise<TemplateFieldResult[]> {
+    const pages = Array.from(new Set(fields.map(f => f.region?.pageIndex).filter((i): i is number => i !== undefined && i < pageCount)));
+    if (fields.some(f => !f.region)) {
+      for (let i = 0; i < pageCount && pages.length < MAX_AI_PAGES; i++) if (!pages.includes(i)) pages.push(i);
+    }
+    const shown = pages.sort((a, b) => a - b).slice(0, MAX_AI_PAGES);
+    const media: AiMedia[] = [];
+    for (const pageIndex of shown) {
+      media.push({ mimeType: 'image/jpeg', data: stripDataUrl(await pdfService.renderPage(file, pageIndex, AI_RENDER_SCALE)) });
+    }
+
+    const fieldList = fields.map(f => [
+      `- "${f.name}" (${f.type === 'date' ? 'date' : f.type})`,
+      f.hint && `: ${f.hint}`,
+      f.anchor?.text && `. Printed next to the label "${f.anchor.text}"`,
+      f.region && `. Usually near the ${describePosition(f.region)}`,
+      f.sampleValue && `. Example value from a similar document: "${f.sampleValue.replace(/\s+/g, ' ')}"`,
+    ].filter(Boolean).join('')).join('\n');
+
+    const pageList = shown.length === 1 ? `This image is page ${shown[0] + 1}` : `These images are pages ${shown.map(i => i + 1).join(', ')}`;
+    const prompt = `${pageList} of a document of type "${template.name}"${template.description ? ` (${template.description})` : ''}.
+Read the following fields from the document:
+${fieldList}
+
+Return ONLY a JSON object with this schema:
+{ "fields": [{ "name": "field name exactly as given", "value": "the value as printed, or null if it is not in the document", "page": page number, "confidence": number between 0 and 1 }] }
+Do not guess: use null for fields you cannot find.`;
+
+    const names = fields.map(f => f.name);
+    const found = await this.ai.generateStructured({ prompt, media }, reply => validateAiFields(reply, names));
+
+    return fields.flatMap(field => {
+      const answer = found.get(field.name);
+      if (!answer) return [];
+      // The model returns the bare value, so the field's pattern would not fit it
+      const value = parseValue(field, answer.value, template.dateOrder, false);
+      const pageIndex = answer.page !== undefined && answer.page >= 1 && answer.page <= pageCount ? answer.page - 1 : undefined;
+      return [{
+        fieldId: field.id,
+        name: field.name,
+        value,
+        text: answer.value,
+        confidence: value === null ? 0 : Math.min(AI_CONFIDENCE, answer.confidence),
+        source: 'ai' as const,
+        pageIndex,
+        box: field.region && field.region.pageIndex === pageIndex ? field.region : undefined,
+      }];
+    });
+  }
+}
+
+export const extractionTemplateService = new ExtractionTemplateService();
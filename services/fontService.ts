@@ -0,0 +1,307 @@
+import * as fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, Color, Degrees, toDegrees } from 'pdf-lib';
+
+export interface FontFamily {
+  name: string; // Family name as used by the editor canvas and CSS
+  source: 'standard' | 'catalog' | 'uploaded';
+  description?: string;
+}
+
+export interface FontStyle {
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/** A stretch of text drawn with one font. Text is split into runs when it needs fallback fonts. */
+export interface TextRun {
+  text: string;
+  font: PDFFont;
+}
+
+export interface DrawRunsOptions {
+  x: number;
+  y: number;
+  size: number;
+  color?: Color;
+  opacity?: number;
+  rotate?: Degrees;
+}
+
+type FaceKey = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+interface CatalogFont {
+  name: string;
+  description: string;
+  faces: Partial<Record<FaceKey, string>>;
+  script?: RegExp; // Characters this font is the fallback for
+}
+
+// Google Fonts as published in the @expo-google-fonts npm packages: versioned, so a file cannot move or disappear
+const GOOGLE_FONTS = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+const face = (pkg: string, file: string) => `${GOOGLE_FONTS}/${pkg}/${file.slice(file.indexOf('_') + 1)}/${file}.ttf`;
+
+// Open fonts fetched on first use
+const CATALOG: CatalogFont[] = [
+  {
+    name: 'Noto Sans', description: 'Latin, Greek and Cyrillic',
+    faces: { regular: face('noto-sans@0.4.2', 'NotoSans_400Regular'), italic: face('noto-sans@0.4.2', 'NotoSans_400Regular_Italic') },
+  },
+  {
+    name: 'Noto Sans Devanagari', description: 'Hindi, Marathi, Nepali',
+    faces: { regular: face('noto-sans-devanagari@0.4.1', 'NotoSansDevanagari_400Regular') },
+    script: /\p{Script=Devanagari}/u,
+  },
+  {
+    name: 'Noto Naskh Arabic', description: 'Arabic, Persian, Urdu',
+    faces: { regular: face('noto-naskh-arabic@0.4.5', 'NotoNaskhArabic_400Regular') },
+    script: /\p{Script=Arabic}/u,
+  },
+  {
+    name: 'Noto Sans SC', description: 'Chinese, Japanese kana',
+    faces: { regular: face('noto-sans-sc@0.4.3', 'NotoSansSC_400Regular') },
+    script: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff00-\uffef]/u,
+  },
+  {
+    name: 'Noto Emoji', description: 'Emoji (monochrome)',
+    faces: { regular: face('noto-emoji@0.4.7', 'NotoEmoji_400Regular') },
+    script: /\p{Extended_Pictographic}/u,
+  },
+  // Metric-compatible with Arial/Helvetica, Times and Courier; used to embed fonts a PDF only names
+  {
+    name: 'Arimo', description: 'Arial/Helvetica metrics',
+    faces: { regular: face('arimo@0.4.3', 'Arimo_400Regular'), italic: face('arimo@0.4.3', 'Arimo_400Regular_Italic') },
+  },
+  {
+    name: 'Tinos', description: 'Times New Roman metrics',
+    faces: {
+      regular: face('tinos@0.4.2', 'Tinos_400Regular'), bold: face('tinos@0.4.2', 'Tinos_700Bold'),
+      italic: face('tinos@0.4.2', 'Tinos_400Regular_Italic'), boldItalic: face('tinos@0.4.2', 'Tinos_700Bold_Italic'),
+    },
+  },
+  {
+    name: 'Cousine', description: 'Courier New metrics',
+    faces: {
+      regular: face('cousine@0.4.3', 'Cousine_400Regular'), bold: face('cousine@0.4.3', 'Cousine_700Bold'),
+      italic: face('cousine@0.4.3', 'Cousine_400Regular_Italic'), boldItalic: face('cousine@0.4.3', 'Cousine_700Bold_Italic'),
+    },
+  },
+  { name: 'Dancing Script', description: 'Handwriting', faces: { regular: face('dancing-script@0.4.2', 'DancingScript_400Regular') } },
+  { name: 'Great Vibes', description: 'Handwriting', faces: { regular: face('great-vibes@0.4.1', 'GreatVibes_400Regular') } },
+  { name: 'Sacramento', description: 'Handwriting', faces: { regular: face('sacramento@0.4.1', 'Sacramento_400Regular') } },
+  { name: 'Allura', description: 'Handwriting', faces: { regular: face('allura@0.4.2', 'Allura_400Regular') } },
+  { name: 'Homemade Apple', description: 'Handwriting', faces: { regular: face('homemade-apple@0.4.1', 'HomemadeApple_400Regular') } },
+];
+
+const DEFAULT_FALLBACK = 'Noto Sans';
+
+const STANDARD_FAMILIES: FontFamily[] = [
+  { name: 'Helvetica', source: 'standard' },
+  { name: 'Times New Roman', source: 'standard' },
+  { name: 'Courier', source: 'standard' },
+];
+
+const faceKey = ({ bold, italic }: FontStyle): FaceKey => (bold && italic ? 'boldItalic' : bold ? 'bold' : italic ? 'italic' : 'regular');
+
+const standardFontFor = (family: string, { bold, italic }: FontStyle): StandardFonts => {
+  const fam = family.toLowerCase();
+  if (fam.includes('times')) {
+    if (bold && italic) return StandardFonts.TimesRomanBoldItalic;
+    if (bold) return StandardFonts.TimesRomanBold;
+    return italic ? StandardFonts.TimesRomanItalic : StandardFonts.TimesRoman;
+  }
+  if (fam.includes('courier') || fam.includes('mono')) {
+    if (bold && italic) return StandardFonts.CourierBoldOblique;
+    if (bold) return StandardFonts.CourierBold;
+    return italic ? StandardFonts.CourierOblique : StandardFonts.Courier;
+  }
+  if (bold && italic) return StandardFonts.HelveticaBoldOblique;
+  if (bold) return StandardFonts.HelveticaBold;
+  return italic ? StandardFonts.HelveticaOblique : StandardFonts.Helvetica;
+};
+
+// Marks and joiners must stay with the character before them or shaping breaks
+const isAttached = (char: string) => /[\p{M}\u200c\u200d\ufe0f]/u.test(char);
+
+class FontService {
+  private uploaded = new Map<string, Partial<Record<FaceKey, Uint8Array>>>();
+  private downloads = new Map<string, Promise<Uint8Array>>();
+  private displayed = new Set<string>();
+  private embedded = new WeakMap<PDFDocument, Map<string, Promise<PDFFont>>>();
+  private characterSets = new WeakMap<PDFFont, Set<number>>();
+
+  /** Families that can be picked in the UI: the standard 14, the open font catalog and uploads. */
+  public listFamilies(): FontFamily[] {
+    return [
+      ...STANDARD_FAMILIES,
+      ...CATALOG.map(f => ({ name: f.name, source: 'catalog' as const, description: f.description })),
+      ...Array.from(this.uploaded.keys()).map(name => ({ name, source: 'uploaded' as const })),
+    ];
+  }
+
+  /**
+   * Registers a user's TrueType/OpenType file under its own family name. Bold and italic
+   * files of the same family fill in the matching faces. The font is also added to the
+   * document so the editor canvas can preview it.
+   */
+  public async addFontFile(file: File): Promise<FontFamily> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let parsed: fontkit.Font;
+    try {
+      parsed = fontkit.create(bytes);
+    } catch {
+      throw new Error(`${file.name} is not a TrueType or OpenType font.`);
+    }
+    const name = parsed.familyName || file.name.replace(/\.[^.]+$/, '');
+    const subfamily = (parsed.subfamilyName || '').toLowerCase();
+    const style = { bold: /bold|black|heavy/.test(subfamily), italic: /italic|oblique/.test(subfamily) };
+
+    this.uploaded.set(name, { ...this.uploaded.get(name), [faceKey(style)]: bytes });
+    if (typeof FontFace !== 'undefined') {
+      const face = new FontFace(name, bytes, { weight: style.bold ? 'bold' : 'normal', style: style.italic ? 'italic' : 'normal' });
+      document.fonts.add(await face.load());
+    }
+    return { name, source: 'uploaded' };
+  }
+
+  /** Makes a catalog font available to the canvas so previews match the saved output. */
+  public async loadForDisplay(family: string): Promise<void> {
+    const entry = CATALOG.find(f => f.name === family);
+    if (!entry || this.displayed.has(family) || typeof FontFace === 'undefined') return;
+    this.displayed.add(family);
+    const bytes = await this.download(entry.faces.regular!);
+    document.fonts.add(await new FontFace(family, bytes.buffer as ArrayBuffer).load());
+  }
+
+  /**
+   * Embeds a family into a document: uploaded and catalog fonts are subset through fontkit,
+   * anything else maps to the closest of the 14 standard fonts. Each face is embedded once
+   * per document.
+   */
+  public embedFont(pdfDoc: PDFDocument, family: string, style: FontStyle = {}): Promise<PDFFont> {
+    let cache = this.embedded.get(pdfDoc);
+    if (!cache) {
+      cache = new Map();
+      this.embedded.set(pdfDoc, cache);
+    }
+    const key = `${family}|${faceKey(style)}`;
+    let font = cache.get(key);
+    if (!font) {
+      font = this.loadFace(family, style).then(bytes => {
+        if (!bytes) return pdfDoc.embedFont(standardFontFor(family, style));
+        pdfDoc.registerFontkit(fontkit);
+        return pdfDoc.embedFont(bytes, { subset: true });
+      });
+      cache.set(key, font);
+    }
+    return font;
+  }
+
+  /** The raw font file of an uploaded or catalog family; undefined for the standard 14. */
+  public getFontProgram(family: string, style: FontStyle = {}): Promise<Uint8Array | undefined> {
+    return this.loadFace(family, style);
+  }
+
+  /**
+   * Splits text into runs so every character is drawn with a font that has it: the chosen
+   * family first, then a script-specific catalog font, then Noto Sans.
+   */
+  public async layoutText(pdfDoc: PDFDocument, text: string, family: string, style: FontStyle = {}): Promise<TextRun[]> {
+    const primary = await this.embedFont(pdfDoc, family, style);
+    const runs: TextRun[] = [];
+
+    for (const char of Array.from(text)) {
+      const previous = runs[runs.length - 1];
+      let font = primary;
+      if (previous && (isAttached(char) || /\s/.test(char))) font = previous.font;
+      else if (!this.covers(primary, char)) {
+        const fallback = CATALOG.find(f => f.script?.test(char))?.name || DEFAULT_FALLBACK;
+        font = await this.embedFont(pdfDoc, fallback, style);
+      }
+      if (previous && previous.font === font) previous.text += char;
+      else runs.push({ text: char, font });
+    }
+    return runs;
+  }
+
+  public widthOfRuns(runs: TextRun[], size: number): number {
+    return runs.reduce((sum, run) => sum + run.font.widthOfTextAtSize(run.text, size), 0);
+  }
+
+  /** Breaks text into lines of runs no wider than `maxWidth`, honouring its own line breaks. */
+  public async wrapText(pdfDoc: PDFDocument, text: string, family: string, size: number, maxWidth: number, style: FontStyle = {}): Promise<TextRun[][]> {
+    const layout = (value: string) => this.layoutText(pdfDoc, value, family, style);
+    const widthOf = async (value: string) => this.widthOfRuns(await layout(value), size);
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r\n|\r|\n/)) {
+      let line = '';
+      for (const word of paragraph.split(/(?<=\s)/)) {
+        if (!line || await widthOf(line + word) <= maxWidth) {
+          line += word;
+          continue;
+        }
+        lines.push(line.trimEnd());
+        line = word;
+      }
+      // Words longer than a line, such as URLs, are split between characters
+      while (await widthOf(line) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && await widthOf(line.slice(0, cut)) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+      lines.push(line.trimEnd());
+    }
+    return Promise.all(lines.map(layout));
+  }
+
+  /** Draws runs one after another along the (possibly rotated) baseline; returns the total width. */
+  public drawRuns(page: PDFPage, runs: TextRun[], options: DrawRunsOptions): number {
+    const angle = options.rotate ? (toDegrees(options.rotate) * Math.PI) / 180 : 0;
+    let offset = 0;
+    for (const run of runs) {
+      page.drawText(run.text, {
+        ...options,
+        x: options.x + offset * Math.cos(angle),
+        y: options.y + offset * Math.sin(angle),
+        font: run.font,
+      });
+      offset += run.font.widthOfTextAtSize(run.text, options.size);
+    }
+    return offset;
+  }
+
+  private covers(font: PDFFont, char: string): boolean {
+    let set = this.characterSets.get(font);
+    if (!set) {
+      set = new Set(font.getCharacterSet());
+      this.characterSets.set(font, set);
+    }
+    return set.has(char.codePointAt(0) || 0);
+  }
+
+  private async loadFace(family: string, style: FontStyle): Promise<Uint8Array | undefined> {
+    const key = faceKey(style);
+    const uploaded = this.uploaded.get(family);
+    if (uploaded) return uploaded[key] || uploaded.regular || Object.values(uploaded)[0];
+    const entry = CATALOG.find(f => f.name === family);
+    if (!entry) return undefined;
+    return this.download(entry.faces[key] || (style.italic && entry.faces.italic) || entry.faces.regular!);
+  }
+
+  private download(url: string): Promise<Uint8Array> {
+    let pending = this.downloads.get(url);
+    if (!pending) {
+      pending = fetch(url).then(async res => {
+        if (!res.ok) throw new Error(`Could not download font (${res.status})`);
+        return new Uint8Array(await res.arrayBuffer());
+      });
+      // Let a later call retry after a network failure
+      pending.catch(() => this.downloads.delete(url));
+      this.downloads.set(url, pending);
+    }
+    return pending;
+  }
+}
+
+export const fontService = new FontService();
@@ -0,0 +1,255 @@
+import { PDFDocument, PDFArray, PDFContext, PDFDict, PDFHexString, PDFName, PDFObject, PDFObjectParser, PDFString } from 'pdf-lib';
+import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
+import { ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { pdfEditorService, FormFieldValue } from './pdfEditorService';
+
+export type FormDataFormat = 'xfdf' | 'fdf' | 'json';
+
+export interface CsvFillOptions {
+  flatten: boolean;
+  // Column whose value names each output file; rows are numbered when it is missing or empty
+  fileNameColumn?: string;
+}
+
+interface FieldNode {
+  children: Map<string, FieldNode>;
+  value?: FormFieldValue;
+}
+
+const MIME_TYPES: Record<FormDataFormat, string> = {
+  xfdf: 'application/vnd.adobe.xfdf',
+  fdf: 'application/vnd.fdf',
+  json: 'application/json',
+};
+
+const createProcessedFile = (bytes: Uint8Array, name: string, mimeType: string): ProcessedFile => ({
+  id: crypto.randomUUID(),
+  name,
+  mimeType,
+  dataUrl: arrayBufferToDataURL(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer, mimeType),
+  size: bytes.byteLength,
+});
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// FDF strings: plain literal strings for ASCII, UTF-16BE hex strings otherwise
+const fdfString = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? `(${value.replace(/[\\()]/g, c => `\\${c}`)})`
+    : PDFHexString.fromText(value).toString();
+
+const fdfName = (value: string): string => PDFName.of(value).toString();
+
+const decodePdfValue = (obj: PDFObject | undefined): FormFieldValue | undefined => {
+  if (obj instanceof PDFString || obj instanceof PDFHexString) return obj.decodeText();
+  if (obj instanceof PDFName) return obj.decodeText();
+  if (obj instanceof PDFArray) {
+    return obj.asArray()
+      .map(item => decodePdfValue(item))
+      .filter((v): v is string => typeof v === 'string');
+  }
+  return undefined;
+};
+
+class FormDataService {
+
+  /**
+   * Serializes field values. Dotted names (e.g. "applicant.name") become nested fields
+   * in XFDF/FDF, as Acrobat expects for hierarchical forms.
+   */
+  public exportFormData(values: Record<string, FormFieldValue>, format: FormDataFormat, pdfFileName: string): ProcessedFile {
+    const baseName = pdfFileName.replace(/\.pdf$/i, '');
+    let content: string;
+
+    if (format === 'json') {
+      content = JSON.stringify(values, null, 2);
+    } else if (format === 'xfdf') {
+      content = this.buildXfdf(values, pdfFileName);
+    } else {
+      content = this.buildFdf(values, pdfFileName);
+    }
+
+    // FDF is a binary-safe PDF dialect; hex strings keep it ASCII so a plain byte copy works
+    const bytes = format === 'fdf'
+      ? Uint8Array.from(content, c => c.charCodeAt(0))
+      : new TextEncoder().encode(content);
+    return createProcessedFile(bytes, `${baseName}.${format}`, MIME_TYPES[format]);
+  }
+
+  /**
+   * Reads XFDF, FDF or JSON form data. The format is detected from the content,
+   * so files with a wrong extension still import.
+   */
+  public parseFormData(buffer: ArrayBuffer): Record<string, FormFieldValue> {
+    const bytes = new Uint8Array(buffer);
+    const head = new TextDecoder('latin1').decode(bytes.subarray(0, 1024)).trimStart();
+
+    if (head.startsWith('%FDF')) return this.parseFdf(bytes);
+    const text = new TextDecoder().decode(bytes).replace(/^﻿/, '').trim();
+    if (text.startsWith('<')) return this.parseXfdf(text);
+    if (text.startsWith('{')) return this.parseJson(text);
+    throw new Error('Unrecognized form data. Please use an XFDF, FDF or JSON file.');
+  }
+
+  /**
+   * Fills one copy of the form per CSV row (header row = field names) and bundles them in a ZIP.
+   */
+  public async fillFromCsv(pdfBytes: ArrayBuffer, pdfFileName: string, csvText: string, options: CsvFillOptions): Promise<ProcessedFile> {
+    const workbook = XLSX.read(csvText, { type: 'string', raw: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<Record<string, string>>(sheet, { defval: '', raw: false });
+    if (rows.length === 0) throw new Error('The CSV file has no data rows.');
+
+    const baseName = pdfFileName.replace(/\.pdf$/i, '');
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const pdfDoc = await PDFDocument.load(pdfBytes.slice(0), { updateMetadata: false });
+      pdfEditorService.applyFormValues(pdfDoc, row);
+      if (options.flatten) pdfEditorService.flattenForm(pdfDoc);
+      const filledBytes = await pdfDoc.save();
+
+      const label = options.fileNameColumn ? String(row[options.fileNameColumn] || '').trim() : '';
+      const stem = label ? label.replace(/[^a-z0-9]/gi, '_').toLowerCase() : `${baseName}_${i + 1}`;
+      let name = stem;
+      for (let n = 2; usedNames.has(name); n++) name = `${stem}_${n}`;
+      usedNames.add(name);
+      zip.file(`${name}.pdf`, filledBytes);
+    }
+
+    const zipContent = await zip.generateAsync({ type: 'uint8array' });
+    return createProcessedFile(zipContent, `${baseName}_filled.zip`, 'application/zip');
+  }
+
+  private buildTree(values: Record<string, FormFieldValue>): FieldNode {
+    const root: FieldNode = { children: new Map() };
+    for (const [name, value] of Object.entries(values)) {
+      let node = root;
+      for (const part of name.split('.')) {
+        if (!node.children.has(part)) node.children.set(part, { children: new Map() });
+        node = node.children.get(part)!;
+      }
+      node.value = value;
+    }
+    return root;
+  }
+
+  private buildXfdf(values: Record<string, FormFieldValue>, pdfFileName: string): string {
+    const tree = this.buildTree(values);
+    const render = (node: FieldNode, indent: string): string =>
+      Array.from(node.children.entries()).map(([name, child]) => {
+        const lines = [`${indent}<field name="${escapeXml(name)}">`];
+        if (child.value !== undefined) {
+          const list = Array.isArray(child.value) ? child.value : [typeof child.value === 'boolean' ? (child.value ? 'Yes' : 'Off') : child.value];
+          list.forEach(v => lines.push(`${indent}  <value>${escapeXml(v)}</value>`));
+        }
+        if (child.children.size > 0) lines.push(render(child, indent + '  '));
+        lines.push(`${indent}</field>`);
+        return lines.join('\n');
+      }).join('\n');
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<xfdf xmlns="http://ns.adobe.com/xfdf/" xml:space="preserve">',
+      `  <f href="${escapeXml(pdfFileName)}"/>`,
+      '  <fields>',
+      render(tree, '    '),
+      '  </fields>',
+      '</xfdf>',
+      '',
+    ].join('\n');
+  }
+
+  private buildFdf(values: Record<string, FormFieldValue>, pdfFileName: string): string {
+    const tree = this.buildTree(values);
+    const render = (node: FieldNode): string =>
+      Array.from(node.children.entries()).map(([name, child]) => {
+        const parts = [`/T ${fdfString(name)}`];
+        if (typeof child.value === 'boolean') parts.push(`/V ${fdfName(child.value ? 'Yes' : 'Off')}`);
+        else if (Array.isArray(child.value)) parts.push(`/V [${child.value.map(fdfString).join(' ')}]`);
+        else if (child.value !== undefined) parts.push(`/V ${fdfString(child.value)}`);
+        if (child.children.size > 0) parts.push(`/Kids [\n${render(child)}\n]`);
+        return `<< ${parts.join(' ')} >>`;
+      }).join('\n');
+
+    return [
+      '%FDF-1.2',
+      '%\xe2\xe3\xcf\xd3',
+      '1 0 obj',
+      `<< /FDF << /F ${fdfString(pdfFileName)} /Fields [\n${render(tree)}\n] >> >>`,
+      'endobj',
+      'trailer',
+      '<< /Root 1 0 R >>',
+      '%%EOF',
+      '',
+    ].join('\n');
+  }
+
+  private parseXfdf(text: string): Record<string, FormFieldValue> {
+    const xml = new DOMParser().parseFromString(text, 'application/xml');
+    if (xml.getElementsByTagName('parsererror').length > 0) throw new Error('The XFDF file is not valid XML.');
+
+    const values: Record<string, FormFieldValue> = {};
+    const walk = (parent: Element, prefix: string) => {
+      for (const field of Array.from(parent.children).filter(el => el.localName === 'field')) {
+        const name = prefix + (field.getAttribute('name') || '');
+        const valueEls = Array.from(field.children).filter(el => el.localName === 'value' || el.localName === 'value-richtext');
+        if (valueEls.length === 1) values[name] = valueEls[0].textContent || '';
+        else if (valueEls.length > 1) values[name] = valueEls.map(el => el.textContent || '');
+        walk(field, `${name}.`);
+      }
+    };
+    const fields = Array.from(xml.getElementsByTagName('fields'))[0];
+    if (!fields) throw new Error('The XFDF file does not contain any fields.');
+    walk(fields, '');
+    return values;
+  }
+
+  private parseFdf(bytes: Uint8Array): Record<string, FormFieldValue> {
+    const context = PDFContext.create();
+    const text = new TextDecoder('latin1').decode(bytes);
+
+    // FDF files hold a single catalog object; parse it with pdf-lib's object parser
+    const match = /\d+\s+\d+\s+obj/.exec(text);
+    if (!match) throw new Error('The FDF file has no data object.');
+    const catalog = PDFObjectParser.forBytes(bytes.subarray(match.index + match[0].length), context).parseObject();
+    const fdf = catalog instanceof PDFDict ? catalog.get(PDFName.of('FDF')) : undefined;
+    const fields = fdf instanceof PDFDict ? fdf.get(PDFName.of('Fields')) : undefined;
+    if (!(fields instanceof PDFArray)) throw new Error('The FDF file does not contain any fields.');
+
+    const values: Record<string, FormFieldValue> = {};
+    const walk = (list: PDFArray, prefix: string) => {
+      for (const item of list.asArray()) {
+        if (!(item instanceof PDFDict)) continue;
+        const partial = decodePdfValue(item.get(PDFName.of('T')));
+        const name = typeof partial === 'string' ? prefix + partial : prefix.replace(/\.$/, '');
+        const value = decodePdfValue(item.get(PDFName.of('V')));
+        if (value !== undefined && name) values[name] = value;
+        const kids = item.get(PDFName.of('Kids'));
+        if (kids instanceof PDFArray) walk(kids, name ? `${name}.` : '');
+      }
+    };
+    walk(fields, '');
+    return values;
+  }
+
+  private parseJson(text: string): Record<string, FormFieldValue> {
+    const data = JSON.parse(text);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('JSON form data must be an object of field names to values.');
+
+    const values: Record<string, FormFieldValue> = {};
+    for (const [name, value] of Object.entries(data)) {
+      if (typeof value === 'boolean' || typeof value === 'string') values[name] = value;
+      else if (Array.isArray(value)) values[name] = value.map(String);
+      else if (value !== null && value !== undefined) values[name] = String(value);
+    }
+    return values;
+  }
+}
+
+export const formDataService = new FormDataService();
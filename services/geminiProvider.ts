@@ -0,0 +1,70 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { AiProvider, AiRequest, AiMedia, AiSettings, parseJsonReply } from './aiProvider';
+
+/** Google Gemini through the @google/genai SDK. */
+export class GeminiProvider implements AiProvider {
+  readonly name = 'Gemini';
+  readonly capabilities = { pdfInput: true, imageEdit: true, maxInputChars: 500000 };
+
+  constructor(private settings: AiSettings) {}
+
+  private getAiInstance(): GoogleGenAI {
+    // A key entered in AI settings wins over the one injected from the environment at build time.
+    const apiKey = this.settings.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API_KEY is not set in environment variables. Please select an API key in the AI Studio sidebar, or choose another provider in AI settings.");
+    }
+    return new GoogleGenAI({ apiKey });
+  }
+
+  private async generate(request: AiRequest, json: boolean): Promise<GenerateContentResponse> {
+    const ai = this.getAiInstance();
+    const parts: any[] = [{ text: request.prompt }];
+    for (const media of request.media || []) {
+      parts.push({ inlineData: { mimeType: media.mimeType, data: media.data } });
+    }
+
+    const config: Record<string, unknown> = {};
+    if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+    if (json) config.responseMimeType = 'application/json';
+
+    return ai.models.generateContent({
+      model: this.settings.model,
+      contents: [
+        ...(request.history || []).map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+        { role: 'user', parts },
+      ],
+      config,
+    });
+  }
+
+  public async generateText(request: AiRequest): Promise<string> {
+    const response = await this.generate(request, false);
+    return (response.text || '').trim();
+  }
+
+  public async generateJson(request: AiRequest): Promise<any> {
+    const response = await this.generate(request, true);
+    return parseJsonReply(response.text || '');
+  }
+
+  public async editImage(image: AiMedia, instruction: string): Promise<AiMedia> {
+    const ai = this.getAiInstance();
+    const response = await ai.models.generateContent({
+      model: this.settings.imageModel,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: image.mimeType, data: image.data } },
+          { text: `Edit this image: ${instruction}. Return ONLY the edited image.` },
+        ],
+      },
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return { mimeType: part.inlineData.mimeType || 'image/png', data: part.inlineData.data };
+      }
+    }
+    throw new Error("AI did not return an image. It might have refused the request due to safety policies. Please try a different prompt.");
+  }
+}
@@ -1,6 +1,6 @@
 import { AppFile, ProcessedFile } from '../types';
 import { arrayBufferToDataURL, dataURLtoBlob } from '../utils/fileUtils';
-import { geminiService } from './geminiService';
+import { aiService } from './aiService';
 
 declare const fabric: any;
 
@@ -142,7 +142,7 @@ class ImageEnhancerService {
       `;
 
       try {
-          const result = await geminiService.generateJson(prompt, [base64]);
+          const result = await aiService.generateJson(prompt, [base64]);
           return {
               blurScore: result.blurScore || 0,
               suggestedUpscale: result.suggestedUpscale || 2,
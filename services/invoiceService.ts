@@ -0,0 +1,287 @@
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { AiMedia, stripDataUrl } from './aiProvider';
+import { AiService, aiService } from './aiService';
+import { excelService } from './excelService';
+import { pdfService } from './pdfService';
+
+export type InvoiceExportFormat = 'json' | 'csv' | 'xlsx';
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+}
+
+export interface InvoiceData {
+  documentType: 'invoice' | 'receipt';
+  vendorName: string;
+  vendorAddress?: string;
+  vendorTaxId?: string;
+  invoiceNumber?: string;
+  invoiceDate?: string; // YYYY-MM-DD
+  dueDate?: string; // YYYY-MM-DD
+  currency?: string; // ISO 4217 code, e.g. "EUR"
+  lineItems: InvoiceLineItem[];
+  subtotal?: number;
+  tax?: number;
+  shipping?: number;
+  discount?: number; // positive amount taken off
+  total?: number;
+}
+
+/** A consistency problem found after extraction. Errors mean the numbers do not add up. */
+export interface InvoiceIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface InvoiceExtraction {
+  fileName: string;
+  pagesRead: number;
+  data: InvoiceData;
+  issues: InvoiceIssue[];
+}
+
+// Invoices are short; later pages are usually terms and conditions
+const MAX_PAGES = 6;
+const RENDER_SCALE = 1.5;
+
+const MIME_TYPES: Record<InvoiceExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const SCHEMA = `{
+  "documentType": "invoice" | "receipt",
+  "vendorName": "string",
+  "vendorAddress": "string",
+  "vendorTaxId": "string (VAT number, EIN, GST number, ...)",
+  "invoiceNumber": "string",
+  "invoiceDate": "YYYY-MM-DD",
+  "dueDate": "YYYY-MM-DD",
+  "currency": "ISO 4217 code, e.g. USD",
+  "lineItems": [{ "description": "string", "quantity": number, "unitPrice": number, "amount": number }],
+  "subtotal": number,
+  "tax": number,
+  "shipping": number,
+  "discount": number,
+  "total": number
+}`;
+
+const PROMPT = `Extract the data of the invoice or receipt shown in these page images.
+Return ONLY a JSON object with this schema; leave out any field the document does not show:
+${SCHEMA}
+
+Rules:
+- Copy numbers exactly as printed, as plain JSON numbers without currency symbols or thousands separators.
+- "amount" is the line total as printed. "tax" is the total of all tax lines. "discount" is a positive number.
+- Include every line item, including those continued on later pages; do not include subtotal, tax or total lines as items.
+- Dates must be YYYY-MM-DD; use the document's conventions (e.g. day first in Europe) to read ambiguous dates.`;
+
+const createProcessedFile = (bytes: Uint8Array, name: string, mimeType: string): ProcessedFile => ({
+  id: crypto.randomUUID(),
+  name,
+  mimeType,
+  dataUrl: arrayBufferToDataURL(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer, mimeType),
+  size: bytes.byteLength,
+});
+
+const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined);
+
+/** Reads an amount given as a number or as printed text, e.g. "1.234,50 €" or "(12.00)". */
+export const parseAmount = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  let text = value.replace(/[^\d.,()-]/g, '');
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  text = text.replace(/[()-]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  // The separator that comes last is the decimal one; a lone comma before three digits groups thousands ("1,234")
+  if (lastComma > lastDot && !(lastDot < 0 && /,\d{3}$/.test(text))) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  const number = parseFloat(text);
+  return Number.isFinite(number) ? (negative ? -number : number) : undefined;
+};
+
+const toDate = (value: unknown): string | undefined => {
+  const text = optionalText(value);
+  return text && /^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(Date.parse(text)) ? text : undefined;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Checks a reply against `SCHEMA`; amounts given as text are converted, unusable fields dropped. */
+const validateInvoice = (reply: any): InvoiceData => {
+  if (!reply || typeof reply !== 'object' || Array.isArray(reply)) throw new Error('The AI reply is not an invoice object.');
+  const lineItems: InvoiceLineItem[] = (Array.isArray(reply.lineItems) ? reply.lineItems : [])
+    .filter((item: any) => item && typeof item === 'object')
+    .map((item: any) => {
+      const quantity = parseAmount(item.quantity);
+      const unitPrice = parseAmount(item.unitPrice);
+      const amount = parseAmount(item.amount) ?? (quantity !== undefined && unitPrice !== undefined ? round(quantity * unitPrice) : undefined);
+      return { description: optionalText(item.description) || '', quantity, unitPrice, amount };
+    })
+    .filter((item: Partial<InvoiceLineItem>) => item.amount !== undefined) as InvoiceLineItem[];
+
+  const data: InvoiceData = {
+    documentType: reply.documentType === 'receipt' ? 'receipt' : 'invoice',
+    vendorName: optionalText(reply.vendorName) || '',
+    vendorAddress: optionalText(reply.vendorAddress),
+    vendorTaxId: optionalText(reply.vendorTaxId),
+    invoiceNumber: optionalText(reply.invoiceNumber),
+    invoiceDate: toDate(reply.invoiceDate),
+    dueDate: toDate(reply.dueDate),
+    currency: optionalText(reply.currency)?.toUpperCase(),
+    lineItems,
+    subtotal: parseAmount(reply.subtotal),
+    tax: parseAmount(reply.tax),
+    shipping: parseAmount(reply.shipping),
+    discount: parseAmount(reply.discount) !== undefined ? Math.abs(parseAmount(reply.discount)!) : undefined,
+    total: parseAmount(reply.total),
+  };
+  if (!data.vendorName && data.total === undefined && lineItems.length === 0) {
+    throw new Error('The AI reply did not contain any invoice data.');
+  }
+  return data;
+};
+
+const formatAmount = (value: number, currency?: string) => `${currency ? `${currency} ` : ''}${value.toFixed(2)}`;
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const SUMMARY_HEADER = ['File', 'Type', 'Vendor', 'Vendor tax ID', 'Invoice number', 'Invoice date', 'Due date', 'Currency', 'Subtotal', 'Tax', 'Shipping', 'Discount', 'Total', 'Line items', 'Line items sum', 'Status', 'Issues'];
+
+const summaryRow = ({ fileName, data, issues }: InvoiceExtraction): (string | number | undefined)[] => [
+  fileName,
+  data.documentType,
+  data.vendorName,
+  data.vendorTaxId,
+  data.invoiceNumber,
+  data.invoiceDate,
+  data.dueDate,
+  data.currency,
+  data.subtotal,
+  data.tax,
+  data.shipping,
+  data.discount,
+  data.total,
+  data.lineItems.length,
+  round(data.lineItems.reduce((sum, item) => sum + item.amount, 0)),
+  issues.some(issue => issue.severity === 'error') ? 'Mismatch' : issues.length > 0 ? 'Review' : 'OK',
+  issues.map(issue => issue.message).join(' | '),
+];
+
+/**
+ * Reads invoices and receipts (PDFs or photos) into structured data with a vision model,
+ * then checks that line items, tax and totals add up. Results export as JSON, CSV (one row
+ * per invoice) or an Excel workbook with an invoice sheet and a line item sheet.
+ */
+export class InvoiceService {
+  constructor(private ai: AiService = aiService) {}
+
+  public async extractInvoice(file: AppFile, onProgress?: (message: string) => void): Promise<InvoiceExtraction> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const images: AiMedia[] = [];
+    let pageCount = 1;
+
+    if (file.type.startsWith('image/')) {
+      images.push({ mimeType: file.type, data: stripDataUrl(arrayBufferToDataURL(file.arrayBuffer, file.type)) });
+    } else if (file.type === 'application/pdf') {
+      pageCount = await pdfService.getPageCount(file);
+      for (let i = 0; i < Math.min(pageCount, MAX_PAGES); i++) {
+        onProgress?.(`Rendering page ${i + 1} of ${Math.min(pageCount, MAX_PAGES)}...`);
+        images.push({ mimeType: 'image/jpeg', data: stripDataUrl(await pdfService.renderPage(file, i, RENDER_SCALE)) });
+      }
+    } else {
+      throw new Error('Only PDFs and images can be read as invoices.');
+    }
+
+    onProgress?.('Extracting invoice data...');
+    const data = await this.ai.generateStructured({ prompt: PROMPT, media: images }, validateInvoice);
+    const issues = this.checkInvoice(data);
+    if (pageCount > MAX_PAGES) {
+      issues.push({ severity: 'warning', message: `Only the first ${MAX_PAGES} of ${pageCount} pages were read.` });
+    }
+    return { fileName: file.name, pagesRead: images.length, data, issues };
+  }
+
+  /**
+   * Checks that the numbers add up: each line's quantity × unit price, the line items against
+   * the subtotal (or, for tax-inclusive receipts, the total), and subtotal + tax + shipping −
+   * discount against the total. Differences up to one cent per line are treated as rounding.
+   */
+  public checkInvoice(data: InvoiceData): InvoiceIssue[] {
+    const issues: InvoiceIssue[] = [];
+    const currency = data.currency;
+    const tolerance = 0.01 * Math.max(1, data.lineItems.length);
+    const differs = (a: number, b: number) => Math.abs(a - b) > tolerance + 1e-9;
+
+    if (!data.vendorName) issues.push({ severity: 'warning', message: 'Vendor name not found.' });
+    if (!data.invoiceNumber && data.documentType === 'invoice') issues.push({ severity: 'warning', message: 'Invoice number not found.' });
+    if (!data.invoiceDate) issues.push({ severity: 'warning', message: 'Invoice date not found.' });
+    if (data.total === undefined) issues.push({ severity: 'warning', message: 'Total not found.' });
+
+    data.lineItems.forEach((item, i) => {
+      if (item.quantity !== undefined && item.unitPrice !== undefined && Math.abs(item.quantity * item.unitPrice - item.amount) > 0.01 + 1e-9) {
+        issues.push({
+          severity: 'warning',
+          message: `Line ${i + 1}${item.description ? ` (${item.description})` : ''}: ${item.quantity} × ${item.unitPrice} is ${round(item.quantity * item.unitPrice)}, not ${item.amount}.`,
+        });
+      }
+    });
+
+    const itemsSum = round(data.lineItems.reduce((sum, item) => sum + item.amount, 0));
+    const adjustments = (data.shipping || 0) - (data.discount || 0);
+    if (data.lineItems.length > 0) {
+      if (data.subtotal !== undefined) {
+        if (differs(itemsSum, data.subtotal)) {
+          issues.push({ severity: 'error', message: `Line items add up to ${formatAmount(itemsSum, currency)}, but the subtotal is ${formatAmount(data.subtotal, currency)}.` });
+        }
+      } else if (data.total !== undefined) {
+        const taxExclusive = round(itemsSum + (data.tax || 0) + adjustments);
+        const taxInclusive = round(itemsSum + adjustments);
+        if (differs(taxExclusive, data.total) && differs(taxInclusive, data.total)) {
+          issues.push({ severity: 'error', message: `Line items${data.tax ? ' plus tax' : ''} add up to ${formatAmount(taxExclusive, currency)}, but the total is ${formatAmount(data.total, currency)}.` });
+        }
+      }
+    }
+
+    if (data.subtotal !== undefined && data.total !== undefined) {
+      const expected = round(data.subtotal + (data.tax || 0) + adjustments);
+      // Tax-inclusive subtotals (common on receipts) already contain the tax
+      if (differs(expected, data.total) && differs(round(data.subtotal + adjustments), data.total)) {
+        issues.push({ severity: 'error', message: `Subtotal + tax${data.shipping ? ' + shipping' : ''}${data.discount ? ' − discount' : ''} is ${formatAmount(expected, currency)}, but the total is ${formatAmount(data.total, currency)}.` });
+      }
+    }
+    return issues;
+  }
+
+  public async exportInvoices(extractions: InvoiceExtraction[], format: InvoiceExportFormat, baseName: string = 'invoices'): Promise<ProcessedFile> {
+    if (format === 'xlsx') {
+      const lineRows: (string | number)[][] = [['File', 'Invoice number', 'Vendor', 'Description', 'Quantity', 'Unit price', 'Amount', 'Currency']];
+      extractions.forEach(({ fileName, data }) => data.lineItems.forEach(item => lineRows.push([
+        fileName, data.invoiceNumber || '', data.vendorName, item.description, item.quantity ?? '', item.unitPrice ?? '', item.amount, data.currency || '',
+      ])));
+      const invoiceRows = [SUMMARY_HEADER, ...extractions.map(e => summaryRow(e).map(value => value ?? ''))];
+      return excelService.generateExcel([{ name: 'Invoices', rows: invoiceRows }, { name: 'Line items', rows: lineRows }], `${baseName}.xlsx`);
+    }
+
+    const content = format === 'json'
+      ? JSON.stringify(extractions, null, 2)
+      // The byte order mark makes Excel read the file as UTF-8
+      : '﻿' + [SUMMARY_HEADER, ...extractions.map(summaryRow)].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+    return createProcessedFile(new TextEncoder().encode(content), `${baseName}.${format}`, MIME_TYPES[format]);
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,341 @@
+import { PDFDocument, PDFDict, PDFHexString, PDFName, PDFRawStream, PDFStream, PDFString, decodePDFRawStream } from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { formatPdfDate, parsePdfDate } from '../utils/pdfText';
+import { compressionService } from './compressionService';
+
+/** Document properties as shown in a reader's "Document Properties" dialog. */
+export interface PdfMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string; // Application the original document was made with
+  producer: string; // Application that wrote the PDF
+  creationDate?: string; // ISO timestamp
+  modificationDate?: string;
+  custom: Record<string, string>; // Other Info dictionary entries, mirrored in XMP under pdfx
+}
+
+/** PDF/A identification schema values, e.g. part 2, conformance "B" for PDF/A-2b. */
+export interface PdfaIdentification {
+  part: number;
+  conformance: string;
+}
+
+export interface MetadataReadResult {
+  metadata: PdfMetadata;
+  xmp?: string; // The raw XMP packet, if the file has one
+}
+
+const NS = {
+  x: 'adobe:ns:meta/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  pdf: 'http://ns.adobe.com/pdf/1.3/',
+  pdfx: 'http://ns.adobe.com/pdfx/1.3/',
+  pdfaid: 'http://www.aiim.org/pdfa/ns/id/',
+  xml: 'http://www.w3.org/XML/1998/namespace',
+};
+
+const STANDARD_KEYS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer', 'CreationDate', 'ModDate', 'Trapped'];
+
+const EMPTY_PACKET = `<x:xmpmeta xmlns:x="${NS.x}"><rdf:RDF xmlns:rdf="${NS.rdf}"><rdf:Description rdf:about=""/></rdf:RDF></x:xmpmeta>`;
+
+// Room for readers that update the packet in place without rewriting the file
+const PACKET_PADDING = `${' '.repeat(99)}\n`.repeat(20);
+
+// XMP property names are XML names; custom entries that are not stay in the Info dictionary only
+const isXmlName = (name: string) => /^[A-Za-z_][\w.-]*$/.test(name);
+
+const textOf = (dict: PDFDict, key: string): string | undefined => {
+  const value = dict.lookup(PDFName.of(key));
+  if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText();
+  if (value instanceof PDFName) return value.decodeText();
+  return undefined;
+};
+
+const xmpDate = (iso: string) => new Date(iso).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+const infoDict = (pdfDoc: PDFDocument): PDFDict | undefined => {
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+  return info instanceof PDFDict ? info : undefined;
+};
+
+class MetadataService {
+
+  public async readMetadata(file: AppFile): Promise<MetadataReadResult> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { ignoreEncryption: true, updateMetadata: false });
+    return this.getMetadata(pdfDoc);
+  }
+
+  /**
+   * Reads the Info dictionary, falling back to the XMP packet for properties the Info
+   * dictionary lacks (newer writers may only fill in XMP).
+   */
+  public getMetadata(pdfDoc: PDFDocument): MetadataReadResult {
+    const info = infoDict(pdfDoc);
+    const xmp = this.getXmpPacket(pdfDoc);
+    const doc = xmp ? this.parseXmp(xmp) : undefined;
+
+    const fromXmp = (ns: string, name: string): string | undefined => {
+      const element = doc?.getElementsByTagNameNS(ns, name)[0];
+      if (!element) return undefined;
+      // Alt and Seq containers hold the value in their first item
+      const item = element.getElementsByTagNameNS(NS.rdf, 'li')[0];
+      return (item || element).textContent?.trim() || undefined;
+    };
+    const attributeOf = (ns: string, name: string) => {
+      if (!doc) return undefined;
+      const descriptions = Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'));
+      return descriptions.map(d => d.getAttributeNS(ns, name)).find(Boolean) || undefined;
+    };
+    const value = (key: string, ns: string, name: string) =>
+      (info && textOf(info, key)) || fromXmp(ns, name) || attributeOf(ns, name) || '';
+    const date = (key: string, name: string) => {
+      const raw = info && textOf(info, key);
+      const parsed = raw ? parsePdfDate(raw) : undefined;
+      const fallback = fromXmp(NS.xmp, name) || attributeOf(NS.xmp, name);
+      const fallbackDate = fallback ? new Date(fallback) : undefined;
+      return parsed?.toISOString() || (fallbackDate && !isNaN(fallbackDate.getTime()) ? fallbackDate.toISOString() : undefined);
+    };
+
+    const custom: Record<string, string> = {};
+    if (info) {
+      for (const [key] of info.entries()) {
+        const name = key.decodeText();
+        const text = textOf(info, name);
+        if (!STANDARD_KEYS.includes(name) && text !== undefined) custom[name] = text;
+      }
+    }
+    if (doc) {
+      for (const element of Array.from(doc.getElementsByTagNameNS(NS.pdfx, '*'))) {
+        if (!(element.localName in custom)) custom[element.localName] = element.textContent?.trim() || '';
+      }
+    }
+
+    return {
+      metadata: {
+        title: value('Title', NS.dc, 'title'),
+        author: value('Author', NS.dc, 'creator'),
+        subject: value('Subject', NS.dc, 'description'),
+        keywords: value('Keywords', NS.pdf, 'Keywords'),
+        creator: value('Creator', NS.xmp, 'CreatorTool'),
+        producer: value('Producer', NS.pdf, 'Producer'),
+        creationDate: date('CreationDate', 'CreateDate'),
+        modificationDate: date('ModDate', 'ModifyDate'),
+        custom,
+      },
+      xmp,
+    };
+  }
+
+  /**
+   * Writes the properties to both the Info dictionary and the XMP packet so readers that
+   * prefer either agree. Empty values are removed. Properties of the existing packet that
+   * are not edited here (PDF/A identification, rights, ...) are kept.
+   *
+   * With `pdfa`, the packet is rebuilt from scratch with the PDF/A identification schema, and
+   * custom properties stay in the Info dictionary only: PDF/A allows XMP properties outside
+   * the predefined schemas only when an extension schema describes them.
+   */
+  public setMetadata(pdfDoc: PDFDocument, metadata: PdfMetadata, pdfa?: PdfaIdentification) {
+    const context = pdfDoc.context;
+    let info = infoDict(pdfDoc);
+    if (!info) {
+      info = context.obj({});
+      context.trailerInfo.Info = context.register(info);
+    }
+
+    const setText = (key: string, text: string | undefined) => {
+      if (text) info!.set(PDFName.of(key), PDFHexString.fromText(text));
+      else info!.delete(PDFName.of(key));
+    };
+    const setDate = (key: string, iso: string | undefined) => {
+      if (iso) info!.set(PDFName.of(key), PDFString.of(formatPdfDate(new Date(iso))));
+      else info!.delete(PDFName.of(key));
+    };
+
+    setText('Title', metadata.title);
+    setText('Author', metadata.author);
+    setText('Subject', metadata.subject);
+    setText('Keywords', metadata.keywords);
+    setText('Creator', metadata.creator);
+    setText('Producer', metadata.producer);
+    setDate('CreationDate', metadata.creationDate);
+    setDate('ModDate', metadata.modificationDate);
+    for (const [key] of info.entries()) {
+      const name = key.decodeText();
+      if (!STANDARD_KEYS.includes(name) && !(name in metadata.custom)) info.delete(key);
+    }
+    for (const [name, text] of Object.entries(metadata.custom)) {
+      if (name && !STANDARD_KEYS.includes(name)) setText(name, text);
+    }
+
+    this.writeXmp(pdfDoc, metadata, pdfa);
+  }
+
+  /** The PDF/A part and conformance level the XMP packet claims, if any. */
+  public getPdfaIdentification(pdfDoc: PDFDocument): PdfaIdentification | undefined {
+    const xmp = this.getXmpPacket(pdfDoc);
+    const doc = xmp ? this.parseXmp(xmp) : undefined;
+    if (!doc) return undefined;
+    const read = (name: string) => {
+      const element = doc.getElementsByTagNameNS(NS.pdfaid, name)[0];
+      if (element) return element.textContent?.trim();
+      return Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description')).map(d => d.getAttributeNS(NS.pdfaid, name)).find(Boolean) || undefined;
+    };
+    const part = read('part');
+    if (!part) return undefined;
+    return { part: parseInt(part), conformance: read('conformance') || '' };
+  }
+
+  public async applyMetadata(file: AppFile, metadata: PdfMetadata): Promise<ProcessedFile> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+    this.setMetadata(pdfDoc, metadata);
+    return this.save(pdfDoc, file.name);
+  }
+
+  /**
+   * Removes everything that describes the document or where it came from: the Info
+   * dictionary, XMP packets on the document and on individual objects, application
+   * private data (PieceInfo) and page thumbnails.
+   */
+  public stripMetadata(pdfDoc: PDFDocument) {
+    const context = pdfDoc.context;
+    context.trailerInfo.Info = undefined;
+    const strip = (dict: PDFDict) => {
+      dict.delete(PDFName.of('Metadata'));
+      dict.delete(PDFName.of('PieceInfo'));
+      dict.delete(PDFName.of('LastModified'));
+    };
+    strip(pdfDoc.catalog);
+    for (const page of pdfDoc.getPages()) {
+      strip(page.node);
+      page.node.delete(PDFName.of('Thumb'));
+    }
+    for (const [, obj] of context.enumerateIndirectObjects()) {
+      if (obj instanceof PDFStream) strip(obj.dict);
+      else if (obj instanceof PDFDict) strip(obj);
+    }
+  }
+
+  public async stripMetadataFromFile(file: AppFile): Promise<ProcessedFile> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+    this.stripMetadata(pdfDoc);
+    return this.save(pdfDoc, file.name);
+  }
+
+  private async save(pdfDoc: PDFDocument, name: string): Promise<ProcessedFile> {
+    // Replaced or removed packets would otherwise still be written
+    compressionService.removeUnreachableObjects(pdfDoc);
+    const pdfBytes = await pdfDoc.save();
+    return {
+      id: crypto.randomUUID(),
+      name,
+      mimeType: 'application/pdf',
+      dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'),
+      size: pdfBytes.byteLength,
+    };
+  }
+
+  private getXmpPacket(pdfDoc: PDFDocument): string | undefined {
+    const stream = pdfDoc.catalog.lookupMaybe(PDFName.of('Metadata'), PDFStream);
+    if (!stream) return undefined;
+    try {
+      const bytes = stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+      return new TextDecoder().decode(bytes);
+    } catch (e) {
+      console.warn('Could not decode the XMP packet', e);
+      return undefined;
+    }
+  }
+
+  private parseXmp(packet: string): Document | undefined {
+    const start = packet.search(/<(x:xmpmeta|rdf:RDF)\b/);
+    const end = packet.search(/<\?xpacket\s+end/);
+    if (start < 0) return undefined;
+    const doc = new DOMParser().parseFromString(packet.slice(start, end > start ? end : undefined).trim(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return undefined;
+    return doc;
+  }
+
+  private writeXmp(pdfDoc: PDFDocument, metadata: PdfMetadata, pdfa?: PdfaIdentification) {
+    const existing = pdfa ? undefined : this.getXmpPacket(pdfDoc);
+    const doc = (existing && this.parseXmp(existing)) || new DOMParser().parseFromString(EMPTY_PACKET, 'application/xml');
+    const rdf = doc.getElementsByTagNameNS(NS.rdf, 'RDF')[0];
+    let description = rdf.getElementsByTagNameNS(NS.rdf, 'Description')[0];
+    if (!description) {
+      description = doc.createElementNS(NS.rdf, 'rdf:Description');
+      description.setAttributeNS(NS.rdf, 'rdf:about', '');
+      rdf.appendChild(description);
+    }
+    const descriptions = Array.from(rdf.getElementsByTagNameNS(NS.rdf, 'Description'));
+
+    // Drops every form of the property (element or attribute shorthand), then adds the new value
+    const set = (ns: string, prefix: string, name: string, value: string | undefined, container?: 'Alt' | 'Seq' | 'Bag', items?: string[]) => {
+      for (const d of descriptions) {
+        d.removeAttributeNS(ns, name);
+        Array.from(d.childNodes)
+          .filter(node => node.nodeType === 1 && (node as Element).namespaceURI === ns && (node as Element).localName === name)
+          .forEach(node => d.removeChild(node));
+      }
+      if (!value) return;
+      if (!description.lookupNamespaceURI(prefix)) description.setAttributeNS('http://www.w3.org/2000/xmlns/', `xmlns:${prefix}`, ns);
+      const element = doc.createElementNS(ns, `${prefix}:${name}`);
+      if (container) {
+        const list = doc.createElementNS(NS.rdf, `rdf:${container}`);
+        for (const item of items || [value]) {
+          const li = doc.createElementNS(NS.rdf, 'rdf:li');
+          if (container === 'Alt') li.setAttributeNS(NS.xml, 'xml:lang', 'x-default');
+          li.textContent = item;
+          list.appendChild(li);
+        }
+        element.appendChild(list);
+      } else {
+        element.textContent = value;
+      }
+      description.appendChild(element);
+    };
+
+    const keywords = metadata.keywords.split(/[;,]/).map(k => k.trim()).filter(Boolean);
+    set(NS.dc, 'dc', 'format', 'application/pdf');
+    set(NS.dc, 'dc', 'title', metadata.title, 'Alt');
+    set(NS.dc, 'dc', 'creator', metadata.author, 'Seq');
+    set(NS.dc, 'dc', 'description', metadata.subject, 'Alt');
+    set(NS.dc, 'dc', 'subject', keywords.length ? metadata.keywords : undefined, 'Bag', keywords);
+    set(NS.pdf, 'pdf', 'Keywords', metadata.keywords);
+    set(NS.pdf, 'pdf', 'Producer', metadata.producer);
+    set(NS.xmp, 'xmp', 'CreatorTool', metadata.creator);
+    set(NS.xmp, 'xmp', 'CreateDate', metadata.creationDate && xmpDate(metadata.creationDate));
+    set(NS.xmp, 'xmp', 'ModifyDate', metadata.modificationDate && xmpDate(metadata.modificationDate));
+    set(NS.xmp, 'xmp', 'MetadataDate', xmpDate(new Date().toISOString()));
+
+    // Custom properties are replaced as a whole, like the Info dictionary's
+    for (const d of descriptions) {
+      Array.from(d.childNodes)
+        .filter(node => node.nodeType === 1 && (node as Element).namespaceURI === NS.pdfx)
+        .forEach(node => d.removeChild(node));
+    }
+    if (pdfa) {
+      set(NS.pdfaid, 'pdfaid', 'part', String(pdfa.part));
+      set(NS.pdfaid, 'pdfaid', 'conformance', pdfa.conformance);
+    } else {
+      for (const [name, value] of Object.entries(metadata.custom)) {
+        if (isXmlName(name) && !STANDARD_KEYS.includes(name)) set(NS.pdfx, 'pdfx', name, value);
+      }
+    }
+
+    const xml = new XMLSerializer().serializeToString(doc.documentElement);
+    const packet = `<?xpacket begin="${'\ufeff'}" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${xml}\n${PACKET_PADDING}<?xpacket end="w"?>`;
+    // Left uncompressed so tools that scan files for XMP can find it
+    const stream = pdfDoc.context.stream(new TextEncoder().encode(packet), { Type: 'Metadata', Subtype: 'XML' });
+    pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(stream));
+  }
+}
+
+export const metadataService = new MetadataService();
@@ -0,0 +1,43 @@
+import { AiProvider, AiCapabilities, AiRequest, AiMedia } from './aiProvider';
+
+export type MockRequestKind = 'text' | 'json' | 'image';
+
+/** Produces the reply for a request: a string for text, any value for JSON. */
+export type MockResponder = (request: AiRequest, kind: MockRequestKind) => unknown | Promise<unknown>;
+
+const defaultResponder: MockResponder = (request, kind) =>
+  kind === 'json' ? {} : `Mock response to: ${request.prompt.trim().split(/\s+/).slice(0, 12).join(' ')}`;
+
+/**
+ * A deterministic provider for tests: replies come from `respond` (by default an echo of
+ * the prompt's first words, or `{}` for JSON) and every request is recorded in `calls`.
+ * Image edits return the input image unless the responder returns another one. Capabilities
+ * can be overridden, e.g. a small `maxInputChars` to exercise chunking.
+ */
+export class MockAiProvider implements AiProvider {
+  readonly name = 'Mock';
+  readonly capabilities: AiCapabilities;
+  readonly calls: { kind: MockRequestKind; request: AiRequest }[] = [];
+
+  constructor(private respond: MockResponder = defaultResponder, capabilities: Partial<AiCapabilities> = {}) {
+    this.capabilities = { pdfInput: true, imageEdit: true, maxInputChars: 24000, ...capabilities };
+  }
+
+  public async generateText(request: AiRequest): Promise<string> {
+    this.calls.push({ kind: 'text', request });
+    return String(await this.respond(request, 'text'));
+  }
+
+  public async generateJson(request: AiRequest): Promise<any> {
+    this.calls.push({ kind: 'json', request });
+    // Round-trip so callers never share (and mutate) the responder's objects
+    return JSON.parse(JSON.stringify((await this.respond(request, 'json')) ?? null));
+  }
+
+  public async editImage(image: AiMedia, instruction: string): Promise<AiMedia> {
+    const request: AiRequest = { prompt: instruction, media: [image] };
+    this.calls.push({ kind: 'image', request });
+    const edited = await this.respond(request, 'image');
+    return edited && typeof edited === 'object' && 'data' in edited ? edited as AiMedia : image;
+  }
+}
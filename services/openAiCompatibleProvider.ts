@@ -0,0 +1,70 @@
+import { AiProvider, AiRequest, AiMedia, AiSettings, parseJsonReply } from './aiProvider';
+
+/**
+ * Any server speaking the OpenAI chat completions API: a local Ollama or llama.cpp
+ * server, LM Studio, vLLM or OpenAI itself. Vision needs a model that accepts images
+ * (e.g. llava, llama3.2-vision). PDFs and image editing are not part of that API.
+ */
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly name = 'OpenAI-compatible';
+  // Local servers often run with an 8k token context
+  readonly capabilities = { pdfInput: false, imageEdit: false, maxInputChars: 24000 };
+
+  constructor(private settings: AiSettings) {}
+
+  private async complete(request: AiRequest, json: boolean): Promise<string> {
+    const endpoint = this.settings.endpoint.replace(/\/+$/, '');
+    if (!endpoint) throw new Error('No endpoint is set for the OpenAI-compatible provider. Add one in AI settings.');
+
+    const images = (request.media || []).filter(media => media.mimeType.startsWith('image/'));
+    const messages: any[] = [];
+    if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+    for (const message of request.history || []) {
+      messages.push({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text });
+    }
+    messages.push({
+      role: 'user',
+      content: images.length === 0 ? request.prompt : [
+        { type: 'text', text: request.prompt },
+        ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+      ],
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.settings.apiKey) headers.Authorization = `Bearer ${this.settings.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.settings.model,
+          messages,
+          ...(json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+    } catch (e) {
+      throw new Error(`Could not reach ${endpoint}. Check that the server is running and allows requests from this page (CORS).`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${response.status}: ${detail.slice(0, 300) || response.statusText}`);
+    }
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content || '').trim();
+  }
+
+  public async generateText(request: AiRequest): Promise<string> {
+    return this.complete(request, false);
+  }
+
+  public async generateJson(request: AiRequest): Promise<any> {
+    return parseJsonReply(await this.complete(request, true));
+  }
+
+  public async editImage(_image: AiMedia, _instruction: string): Promise<AiMedia> {
+    throw new Error('Image editing is not available with an OpenAI-compatible server. Switch to Gemini in AI settings to use generative edits.');
+  }
+}
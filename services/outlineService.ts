@@ -0,0 +1,193 @@
+import {
+  PDFDocument, PDFArray, PDFDict, PDFHexString, PDFName, PDFNull, PDFNumber, PDFObject, PDFRef, PDFString,
+} from 'pdf-lib';
+
+export interface OutlineNode {
+  title: string;
+  // Explicit destination ([pageRef /XYZ left top zoom] etc.) in the document's own context
+  dest?: PDFArray;
+  // Zero-based page the destination points at, when it could be resolved
+  pageIndex?: number;
+  // Any other action (web link, script, ...), in the document's own context
+  action?: PDFDict;
+  color?: number[]; // RGB components of the title
+  flags?: number; // 1 = italic, 2 = bold
+  open: boolean;
+  children: OutlineNode[];
+  ref?: PDFRef; // The outline item this node was read from
+}
+
+const decodeText = (obj: PDFObject | undefined): string | undefined =>
+  obj instanceof PDFString || obj instanceof PDFHexString ? obj.decodeText() : undefined;
+
+class OutlineService {
+
+  /**
+   * Collects every named destination of a document, from both the PDF 1.1 /Dests
+   * dictionary and the PDF 1.2+ /Names /Dests name tree.
+   */
+  public getNamedDestinations(pdfDoc: PDFDocument): Map<string, PDFObject> {
+    const named = new Map<string, PDFObject>();
+    const catalog = pdfDoc.catalog;
+
+    const legacy = catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    if (legacy) {
+      for (const [key, value] of legacy.entries()) named.set(key.decodeText(), value);
+    }
+
+    const visited = new Set<PDFObject>();
+    const walkTree = (node: PDFDict | undefined) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+      if (names) {
+        for (let i = 0; i + 1 < names.size(); i += 2) {
+          const key = decodeText(names.lookup(i));
+          if (key !== undefined) named.set(key, names.get(i + 1));
+        }
+      }
+      const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+      if (kids) {
+        for (let i = 0; i < kids.size(); i++) walkTree(kids.lookupMaybe(i, PDFDict));
+      }
+    };
+    walkTree(catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('Dests'), PDFDict));
+
+    return named;
+  }
+
+  /**
+   * Turns any destination form (explicit array, name, string or a dictionary with /D)
+   * into an explicit destination array. Returns undefined for dangling names.
+   */
+  public resolveDestination(pdfDoc: PDFDocument, dest: PDFObject | undefined, named?: Map<string, PDFObject>): PDFArray | undefined {
+    const context = pdfDoc.context;
+    for (let depth = 0; depth < 5 && dest; depth++) {
+      if (dest instanceof PDFRef) dest = context.lookup(dest);
+      if (dest instanceof PDFArray) return dest;
+      if (dest instanceof PDFDict) {
+        dest = dest.get(PDFName.of('D'));
+        continue;
+      }
+      const name = dest instanceof PDFName ? dest.decodeText() : decodeText(dest);
+      if (name === undefined) return undefined;
+      named = named || this.getNamedDestinations(pdfDoc);
+      dest = named.get(name);
+    }
+    return undefined;
+  }
+
+  /**
+   * Reads the document outline (bookmarks) into a plain tree. Both /Dest entries and
+   * /GoTo actions are resolved to explicit destinations.
+   */
+  public readOutline(pdfDoc: PDFDocument): OutlineNode[] {
+    const context = pdfDoc.context;
+    const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+    if (!outlines) return [];
+
+    const named = this.getNamedDestinations(pdfDoc);
+    const pageRefs = pdfDoc.getPages().map(p => p.ref);
+    const visited = new Set<PDFDict>();
+
+    const readSiblings = (first: PDFObject | undefined): OutlineNode[] => {
+      const nodes: OutlineNode[] = [];
+      let ref = first;
+      let current = first instanceof PDFRef ? context.lookup(first) : first;
+      while (current instanceof PDFDict && !visited.has(current)) {
+        visited.add(current);
+
+        let destObj = current.get(PDFName.of('Dest'));
+        const action = current.lookupMaybe(PDFName.of('A'), PDFDict);
+        if (!destObj && action && action.get(PDFName.of('S')) === PDFName.of('GoTo')) {
+          destObj = action.get(PDFName.of('D'));
+        }
+        const dest = this.resolveDestination(pdfDoc, destObj, named);
+        const target = dest?.get(0);
+        const pageIndex = target instanceof PDFRef ? pageRefs.findIndex(r => r === target || r.toString() === target.toString()) : -1;
+        const count = current.lookupMaybe(PDFName.of('Count'), PDFNumber)?.asNumber() || 0;
+        const color = current.lookupMaybe(PDFName.of('C'), PDFArray)?.asArray();
+
+        nodes.push({
+          title: decodeText(current.lookup(PDFName.of('Title'))) || '',
+          dest,
+          pageIndex: pageIndex >= 0 ? pageIndex : undefined,
+          action: action && !destObj ? action : undefined,
+          color: color?.every(c => c instanceof PDFNumber) ? color.map(c => (c as PDFNumber).asNumber()) : undefined,
+          flags: current.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber(),
+          open: count > 0,
+          children: readSiblings(current.get(PDFName.of('First'))),
+          ref: ref instanceof PDFRef ? ref : undefined,
+        });
+
+        ref = current.get(PDFName.of('Next'));
+        current = ref instanceof PDFRef ? context.lookup(ref) : ref;
+      }
+      return nodes;
+    };
+
+    return readSiblings(outlines.get(PDFName.of('First')));
+  }
+
+  /**
+   * Replaces the document outline with the given tree. Nodes without an explicit
+   * destination fall back to the top of `pageIndex`, then to their action; nodes with
+   * none of these get no target.
+   */
+  public writeOutline(pdfDoc: PDFDocument, nodes: OutlineNode[]) {
+    const context = pdfDoc.context;
+    const pageRefs = pdfDoc.getPages().map(p => p.ref);
+
+    if (nodes.length === 0) {
+      pdfDoc.catalog.delete(PDFName.of('Outlines'));
+      return;
+    }
+
+    const rootRef = context.nextRef();
+
+    // Returns the number of visible descendants, which is what /Count holds for open items
+    const writeSiblings = (siblings: OutlineNode[], parentRef: PDFRef, parent: PDFDict): number => {
+      const refs = siblings.map(() => context.nextRef());
+      let visible = 0;
+
+      siblings.forEach((node, i) => {
+        const item = context.obj({}) as PDFDict;
+        item.set(PDFName.of('Title'), PDFHexString.fromText(node.title));
+        item.set(PDFName.of('Parent'), parentRef);
+        if (i > 0) item.set(PDFName.of('Prev'), refs[i - 1]);
+        if (i < refs.length - 1) item.set(PDFName.of('Next'), refs[i + 1]);
+
+        if (node.dest) {
+          item.set(PDFName.of('Dest'), node.dest);
+        } else if (node.pageIndex !== undefined && pageRefs[node.pageIndex]) {
+          item.set(PDFName.of('Dest'), context.obj([pageRefs[node.pageIndex], PDFName.of('XYZ'), PDFNull, PDFNull, PDFNull]));
+        } else if (node.action) {
+          item.set(PDFName.of('A'), node.action);
+        }
+        if (node.color) item.set(PDFName.of('C'), context.obj(node.color));
+        if (node.flags) item.set(PDFName.of('F'), PDFNumber.of(node.flags));
+
+        if (node.children.length > 0) {
+          const descendants = writeSiblings(node.children, refs[i], item);
+          item.set(PDFName.of('Count'), PDFNumber.of(node.open ? descendants : -descendants));
+          if (node.open) visible += descendants;
+        }
+        context.assign(refs[i], item);
+        visible++;
+      });
+
+      parent.set(PDFName.of('First'), refs[0]);
+      parent.set(PDFName.of('Last'), refs[refs.length - 1]);
+      return visible;
+    };
+
+    const root = context.obj({ Type: 'Outlines' }) as PDFDict;
+    const visible = writeSiblings(nodes, rootRef, root);
+    root.set(PDFName.of('Count'), PDFNumber.of(visible));
+    context.assign(rootRef, root);
+
+    pdfDoc.catalog.set(PDFName.of('Outlines'), rootRef);
+  }
+}
+
+export const outlineService = new OutlineService();
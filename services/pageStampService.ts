@@ -0,0 +1,174 @@
+import { PDFDocument, rgb, degrees } from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { canvasPointToUser } from '../utils/pdfText';
+import { fontService } from './fontService';
+import { compressionService } from './compressionService';
+
+export type StampAnchor = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export type StampPageFilter = 'all' | 'odd' | 'even';
+
+export const STAMP_ANCHORS: StampAnchor[] = ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'];
+
+/** Variables that can be used in a template, with a short explanation for the UI. */
+export const STAMP_VARIABLES: { token: string; description: string }[] = [
+  { token: '{n}', description: 'Page number' },
+  { token: '{N}', description: 'Total pages' },
+  { token: '{bates}', description: 'Bates number' },
+  { token: '{filename}', description: 'File name without extension' },
+  { token: '{title}', description: 'Document title (file name if unset)' },
+  { token: '{date}', description: "Today's date" },
+];
+
+export interface BatesSettings {
+  prefix: string;
+  suffix: string;
+  start: number;
+  digits: number; // Zero-padded to this many digits
+}
+
+export interface PageStampSettings {
+  templates: Partial<Record<StampAnchor, string>>; // Empty anchors are left alone
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  marginX: number; // Points from the left/right edge
+  marginY: number; // Points from the top/bottom edge
+  startNumber: number; // Value of {n} on the first page
+  skipFirstPage: boolean;
+  pageFilter: StampPageFilter;
+  pageRange?: string; // e.g. "1-3, 7, 10-"; empty means every page
+  bates: BatesSettings;
+}
+
+export interface PageStampResult {
+  file: ProcessedFile;
+  stampedPages: number;
+  nextBatesNumber: number; // Where the next file of a set continues
+}
+
+/** Parses "1-3, 7, 10-" into 0-based page indices; throws on anything it cannot read. */
+const parsePageRange = (text: string, pageCount: number): Set<number> => {
+  const pages = new Set<number>();
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d*)\s*(-?)\s*(\d*)$/);
+    if (!match || (!match[1] && !match[3])) throw new Error(`Invalid page range "${part}".`);
+    const start = match[1] ? parseInt(match[1]) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3]) : pageCount) : start;
+    for (let p = Math.max(1, start); p <= Math.min(end, pageCount); p++) pages.add(p - 1);
+  }
+  return pages;
+};
+
+class PageStampService {
+
+  private hexToRgb(hex: string) {
+    const r = parseInt(hex.slice(1, 3), 16) / 255;
+    const g = parseInt(hex.slice(3, 5), 16) / 255;
+    const b = parseInt(hex.slice(5, 7), 16) / 255;
+    return rgb(r, g, b);
+  }
+
+  public formatBates(number: number, bates: BatesSettings): string {
+    return `${bates.prefix}${String(number).padStart(bates.digits, '0')}${bates.suffix}`;
+  }
+
+  /**
+   * Fills in the template variables for one page. Unknown variables are kept as typed so
+   * mistakes show up in the output instead of disappearing.
+   */
+  public fillTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (token, name: string) => (name in values ? values[name] : token));
+  }
+
+  /** 0-based indices of the pages that pass the page filters. */
+  public selectPages(pageCount: number, settings: PageStampSettings): number[] {
+    const range = settings.pageRange?.trim() ? parsePageRange(settings.pageRange, pageCount) : undefined;
+    const selected: number[] = [];
+    for (let i = 0; i < pageCount; i++) {
+      if (settings.skipFirstPage && i === 0) continue;
+      if (settings.pageFilter === 'odd' && i % 2 === 1) continue;
+      if (settings.pageFilter === 'even' && i % 2 === 0) continue;
+      if (range && !range.has(i)) continue;
+      selected.push(i);
+    }
+    return selected;
+  }
+
+  /**
+   * Stamps page numbers, Bates numbers and header/footer text on every selected page.
+   * Bates numbers start at `batesStart` (the settings' start by default) and increase by one
+   * per stamped page, so a set of files can be numbered continuously by passing each
+   * result's `nextBatesNumber` on to the next file.
+   */
+  public async stampPdf(file: AppFile, settings: PageStampSettings, batesStart = settings.bates.start): Promise<PageStampResult> {
+    if (!file.arrayBuffer) throw new Error("File buffer missing");
+
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer, { updateMetadata: false });
+    const pages = pdfDoc.getPages();
+    const color = this.hexToRgb(settings.color);
+    const anchors = STAMP_ANCHORS.filter(a => settings.templates[a]?.trim());
+    const usesBates = anchors.some(a => settings.templates[a]!.includes('{bates}'));
+
+    const filename = file.name.replace(/\.pdf$/i, '');
+    const common = {
+      N: String(settings.startNumber + pages.length - 1),
+      filename,
+      title: pdfDoc.getTitle() || filename,
+      date: new Date().toLocaleDateString(),
+    };
+
+    let bates = batesStart;
+    let stampedPages = 0;
+
+    for (const i of this.selectPages(pages.length, settings)) {
+      const page = pages[i];
+      const values = { ...common, n: String(settings.startNumber + i), bates: this.formatBates(bates, settings.bates) };
+
+      // Lay out in the page as it is displayed, then map into user space so the text
+      // reads upright on rotated pages too
+      const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+      const crop = page.getCropBox();
+      const [width, height] = rotation % 180 === 0 ? [crop.width, crop.height] : [crop.height, crop.width];
+
+      for (const anchor of anchors) {
+        const text = this.fillTemplate(settings.templates[anchor]!, values);
+        const runs = await fontService.layoutText(pdfDoc, text, settings.fontFamily);
+        if (runs.length === 0) continue;
+        const textWidth = fontService.widthOfRuns(runs, settings.fontSize);
+        const [vertical, horizontal] = anchor.split('-');
+
+        const cx = horizontal === 'left' ? settings.marginX
+          : horizontal === 'right' ? width - settings.marginX - textWidth
+          : (width - textWidth) / 2;
+        const cy = vertical === 'top'
+          ? settings.marginY + runs[0].font.heightAtSize(settings.fontSize, { descender: false })
+          : height - settings.marginY;
+        const [x, y] = canvasPointToUser(page, cx, cy);
+
+        fontService.drawRuns(page, runs, { x, y, size: settings.fontSize, color, rotate: degrees(rotation) });
+      }
+
+      if (usesBates) bates++;
+      stampedPages++;
+    }
+
+    compressionService.removeUnreachableObjects(pdfDoc);
+    const pdfBytes = await pdfDoc.save();
+
+    return {
+      file: {
+        id: crypto.randomUUID(),
+        name: `numbered_${file.name}`,
+        mimeType: 'application/pdf',
+        dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'),
+        size: pdfBytes.byteLength,
+      },
+      stampedPages,
+      nextBatesNumber: bates,
+    };
+  }
+}
+
+export const pageStampService = new PageStampService();
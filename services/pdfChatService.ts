@@ -0,0 +1,160 @@
+import { AppFile } from '../types';
+import { AiService, ChatMessage, aiService } from './aiService';
+import { pdfToWordService } from './pdfToWordService';
+
+/** Anything that can continue a conversation: the configured AI provider in the app, a local fake in tests. */
+export type ChatModel = Pick<AiService, 'chat'>;
+
+export interface ChatTurn {
+  question: string;
+  answer: string;
+  citations: number[]; // 0-based pages the answer cites, in order of first mention
+  contextPages: number[]; // 0-based pages whose text was sent with the question
+}
+
+/** A conversation about one document. Page texts are extracted once when it starts. */
+export interface PdfChatSession {
+  fileId: string;
+  fileName: string;
+  pages: string[];
+  turns: ChatTurn[];
+}
+
+// How much page text goes along with a question. Short documents fit entirely.
+const MAX_CONTEXT_CHARS = 30000;
+const MAX_PAGE_CHARS = 8000;
+// Earlier turns are resent as plain question and answer; older ones are dropped
+const MAX_HISTORY_TURNS = 10;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out', 'has', 'his',
+  'how', 'its', 'may', 'who', 'did', 'does', 'this', 'that', 'with', 'from', 'they', 'them', 'what', 'when', 'where', 'which',
+  'will', 'would', 'there', 'their', 'about', 'into', 'than', 'then', 'these', 'those', 'been', 'have', 'were', 'should',
+  'could', 'document', 'page', 'pages', 'please', 'tell', 'say', 'says',
+]);
+
+const SYSTEM_INSTRUCTION = `You answer questions about a PDF document using only the page excerpts provided with each question.
+Every statement taken from the document must cite its page as [p. N], or [pp. N, M] for several pages, using the page numbers shown in the excerpts.
+If the excerpts do not contain the answer, say so and suggest what to ask instead. Do not invent content or page numbers.
+Answer in the language of the question. Keep answers concise.`;
+
+// A page citation; group 1 is the page list
+const CITATION = /[[(](?:pp?\.|pages?)\s*([\d\s,–—-]+(?:\s*(?:and|&)\s*\d+)?)[\])]/gi;
+
+const termsOf = (text: string) => (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []).filter(t => !STOP_WORDS.has(t));
+
+/** Reads "[p. 3]", "[pp. 2, 5-6]" and "(page 4)" style citations as 0-based page indices. */
+export const parseCitations = (answer: string, pageCount: number): number[] => {
+  const found: number[] = [];
+  const pattern = new RegExp(CITATION);
+  for (let m = pattern.exec(answer); m; m = pattern.exec(answer)) {
+    for (const part of m[1].split(/,|and|&/)) {
+      const [from, to = from] = part.split(/[–—-]/).map(n => parseInt(n.trim()));
+      if (isNaN(from)) continue;
+      for (let page = from; page <= Math.min(isNaN(to) ? from : to, from + 50); page++) {
+        if (page >= 1 && page <= pageCount && !found.includes(page - 1)) found.push(page - 1);
+      }
+    }
+  }
+  return found;
+};
+
+/** Splits an answer around its citations: even entries are plain text, odd entries citations. */
+export const splitCitations = (answer: string): string[] => {
+  const parts: string[] = [];
+  const pattern = new RegExp(CITATION);
+  let last = 0;
+  for (let m = pattern.exec(answer); m; m = pattern.exec(answer)) {
+    parts.push(answer.slice(last, m.index), m[0]);
+    last = m.index + m[0].length;
+  }
+  parts.push(answer.slice(last));
+  return parts;
+};
+
+/**
+ * Multi-turn questions and answers about one PDF. The model is injected so the service can
+ * run against a local fake (`new PdfChatService(fakeModel)`) without network access.
+ */
+export class PdfChatService {
+  constructor(private model: ChatModel = aiService) {}
+
+  /** Extracts the document's text page by page and starts an empty conversation. */
+  public async startSession(file: AppFile): Promise<PdfChatSession> {
+    const pages = await pdfToWordService.extractPageTexts(file);
+    if (pages.every(text => !text.trim())) {
+      throw new Error('This PDF has no text layer (it is probably scanned). Run it through PDF OCR first, then chat with the result.');
+    }
+    return { fileId: file.id, fileName: file.name, pages, turns: [] };
+  }
+
+  /**
+   * Asks a question about the document. Only the pages most relevant to the question (and
+   * those the previous answer cited, for follow-ups) are sent, together with the earlier
+   * questions and answers as plain text; the document itself is never resent. The turn is
+   * added to the session and returned.
+   */
+  public async ask(session: PdfChatSession, question: string): Promise<ChatTurn> {
+    const contextPages = this.selectPages(session, question);
+    const excerpts = contextPages.map(i => `[Page ${i + 1}]\n${session.pages[i].slice(0, MAX_PAGE_CHARS)}`).join('\n\n');
+
+    const messages: ChatMessage[] = [];
+    for (const turn of session.turns.slice(-MAX_HISTORY_TURNS)) {
+      messages.push({ role: 'user', text: turn.question });
+      messages.push({ role: 'model', text: turn.answer });
+    }
+    messages.push({
+      role: 'user',
+      text: `Excerpts from "${session.fileName}" (${session.pages.length} pages):\n\n${excerpts}\n\nQuestion: ${question}`,
+    });
+
+    const answer = await this.model.chat(SYSTEM_INSTRUCTION, messages);
+    const turn: ChatTurn = { question, answer, citations: parseCitations(answer, session.pages.length), contextPages };
+    session.turns.push(turn);
+    return turn;
+  }
+
+  /**
+   * Picks the pages to send with a question. Documents that fit the budget go in whole;
+   * otherwise pages are ranked by how often they use the question's rarer words (tf-idf),
+   * and the pages cited in the previous answer are always included.
+   */
+  private selectPages(session: PdfChatSession, question: string): number[] {
+    const { pages } = session;
+    const sizes = pages.map(text => Math.min(text.length, MAX_PAGE_CHARS));
+    if (sizes.reduce((a, b) => a + b, 0) <= MAX_CONTEXT_CHARS) return pages.map((_, i) => i).filter(i => pages[i].trim());
+
+    const previous = session.turns[session.turns.length - 1];
+    // Follow-ups like "what about the second one?" lean on the previous question's words
+    const queryTerms = termsOf(`${question} ${previous?.question || ''}`);
+    const pageTerms = pages.map(termsOf);
+    const documentFrequency = new Map<string, number>();
+    pageTerms.forEach(terms => new Set(terms).forEach(t => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1)));
+
+    const scores = pageTerms.map(terms => {
+      if (terms.length === 0) return 0;
+      const counts = new Map<string, number>();
+      terms.forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+      return queryTerms.reduce((score, term) => {
+        const tf = counts.get(term) || 0;
+        return tf ? score + (1 + Math.log(tf)) * Math.log(pages.length / documentFrequency.get(term)!) : score;
+      }, 0);
+    });
+
+    const ranked = pages.map((_, i) => i).filter(i => scores[i] > 0).sort((a, b) => scores[b] - scores[a]);
+    // Without any matching words, the opening pages usually say what the document is about
+    const candidates = [...(previous?.citations || []), ...ranked, ...(ranked.length ? [] : [0, 1, 2])];
+
+    const selected: number[] = [];
+    let used = 0;
+    for (const i of candidates) {
+      if (i >= pages.length || selected.includes(i) || !pages[i].trim()) continue;
+      if (used + sizes[i] > MAX_CONTEXT_CHARS && selected.length > 0) continue;
+      selected.push(i);
+      used += sizes[i];
+    }
+    return selected.sort((a, b) => a - b);
+  }
+}
+
+export const pdfChatService = new PdfChatService();
@@ -1,8 +1,15 @@
 
-import { PDFDocument, rgb, StandardFonts, PDFFont, PDFName, PDFString, degrees } from 'pdf-lib';
+import {
+  PDFDocument, rgb, PDFName, PDFString, degrees, PDFDict, PDFRef, PDFArray, PDFNumber, PDFObject,
+  PDFTextField, PDFCheckBox, PDFRadioGroup, PDFDropdown, PDFOptionList, PDFSignature, PDFField,
+  PDFStream, pushGraphicsState, popGraphicsState, concatTransformationMatrix, drawObject,
+} from 'pdf-lib';
 import { AppFile, ProcessedFile } from '../types';
 import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { Matrix } from '../utils/contentStream';
+import { numbersOf, transformBox } from '../utils/pdfText';
 import { pdfService, getPdfJs } from './pdfService';
+import { fontService } from './fontService';
 
 export interface FabricObject {
   type: string;
@@ -41,6 +48,65 @@ export interface TextItem {
     height: number;
 }
 
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'optionlist' | 'signature' | 'button';
+export type FormFieldValue = string | boolean | string[];
+
+/** Widget rectangle in page points with a top-left origin, matching the editor canvas at scale 1. */
+export interface FormWidgetRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface FormFieldInfo {
+  name: string;
+  type: FormFieldType;
+  value: FormFieldValue;
+  options?: string[];
+  multiline?: boolean;
+  readOnly?: boolean;
+  maxLength?: number;
+  widgets: { pageIndex: number; rect: FormWidgetRect; exportValue?: string }[];
+}
+
+export interface NewFormField {
+  name: string;
+  type: 'text' | 'checkbox' | 'signature';
+  pageIndex: number;
+  rect: FormWidgetRect;
+}
+
+export interface FormSaveOptions {
+  values: Record<string, FormFieldValue>;
+  newFields?: NewFormField[];
+  flatten?: boolean;
+}
+
+const getFieldType = (field: PDFField): FormFieldType => {
+  if (field instanceof PDFTextField) return 'text';
+  if (field instanceof PDFCheckBox) return 'checkbox';
+  if (field instanceof PDFRadioGroup) return 'radio';
+  if (field instanceof PDFDropdown) return 'dropdown';
+  if (field instanceof PDFOptionList) return 'optionlist';
+  if (field instanceof PDFSignature) return 'signature';
+  return 'button';
+};
+
+// Widgets do not always carry a /P entry, so map every widget dict to its page by scanning /Annots
+const mapWidgetsToPages = (pdfDoc: PDFDocument): Map<PDFDict, number> => {
+  const map = new Map<PDFDict, number>();
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const annots = page.node.Annots();
+    if (!annots) return;
+    for (let i = 0; i < annots.size(); i++) {
+      const annot = annots.lookupMaybe(i, PDFDict);
+      if (annot) map.set(annot, pageIndex);
+    }
+  });
+  return map;
+};
+
 const hexToRgb = (hex: string | undefined) => {
   if (!hex || typeof hex !== 'string' || hex === 'transparent') return undefined;
   if (hex.startsWith('rgb')) {
@@ -109,32 +175,6 @@ export class PdfEditorService {
       });
   }
 
-  private async getPdfFont(pdfDoc: PDFDocument, family: string, weight: string = 'normal', style: string = 'normal'): Promise<PDFFont> {
-    const isBold = weight === 'bold' || weight === '700';
-    const isItalic = style === 'italic';
-    
-    // Normalize family name
-    const fam = family.toLowerCase();
-
-    if (fam.includes('times')) {
-        if (isBold && isItalic) return pdfDoc.embedFont(StandardFonts.TimesRomanBoldItalic);
-        if (isBold) return pdfDoc.embedFont(StandardFonts.TimesRomanBold);
-        if (isItalic) return pdfDoc.embedFont(StandardFonts.TimesRomanItalic);
-        return pdfDoc.embedFont(StandardFonts.TimesRoman);
-    } 
-    if (fam.includes('courier') || fam.includes('mono')) {
-        if (isBold && isItalic) return pdfDoc.embedFont(StandardFonts.CourierBoldOblique);
-        if (isBold) return pdfDoc.embedFont(StandardFonts.CourierBold);
-        if (isItalic) return pdfDoc.embedFont(StandardFonts.CourierOblique);
-        return pdfDoc.embedFont(StandardFonts.Courier);
-    }
-    // Default Helvetica (Arimo replacement)
-    if (isBold && isItalic) return pdfDoc.embedFont(StandardFonts.HelveticaBoldOblique);
-    if (isBold) return pdfDoc.embedFont(StandardFonts.HelveticaBold);
-    if (isItalic) return pdfDoc.embedFont(StandardFonts.HelveticaOblique);
-    return pdfDoc.embedFont(StandardFonts.Helvetica);
-  }
-
   public async extractTextData(file: AppFile): Promise<Map<number, TextItem[]>> {
       if (!file.arrayBuffer) throw new Error('File buffer missing');
       const pdfjs = await getPdfJs();
@@ -165,10 +205,190 @@ export class PdfEditorService {
       return textMap;
   }
 
-  public async savePdf(originalFile: AppFile, pagesData: { pageIndex: number, objects: FabricObject[] }[], scaleFactor: number = 1.0): Promise<ProcessedFile> {
+  /**
+   * Reads the AcroForm fields of a document together with where their widgets sit on each page.
+   */
+  public async extractFormFields(file: AppFile): Promise<FormFieldInfo[]> {
+      if (!file.arrayBuffer) throw new Error('File buffer missing');
+      const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { ignoreEncryption: true });
+      const pages = pdfDoc.getPages();
+      const widgetPages = mapWidgetsToPages(pdfDoc);
+      const form = pdfDoc.getForm();
+
+      return form.getFields().map(field => {
+          const type = getFieldType(field);
+          let value: FormFieldValue = '';
+          let options: string[] | undefined;
+
+          if (field instanceof PDFTextField) value = field.getText() || '';
+          else if (field instanceof PDFCheckBox) value = field.isChecked();
+          else if (field instanceof PDFRadioGroup) { value = field.getSelected() || ''; options = field.getOptions(); }
+          else if (field instanceof PDFDropdown) { value = field.getSelected()[0] || ''; options = field.getOptions(); }
+          else if (field instanceof PDFOptionList) { value = field.getSelected(); options = field.getOptions(); }
+
+          const widgets = field.acroField.getWidgets().flatMap((widget, widgetIndex) => {
+              const pageIndex = widgetPages.get(widget.dict);
+              if (pageIndex === undefined) return [];
+              // pdf.js lays out the canvas from the crop box, so measure from its top-left corner
+              const cropBox = pages[pageIndex].getCropBox();
+              const r = widget.getRectangle();
+              return [{
+                  pageIndex,
+                  rect: { left: r.x - cropBox.x, top: cropBox.y + cropBox.height - (r.y + r.height), width: r.width, height: r.height },
+                  // With an /Opt array the on-states are indices, and options follow widget order
+                  exportValue: field instanceof PDFRadioGroup ? options?.[widgetIndex] ?? widget.getOnValue()?.decodeText() : undefined,
+              }];
+          });
+
+          return {
+              name: field.getName(),
+              type,
+              value,
+              options,
+              multiline: field instanceof PDFTextField ? field.isMultiline() : undefined,
+              maxLength: field instanceof PDFTextField ? field.getMaxLength() : undefined,
+              readOnly: field.isReadOnly(),
+              widgets,
+          };
+      });
+  }
+
+  /**
+   * Writes values into existing fields. Unknown names and values a field rejects
+   * (e.g. too long for its max length) are skipped with a warning.
+   */
+  public applyFormValues(pdfDoc: PDFDocument, values: Record<string, FormFieldValue>) {
+      const form = pdfDoc.getForm();
+      for (const field of form.getFields()) {
+          const name = field.getName();
+          if (!(name in values) || field.isReadOnly()) continue;
+          const value = values[name];
+          try {
+              if (field instanceof PDFTextField) {
+                  field.setText(String(value ?? ''));
+              } else if (field instanceof PDFCheckBox) {
+                  // Imported data carries export values such as "Yes" or "On"; only explicit off-values uncheck
+                  const checked = value === true || (typeof value === 'string' && !/^(off|false|no|0|)$/i.test(value.trim()));
+                  if (checked) field.check(); else field.uncheck();
+              } else if (field instanceof PDFRadioGroup) {
+                  if (value) field.select(String(value)); else field.clear();
+              } else if (field instanceof PDFDropdown) {
+                  if (value) field.select(String(value)); else field.clear();
+              } else if (field instanceof PDFOptionList) {
+                  const selected = Array.isArray(value) ? value : String(value).split(/\s*[,;]\s*/).filter(Boolean);
+                  if (selected.length) field.select(selected); else field.clear();
+              }
+          } catch (e) {
+              console.warn(`Could not set form field "${name}"`, e);
+          }
+      }
+  }
+
+  private addFormFields(pdfDoc: PDFDocument, newFields: NewFormField[]) {
+      const form = pdfDoc.getForm();
+      const pages = pdfDoc.getPages();
+
+      for (const def of newFields) {
+          const page = pages[def.pageIndex];
+          if (!page) continue;
+          const cropBox = page.getCropBox();
+          const x = cropBox.x + def.rect.left;
+          const y = cropBox.y + cropBox.height - def.rect.top - def.rect.height;
+          const { width, height } = def.rect;
+
+          if (def.type === 'text') {
+              form.createTextField(def.name).addToPage(page, { x, y, width, height, borderWidth: 1, borderColor: rgb(0.6, 0.6, 0.6) });
+          } else if (def.type === 'checkbox') {
+              form.createCheckBox(def.name).addToPage(page, { x, y, width, height, borderWidth: 1, borderColor: rgb(0.6, 0.6, 0.6) });
+          } else {
+              // pdf-lib cannot create signature fields, so build the merged field/widget dictionary by hand
+              const context = pdfDoc.context;
+              const fieldRef = context.register(context.obj({
+                  Type: 'Annot', Subtype: 'Widget', FT: 'Sig', T: PDFString.of(def.name),
+                  Rect: [x, y, x + width, y + height], F: 4, P: page.ref,
+                  MK: { BC: [0.6, 0.6, 0.6] },
+              }));
+              page.node.addAnnot(fieldRef);
+              form.acroForm.addField(fieldRef);
+          }
+      }
+  }
+
+  /**
+   * Burns every widget's current appearance into the page content and removes the form.
+   * Unlike pdf-lib's flatten(), widgets without an appearance (e.g. empty signature
+   * fields) are dropped instead of aborting the whole save.
+   */
+  public flattenForm(pdfDoc: PDFDocument) {
+      const form = pdfDoc.getForm();
+      const pages = pdfDoc.getPages();
+      const widgetPages = mapWidgetsToPages(pdfDoc);
+
+      try {
+          form.updateFieldAppearances();
+      } catch (e) {
+          console.warn('Could not refresh all field appearances before flattening', e);
+      }
+
+      for (const field of form.getFields()) {
+          for (const widget of field.acroField.getWidgets()) {
+              const pageIndex = widgetPages.get(widget.dict);
+              if (pageIndex === undefined) continue;
+              const page = pages[pageIndex];
+
+              // The raw entry, since the stream has to be referenced from the page resources
+              let appearance: PDFObject | undefined = widget.dict.lookupMaybe(PDFName.of('AP'), PDFDict)?.get(PDFName.of('N'));
+              const states = appearance instanceof PDFRef ? pdfDoc.context.lookup(appearance) : appearance;
+              if (states instanceof PDFDict && !(states instanceof PDFStream) && (field instanceof PDFCheckBox || field instanceof PDFRadioGroup)) {
+                  appearance = states.get(field.acroField.getValue()) ?? states.get(PDFName.of('Off'));
+              }
+              const flags = widget.dict.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() || 0;
+              const hidden = (flags & 2) !== 0;
+
+              const stream = appearance instanceof PDFRef ? pdfDoc.context.lookup(appearance) : undefined;
+              if (appearance instanceof PDFRef && stream instanceof PDFStream && !hidden) {
+                  // Like pdf-lib's flatten(): the BBox, as placed by the form's Matrix, is fitted onto the Rect
+                  const rect = widget.getRectangle();
+                  const [bx0, by0, bx1, by1] = numbersOf(stream.dict.lookupMaybe(PDFName.of('BBox'), PDFArray)) || [0, 0, rect.width, rect.height];
+                  const matrix = (numbersOf(stream.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray)) || [1, 0, 0, 1, 0, 0]) as Matrix;
+                  const placed = transformBox(matrix, bx0, by0, bx1, by1);
+                  const sx = placed.x1 > placed.x0 ? rect.width / (placed.x1 - placed.x0) : 1;
+                  const sy = placed.y1 > placed.y0 ? rect.height / (placed.y1 - placed.y0) : 1;
+                  const key = page.node.newXObject('FlatWidget', appearance);
+                  page.pushOperators(
+                      pushGraphicsState(),
+                      concatTransformationMatrix(sx, 0, 0, sy, rect.x - placed.x0 * sx, rect.y - placed.y0 * sy),
+                      drawObject(key),
+                      popGraphicsState(),
+                  );
+              }
+          }
+      }
+
+      // Drop every widget annotation, then the form itself
+      for (const page of pages) {
+          const annots = page.node.Annots();
+          if (!annots) continue;
+          const kept = annots.asArray().filter(ref => {
+              const annot = pdfDoc.context.lookup(ref);
+              return !(annot instanceof PDFDict && annot.get(PDFName.of('Subtype')) === PDFName.of('Widget'));
+          });
+          page.node.set(PDFName.of('Annots'), pdfDoc.context.obj(kept) as PDFArray);
+      }
+      pdfDoc.catalog.delete(PDFName.of('AcroForm'));
+  }
+
+  public async savePdf(originalFile: AppFile, pagesData: { pageIndex: number, objects: FabricObject[] }[], scaleFactor: number = 1.0, formOptions?: FormSaveOptions): Promise<ProcessedFile> {
     if (!originalFile.arrayBuffer) throw new Error('File buffer missing');
-    const pdfDoc = await PDFDocument.load(originalFile.arrayBuffer);
+    const pdfDoc = await PDFDocument.load(originalFile.arrayBuffer, { updateMetadata: false });
     const pages = pdfDoc.getPages();
+
+    if (formOptions) {
+        if (formOptions.newFields?.length) this.addFormFields(pdfDoc, formOptions.newFields);
+        this.applyFormValues(pdfDoc, formOptions.values);
+        // Flatten before drawing overlays so Fabric content still lands on top of the field values
+        if (formOptions.flatten) this.flattenForm(pdfDoc);
+    }
     
     for (const pageData of pagesData) {
         const page = pages[pageData.pageIndex];
@@ -178,6 +398,8 @@ export class PdfEditorService {
         for (const obj of pageData.objects) {
             // Skip helper objects
             if (obj.subtype === 'find_highlight') continue;
+            if (obj.subtype === 'redaction') continue; // Applied afterwards by the redaction service
+            if (obj.subtype === 'annotation') continue; // Written as native annotations by the annotation service
             if (obj.isOriginalText && obj.opacity === 0) continue;
             if (obj.type === 'rect' && obj.opacity === 0 && obj.fill === 'transparent') continue; 
             
@@ -244,15 +466,16 @@ export class PdfEditorService {
             else if (['i-text', 'text', 'textbox'].includes(obj.type)) {
                 if (obj.text && obj.opacity !== 0) {
                     const fontSize = (obj.fontSize || 12) * objScaleY * scale;
-                    const font = await this.getPdfFont(pdfDoc, obj.fontFamily || 'Helvetica', obj.fontWeight, obj.fontStyle);
+                    const runs = await fontService.layoutText(pdfDoc, obj.text, obj.fontFamily || 'Helvetica', {
+                        bold: obj.fontWeight === 'bold' || obj.fontWeight === '700',
+                        italic: obj.fontStyle === 'italic',
+                    });
                     const color = hexToRgb(obj.fill || '#000000');
                     
                     // Vertical alignment correction for PDF baseline
                     const textY = y + height - (fontSize * 0.2); 
 
-                    page.drawText(obj.text, { x: x, y: textY, size: fontSize, font, color, opacity: obj.opacity ?? 1, rotate: rotation });
-                    
-                    const textWidth = font.widthOfTextAtSize(obj.text, fontSize);
+                    const textWidth = fontService.drawRuns(page, runs, { x: x, y: textY, size: fontSize, color, opacity: obj.opacity ?? 1, rotate: rotation });
                     
                     if (obj.underline) {
                         const underlineY = textY - (fontSize * 0.1); 
@@ -1,8 +1,11 @@
 
-import { PDFDocument } from 'pdf-lib';
+import {
+  PDFDocument, PDFPage, PDFArray, PDFDict, PDFHexString, PDFName, PDFNull, PDFObject, PDFObjectCopier, PDFPageLeaf, PDFRef, PDFString, degrees,
+} from 'pdf-lib';
 import { AppFile, ProcessedFile } from '../types';
 import { arrayBufferToDataURL } from '../utils/fileUtils';
 import JSZip from 'jszip';
+import { outlineService, OutlineNode } from './outlineService';
 
 // Access global pdfjsLib loaded via script tag in index.html
 // Robust loader with retry mechanism to ensure library is available
@@ -104,6 +107,28 @@ export const getPdfJs = async () => {
   throw new Error('PDF.js library could not be loaded. Please check your internet connection or try disabling ad blockers.');
 };
 
+// Standard page sizes in points
+export const PAGE_SIZES: Record<string, [number, number]> = {
+  'a4': [595.28, 841.89],
+  'a3': [841.89, 1190.55],
+  'letter': [612, 792],
+};
+
+/** A 1-based, inclusive page range; the label becomes the output file name. */
+export interface SplitRange {
+  start: number;
+  end: number;
+  label?: string;
+}
+
+/**
+ * One entry of an organized document: either an existing page taken from one of the
+ * source files (with extra clockwise rotation) or a new blank page.
+ */
+export type OrganizerPage =
+  | { kind: 'page'; sourceId: string; pageIndex: number; rotation: number }
+  | { kind: 'blank'; width: number; height: number };
+
 // Helper function to create a ProcessedFile object
 const createProcessedFile = async (
   buffer: Uint8Array,
@@ -124,18 +149,121 @@ const createProcessedFile = async (
 export class PdfService {
   /**
    * Merges multiple PDF files into a single PDF.
+   * Each source gets a top-level bookmark (with its own outline nested underneath),
+   * internal links keep pointing at the right pages and form fields are carried over,
+   * renamed when two files use the same field name.
    * @param files An array of AppFile objects, each containing a PDF.
    * @returns A Promise that resolves with a ProcessedFile object of the merged PDF.
    */
   public async mergePdfs(files: AppFile[]): Promise<ProcessedFile> {
     const mergedPdf = await PDFDocument.create();
+    const context = mergedPdf.context;
+    const outline: OutlineNode[] = [];
+    const mergedFields = PDFArray.withContext(context);
+    const mergedFont = context.obj({}) as PDFDict;
+    const fieldNames = new Set<string>();
+    let defaultAppearance: PDFObject | undefined;
+    let infoTaken = false;
+
     for (const appFile of files) {
-      if (appFile.arrayBuffer) {
-        const pdfDoc = await PDFDocument.load(appFile.arrayBuffer);
-        const copiedPages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
-        copiedPages.forEach((page) => mergedPdf.addPage(page));
+      if (!appFile.arrayBuffer) continue;
+      const pdfDoc = await PDFDocument.load(appFile.arrayBuffer);
+      const named = outlineService.getNamedDestinations(pdfDoc);
+
+      // Named destinations can collide between files, so links are switched to explicit ones first
+      for (const page of pdfDoc.getPages()) {
+        const annots = page.node.Annots();
+        if (!annots) continue;
+        for (let i = 0; i < annots.size(); i++) {
+          const annot = annots.lookupMaybe(i, PDFDict);
+          if (!annot || annot.get(PDFName.of('Subtype')) !== PDFName.of('Link')) continue;
+          const action = annot.lookupMaybe(PDFName.of('A'), PDFDict);
+          if (annot.has(PDFName.of('Dest'))) {
+            const dest = outlineService.resolveDestination(pdfDoc, annot.get(PDFName.of('Dest')), named);
+            if (dest) annot.set(PDFName.of('Dest'), dest);
+            else annot.delete(PDFName.of('Dest'));
+          } else if (action && action.get(PDFName.of('S')) === PDFName.of('GoTo')) {
+            const dest = outlineService.resolveDestination(pdfDoc, action.get(PDFName.of('D')), named);
+            if (dest) action.set(PDFName.of('D'), dest);
+          }
+        }
+      }
+
+      // One copier per source: every reference to a source page (link targets, bookmarks,
+      // widget /P entries) is then remapped to the copied page automatically.
+      const copier = PDFObjectCopier.for(pdfDoc.context, context);
+      const copiedPages = pdfDoc.getPages().map(page => {
+        const ref = copier.copy(page.ref) as PDFRef;
+        return PDFPage.of(context.lookup(ref) as PDFPageLeaf, ref, mergedPdf);
+      });
+      if (copiedPages.length === 0) continue;
+      copiedPages.forEach((page) => mergedPdf.addPage(page));
+
+      const children = outlineService.readOutline(pdfDoc);
+      const remap = (nodes: OutlineNode[]): OutlineNode[] => nodes.map(node => ({
+        ...node,
+        dest: node.dest ? copier.copy(node.dest) as PDFArray : undefined,
+        action: node.action ? copier.copy(node.action) as PDFDict : undefined,
+        children: remap(node.children),
+      }));
+      outline.push({
+        title: appFile.name,
+        dest: context.obj([copiedPages[0].ref, PDFName.of('XYZ'), PDFNull, PDFNull, PDFNull]),
+        open: false,
+        children: remap(children),
+      });
+
+      const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+      const fields = acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+      if (acroForm && fields) {
+        for (let i = 0; i < fields.size(); i++) {
+          const fieldRef = copier.copy(fields.get(i));
+          const field = context.lookup(fieldRef);
+          if (field instanceof PDFDict) {
+            // Only top-level names can clash; child names are qualified by their parent
+            const title = field.lookup(PDFName.of('T'));
+            const name = title instanceof PDFString || title instanceof PDFHexString ? title.decodeText() : undefined;
+            if (name !== undefined) {
+              let unique = name;
+              for (let n = 2; fieldNames.has(unique); n++) unique = `${name}_${n}`;
+              if (unique !== name) field.set(PDFName.of('T'), PDFHexString.fromText(unique));
+              fieldNames.add(unique);
+            }
+          }
+          mergedFields.push(fieldRef);
+        }
+
+        const fonts = acroForm.lookupMaybe(PDFName.of('DR'), PDFDict)?.lookupMaybe(PDFName.of('Font'), PDFDict);
+        if (fonts) {
+          for (const [key, value] of fonts.entries()) {
+            if (!mergedFont.has(key)) mergedFont.set(key, copier.copy(value));
+          }
+        }
+        defaultAppearance = defaultAppearance || acroForm.get(PDFName.of('DA'))?.clone();
+      }
+
+      if (!infoTaken) {
+        const title = pdfDoc.getTitle();
+        const author = pdfDoc.getAuthor();
+        const subject = pdfDoc.getSubject();
+        const keywords = pdfDoc.getKeywords();
+        if (title) mergedPdf.setTitle(title);
+        if (author) mergedPdf.setAuthor(author);
+        if (subject) mergedPdf.setSubject(subject);
+        if (keywords) mergedPdf.setKeywords(keywords.split(/\s+/).filter(Boolean));
+        infoTaken = true;
       }
     }
+
+    outlineService.writeOutline(mergedPdf, outline);
+
+    if (mergedFields.size() > 0) {
+      const acroForm = context.obj({ Fields: mergedFields, NeedAppearances: true }) as PDFDict;
+      if (mergedFont.keys().length > 0) acroForm.set(PDFName.of('DR'), context.obj({ Font: mergedFont }));
+      if (defaultAppearance) acroForm.set(PDFName.of('DA'), defaultAppearance);
+      mergedPdf.catalog.set(PDFName.of('AcroForm'), context.register(acroForm));
+    }
+
     const mergedPdfBytes = await mergedPdf.save();
     return createProcessedFile(mergedPdfBytes, 'merged.pdf', 'application/pdf');
   }
@@ -190,7 +318,7 @@ export class PdfService {
    */
   public async splitPdf(
     file: AppFile, 
-    ranges: { start: number; end: number; label?: string }[]
+    ranges: SplitRange[]
   ): Promise<ProcessedFile> {
     if (!file.arrayBuffer) throw new Error('File buffer missing');
 
@@ -226,6 +354,12 @@ export class PdfService {
         filename = `${safeLabel}.pdf`;
       }
 
+      // Automatic strategies (e.g. bookmarks) can produce repeated labels; keep every file in the ZIP
+      const baseName = filename.replace(/\.pdf$/, '');
+      for (let n = 2; generatedFiles.some(f => f.name === filename); n++) {
+        filename = `${baseName}_${n}.pdf`;
+      }
+
       generatedFiles.push({ name: filename, data: pdfBytes });
     }
 
@@ -250,6 +384,146 @@ export class PdfService {
     );
   }
 
+  /**
+   * Fixed-size chunks of `pagesPerFile` pages; the last chunk holds the remainder.
+   */
+  public getEveryNPagesRanges(pageCount: number, pagesPerFile: number): SplitRange[] {
+    const size = Math.max(1, Math.floor(pagesPerFile));
+    const ranges: SplitRange[] = [];
+    for (let start = 1; start <= pageCount; start += size) {
+      ranges.push({ start, end: Math.min(pageCount, start + size - 1), label: `Split ${ranges.length + 1}` });
+    }
+    return ranges;
+  }
+
+  /**
+   * One range per top-level bookmark, labeled with the bookmark title. Pages before the
+   * first bookmark become a separate "Front Matter" range.
+   */
+  public async getBookmarkRanges(file: AppFile): Promise<SplitRange[]> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { ignoreEncryption: true });
+    const pageCount = pdfDoc.getPageCount();
+
+    // Bookmarks are not guaranteed to be in page order, and several may point at the same page
+    const starts = new Map<number, string>();
+    for (const node of outlineService.readOutline(pdfDoc)) {
+      if (node.pageIndex !== undefined && !starts.has(node.pageIndex + 1)) {
+        starts.set(node.pageIndex + 1, node.title.trim() || `Section ${starts.size + 1}`);
+      }
+    }
+    if (starts.size === 0) throw new Error('This PDF has no bookmarks to split by.');
+
+    const sorted = Array.from(starts.entries()).sort((a, b) => a[0] - b[0]);
+    const ranges: SplitRange[] = [];
+    if (sorted[0][0] > 1) ranges.push({ start: 1, end: sorted[0][0] - 1, label: 'Front Matter' });
+    sorted.forEach(([start, label], i) => {
+      const end = i + 1 < sorted.length ? sorted[i + 1][0] - 1 : pageCount;
+      ranges.push({ start, end, label });
+    });
+    return ranges;
+  }
+
+  /**
+   * Groups consecutive pages into files that stay under `maxBytes` each.
+   * A single page that is larger than the limit on its own still gets its own file.
+   */
+  public async getSizeLimitedRanges(file: AppFile, maxBytes: number): Promise<SplitRange[]> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const srcDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { ignoreEncryption: true });
+    const pageCount = srcDoc.getPageCount();
+
+    const measure = async (start: number, end: number) => {
+      const newPdf = await PDFDocument.create();
+      const indices = Array.from({ length: end - start + 1 }, (_, i) => start - 1 + i);
+      const copiedPages = await newPdf.copyPages(srcDoc, indices);
+      copiedPages.forEach((page) => newPdf.addPage(page));
+      return (await newPdf.save()).byteLength;
+    };
+
+    // Single-page sizes overestimate a chunk (shared fonts/images are counted per page),
+    // so they give a safe first guess that is then verified against the real output.
+    const pageSizes: number[] = [];
+    for (let p = 1; p <= pageCount; p++) pageSizes.push(await measure(p, p));
+
+    const ranges: SplitRange[] = [];
+    let start = 1;
+    while (start <= pageCount) {
+      let end = start;
+      let estimate = pageSizes[start - 1];
+      while (end < pageCount && estimate + pageSizes[end] <= maxBytes) {
+        estimate += pageSizes[end];
+        end++;
+      }
+      // Binary search for the longest chunk whose real size still fits, seeded by the estimate
+      let lo = start;
+      let hi = pageCount;
+      if (end > start && await measure(start, end) <= maxBytes) lo = end;
+      else hi = Math.max(start, end - 1);
+      while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (await measure(start, mid) <= maxBytes) lo = mid;
+        else hi = mid - 1;
+      }
+      end = lo;
+
+      ranges.push({ start, end, label: `Split ${ranges.length + 1}` });
+      start = end + 1;
+    }
+    return ranges;
+  }
+
+  /**
+   * Uses blank (or nearly blank) pages as separators, as in scanned batches with slip
+   * sheets between documents. Separator pages themselves are left out of every range.
+   * @param inkThreshold Fraction of non-white pixels below which a page counts as blank.
+   */
+  public async getBlankSeparatorRanges(file: AppFile, inkThreshold: number = 0.005): Promise<SplitRange[]> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfjs = await getPdfJs();
+    const pdf = await pdfjs.getDocument({ data: file.arrayBuffer.slice(0) }).promise;
+
+    const blank: boolean[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: 0.3 });
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) throw new Error('Could not get 2D context from canvas.');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      // Ignore a margin around the edge, where scanners leave shadows and punch holes
+      const marginX = Math.floor(canvas.width * 0.05);
+      const marginY = Math.floor(canvas.height * 0.05);
+      const { data } = context.getImageData(marginX, marginY, canvas.width - 2 * marginX, canvas.height - 2 * marginY);
+      let ink = 0;
+      for (let p = 0; p < data.length; p += 4) {
+        const luminance = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+        if (luminance < 200) ink++;
+      }
+      blank.push(ink / (data.length / 4) < inkThreshold);
+    }
+
+    const ranges: SplitRange[] = [];
+    let start = 0;
+    for (let p = 1; p <= blank.length + 1; p++) {
+      if (p <= blank.length && !blank[p - 1]) {
+        if (!start) start = p;
+        continue;
+      }
+      if (start) {
+        ranges.push({ start, end: p - 1, label: `Split ${ranges.length + 1}` });
+        start = 0;
+      }
+    }
+    if (ranges.length === 0) throw new Error('Every page looks blank, so there is nothing to split.');
+    return ranges;
+  }
+
   /**
    * Compresses a PDF file by converting each page to a JPEG image with specified quality.
    */
@@ -374,19 +648,12 @@ export class PdfService {
     const srcPdf = await PDFDocument.load(file.arrayBuffer);
     const newPdf = await PDFDocument.create();
 
-    // Size definitions (Points)
-    const sizes: Record<string, [number, number]> = {
-        'a4': [595.28, 841.89],
-        'a3': [841.89, 1190.55],
-        'letter': [612, 792]
-    };
-
     let targetW: number, targetH: number;
     if (targetSize === 'custom' && customW && customH) {
         targetW = customW;
         targetH = customH;
     } else {
-        [targetW, targetH] = sizes[targetSize] || sizes['a4'];
+        [targetW, targetH] = PAGE_SIZES[targetSize] || PAGE_SIZES['a4'];
     }
 
     // Embed all pages from source to scale them
@@ -413,6 +680,52 @@ export class PdfService {
     const bytes = await newPdf.save();
     return createProcessedFile(bytes, `resized_${file.name}`, 'application/pdf');
   }
+
+  /**
+   * Rebuilds a PDF from an ordered list of pages. Pages are copied as-is (no rasterization),
+   * so they can be reordered, rotated, duplicated, dropped or pulled in from other PDFs.
+   * @param file The main document; its name is used for the output.
+   * @param pages The final page order.
+   * @param sources Every file referenced by `sourceId`, including the main document.
+   */
+  public async organizePages(file: AppFile, pages: OrganizerPage[], sources: AppFile[]): Promise<ProcessedFile> {
+    if (pages.length === 0) throw new Error('The document must contain at least one page.');
+    const newPdf = await PDFDocument.create();
+
+    // Copy all pages of a source in a single call so shared resources (fonts, images) are only copied once
+    const copied = new Map<string, Map<number, PDFPage[]>>();
+    for (const source of sources) {
+      const indices = pages
+        .filter((p): p is Extract<OrganizerPage, { kind: 'page' }> => p.kind === 'page' && p.sourceId === source.id)
+        .map(p => p.pageIndex);
+      if (indices.length === 0) continue;
+      if (!source.arrayBuffer) throw new Error(`File buffer missing for ${source.name}`);
+
+      const srcDoc = await PDFDocument.load(source.arrayBuffer);
+      const copiedPages = await newPdf.copyPages(srcDoc, indices);
+      const byIndex = new Map<number, PDFPage[]>();
+      indices.forEach((pageIndex, i) => {
+        byIndex.set(pageIndex, [...(byIndex.get(pageIndex) || []), copiedPages[i]]);
+      });
+      copied.set(source.id, byIndex);
+    }
+
+    for (const item of pages) {
+      if (item.kind === 'blank') {
+        newPdf.addPage([item.width, item.height]);
+        continue;
+      }
+      const page = copied.get(item.sourceId)?.get(item.pageIndex)?.shift();
+      if (!page) throw new Error(`Page ${item.pageIndex + 1} could not be found in its source file.`);
+      if (item.rotation % 360 !== 0) {
+        page.setRotation(degrees((((page.getRotation().angle + item.rotation) % 360) + 360) % 360));
+      }
+      newPdf.addPage(page);
+    }
+
+    const bytes = await newPdf.save();
+    return createProcessedFile(bytes, `organized_${file.name}`, 'application/pdf');
+  }
 }
 
 export const pdfService = new PdfService();
\ No newline at end of file
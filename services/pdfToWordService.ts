@@ -27,27 +27,40 @@ export interface WordStructureItem {
   content: string;
 }
 
+/** A recognized word with its box in page points, top-left origin (the editor canvas at scale 1). */
+export interface OcrWord {
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
 export class PdfToWordService {
   /**
    * Extracts text from a PDF using pdf.js.
    */
   public async extractText(file: AppFile): Promise<string> {
+    const pages = await this.extractPageTexts(file);
+    return pages.join('\n\n').trim();
+  }
+
+  /**
+   * Extracts the text of each page separately, in page order (index 0 is page 1).
+   */
+  public async extractPageTexts(file: AppFile): Promise<string[]> {
     if (!file.arrayBuffer) throw new Error('File buffer missing');
-    
+
     const pdfjs = await getPdfJs();
-    
+
     const loadingTask = pdfjs.getDocument(file.arrayBuffer.slice(0));
     const pdf = await loadingTask.promise;
-    let fullText = '';
+    const pages: string[] = [];
 
     for (let i = 1; i <= pdf.numPages; i++) {
       const page = await pdf.getPage(i);
       const tokenizedText = await page.getTextContent();
-      const pageText = tokenizedText.items.map((token: any) => token.str).join(' ');
-      fullText += pageText + '\n\n';
+      pages.push(tokenizedText.items.map((token: any) => token.str).join(' '));
     }
-    
-    return fullText.trim();
+
+    return pages;
   }
 
   /**
@@ -80,6 +93,38 @@ export class PdfToWordService {
     return fullText.trim();
   }
 
+  /**
+   * Runs OCR on the given pages and returns each page's words with their positions.
+   */
+  public async recognizeWords(file: AppFile, pageIndexes: number[], onProgress?: (percent: number) => void): Promise<Map<number, OcrWord[]>> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const scale = 2.0;
+    const wordsByPage = new Map<number, OcrWord[]>();
+
+    const TesseractModule = await import('tesseract.js');
+    const Tesseract = TesseractModule.default || TesseractModule;
+    const worker = await Tesseract.createWorker('eng');
+
+    try {
+      for (let i = 0; i < pageIndexes.length; i++) {
+        if (onProgress) onProgress(Math.round((i / pageIndexes.length) * 100));
+        const dataUrl = await pdfService.renderPage(file, pageIndexes[i], scale);
+        const result = await worker.recognize(dataUrl);
+        const words = Array.isArray(result.data?.words) ? result.data.words : [];
+        // Boxes come back in rendered pixels; scale them back to points
+        wordsByPage.set(pageIndexes[i], words.map((word: any) => ({
+          text: word.text,
+          bbox: { x0: word.bbox.x0 / scale, y0: word.bbox.y0 / scale, x1: word.bbox.x1 / scale, y1: word.bbox.y1 / scale },
+        })));
+      }
+    } finally {
+      await worker.terminate();
+    }
+
+    if (onProgress) onProgress(100);
+    return wordsByPage;
+  }
+
   /**
    * Generates a Searchable PDF (sandwich PDF) where text is overlaid invisibly on the image.
    */
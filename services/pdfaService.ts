@@ -0,0 +1,818 @@
+import * as fontkit from '@pdf-lib/fontkit';
+import {
+  PDFDocument, PDFArray, PDFDict, PDFHeader, PDFHexString, PDFName, PDFNumber, PDFObject, PDFPage, PDFRawStream, PDFRef, PDFStream, PDFString,
+  StandardFontEmbedder, StandardFonts, decodePDFRawStream,
+} from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { parseContentStream, readPageContent, decodeStream } from '../utils/contentStream';
+import { baseFontName, canvasPointToUser, readFontEncoding } from '../utils/pdfText';
+import { getPdfJs } from './pdfService';
+import { fontService } from './fontService';
+import { metadataService } from './metadataService';
+import { compressionService } from './compressionService';
+
+/** One rule of ISO 19005-2 (PDF/A-2) the document breaks. */
+export interface PdfaIssue {
+  clause: string; // Clause of ISO 19005-2, e.g. "6.2.11.4"
+  message: string;
+  pages?: number[]; // 0-based indices of the affected pages, when the rule is page specific
+}
+
+export interface PdfaValidationResult {
+  claimed?: string; // The conformance level the file claims, e.g. "PDF/A-2B"
+  issues: PdfaIssue[];
+}
+
+export interface PdfaConversionResult {
+  file: ProcessedFile;
+  fixes: string[]; // What was changed, in plain words
+  flattenedPages: number[]; // Pages turned into images because they could not be fixed otherwise
+  issues: PdfaIssue[]; // Rules the converted file still breaks
+}
+
+const ICC_NAME = 'sRGB IEC61966-2.1';
+
+const STANDARD_BLEND_MODES = new Set([
+  'Normal', 'Compatible', 'Multiply', 'Screen', 'Overlay', 'Darken', 'Lighten', 'ColorDodge', 'ColorBurn',
+  'HardLight', 'SoftLight', 'Difference', 'Exclusion', 'Hue', 'Saturation', 'Color', 'Luminosity',
+]);
+
+const FORBIDDEN_ACTIONS = new Set(['Launch', 'Sound', 'Movie', 'ResetForm', 'ImportData', 'Hide', 'SetOCGState', 'Rendition', 'Trans', 'GoTo3DView', 'JavaScript']);
+const ALLOWED_NAMED_ACTIONS = new Set(['NextPage', 'PrevPage', 'FirstPage', 'LastPage']);
+const FORBIDDEN_ANNOTATIONS = new Set(['Sound', 'Movie', 'Screen', '3D', 'RichMedia', 'FileAttachment']);
+
+// Annotation flags (PDF 32000-1, Table 165)
+const FLAG_INVISIBLE = 1;
+const FLAG_HIDDEN = 2;
+const FLAG_PRINT = 4;
+const FLAG_NO_VIEW = 32;
+const FLAG_TOGGLE_NO_VIEW = 256;
+
+// Resolution of pages that have to be turned into images
+const FLATTEN_SCALE = 2;
+
+const WIN_ANSI = StandardFontEmbedder.for('Helvetica' as Parameters<typeof StandardFontEmbedder.for>[0]).encoding;
+
+const s15Fixed16 = (view: DataView, offset: number, value: number) => view.setInt32(offset, Math.round(value * 65536));
+
+/**
+ * Builds a version 2 ICC display profile for sRGB: D50-adapted primaries and the sRGB tone
+ * curve as a 1024-entry table. Small enough to generate instead of shipping a profile file.
+ */
+const buildSrgbProfile = (): Uint8Array => {
+  const ascii = (text: string) => Array.from(text).map(c => c.charCodeAt(0));
+  const xyz = (x: number, y: number, z: number) => {
+    const bytes = new Uint8Array(20);
+    const view = new DataView(bytes.buffer);
+    bytes.set(ascii('XYZ '));
+    s15Fixed16(view, 8, x);
+    s15Fixed16(view, 12, y);
+    s15Fixed16(view, 16, z);
+    return bytes;
+  };
+  const description = () => {
+    const text = ascii(ICC_NAME);
+    const bytes = new Uint8Array(12 + text.length + 1 + 4 + 4 + 2 + 1 + 67);
+    bytes.set(ascii('desc'));
+    new DataView(bytes.buffer).setUint32(8, text.length + 1);
+    bytes.set(text, 12);
+    return bytes;
+  };
+  const copyright = () => {
+    const text = ascii('No copyright, use freely');
+    const bytes = new Uint8Array(8 + text.length + 1);
+    bytes.set(ascii('text'));
+    bytes.set(text, 8);
+    return bytes;
+  };
+  const curve = () => {
+    const count = 1024;
+    const bytes = new Uint8Array(12 + count * 2);
+    const view = new DataView(bytes.buffer);
+    bytes.set(ascii('curv'));
+    view.setUint32(8, count);
+    for (let i = 0; i < count; i++) {
+      const v = i / (count - 1);
+      const linear = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+      view.setUint16(12 + i * 2, Math.round(linear * 65535));
+    }
+    return bytes;
+  };
+
+  const trc = curve();
+  const tags: [string, Uint8Array][] = [
+    ['desc', description()],
+    ['cprt', copyright()],
+    ['wtpt', xyz(0.9642, 1.0, 0.8249)],
+    ['rXYZ', xyz(0.4361, 0.2225, 0.0139)],
+    ['gXYZ', xyz(0.3851, 0.7169, 0.0971)],
+    ['bXYZ', xyz(0.1431, 0.0606, 0.7141)],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc],
+  ];
+
+  // Tag data follows the tag table, 4-byte aligned; the three curves share one copy
+  const offsets = new Map<Uint8Array, number>();
+  let size = 128 + 4 + tags.length * 12;
+  for (const [, data] of tags) {
+    if (offsets.has(data)) continue;
+    offsets.set(data, size);
+    size += Math.ceil(data.length / 4) * 4;
+  }
+
+  const profile = new Uint8Array(size);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, size);
+  view.setUint32(8, 0x02100000); // Version 2.1
+  profile.set(ascii('mntrRGB XYZ '), 12);
+  [2024, 1, 1, 0, 0, 0].forEach((n, i) => view.setUint16(24 + i * 2, n));
+  profile.set(ascii('acsp'), 36);
+  s15Fixed16(view, 68, 0.9642); // D50 illuminant
+  s15Fixed16(view, 72, 1.0);
+  s15Fixed16(view, 76, 0.8249);
+  view.setUint32(128, tags.length);
+  tags.forEach(([signature, data], i) => {
+    profile.set(ascii(signature), 132 + i * 12);
+    view.setUint32(136 + i * 12, offsets.get(data)!);
+    view.setUint32(140 + i * 12, data.length);
+  });
+  offsets.forEach((offset, data) => profile.set(data, offset));
+  return profile;
+};
+
+/** Colour spaces and fonts a page draws with, including its forms, patterns and annotation appearances. */
+interface PageUsage {
+  fonts: Set<PDFDict>;
+  deviceColours: Set<string>; // DeviceGray, DeviceRGB, DeviceCMYK
+  blendModes: Set<string>; // Non-standard blend modes only
+}
+
+const DEVICE_SPACES: Record<string, string> = { DeviceGray: 'DeviceGray', DeviceRGB: 'DeviceRGB', DeviceCMYK: 'DeviceCMYK', G: 'DeviceGray', RGB: 'DeviceRGB', CMYK: 'DeviceCMYK' };
+
+const isFontEmbedded = (font: PDFDict): boolean => {
+  const subtype = font.get(PDFName.of('Subtype'));
+  if (subtype === PDFName.of('Type3')) return true;
+  const target = subtype === PDFName.of('Type0') ? font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict) : font;
+  const descriptor = target?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  return !!descriptor && ['FontFile', 'FontFile2', 'FontFile3'].some(key => descriptor.has(PDFName.of(key)));
+};
+
+const annotationsOf = (page: PDFPage): PDFDict[] =>
+  (page.node.Annots()?.asArray() || []).map(ref => page.doc.context.lookup(ref)).filter((a): a is PDFDict => a instanceof PDFDict);
+
+const scanPage = (page: PDFPage): PageUsage => {
+  const context = page.doc.context;
+  const usage: PageUsage = { fonts: new Set(), deviceColours: new Set(), blendModes: new Set() };
+  const seen = new Set<PDFObject>();
+
+  const addColourSpace = (space: PDFObject | undefined) => {
+    const resolved = space instanceof PDFRef ? context.lookup(space) : space;
+    if (resolved instanceof PDFName) {
+      const device = DEVICE_SPACES[resolved.decodeText()];
+      if (device) usage.deviceColours.add(device);
+    } else if (resolved instanceof PDFArray) {
+      const family = resolved.lookupMaybe(0, PDFName)?.decodeText();
+      if (family === 'Indexed' || family === 'Pattern') addColourSpace(resolved.get(1));
+      if (family === 'Separation' || family === 'DeviceN') addColourSpace(resolved.get(2));
+    }
+  };
+
+  const scanContent = (bytes: Uint8Array | undefined) => {
+    if (!bytes) return;
+    for (const op of parseContentStream(bytes)) {
+      if (op.operator === 'g' || op.operator === 'G') usage.deviceColours.add('DeviceGray');
+      else if (op.operator === 'rg' || op.operator === 'RG') usage.deviceColours.add('DeviceRGB');
+      else if (op.operator === 'k' || op.operator === 'K') usage.deviceColours.add('DeviceCMYK');
+      else if ((op.operator === 'cs' || op.operator === 'CS') && op.operands[0]?.type === 'name') {
+        const device = DEVICE_SPACES[op.operands[0].value];
+        if (device) usage.deviceColours.add(device);
+      }
+    }
+  };
+
+  const scanForm = (stream: PDFObject | undefined) => {
+    const resolved = stream instanceof PDFRef ? context.lookup(stream) : stream;
+    if (!(resolved instanceof PDFStream) || seen.has(resolved)) return;
+    seen.add(resolved);
+    scanContent(decodeStream(resolved));
+    scanResources(resolved.dict.lookupMaybe(PDFName.of('Resources'), PDFDict));
+  };
+
+  const entriesOf = (resources: PDFDict, key: string) =>
+    resources.lookupMaybe(PDFName.of(key), PDFDict)?.entries().map(([, value]) => (value instanceof PDFRef ? context.lookup(value) : value)) || [];
+
+  const scanResources = (resources: PDFDict | undefined) => {
+    if (!resources || seen.has(resources)) return;
+    seen.add(resources);
+    for (const font of entriesOf(resources, 'Font')) {
+      if (!(font instanceof PDFDict)) continue;
+      usage.fonts.add(font);
+      if (font.get(PDFName.of('Subtype')) === PDFName.of('Type3')) scanResources(font.lookupMaybe(PDFName.of('Resources'), PDFDict));
+    }
+    for (const state of entriesOf(resources, 'ExtGState')) {
+      if (!(state instanceof PDFDict)) continue;
+      const blend = state.lookup(PDFName.of('BM'));
+      const modes = blend instanceof PDFArray ? blend.asArray().map(m => context.lookup(m)) : [blend];
+      modes.forEach(m => { if (m instanceof PDFName && !STANDARD_BLEND_MODES.has(m.decodeText())) usage.blendModes.add(m.decodeText()); });
+      const mask = state.lookupMaybe(PDFName.of('SMask'), PDFDict);
+      if (mask) scanForm(mask.get(PDFName.of('G')));
+    }
+    for (const xobject of entriesOf(resources, 'XObject')) {
+      if (!(xobject instanceof PDFStream)) continue;
+      if (xobject.dict.get(PDFName.of('Subtype')) === PDFName.of('Image')) addColourSpace(xobject.dict.get(PDFName.of('ColorSpace')));
+      else scanForm(xobject);
+    }
+    entriesOf(resources, 'ColorSpace').forEach(addColourSpace);
+    for (const shading of entriesOf(resources, 'Shading')) {
+      const dict = shading instanceof PDFStream ? shading.dict : shading;
+      if (dict instanceof PDFDict) addColourSpace(dict.get(PDFName.of('ColorSpace')));
+    }
+    for (const pattern of entriesOf(resources, 'Pattern')) {
+      if (pattern instanceof PDFStream) scanForm(pattern);
+      else if (pattern instanceof PDFDict) addColourSpace(pattern.lookupMaybe(PDFName.of('Shading'), PDFDict)?.get(PDFName.of('ColorSpace')));
+    }
+  };
+
+  scanContent(readPageContent(context, page.node));
+  scanResources(page.node.Resources());
+  for (const annotation of annotationsOf(page)) {
+    const normal = annotation.lookupMaybe(PDFName.of('AP'), PDFDict)?.lookup(PDFName.of('N'));
+    if (normal instanceof PDFStream) scanForm(normal);
+    else if (normal instanceof PDFDict) normal.entries().forEach(([, state]) => scanForm(state));
+  }
+  return usage;
+};
+
+/**
+ * Visits every dictionary in the document once, including stream dictionaries and
+ * dictionaries nested directly inside other objects, with the object and key holding it.
+ */
+const forEachDict = (pdfDoc: PDFDocument, visit: (dict: PDFDict, stream: PDFStream | undefined, parent: PDFDict | PDFArray | undefined, key: PDFName | number | undefined) => void) => {
+  const walk = (obj: PDFObject, parent: PDFDict | PDFArray | undefined, key: PDFName | number | undefined) => {
+    if (obj instanceof PDFStream) {
+      visit(obj.dict, obj, parent, key);
+      walk(obj.dict, undefined, undefined);
+    } else if (obj instanceof PDFDict) {
+      if (parent) visit(obj, undefined, parent, key);
+      obj.entries().forEach(([k, value]) => { if (!(value instanceof PDFRef)) walk(value, obj, k); });
+    } else if (obj instanceof PDFArray) {
+      obj.asArray().forEach((value, i) => { if (!(value instanceof PDFRef)) walk(value, obj, i); });
+    }
+  };
+  for (const [, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (obj instanceof PDFDict) visit(obj, undefined, undefined, undefined);
+    walk(obj, undefined, undefined);
+  }
+};
+
+const isForbiddenAction = (dict: PDFDict) => {
+  const type = dict.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText();
+  if (!type) return false;
+  if (FORBIDDEN_ACTIONS.has(type)) return true;
+  return type === 'Named' && !ALLOWED_NAMED_ACTIONS.has(dict.lookupMaybe(PDFName.of('N'), PDFName)?.decodeText() || '');
+};
+
+const filtersOf = (dict: PDFDict) => {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  const list = filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [];
+  return list.map(f => (f instanceof PDFName ? f.decodeText() : ''));
+};
+
+const randomId = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return PDFHexString.of(Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(''));
+};
+
+/** Groups page-specific issues with the same message into one entry listing every page. */
+const addIssue = (issues: PdfaIssue[], clause: string, message: string, pageIndex?: number) => {
+  const existing = issues.find(i => i.clause === clause && i.message === message);
+  if (existing) {
+    if (pageIndex !== undefined && !existing.pages?.includes(pageIndex)) existing.pages = [...(existing.pages || []), pageIndex];
+    return;
+  }
+  issues.push({ clause, message, pages: pageIndex === undefined ? undefined : [pageIndex] });
+};
+
+class PdfaService {
+
+  /** Lists every PDF/A-2b rule the document breaks. An empty list means no problems were found. */
+  public async validatePdfa(file: AppFile): Promise<PdfaValidationResult> {
+    if (!file.arrayBuffer) throw new Error("File buffer missing");
+    const bytes = new Uint8Array(file.arrayBuffer.slice(0));
+    const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+    const claimed = metadataService.getPdfaIdentification(pdfDoc);
+    return {
+      claimed: claimed && `PDF/A-${claimed.part}${claimed.conformance.toUpperCase()}`,
+      issues: this.check(pdfDoc, bytes),
+    };
+  }
+
+  /**
+   * Converts a document to PDF/A-2b: adds an sRGB output intent and the PDF/A identification
+   * in XMP, embeds fonts the file only names (using metric-compatible substitutes), removes
+   * JavaScript, forbidden actions, embedded files and other disallowed features, and turns
+   * pages that still cannot comply (symbol fonts, CMYK colour, non-standard blending) into
+   * images. The result is validated again and any remaining issues are returned.
+   */
+  public async convertToPdfa(file: AppFile): Promise<PdfaConversionResult> {
+    if (!file.arrayBuffer) throw new Error("File buffer missing");
+
+    let pdfDoc: PDFDocument;
+    try {
+      pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+    } catch (e) {
+      if ((e as Error).message.includes('encrypted')) {
+        throw new Error("This PDF is encrypted. Unlock it first, then convert it to PDF/A.");
+      }
+      throw e;
+    }
+    const context = pdfDoc.context;
+    const fixes = new Set<string>();
+
+    // --- File structure ---
+    context.header = PDFHeader.forVersion(1, 7);
+    if (context.trailerInfo.Encrypt) {
+      context.trailerInfo.Encrypt = undefined;
+      fixes.add('Removed the encryption dictionary');
+    }
+    if (!context.trailerInfo.ID) {
+      const id = randomId();
+      context.trailerInfo.ID = context.obj([id, id]);
+      fixes.add('Added a file identifier');
+    }
+
+    // --- Forms: build field appearances first so their fonts are fixed below ---
+    const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+    if (acroForm) {
+      if (acroForm.has(PDFName.of('XFA'))) {
+        acroForm.delete(PDFName.of('XFA'));
+        fixes.add('Removed the XFA form');
+      }
+      if (acroForm.lookup(PDFName.of('NeedAppearances'))?.toString() === 'true') {
+        try {
+          pdfDoc.getForm().updateFieldAppearances();
+        } catch (e) {
+          console.warn('Could not generate form field appearances', e);
+        }
+        acroForm.delete(PDFName.of('NeedAppearances'));
+        fixes.add('Generated form field appearances');
+      }
+    }
+    pdfDoc.catalog.delete(PDFName.of('NeedsRendering'));
+    await pdfDoc.flush();
+
+    // --- Names: JavaScript and embedded files ---
+    const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    if (names?.has(PDFName.of('JavaScript'))) {
+      names.delete(PDFName.of('JavaScript'));
+      fixes.add('Removed document JavaScript');
+    }
+    if (names?.has(PDFName.of('EmbeddedFiles'))) {
+      names.delete(PDFName.of('EmbeddedFiles'));
+      fixes.add('Removed embedded files');
+    }
+
+    // --- Annotations ---
+    for (const page of pdfDoc.getPages()) {
+      const annots = page.node.Annots();
+      if (!annots) continue;
+      for (let i = annots.size() - 1; i >= 0; i--) {
+        const annotation = annots.lookup(i);
+        if (!(annotation instanceof PDFDict)) continue;
+        const subtype = annotation.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() || '';
+        const flags = annotation.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() || 0;
+        if (FORBIDDEN_ANNOTATIONS.has(subtype)) {
+          annots.remove(i);
+          fixes.add(`Removed ${subtype} annotations`);
+          continue;
+        }
+        if (subtype === 'Popup') continue;
+        // Hidden annotations would become visible once printable, so they are dropped instead
+        if (flags & (FLAG_INVISIBLE | FLAG_HIDDEN | FLAG_NO_VIEW)) {
+          annots.remove(i);
+          fixes.add('Removed hidden annotations');
+          continue;
+        }
+        if (!(flags & FLAG_PRINT) || flags & FLAG_TOGGLE_NO_VIEW) {
+          annotation.set(PDFName.of('F'), PDFNumber.of((flags | FLAG_PRINT) & ~FLAG_TOGGLE_NO_VIEW));
+          fixes.add('Made annotations printable');
+        }
+        if (subtype === 'Link') continue;
+        const ap = annotation.lookupMaybe(PDFName.of('AP'), PDFDict);
+        if (ap && (ap.has(PDFName.of('D')) || ap.has(PDFName.of('R')))) {
+          ap.delete(PDFName.of('D'));
+          ap.delete(PDFName.of('R'));
+          fixes.add('Removed rollover and down appearances');
+        }
+        if (!ap?.has(PDFName.of('N'))) {
+          // Readers would draw these themselves, which PDF/A does not allow; an empty
+          // appearance keeps the annotation (and its text) without drawing anything
+          const rect = annotation.lookupMaybe(PDFName.of('Rect'), PDFArray);
+          const [x0, y0, x1, y1] = rect ? rect.asArray().map(n => (n instanceof PDFNumber ? n.asNumber() : 0)) : [0, 0, 0, 0];
+          const appearance = context.stream('', { Type: 'XObject', Subtype: 'Form', BBox: [0, 0, Math.abs(x1 - x0), Math.abs(y1 - y0)] });
+          annotation.set(PDFName.of('AP'), context.obj({ N: context.register(appearance) }));
+          fixes.add('Added appearances to annotations without one');
+        }
+      }
+    }
+
+    // --- Document-wide object fixes ---
+    const removals: [PDFDict | PDFArray, PDFName | number][] = [];
+    const emptied = new Set<PDFStream>();
+    forEachDict(pdfDoc, (dict, stream, parent, key) => {
+      if (dict.has(PDFName.of('AA'))) {
+        dict.delete(PDFName.of('AA'));
+        fixes.add('Removed automatic actions');
+      }
+      if (dict.get(PDFName.of('FT')) || dict.get(PDFName.of('Subtype')) === PDFName.of('Widget')) {
+        if (dict.has(PDFName.of('A'))) {
+          dict.delete(PDFName.of('A'));
+          fixes.add('Removed form field actions');
+        }
+      }
+      if (isForbiddenAction(dict) && parent && key !== undefined) {
+        removals.push([parent, key]);
+        fixes.add('Removed JavaScript and other forbidden actions');
+      }
+      // Indirect actions are visited without a parent, so they are unhooked where they are referenced
+      dict.entries().forEach(([entryKey, value]) => {
+        const items = value instanceof PDFArray ? value.asArray().map((item, i) => [value, i, item] as const) : [[dict, entryKey, value] as const];
+        for (const [container, index, item] of items) {
+          const target = item instanceof PDFRef ? context.lookup(item) : undefined;
+          if (target instanceof PDFDict && isForbiddenAction(target)) {
+            removals.push([container, index]);
+            fixes.add('Removed JavaScript and other forbidden actions');
+          }
+        }
+      });
+      if (dict.has(PDFName.of('Next'))) {
+        const next = dict.lookup(PDFName.of('Next'));
+        if (next instanceof PDFDict && isForbiddenAction(next)) {
+          dict.delete(PDFName.of('Next'));
+          fixes.add('Removed JavaScript and other forbidden actions');
+        }
+      }
+      const subtype = dict.get(PDFName.of('Subtype'));
+      if (subtype === PDFName.of('Image')) {
+        if (dict.lookup(PDFName.of('Interpolate'))?.toString() === 'true') {
+          dict.delete(PDFName.of('Interpolate'));
+          fixes.add('Turned off image interpolation');
+        }
+        if (dict.has(PDFName.of('Alternates')) || dict.has(PDFName.of('OPI'))) {
+          dict.delete(PDFName.of('Alternates'));
+          dict.delete(PDFName.of('OPI'));
+          fixes.add('Removed alternate images');
+        }
+      }
+      if (stream && (subtype === PDFName.of('PS') || dict.get(PDFName.of('Subtype2')) === PDFName.of('PS'))) {
+        // PostScript XObjects only print on PostScript devices; an empty form draws nothing everywhere
+        dict.set(PDFName.of('Subtype'), PDFName.of('Form'));
+        dict.delete(PDFName.of('Subtype2'));
+        dict.set(PDFName.of('BBox'), context.obj([0, 0, 0, 0]));
+        emptied.add(stream);
+        dict.delete(PDFName.of('Filter'));
+        fixes.add('Removed PostScript XObjects');
+      }
+      if (subtype === PDFName.of('Form') && (dict.has(PDFName.of('OPI')) || dict.has(PDFName.of('Ref')))) {
+        dict.delete(PDFName.of('OPI'));
+        dict.delete(PDFName.of('Ref'));
+        fixes.add('Removed external form references');
+      }
+      if (dict.has(PDFName.of('TR')) || dict.has(PDFName.of('HTP')) || (dict.has(PDFName.of('TR2')) && dict.get(PDFName.of('TR2')) !== PDFName.of('Default'))) {
+        dict.delete(PDFName.of('TR'));
+        dict.delete(PDFName.of('TR2'));
+        dict.delete(PDFName.of('HTP'));
+        fixes.add('Removed transfer functions');
+      }
+    });
+    // Array entries go last-first so earlier indices stay valid
+    removals.sort((a, b) => (typeof b[1] === 'number' ? b[1] : -1) - (typeof a[1] === 'number' ? a[1] : -1));
+    for (const [parent, key] of removals) {
+      if (parent instanceof PDFDict) parent.delete(key as PDFName);
+      else parent.remove(key as number);
+    }
+    for (const [ref, obj] of context.enumerateIndirectObjects()) {
+      if (obj instanceof PDFStream && emptied.has(obj)) context.assign(ref, PDFRawStream.of(obj.dict, new Uint8Array(0)));
+    }
+    if (this.rewriteLzwStreams(pdfDoc)) fixes.add('Recompressed LZW streams');
+
+    // --- Optional content ---
+    const ocProperties = pdfDoc.catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+    if (ocProperties) {
+      const configs = [ocProperties.lookupMaybe(PDFName.of('D'), PDFDict), ...(ocProperties.lookupMaybe(PDFName.of('Configs'), PDFArray)?.asArray().map(c => context.lookup(c)) || [])];
+      configs.forEach((config, i) => {
+        if (!(config instanceof PDFDict)) return;
+        if (!config.has(PDFName.of('Name'))) config.set(PDFName.of('Name'), PDFHexString.fromText(i === 0 ? 'Default' : `Configuration ${i}`));
+        config.delete(PDFName.of('AS'));
+      });
+    }
+
+    // --- Output intent ---
+    const profile = context.flateStream(buildSrgbProfile(), { N: 3 });
+    const intent = context.obj({
+      Type: 'OutputIntent',
+      S: 'GTS_PDFA1',
+      OutputConditionIdentifier: PDFString.of(ICC_NAME),
+      Info: PDFString.of(ICC_NAME),
+      RegistryName: PDFString.of('http://www.color.org'),
+      DestOutputProfile: context.register(profile),
+    });
+    pdfDoc.catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(intent)]));
+    fixes.add(`Added the ${ICC_NAME} output intent`);
+
+    // --- Fonts, colour and transparency, page by page ---
+    const pages = pdfDoc.getPages();
+    const usages = pages.map(scanPage);
+    const substitutes = new Map<string, PDFRef>();
+    const failedFonts = new Set<PDFDict>();
+    for (const font of new Set(usages.flatMap(u => Array.from(u.fonts)))) {
+      if (isFontEmbedded(font)) continue;
+      const name = baseFontName(font) || 'unnamed font';
+      if (await this.embedSubstitute(pdfDoc, font, substitutes)) fixes.add(`Embedded a substitute for ${name}`);
+      else failedFonts.add(font);
+    }
+    const flattenedPages = usages
+      .map((usage, i) => (Array.from(usage.fonts).some(f => failedFonts.has(f)) || usage.deviceColours.has('DeviceCMYK') || usage.blendModes.size > 0 ? i : -1))
+      .filter(i => i >= 0);
+    if (flattenedPages.length > 0) await this.flattenPages(pdfDoc, file.arrayBuffer, flattenedPages);
+
+    // --- Metadata ---
+    const { metadata } = metadataService.getMetadata(pdfDoc);
+    metadataService.setMetadata(pdfDoc, { ...metadata, modificationDate: new Date().toISOString() }, { part: 2, conformance: 'B' });
+    fixes.add('Wrote the PDF/A-2b identification to the XMP metadata');
+
+    compressionService.removeUnreachableObjects(pdfDoc);
+    const pdfBytes = await pdfDoc.save({ updateFieldAppearances: false });
+
+    // Validate what was actually written
+    const written = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+
+    return {
+      file: {
+        id: crypto.randomUUID(),
+        name: file.name.replace(/\.pdf$/i, '') + '_pdfa.pdf',
+        mimeType: 'application/pdf',
+        dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'),
+        size: pdfBytes.byteLength,
+      },
+      fixes: Array.from(fixes),
+      flattenedPages,
+      issues: this.check(written, pdfBytes),
+    };
+  }
+
+  private check(pdfDoc: PDFDocument, bytes: Uint8Array): PdfaIssue[] {
+    const context = pdfDoc.context;
+    const issues: PdfaIssue[] = [];
+
+    // --- File structure ---
+    const header = String.fromCharCode(...Array.from(bytes.subarray(0, 32)));
+    const comment = /^%PDF-\d\.\d(?:\r\n|\r|\n)%([^\r\n]{4})/.exec(header)?.[1];
+    if (!/^%PDF-1\.[0-7]/.test(header)) addIssue(issues, '6.1.2', 'The file header must declare PDF version 1.0 to 1.7.');
+    else if (!comment || Array.from(comment).some(c => c.charCodeAt(0) < 128)) {
+      addIssue(issues, '6.1.2', 'The header must be followed by a comment with at least four binary characters.');
+    }
+    if (context.trailerInfo.Encrypt) addIssue(issues, '6.1.3', 'The file is encrypted.');
+    if (!context.trailerInfo.ID) addIssue(issues, '6.1.3', 'The file trailer has no file identifier (ID).');
+
+    // --- Metadata ---
+    const claimed = metadataService.getPdfaIdentification(pdfDoc);
+    if (!pdfDoc.catalog.has(PDFName.of('Metadata'))) addIssue(issues, '6.6.2.1', 'The document has no XMP metadata packet.');
+    else if (!claimed) addIssue(issues, '6.6.4', 'The XMP metadata does not contain the PDF/A identification schema.');
+    else if (claimed.part !== 2 || !/^[ABU]$/i.test(claimed.conformance)) {
+      addIssue(issues, '6.6.4', `The XMP metadata identifies the file as PDF/A-${claimed.part}${claimed.conformance}, not PDF/A-2.`);
+    }
+
+    // --- Output intent ---
+    const intents = pdfDoc.catalog.lookupMaybe(PDFName.of('OutputIntents'), PDFArray)?.asArray().map(i => context.lookup(i)) || [];
+    const pdfaIntent = intents.find((i): i is PDFDict => i instanceof PDFDict && i.get(PDFName.of('S')) === PDFName.of('GTS_PDFA1'));
+    const profile = pdfaIntent?.lookup(PDFName.of('DestOutputProfile'));
+    const profileComponents = profile instanceof PDFStream ? profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber() : undefined;
+    const profileRefs = new Set(intents.map(i => (i instanceof PDFDict ? i.get(PDFName.of('DestOutputProfile'))?.toString() : undefined)).filter(Boolean));
+    if (profileRefs.size > 1) addIssue(issues, '6.2.3', 'Output intents use different ICC profiles.');
+
+    // --- Pages ---
+    pdfDoc.getPages().forEach((page, pageIndex) => {
+      const usage = scanPage(page);
+      for (const font of usage.fonts) {
+        if (!isFontEmbedded(font)) addIssue(issues, '6.2.11.4.1', `Font "${baseFontName(font) || 'unnamed'}" is not embedded.`, pageIndex);
+      }
+      for (const space of usage.deviceColours) {
+        if (profileComponents === undefined) {
+          addIssue(issues, '6.2.4.3', `${space} is used but the document has no PDF/A output intent.`, pageIndex);
+        } else if ((space === 'DeviceRGB' && profileComponents !== 3) || (space === 'DeviceCMYK' && profileComponents !== 4)) {
+          addIssue(issues, '6.2.4.3', `${space} is used but the output intent profile has ${profileComponents} colour components.`, pageIndex);
+        }
+      }
+      usage.blendModes.forEach(mode => addIssue(issues, '6.2.10', `Non-standard blend mode "${mode}" is used.`, pageIndex));
+
+      for (const annotation of annotationsOf(page)) {
+        const subtype = annotation.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() || '';
+        const flags = annotation.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() || 0;
+        if (FORBIDDEN_ANNOTATIONS.has(subtype)) {
+          addIssue(issues, subtype === 'FileAttachment' ? '6.8' : '6.3.1', `${subtype} annotations are not allowed.`, pageIndex);
+          continue;
+        }
+        if (subtype === 'Popup') continue;
+        if (!(flags & FLAG_PRINT) || flags & (FLAG_INVISIBLE | FLAG_HIDDEN | FLAG_NO_VIEW | FLAG_TOGGLE_NO_VIEW)) {
+          addIssue(issues, '6.3.2', 'Annotations must be printable and must not be hidden.', pageIndex);
+        }
+        if (subtype === 'Link') continue;
+        const ap = annotation.lookupMaybe(PDFName.of('AP'), PDFDict);
+        if (!ap?.has(PDFName.of('N'))) addIssue(issues, '6.3.3', 'Annotations must have an appearance stream.', pageIndex);
+        else if (ap.has(PDFName.of('D')) || ap.has(PDFName.of('R'))) addIssue(issues, '6.3.3', 'Annotation appearances may only contain a normal (N) appearance.', pageIndex);
+      }
+    });
+
+    // --- Forms and names ---
+    const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+    if (acroForm?.lookup(PDFName.of('NeedAppearances'))?.toString() === 'true') addIssue(issues, '6.4.1', 'The form asks readers to generate field appearances (NeedAppearances).');
+    if (acroForm?.has(PDFName.of('XFA'))) addIssue(issues, '6.4.2', 'The document contains an XFA form.');
+    if (pdfDoc.catalog.has(PDFName.of('NeedsRendering'))) addIssue(issues, '6.4.2', 'The catalog contains the NeedsRendering key.');
+    const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    if (names?.has(PDFName.of('JavaScript'))) addIssue(issues, '6.5.1', 'The document contains JavaScript.');
+    if (names?.has(PDFName.of('EmbeddedFiles'))) addIssue(issues, '6.8', 'The document contains embedded files.');
+
+    // --- Objects ---
+    forEachDict(pdfDoc, (dict, stream) => {
+      if (dict.has(PDFName.of('AA'))) addIssue(issues, '6.5.2', 'The document contains automatic actions (AA).');
+      if (isForbiddenAction(dict)) addIssue(issues, '6.5.1', `The document contains a forbidden ${dict.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText()} action.`);
+      if ((dict.get(PDFName.of('FT')) || dict.get(PDFName.of('Subtype')) === PDFName.of('Widget')) && dict.has(PDFName.of('A'))) {
+        addIssue(issues, '6.4.1', 'Form fields must not have actions.');
+      }
+      const subtype = dict.get(PDFName.of('Subtype'));
+      if (subtype === PDFName.of('Image')) {
+        if (dict.lookup(PDFName.of('Interpolate'))?.toString() === 'true') addIssue(issues, '6.2.8', 'Images must not request interpolation.');
+        if (dict.has(PDFName.of('Alternates')) || dict.has(PDFName.of('OPI'))) addIssue(issues, '6.2.8', 'Images must not have alternates or OPI references.');
+      }
+      if (stream && (subtype === PDFName.of('PS') || dict.get(PDFName.of('Subtype2')) === PDFName.of('PS'))) addIssue(issues, '6.2.9', 'PostScript XObjects are not allowed.');
+      if (subtype === PDFName.of('Form') && (dict.has(PDFName.of('OPI')) || dict.has(PDFName.of('Ref')))) addIssue(issues, '6.2.9', 'Form XObjects must not contain OPI or reference (Ref) entries.');
+      if (dict.has(PDFName.of('TR')) || dict.has(PDFName.of('HTP')) || (dict.has(PDFName.of('TR2')) && dict.get(PDFName.of('TR2')) !== PDFName.of('Default'))) {
+        addIssue(issues, '6.2.5', 'Graphics states must not use transfer functions or halftone phases.');
+      }
+      if (stream) {
+        if (filtersOf(dict).includes('LZWDecode')) addIssue(issues, '6.1.7.2', 'Streams must not use LZW compression.');
+        if (['F', 'FFilter', 'FDecodeParms'].some(k => dict.has(PDFName.of(k)))) addIssue(issues, '6.1.7.1', 'Streams must not refer to external files.');
+      }
+    });
+
+    const ocProperties = pdfDoc.catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+    if (ocProperties) {
+      const configs = [ocProperties.lookupMaybe(PDFName.of('D'), PDFDict), ...(ocProperties.lookupMaybe(PDFName.of('Configs'), PDFArray)?.asArray().map(c => context.lookup(c)) || [])];
+      if (configs.some(c => c instanceof PDFDict && (!c.has(PDFName.of('Name')) || c.has(PDFName.of('AS'))))) {
+        addIssue(issues, '6.9', 'Optional content configurations must have a name and no AS entry.');
+      }
+    }
+
+    issues.forEach(issue => issue.pages?.sort((a, b) => a - b));
+    return issues;
+  }
+
+  /**
+   * Replaces a font the file only names with an embedded TrueType substitute of the same
+   * metrics (Arimo for Helvetica/Arial, Tinos for Times, Cousine for Courier). The character
+   * codes in the content stay the same: the new font gets a WinAnsi-based encoding that maps
+   * each code to the character it showed before. Symbol fonts and composite fonts cannot be
+   * substituted this way; returns false for them.
+   */
+  private async embedSubstitute(pdfDoc: PDFDocument, font: PDFDict, substitutes: Map<string, PDFRef>): Promise<boolean> {
+    const context = pdfDoc.context;
+    if (font.get(PDFName.of('Subtype')) === PDFName.of('Type0')) return false;
+    const name = baseFontName(font);
+    const flags = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)?.lookupMaybe(PDFName.of('Flags'), PDFNumber)?.asNumber() || 0;
+    if (name === StandardFonts.Symbol || name === StandardFonts.ZapfDingbats || /symbol|dingbat|wingding|webding/i.test(name) || (flags & 4 && !(flags & 32))) return false;
+
+    const encoding = readFontEncoding(font);
+    if (!encoding) return false;
+    const differences: (number | PDFName)[] = [];
+    for (const [code, text] of encoding.toUnicode) {
+      const codePoint = text.codePointAt(0);
+      if (code > 255 || codePoint === undefined || Array.from(text).length !== 1 || !WIN_ANSI.canEncodeUnicodeCodePoint(codePoint)) return false;
+      const { code: winAnsiCode, name: glyphName } = WIN_ANSI.encodeUnicodeCodePoint(codePoint);
+      if (winAnsiCode !== code) differences.push(code, PDFName.of(glyphName));
+    }
+
+    const family = /courier|mono|consol/i.test(name) ? 'Cousine'
+      : /times|roman|serif|georgia|garamond|cambria|book/i.test(name) && !/sans/i.test(name) ? 'Tinos'
+      : 'Arimo';
+    const style = { bold: /bold|black|heavy|semibold|demi/i.test(name), italic: /italic|oblique/i.test(name) };
+    let program: Uint8Array | undefined;
+    try {
+      program = await fontService.getFontProgram(family, style);
+    } catch (e) {
+      console.warn(`Could not load ${family} to replace ${name}`, e);
+    }
+    if (!program) return false;
+    const face = fontkit.create(program);
+    const scale = 1000 / face.unitsPerEm;
+
+    const key = `${family}|${style.bold}|${style.italic}`;
+    let fontFile = substitutes.get(key);
+    if (!fontFile) {
+      fontFile = context.register(context.flateStream(program, { Length1: program.length }));
+      substitutes.set(key, fontFile);
+    }
+
+    const codes = Array.from(encoding.toUnicode.keys());
+    const firstChar = Math.min(...codes);
+    const lastChar = Math.max(...codes);
+    const widths: number[] = [];
+    for (let code = firstChar; code <= lastChar; code++) {
+      const text = encoding.toUnicode.get(code);
+      widths.push(text ? Math.round(face.glyphForCodePoint(text.codePointAt(0)!).advanceWidth * scale) : 0);
+    }
+
+    const postscriptName = face.postscriptName || family;
+    const descriptor = context.obj({
+      Type: 'FontDescriptor',
+      FontName: postscriptName,
+      Flags: 32 | (family === 'Cousine' ? 1 : 0) | (family === 'Tinos' ? 2 : 0) | (style.italic ? 64 : 0),
+      FontBBox: [face.bbox.minX, face.bbox.minY, face.bbox.maxX, face.bbox.maxY].map(v => Math.round(v * scale)),
+      ItalicAngle: face.italicAngle,
+      Ascent: Math.round(face.ascent * scale),
+      Descent: Math.round(face.descent * scale),
+      CapHeight: Math.round(face.capHeight * scale),
+      StemV: style.bold ? 120 : 80,
+      FontFile2: fontFile,
+    });
+
+    font.set(PDFName.of('Subtype'), PDFName.of('TrueType'));
+    font.set(PDFName.of('BaseFont'), PDFName.of(postscriptName));
+    font.set(PDFName.of('FirstChar'), PDFNumber.of(firstChar));
+    font.set(PDFName.of('LastChar'), PDFNumber.of(lastChar));
+    font.set(PDFName.of('Widths'), context.obj(widths));
+    font.set(PDFName.of('FontDescriptor'), context.register(descriptor));
+    font.set(PDFName.of('Encoding'), differences.length
+      ? context.obj({ Type: 'Encoding', BaseEncoding: 'WinAnsiEncoding', Differences: differences })
+      : PDFName.of('WinAnsiEncoding'));
+    return true;
+  }
+
+  /** Re-encodes LZW streams with Flate; the decode parameters (predictors) still apply. */
+  private rewriteLzwStreams(pdfDoc: PDFDocument): boolean {
+    let changed = false;
+    for (const [ref, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+      if (!(obj instanceof PDFRawStream)) continue;
+      const filters = filtersOf(obj.dict);
+      if (filters.length !== 1 || filters[0] !== 'LZWDecode') continue;
+      try {
+        const decoded = decodePDFRawStream(obj).decode();
+        const dict = obj.dict.clone(pdfDoc.context);
+        dict.delete(PDFName.of('Filter'));
+        dict.delete(PDFName.of('Length'));
+        const parms = dict.get(PDFName.of('DecodeParms'));
+        const stream = pdfDoc.context.flateStream(decoded);
+        dict.entries().forEach(([key, value]) => stream.dict.set(key, value));
+        if (parms) stream.dict.set(PDFName.of('DecodeParms'), parms);
+        pdfDoc.context.assign(ref, stream);
+        changed = true;
+      } catch (e) {
+        console.warn('Could not decode an LZW stream', e);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Replaces the content of the given pages with an image of the page as the original file
+   * rendered it. Annotations are left on the page (and not drawn into the image).
+   */
+  private async flattenPages(pdfDoc: PDFDocument, source: ArrayBuffer, pageIndices: number[]) {
+    const pdfjs = await getPdfJs();
+    const pdf = await pdfjs.getDocument({ data: source.slice(0) }).promise;
+    const context = pdfDoc.context;
+
+    for (const pageIndex of pageIndices) {
+      const rendered = await pdf.getPage(pageIndex + 1);
+      const viewport = rendered.getViewport({ scale: FLATTEN_SCALE });
+      const canvas = document.createElement('canvas');
+      const canvasContext = canvas.getContext('2d');
+      if (!canvasContext) throw new Error('Canvas context missing');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      canvasContext.fillStyle = '#ffffff';
+      canvasContext.fillRect(0, 0, canvas.width, canvas.height);
+      await rendered.render({ canvasContext, viewport, annotationMode: pdfjs.AnnotationMode.DISABLE }).promise;
+      const imageBytes = await fetch(canvas.toDataURL('image/jpeg', 0.92)).then(res => res.arrayBuffer());
+      const image = await pdfDoc.embedJpg(imageBytes);
+
+      // The image shows the page as displayed; map its corners back into user space
+      const page = pdfDoc.getPage(pageIndex);
+      const width = viewport.width / FLATTEN_SCALE;
+      const height = viewport.height / FLATTEN_SCALE;
+      const [ox, oy] = canvasPointToUser(page, 0, height);
+      const [rx, ry] = canvasPointToUser(page, width, height);
+      const [tx, ty] = canvasPointToUser(page, 0, 0);
+      const matrix = [rx - ox, ry - oy, tx - ox, ty - oy, ox, oy].map(n => Math.round(n * 1000) / 1000);
+
+      const content = context.flateStream(`q ${matrix.join(' ')} cm /Im0 Do Q`);
+      page.node.set(PDFName.of('Contents'), context.register(content));
+      page.node.set(PDFName.of('Resources'), context.obj({ XObject: { Im0: image.ref } }));
+      page.node.delete(PDFName.of('Group'));
+    }
+  }
+}
+
+export const pdfaService = new PdfaService();
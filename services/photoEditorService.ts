@@ -1,7 +1,7 @@
 
 import { AppFile, ProcessedFile } from '../types';
 import { arrayBufferToDataURL, base64ToArrayBuffer, dataURLtoBlob } from '../utils/fileUtils';
-import { GoogleGenAI } from "@google/genai";
+import { aiService } from './aiService';
 
 declare const fabric: any;
 
@@ -15,17 +15,8 @@ export interface AdjustSettings {
 }
 
 export class PhotoEditorService {
-  private genAi: GoogleGenAI | null = null;
   private upscaler: any = null;
 
-  private getGenAI() {
-    // Always instantiate new to ensure fresh API key from env if it changes
-    if (!process.env.API_KEY) {
-        throw new Error("API Key missing. Please set it in the AI Studio sidebar.");
-    }
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
-  }
-
   private async getUpscaler() {
     if (this.upscaler) return this.upscaler;
     try {
@@ -40,12 +31,9 @@ export class PhotoEditorService {
   }
 
   /**
-   * Generative Edit: Uses Gemini to modify the image based on a prompt.
-   * Uses 'gemini-2.5-flash-image' for fast multimodal editing.
+   * Generative Edit: Asks the configured AI provider to modify the image based on a prompt.
    */
   public async generativeEdit(canvas: any, prompt: string): Promise<void> {
-    const ai = this.getGenAI();
-    
     // Resize Logic: Ensure image isn't too massive for the API (avoids 500 Errors & Timeouts)
     // Reduced to 768px and 60% quality to ensure payload fits within limits.
     const maxDim = 768;
@@ -54,39 +42,9 @@ export class PhotoEditorService {
 
     // Export current canvas state with resizing
     const dataUrl = canvas.toDataURL({ format: 'jpeg', quality: 0.6, multiplier: multiplier });
-    const base64Image = dataUrl.split(',')[1];
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    {
-                        inlineData: {
-                            mimeType: 'image/jpeg',
-                            data: base64Image
-                        }
-                    },
-                    { text: `Edit this image: ${prompt}. Return ONLY the edited image.` }
-                ]
-            }
-        });
-
-        let newImageBase64 = null;
-        if (response.candidates?.[0]?.content?.parts) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    newImageBase64 = part.inlineData.data;
-                    break;
-                }
-            }
-        }
-
-        if (!newImageBase64) {
-             throw new Error("AI did not return an image. It might have refused the request due to safety policies. Please try a different prompt.");
-        }
-
-        const newSrc = `data:image/png;base64,${newImageBase64}`;
+        const newSrc = await aiService.editImage(dataUrl, prompt);
 
         fabric.Image.fromURL(newSrc, (img: any) => {
             // Calculate scale to restore original size relative to canvas
@@ -127,10 +85,9 @@ export class PhotoEditorService {
   }
 
   /**
-   * Analyzes the image to provide editing suggestions using Gemini 2.5 Flash.
+   * Analyzes the image to provide editing suggestions using the configured AI provider.
    */
   public async analyzeImage(canvas: any): Promise<{label: string, action: string}[]> {
-    const ai = this.getGenAI();
     // Use low res for analysis to be fast and cheap (max 512px)
     const maxDim = 512;
     const currentMax = Math.max(canvas.width, canvas.height);
@@ -140,18 +97,13 @@ export class PhotoEditorService {
     const base64Image = dataUrl.split(',')[1];
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                parts: [
-                    { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-                    { text: 'Analyze this image. Suggest 4 very short photo editing actions (max 3 words each) that would improve it (e.g. "Fix Lighting", "Remove Background", "Upscale"). Return JSON: [{ "label": "Fix Lighting", "action": "auto_enhance" }]. Use actions: "remove_bg", "upscale", "auto_enhance", or "prompt:<description>" for creative edits.' }
-                ]
-            },
-            config: { responseMimeType: 'application/json' }
+        // No retries: the fallback suggestions below are good enough when the provider is unavailable
+        const result = await aiService.getProvider().generateJson({
+            prompt: 'Analyze this image. Suggest 4 very short photo editing actions (max 3 words each) that would improve it (e.g. "Fix Lighting", "Remove Background", "Upscale"). Return JSON: { "suggestions": [{ "label": "Fix Lighting", "action": "auto_enhance" }] }. Use actions: "remove_bg", "upscale", "auto_enhance", or "prompt:<description>" for creative edits.',
+            media: [{ mimeType: 'image/jpeg', data: base64Image }]
         });
-        
-        return JSON.parse(response.text || '[]');
+
+        return Array.isArray(result?.suggestions) ? result.suggestions : [];
     } catch (e) {
         console.warn("AI Suggestion Error", e);
         return [
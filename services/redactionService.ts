@@ -0,0 +1,575 @@
+import {
+  PDFDocument, PDFArray, PDFContext, PDFDict, PDFName, PDFNumber, PDFObject, PDFPage, PDFRawStream, PDFRef, PDFStream,
+  StandardFonts, decodePDFRawStream, rgb,
+} from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import {
+  ContentOperand, ContentOperation, IDENTITY, Matrix, decodeStream, multiply, parseContentStream, readPageContent,
+  serializeContentStream,
+} from '../utils/contentStream';
+import { Box, FontMetrics, canvasRectToUserBox, intersects, numbersOf, readFontMetrics, transformBox } from '../utils/pdfText';
+import { pdfEditorService, FormWidgetRect } from './pdfEditorService';
+import { compressionService } from './compressionService';
+import { metadataService } from './metadataService';
+
+export interface RedactionArea {
+  pageIndex: number;
+  rect: FormWidgetRect;
+}
+
+export interface RedactionOptions {
+  fillColor: string; // Hex colour of the box painted over each area
+  label?: string; // Printed inside every box, e.g. "REDACTED" or an exemption code
+  removeMetadata: boolean; // Clear document info and drop XMP packets and application private data
+}
+
+export interface RedactionLeftover {
+  pageIndex: number;
+  text: string;
+}
+
+export interface RedactionResult {
+  file: ProcessedFile;
+  glyphsRemoved: number;
+  imagesRedacted: number; // Images whose pixels under an area were painted over
+  imagesRemoved: number; // Images that could not be decoded and were dropped entirely
+  annotationsRemoved: number;
+  leftovers: RedactionLeftover[]; // Text the verification pass still found under an area
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font?: FontMetrics;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+type RedactionCounts = Pick<RedactionResult, 'glyphsRemoved' | 'imagesRedacted' | 'imagesRemoved'>;
+
+// Glyph boxes include side bearings, so shrink them before testing to keep neighbours that only touch an edge
+const GLYPH_INSET = 0.1;
+const MAX_FORM_DEPTH = 12;
+
+const insetBox = (box: Box, fraction: number): Box => {
+  const dx = (box.x1 - box.x0) * fraction;
+  const dy = (box.y1 - box.y0) * fraction;
+  return { x0: box.x0 + dx, y0: box.y0 + dy, x1: box.x1 - dx, y1: box.y1 - dy };
+};
+
+const invert = (m: Matrix): Matrix | undefined => {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (!det) return undefined;
+  return [m[3] / det, -m[1] / det, -m[2] / det, m[0] / det, (m[2] * m[5] - m[3] * m[4]) / det, (m[1] * m[4] - m[0] * m[5]) / det];
+};
+
+const parseHexColor = (hex: string) => {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.padEnd(6, '0');
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255 || 0) as [number, number, number];
+};
+
+const colorComponents = (context: PDFContext, colorSpace: PDFObject | undefined): number => {
+  if (colorSpace === PDFName.of('DeviceRGB') || colorSpace === PDFName.of('CalRGB')) return 3;
+  if (colorSpace === PDFName.of('DeviceGray') || colorSpace === PDFName.of('CalGray')) return 1;
+  if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('ICCBased')) {
+    const profile = context.lookup(colorSpace.get(1));
+    if (profile instanceof PDFStream) return profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber() || 0;
+  }
+  return 0;
+};
+
+class RedactionService {
+  /**
+   * Removes everything under the marked areas instead of just covering it: glyphs are cut
+   * out of the content streams, image pixels are painted over and overlapping annotations
+   * are deleted. An opaque box is then drawn over each area and the output is re-read with
+   * the editor's text extraction to confirm nothing is left underneath.
+   */
+  public async redactPdf(file: AppFile, areas: RedactionArea[], options: RedactionOptions): Promise<RedactionResult> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    if (areas.length === 0) throw new Error('Mark at least one area to redact.');
+
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+    const context = pdfDoc.context;
+    const counts: RedactionCounts = { glyphsRemoved: 0, imagesRedacted: 0, imagesRemoved: 0 };
+    const fontCache = new Map<PDFDict, FontMetrics>();
+    let annotationsRemoved = 0;
+
+    const [r, g, b] = parseHexColor(options.fillColor);
+    const labelFont = options.label ? await pdfDoc.embedFont(StandardFonts.HelveticaBold) : undefined;
+    // Light labels on dark boxes and vice versa
+    const labelColor = 0.299 * r + 0.587 * g + 0.114 * b < 0.5 ? rgb(1, 1, 1) : rgb(0, 0, 0);
+
+    for (const [pageIndex, page] of pdfDoc.getPages().entries()) {
+      const boxes = areas.filter(a => a.pageIndex === pageIndex).map(a => canvasRectToUserBox(page, a.rect));
+      if (boxes.length === 0) continue;
+
+      const resources = page.node.Resources();
+      const baseState: GraphicsState = { ctm: IDENTITY, fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0, rise: 0 };
+      const original = readPageContent(context, page.node);
+      const redacted = await this.redactContent(context, original, resources, baseState, boxes, counts, fontCache, 0);
+
+      // Wrap the old content in q/Q so the boxes are drawn in default user space
+      const content = redacted?.content || original;
+      const wrapped = new Uint8Array(content.length + 4);
+      wrapped.set([0x71, 0x0a]);
+      wrapped.set(content, 2);
+      wrapped.set([0x51, 0x0a], content.length + 2);
+      page.node.set(PDFName.of('Contents'), context.register(context.flateStream(wrapped)));
+      if (redacted?.resources && redacted.resources !== resources) page.node.set(PDFName.of('Resources'), redacted.resources);
+
+      annotationsRemoved += this.removeAnnotations(pdfDoc, page, boxes);
+      // Thumbnails are pictures of the unredacted page
+      page.node.delete(PDFName.of('Thumb'));
+
+      for (const box of boxes) {
+        const width = box.x1 - box.x0;
+        const height = box.y1 - box.y0;
+        page.drawRectangle({ x: box.x0, y: box.y0, width, height, color: rgb(r, g, b) });
+        if (labelFont && options.label) {
+          const size = Math.min(height * 0.6, 14, (width * 0.9) / Math.max(1, labelFont.widthOfTextAtSize(options.label, 1)));
+          if (size >= 4) {
+            const textWidth = labelFont.widthOfTextAtSize(options.label, size);
+            page.drawText(options.label, { x: box.x0 + (width - textWidth) / 2, y: box.y0 + (height - size * 0.7) / 2, size, font: labelFont, color: labelColor });
+          }
+        }
+      }
+    }
+
+    if (options.removeMetadata) metadataService.stripMetadata(pdfDoc);
+    // The replaced content streams and images would otherwise still be written to the file
+    compressionService.removeUnreachableObjects(pdfDoc);
+
+    const pdfBytes = await pdfDoc.save();
+    const buffer = pdfBytes.buffer.slice(pdfBytes.byteOffset, pdfBytes.byteOffset + pdfBytes.byteLength) as ArrayBuffer;
+    const leftovers = await this.verifyRedactions({ ...file, arrayBuffer: buffer }, areas, options.label);
+
+    return {
+      file: {
+        id: crypto.randomUUID(),
+        name: `redacted_${file.name}`,
+        mimeType: 'application/pdf',
+        dataUrl: arrayBufferToDataURL(buffer, 'application/pdf'),
+        size: pdfBytes.byteLength,
+      },
+      ...counts,
+      annotationsRemoved,
+      leftovers,
+    };
+  }
+
+  /**
+   * Re-extracts the text of a redacted file and reports any characters that still sit
+   * under one of the areas. pdf.js returns whole runs, so character positions are estimated
+   * by spreading each run's width evenly. Runs matching the box label are skipped.
+   */
+  public async verifyRedactions(file: AppFile, areas: RedactionArea[], label?: string): Promise<RedactionLeftover[]> {
+    const textMap = await pdfEditorService.extractTextData(file);
+    const leftovers: RedactionLeftover[] = [];
+
+    textMap.forEach((items, pageIndex) => {
+      const rects = areas.filter(a => a.pageIndex === pageIndex).map(a => a.rect);
+      if (rects.length === 0) return;
+      for (const item of items) {
+        const chars = Array.from(item.str);
+        if (chars.length === 0 || (label && item.str.trim() === label.trim())) continue;
+        const charWidth = item.width / chars.length;
+        const cy = item.transform[5] - item.height / 2;
+        const hits = chars.filter((ch, k) => {
+          if (!ch.trim()) return false;
+          const cx = item.transform[4] + charWidth * (k + 0.5);
+          return rects.some(r => cx >= r.left && cx <= r.left + r.width && cy >= r.top && cy <= r.top + r.height);
+        });
+        if (hits.length > 0) leftovers.push({ pageIndex, text: hits.join('') });
+      }
+    });
+    return leftovers;
+  }
+
+  /**
+   * Rewrites one content stream with everything under the boxes removed. Returns undefined
+   * when nothing on it was touched. Resources are copied before new XObjects are added, as
+   * they are often shared between pages.
+   */
+  private async redactContent(
+    context: PDFContext, content: Uint8Array, resources: PDFDict | undefined, baseState: GraphicsState,
+    boxes: Box[], counts: RedactionCounts, fontCache: Map<PDFDict, FontMetrics>, depth: number,
+  ): Promise<{ content: Uint8Array; resources: PDFDict | undefined } | undefined> {
+    const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    let ownResources: PDFDict | undefined;
+    const replacedNames = new Set<string>();
+
+    const ownXObjects = (): PDFDict => {
+      if (!ownResources) {
+        ownResources = resources ? resources.clone(context) : context.obj({});
+        ownResources.set(PDFName.of('XObject'), xObjects ? xObjects.clone(context) : context.obj({}));
+      }
+      return ownResources.lookup(PDFName.of('XObject'), PDFDict);
+    };
+    const addXObject = (baseName: string, ref: PDFRef): string => {
+      const target = ownXObjects();
+      let n = 1;
+      while (target.has(PDFName.of(`${baseName}R${n}`))) n++;
+      target.set(PDFName.of(`${baseName}R${n}`), ref);
+      replacedNames.add(baseName);
+      return `${baseName}R${n}`;
+    };
+    // Unhooked below unless another placement in this stream still draws it
+    const dropXObject = (name: string) => {
+      ownXObjects();
+      replacedNames.add(name);
+    };
+
+    const out: ContentOperation[] = [];
+    const stack: GraphicsState[] = [];
+    const markedContent: { index: number; touched: boolean }[] = [];
+    let state: GraphicsState = { ...baseState };
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+    let changed = false;
+
+    const markChanged = () => {
+      changed = true;
+      // Property lists such as /ActualText would still carry the removed text
+      markedContent.forEach(m => { m.touched = true; });
+    };
+    const moveLine = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+
+    // Walks a Tj string or TJ array; returns the TJ items to write when any glyph was cut
+    const showText = (items: ContentOperand[]): ContentOperand[] | undefined => {
+      const { font, fontSize: size, horizontalScale: scale } = state;
+      const step = font?.twoByte ? 2 : 1;
+      const result: ContentOperand[] = [];
+      let kept: number[] = [];
+      let adjustment = 0;
+      let removed = false;
+
+      const flushKept = () => {
+        if (kept.length > 0) result.push({ type: 'string', bytes: Uint8Array.from(kept) });
+        kept = [];
+      };
+
+      for (const item of items) {
+        if (item.type === 'number') {
+          tm = multiply([1, 0, 0, 1, (-item.value / 1000) * size * scale, 0], tm);
+          adjustment += item.value;
+          continue;
+        }
+        if (item.type !== 'string') continue;
+
+        for (let k = 0; k + step <= item.bytes.length; k += step) {
+          const code = step === 2 ? (item.bytes[k] << 8) | item.bytes[k + 1] : item.bytes[k];
+          const width = font ? font.widthOf(code) : 0.5;
+          const advance = width * size + state.charSpacing + (step === 1 && code === 32 ? state.wordSpacing : 0);
+          const trm = multiply(multiply([size * scale, 0, 0, size, 0, state.rise], tm), state.ctm);
+          const glyph = insetBox(transformBox(trm, 0, font?.descent ?? -0.2, width, font?.ascent ?? 0.8), GLYPH_INSET);
+
+          if (boxes.some(box => intersects(glyph, box))) {
+            removed = true;
+            counts.glyphsRemoved++;
+            // A negative TJ offset of the same advance keeps the remaining glyphs in place
+            if (size !== 0) adjustment -= (advance * 1000) / size;
+          } else {
+            if (adjustment !== 0) {
+              flushKept();
+              result.push({ type: 'number', value: adjustment });
+              adjustment = 0;
+            }
+            kept.push(...item.bytes.subarray(k, k + step));
+          }
+          tm = multiply([1, 0, 0, 1, advance * scale, 0], tm);
+        }
+      }
+
+      if (!removed) return undefined;
+      flushKept();
+      if (adjustment !== 0) result.push({ type: 'number', value: adjustment });
+      return result;
+    };
+
+    for (const op of parseContentStream(content)) {
+      const nums = op.operands.map(o => (o.type === 'number' ? o.value : 0));
+      const last = nums[nums.length - 1] ?? 0;
+
+      switch (op.operator) {
+        case 'q': stack.push({ ...state }); break;
+        case 'Q': state = stack.pop() || state; break;
+        case 'cm':
+          if (nums.length >= 6) state.ctm = multiply(nums.slice(-6) as Matrix, state.ctm);
+          break;
+        case 'BT': tm = tlm = IDENTITY; break;
+        case 'Tf': {
+          const name = op.operands[0]?.type === 'name' ? op.operands[0].value : undefined;
+          const fontDict = name ? fonts?.lookupMaybe(PDFName.of(name), PDFDict) : undefined;
+          if (fontDict && !fontCache.has(fontDict)) fontCache.set(fontDict, readFontMetrics(fontDict));
+          state.font = fontDict ? fontCache.get(fontDict) : undefined;
+          state.fontSize = last;
+          break;
+        }
+        case 'Tc': state.charSpacing = last; break;
+        case 'Tw': state.wordSpacing = last; break;
+        case 'Tz': state.horizontalScale = last / 100; break;
+        case 'TL': state.leading = last; break;
+        case 'Ts': state.rise = last; break;
+        case 'Td': moveLine(nums[0] ?? 0, nums[1] ?? 0); break;
+        case 'TD':
+          state.leading = -(nums[1] ?? 0);
+          moveLine(nums[0] ?? 0, nums[1] ?? 0);
+          break;
+        case 'Tm':
+          if (nums.length >= 6) tm = tlm = nums.slice(-6) as Matrix;
+          break;
+        case 'T*': moveLine(0, -state.leading); break;
+        case 'Tj': case 'TJ': case "'": case '"': {
+          if (op.operator === '"') {
+            state.wordSpacing = nums[0] ?? 0;
+            state.charSpacing = nums[1] ?? 0;
+          }
+          if (op.operator === "'" || op.operator === '"') moveLine(0, -state.leading);
+          const shown = op.operands[op.operands.length - 1];
+          const items = shown?.type === 'array' ? shown.items : shown ? [shown] : [];
+          const replacement = showText(items);
+          if (!replacement) break;
+
+          markChanged();
+          if (op.operator === '"') out.push({ operator: 'Tw', operands: [op.operands[0]] }, { operator: 'Tc', operands: [op.operands[1]] });
+          if (op.operator === "'" || op.operator === '"') out.push({ operator: 'T*', operands: [] });
+          out.push({ operator: 'TJ', operands: [{ type: 'array', items: replacement }] });
+          continue;
+        }
+        case 'BI':
+          // Inline images are small; drop any that reach into an area rather than decoding them
+          if (boxes.some(box => intersects(transformBox(state.ctm, 0, 0, 1, 1), box))) {
+            counts.imagesRemoved++;
+            markChanged();
+            continue;
+          }
+          break;
+        case 'BDC': case 'BMC':
+          markedContent.push({ index: out.length, touched: false });
+          break;
+        case 'EMC': {
+          const entry = markedContent.pop();
+          const opening = entry && out[entry.index];
+          if (entry?.touched && opening?.operator === 'BDC') {
+            out[entry.index] = { operator: 'BMC', operands: opening.operands.slice(0, 1) };
+          }
+          break;
+        }
+        case 'Do': {
+          const name = op.operands[0]?.type === 'name' ? op.operands[0].value : undefined;
+          const ref = name ? xObjects?.get(PDFName.of(name)) : undefined;
+          const xObject = ref ? context.lookup(ref) : undefined;
+          if (!name || !(ref instanceof PDFRef) || !(xObject instanceof PDFStream)) break;
+          const subtype = xObject.dict.get(PDFName.of('Subtype'));
+
+          if (subtype === PDFName.of('Image')) {
+            const hits = boxes.filter(box => intersects(transformBox(state.ctm, 0, 0, 1, 1), box));
+            if (hits.length === 0) break;
+            markChanged();
+            const redactedRef = await this.redactImage(context, xObject, state.ctm, hits);
+            if (redactedRef) {
+              counts.imagesRedacted++;
+              out.push({ operator: 'Do', operands: [{ type: 'name', value: addXObject(name, redactedRef) }] });
+            } else {
+              counts.imagesRemoved++;
+              dropXObject(name);
+            }
+            continue;
+          }
+
+          if (subtype === PDFName.of('Form')) {
+            const formMatrix = (numbersOf(xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray)) || IDENTITY) as Matrix;
+            const ctm = multiply(formMatrix, state.ctm);
+            const bbox = numbersOf(xObject.dict.lookupMaybe(PDFName.of('BBox'), PDFArray));
+            if (bbox && bbox.length === 4 && !boxes.some(box => intersects(transformBox(ctm, bbox[0], bbox[1], bbox[2], bbox[3]), box))) break;
+
+            const formContent = depth < MAX_FORM_DEPTH ? decodeStream(xObject) : undefined;
+            const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) || resources;
+            if (!formContent) {
+              // A form we cannot read might hide anything, so it goes
+              markChanged();
+              dropXObject(name);
+              continue;
+            }
+            const result = await this.redactContent(context, formContent, formResources, { ...state, ctm }, boxes, counts, fontCache, depth + 1);
+            if (!result) break;
+
+            markChanged();
+            const form = context.flateStream(result.content);
+            for (const [key, value] of xObject.dict.entries()) {
+              if (![PDFName.of('Length'), PDFName.of('Filter'), PDFName.of('DecodeParms')].includes(key)) form.dict.set(key, value);
+            }
+            if (result.resources) form.dict.set(PDFName.of('Resources'), result.resources);
+            out.push({ operator: 'Do', operands: [{ type: 'name', value: addXObject(name, context.register(form)) }] });
+            continue;
+          }
+          break;
+        }
+      }
+      out.push(op);
+    }
+
+    if (!changed) return undefined;
+    if (ownResources) {
+      // Unhook the replaced and dropped originals so the sweep before saving drops them from the file
+      const used = new Set(out.filter(op => op.operator === 'Do').map(op => (op.operands[0]?.type === 'name' ? op.operands[0].value : '')));
+      const target = ownResources.lookup(PDFName.of('XObject'), PDFDict);
+      replacedNames.forEach(name => { if (!used.has(name)) target.delete(PDFName.of(name)); });
+    }
+    return { content: serializeContentStream(out), resources: ownResources || resources };
+  }
+
+  /**
+   * Paints the parts of an image under the boxes black and returns a new image XObject,
+   * leaving the original for other placements. Returns undefined when the pixels cannot be
+   * decoded, in which case the caller drops the image.
+   */
+  private async redactImage(context: PDFContext, image: PDFStream, ctm: Matrix, boxes: Box[]): Promise<PDFRef | undefined> {
+    const inverse = invert(ctm);
+    const decoded = image instanceof PDFRawStream ? await this.decodeImage(context, image) : undefined;
+    if (!inverse || !decoded) return undefined;
+
+    this.paintRegions(decoded, inverse, boxes, 0);
+
+    const stream = context.flateStream(decoded.pixels);
+    for (const [key, value] of image.dict.entries()) {
+      if (![PDFName.of('Length'), PDFName.of('Filter'), PDFName.of('DecodeParms')].includes(key)) stream.dict.set(key, value);
+    }
+    if (decoded.fromJpeg) stream.dict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+
+    // Soft masks and stencil masks would still show the outline of what was removed
+    const sMask = image.dict.lookup(PDFName.of('SMask'));
+    const decodedMask = sMask instanceof PDFRawStream ? await this.decodeImage(context, sMask) : undefined;
+    if (sMask instanceof PDFRawStream && decodedMask?.components === 1) {
+      this.paintRegions(decodedMask, inverse, boxes, 255);
+      const mask = context.flateStream(decodedMask.pixels);
+      for (const [key, value] of sMask.dict.entries()) {
+        if (![PDFName.of('Length'), PDFName.of('Filter'), PDFName.of('DecodeParms')].includes(key)) mask.dict.set(key, value);
+      }
+      stream.dict.set(PDFName.of('SMask'), context.register(mask));
+    } else {
+      stream.dict.delete(PDFName.of('SMask'));
+    }
+    if (image.dict.lookup(PDFName.of('Mask')) instanceof PDFStream) stream.dict.delete(PDFName.of('Mask'));
+
+    return context.register(stream);
+  }
+
+  private async decodeImage(context: PDFContext, image: PDFRawStream): Promise<{ pixels: Uint8Array; width: number; height: number; components: number; fromJpeg: boolean } | undefined> {
+    const dict = image.dict;
+    const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() || 0;
+    const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() || 0;
+    const bpc = dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber();
+    if (!width || !height || bpc !== 8 || dict.has(PDFName.of('ImageMask')) || dict.has(PDFName.of('Decode'))) return undefined;
+
+    const filter = dict.lookup(PDFName.of('Filter'));
+    try {
+      if (filter === PDFName.of('DCTDecode')) {
+        const bitmap = await createImageBitmap(new Blob([image.contents as unknown as ArrayBuffer], { type: 'image/jpeg' }));
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return undefined;
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        const rgba = ctx.getImageData(0, 0, width, height).data;
+        const pixels = new Uint8Array(width * height * 3);
+        for (let p = 0; p < width * height; p++) {
+          pixels[p * 3] = rgba[p * 4];
+          pixels[p * 3 + 1] = rgba[p * 4 + 1];
+          pixels[p * 3 + 2] = rgba[p * 4 + 2];
+        }
+        return { pixels, width, height, components: 3, fromJpeg: true };
+      }
+
+      const isRaw = (filter === undefined || filter === PDFName.of('FlateDecode')) && !dict.has(PDFName.of('DecodeParms'));
+      const components = image.dict.has(PDFName.of('ColorSpace')) ? colorComponents(context, dict.lookup(PDFName.of('ColorSpace'))) : 1;
+      if (!isRaw || (components !== 1 && components !== 3)) return undefined;
+      const pixels = decodePDFRawStream(image).decode();
+      if (pixels.length < width * height * components) return undefined;
+      return { pixels: pixels.slice(0, width * height * components), width, height, components, fromJpeg: false };
+    } catch (e) {
+      console.warn('Could not decode image for redaction', e);
+      return undefined;
+    }
+  }
+
+  // Image space is the unit square with row 0 at the top
+  private paintRegions(image: { pixels: Uint8Array; width: number; height: number; components: number }, inverse: Matrix, boxes: Box[], value: number) {
+    const { pixels, width, height, components } = image;
+    for (const box of boxes) {
+      const unit = transformBox(inverse, box.x0, box.y0, box.x1, box.y1);
+      const left = Math.max(0, Math.floor(unit.x0 * width));
+      const right = Math.min(width, Math.ceil(unit.x1 * width));
+      const top = Math.max(0, Math.floor((1 - unit.y1) * height));
+      const bottom = Math.min(height, Math.ceil((1 - unit.y0) * height));
+      for (let row = top; row < bottom; row++) {
+        pixels.fill(value, (row * width + left) * components, (row * width + right) * components);
+      }
+    }
+  }
+
+  /**
+   * Deletes annotations that overlap a box. Widgets are also unhooked from the form so
+   * their field values do not survive in the AcroForm.
+   */
+  private removeAnnotations(pdfDoc: PDFDocument, page: PDFPage, boxes: Box[]): number {
+    const context = pdfDoc.context;
+    const annots = page.node.Annots();
+    if (!annots) return 0;
+
+    const removed = new Set<PDFDict>();
+    for (let i = 0; i < annots.size(); i++) {
+      const annot = annots.lookupMaybe(i, PDFDict);
+      const rect = numbersOf(annot?.lookupMaybe(PDFName.of('Rect'), PDFArray));
+      if (!annot || !rect || rect.length !== 4) continue;
+      const annotBox = { x0: Math.min(rect[0], rect[2]), y0: Math.min(rect[1], rect[3]), x1: Math.max(rect[0], rect[2]), y1: Math.max(rect[1], rect[3]) };
+      if (boxes.some(box => intersects(annotBox, box))) removed.add(annot);
+    }
+    // Popups go with the markup annotation they belong to
+    for (let i = 0; i < annots.size(); i++) {
+      const annot = annots.lookupMaybe(i, PDFDict);
+      const parent = annot?.lookupMaybe(PDFName.of('Parent'), PDFDict);
+      if (annot && parent && annot.get(PDFName.of('Subtype')) === PDFName.of('Popup') && removed.has(parent)) removed.add(annot);
+    }
+    if (removed.size === 0) return 0;
+
+    const fields = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict)?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+    const removeFrom = (list: PDFArray | undefined, target: PDFDict) => {
+      const index = list ? list.asArray().findIndex(item => context.lookup(item) === target) : -1;
+      if (list && index >= 0) list.remove(index);
+    };
+    let count = 0;
+    for (const annot of removed) {
+      if (annot.get(PDFName.of('Subtype')) === PDFName.of('Widget')) {
+        // Walk up while parents are left without kids
+        let node = annot;
+        for (;;) {
+          const parent = node.lookupMaybe(PDFName.of('Parent'), PDFDict);
+          if (!parent) { removeFrom(fields, node); break; }
+          const kids = parent.lookupMaybe(PDFName.of('Kids'), PDFArray);
+          removeFrom(kids, node);
+          if (kids && kids.size() > 0) break;
+          node = parent;
+        }
+      }
+      if (annot.get(PDFName.of('Subtype')) !== PDFName.of('Popup')) count++;
+    }
+
+    const kept = annots.asArray().filter(item => !removed.has(context.lookup(item) as PDFDict));
+    page.node.set(PDFName.of('Annots'), context.obj(kept));
+    return count;
+  }
+}
+
+export const redactionService = new RedactionService();
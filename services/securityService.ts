@@ -1,10 +1,238 @@
-
-import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { PDFDocument, PDFArray, PDFDict, PDFHexString, PDFName, PDFObject, PDFRawStream, PDFRef, PDFStream, PDFString } from 'pdf-lib';
+import forge from 'node-forge';
 import { AppFile, ProcessedFile } from '../types';
 import { arrayBufferToDataURL } from '../utils/fileUtils';
 
+export type EncryptionAlgorithm = 'rc4-128' | 'aes-128' | 'aes-256';
+
+export interface PdfPermissions {
+  printing: boolean;
+  copying: boolean;
+  modifying: boolean; // Also covers annotations
+  formFilling: boolean;
+}
+
+export interface ProtectPdfOptions {
+  userPassword: string; // Required to open the file
+  ownerPassword?: string; // Required to change permissions. Random if omitted.
+  algorithm: EncryptionAlgorithm;
+  permissions: PdfPermissions;
+}
+
+// Standard 32-byte padding string from the PDF spec (Algorithm 2, step a)
+const PASSWORD_PADDING = String.fromCharCode(
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+);
+
+// Binary string <-> bytes helpers. node-forge works on "binary strings" (one char per byte).
+const bytesToBinary = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    out += String.fromCharCode.apply(null, bytes.subarray(i, i + 8192) as unknown as number[]);
+  }
+  return out;
+};
+
+const binaryToBytes = (str: string): Uint8Array => {
+  const bytes = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i);
+  return bytes;
+};
+
+const binaryToHex = (str: string): string => forge.util.bytesToHex(str);
+
+const md5 = (data: string): string => forge.md.md5.create().update(data).digest().getBytes();
+
+const rc4 = (key: string, data: string): string => {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key.charCodeAt(i % key.length)) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[n] = data.charCodeAt(n) ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return bytesToBinary(out);
+};
+
+const aesCbcEncrypt = (key: string, iv: string, data: string, pad: boolean = true): string => {
+  const cipher = forge.cipher.createCipher('AES-CBC', key);
+  cipher.start({ iv });
+  cipher.update(forge.util.createBuffer(data, 'raw'));
+  cipher.finish();
+  const output = cipher.output.getBytes();
+  // PKCS#7 always appends a whole block when the input is block-aligned; dropping it gives the unpadded ciphertext.
+  return pad ? output : output.slice(0, data.length);
+};
+
+const int32LE = (value: number): string =>
+  String.fromCharCode(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+
+/**
+ * Builds the /P value. Bits 7-8 and 13-32 must be set, bits 1-2 clear (PDF spec Table 22).
+ * Accessibility extraction (bit 10) is always allowed.
+ */
+const computePermissionFlags = (permissions: PdfPermissions): number => {
+  let flags = 0xfffff0c0 | (1 << 9);
+  if (permissions.printing) flags |= (1 << 2) | (1 << 11);
+  if (permissions.modifying) flags |= (1 << 3) | (1 << 5) | (1 << 10);
+  if (permissions.copying) flags |= 1 << 4;
+  if (permissions.formFilling) flags |= 1 << 8;
+  return flags | 0; // Signed 32-bit integer
+};
+
+/**
+ * Implements the Standard Security Handler (ISO 32000) for writing encrypted PDFs.
+ * Revision 3 (RC4-128), revision 4 (AES-128) and revision 6 (AES-256).
+ */
+class StandardSecurityHandler {
+  private fileKey = '';
+  public readonly encryptDict: Record<string, any> = {};
+
+  constructor(
+    private readonly algorithm: EncryptionAlgorithm,
+    private readonly documentId: string,
+  ) {}
+
+  public setup(userPassword: string, ownerPassword: string, permissions: number) {
+    if (this.algorithm === 'aes-256') this.setupRevision6(userPassword, ownerPassword, permissions);
+    else this.setupRevision3Or4(userPassword, ownerPassword, permissions);
+  }
+
+  private padPassword(password: string): string {
+    // Revision 2-4 passwords are PDFDocEncoding; Latin-1 is the closest browser-side approximation.
+    const raw = Array.from(password).map(ch => String.fromCharCode(ch.charCodeAt(0) & 0xff)).join('');
+    return (raw + PASSWORD_PADDING).slice(0, 32);
+  }
+
+  private setupRevision3Or4(userPassword: string, ownerPassword: string, permissions: number) {
+    const keyLength = 16;
+    const revision = this.algorithm === 'aes-128' ? 4 : 3;
+
+    // Algorithm 3: compute /O
+    let ownerHash = md5(this.padPassword(ownerPassword || userPassword));
+    for (let i = 0; i < 50; i++) ownerHash = md5(ownerHash.slice(0, keyLength));
+    const ownerKey = ownerHash.slice(0, keyLength);
+    let o = rc4(ownerKey, this.padPassword(userPassword));
+    for (let i = 1; i <= 19; i++) o = rc4(this.xorKey(ownerKey, i), o);
+
+    // Algorithm 2: compute the file encryption key
+    let keyHash = md5(this.padPassword(userPassword) + o + int32LE(permissions) + this.documentId);
+    for (let i = 0; i < 50; i++) keyHash = md5(keyHash.slice(0, keyLength));
+    this.fileKey = keyHash.slice(0, keyLength);
+
+    // Algorithm 5: compute /U
+    let u = rc4(this.fileKey, md5(PASSWORD_PADDING + this.documentId));
+    for (let i = 1; i <= 19; i++) u = rc4(this.xorKey(this.fileKey, i), u);
+    u += forge.random.getBytesSync(16);
+
+    Object.assign(this.encryptDict, {
+      Filter: 'Standard',
+      V: revision === 4 ? 4 : 2,
+      R: revision,
+      Length: keyLength * 8,
+      O: PDFHexString.of(binaryToHex(o)),
+      U: PDFHexString.of(binaryToHex(u)),
+      P: permissions,
+    });
+    if (revision === 4) {
+      Object.assign(this.encryptDict, {
+        CF: { StdCF: { CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 } },
+        StmF: 'StdCF',
+        StrF: 'StdCF',
+      });
+    }
+  }
+
+  private setupRevision6(userPassword: string, ownerPassword: string, permissions: number) {
+    const user = forge.util.encodeUtf8(userPassword).slice(0, 127);
+    const owner = forge.util.encodeUtf8(ownerPassword || userPassword).slice(0, 127);
+    const zeroIv = '\0'.repeat(16);
+    this.fileKey = forge.random.getBytesSync(32);
+
+    // Algorithm 8: /U and /UE
+    const userValidationSalt = forge.random.getBytesSync(8);
+    const userKeySalt = forge.random.getBytesSync(8);
+    const u = this.hashRevision6(user, userValidationSalt, '') + userValidationSalt + userKeySalt;
+    const ue = aesCbcEncrypt(this.hashRevision6(user, userKeySalt, ''), zeroIv, this.fileKey, false);
+
+    // Algorithm 9: /O and /OE
+    const ownerValidationSalt = forge.random.getBytesSync(8);
+    const ownerKeySalt = forge.random.getBytesSync(8);
+    const o = this.hashRevision6(owner, ownerValidationSalt, u) + ownerValidationSalt + ownerKeySalt;
+    const oe = aesCbcEncrypt(this.hashRevision6(owner, ownerKeySalt, u), zeroIv, this.fileKey, false);
+
+    // Algorithm 10: /Perms (single AES-256 ECB block, i.e. CBC with a zero IV)
+    const permsBlock = int32LE(permissions) + '\xff\xff\xff\xff' + 'T' + 'adb' + forge.random.getBytesSync(4);
+    const perms = aesCbcEncrypt(this.fileKey, zeroIv, permsBlock, false);
+
+    Object.assign(this.encryptDict, {
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      O: PDFHexString.of(binaryToHex(o)),
+      U: PDFHexString.of(binaryToHex(u)),
+      OE: PDFHexString.of(binaryToHex(oe)),
+      UE: PDFHexString.of(binaryToHex(ue)),
+      Perms: PDFHexString.of(binaryToHex(perms)),
+      P: permissions,
+    });
+  }
+
+  /** Algorithm 2.B: the iterated SHA-2/AES hash used by revision 6. */
+  private hashRevision6(password: string, salt: string, userKey: string): string {
+    let k = forge.md.sha256.create().update(password + salt + userKey).digest().getBytes();
+    for (let round = 0; ; round++) {
+      const k1 = (password + k + userKey).repeat(64);
+      const e = aesCbcEncrypt(k.slice(0, 16), k.slice(16, 32), k1, false);
+      let sum = 0;
+      for (let i = 0; i < 16; i++) sum += e.charCodeAt(i);
+      const md = sum % 3 === 0 ? forge.md.sha256.create() : sum % 3 === 1 ? forge.md.sha384.create() : forge.md.sha512.create();
+      k = md.update(e).digest().getBytes();
+      if (round >= 63 && e.charCodeAt(e.length - 1) <= round - 31) break;
+    }
+    return k.slice(0, 32);
+  }
+
+  private xorKey(key: string, value: number): string {
+    return Array.from(key).map(ch => String.fromCharCode(ch.charCodeAt(0) ^ value)).join('');
+  }
+
+  /** Algorithm 1 / 1.A: encrypts the bytes of a string or stream belonging to the given object. */
+  public encrypt(ref: PDFRef, data: Uint8Array): Uint8Array {
+    const plain = bytesToBinary(data);
+    if (this.algorithm === 'aes-256') {
+      const iv = forge.random.getBytesSync(16);
+      return binaryToBytes(iv + aesCbcEncrypt(this.fileKey, iv, plain));
+    }
+
+    const objectSalt = String.fromCharCode(
+      ref.objectNumber & 0xff, (ref.objectNumber >> 8) & 0xff, (ref.objectNumber >> 16) & 0xff,
+      ref.generationNumber & 0xff, (ref.generationNumber >> 8) & 0xff,
+    );
+    const aesSalt = this.algorithm === 'aes-128' ? 'sAlT' : '';
+    const objectKey = md5(this.fileKey + objectSalt + aesSalt).slice(0, Math.min(this.fileKey.length + 5, 16));
+
+    if (this.algorithm === 'aes-128') {
+      const iv = forge.random.getBytesSync(16);
+      return binaryToBytes(iv + aesCbcEncrypt(objectKey, iv, plain));
+    }
+    return binaryToBytes(rc4(objectKey, plain));
+  }
+}
+
 class SecurityService {
-  
+
   /**
    * Unlocks a password-protected PDF.
    * Note: The user must provide the correct password to open the document first.
@@ -16,8 +244,8 @@ class SecurityService {
     try {
       // Attempt to load. If it's encrypted and no password or wrong password, this will throw.
       // If it's not encrypted, password arg is ignored.
-      const pdfDoc = await PDFDocument.load(file.arrayBuffer, { password } as any);
-      
+      const pdfDoc = await PDFDocument.load(file.arrayBuffer, { password, updateMetadata: false } as any);
+
       // Save without encryption
       const pdfBytes = await pdfDoc.save();
       const blob = new Blob([pdfBytes], { type: 'application/pdf' });
@@ -37,6 +265,75 @@ class SecurityService {
       throw e;
     }
   }
+
+  /**
+   * Encrypts a PDF with the Standard Security Handler.
+   * Every string and stream in the document is encrypted in place, then the /Encrypt
+   * dictionary and file /ID are written to the trailer.
+   */
+  public async protectPdf(file: AppFile, options: ProtectPdfOptions): Promise<ProcessedFile> {
+    if (!file.arrayBuffer) throw new Error("File buffer missing");
+    if (!options.userPassword) throw new Error("A password is required to protect the PDF.");
+
+    let pdfDoc: PDFDocument;
+    try {
+      pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+    } catch (e) {
+      if ((e as Error).message.includes('encrypted')) {
+        throw new Error("This PDF is already encrypted. Unlock it first, then protect it again.");
+      }
+      throw e;
+    }
+
+    // Make sure fonts, images and embedded pages are written to the context before we encrypt it.
+    await pdfDoc.flush();
+
+    const context = pdfDoc.context;
+    const documentId = forge.random.getBytesSync(16);
+    const ownerPassword = options.ownerPassword || forge.util.bytesToHex(forge.random.getBytesSync(16));
+    const handler = new StandardSecurityHandler(options.algorithm, documentId);
+    handler.setup(options.userPassword, ownerPassword, computePermissionFlags(options.permissions));
+
+    const encryptObject = (ref: PDFRef, obj: PDFObject): PDFObject => {
+      if (obj instanceof PDFString || obj instanceof PDFHexString) {
+        return PDFHexString.of(binaryToHex(bytesToBinary(handler.encrypt(ref, obj.asBytes()))));
+      }
+      if (obj instanceof PDFArray) {
+        for (let i = 0; i < obj.size(); i++) obj.set(i, encryptObject(ref, obj.get(i)));
+        return obj;
+      }
+      if (obj instanceof PDFDict) {
+        for (const [key, value] of obj.entries()) obj.set(key, encryptObject(ref, value));
+        return obj;
+      }
+      if (obj instanceof PDFStream) {
+        encryptObject(ref, obj.dict);
+        // getContents() returns the encoded bytes (e.g. Flate-compressed), which is what gets encrypted.
+        return PDFRawStream.of(obj.dict, handler.encrypt(ref, obj.getContents()));
+      }
+      return obj;
+    };
+
+    for (const [ref, obj] of context.enumerateIndirectObjects()) {
+      if (obj instanceof PDFStream && obj.dict.get(PDFName.of('Type')) === PDFName.of('XRef')) continue;
+      context.assign(ref, encryptObject(ref, obj));
+    }
+
+    const idString = PDFHexString.of(binaryToHex(documentId));
+    context.trailerInfo.Encrypt = context.register(context.obj(handler.encryptDict));
+    context.trailerInfo.ID = context.obj([idString, idString]);
+
+    // Object streams would be written after encryption, so keep a classic xref table.
+    const pdfBytes = await pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false });
+
+    return {
+      id: crypto.randomUUID(),
+      name: `protected_${file.name}`,
+      mimeType: 'application/pdf',
+      dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'),
+      size: pdfBytes.byteLength
+    };
+  }
 }
 
 export const securityService = new SecurityService();
@@ -0,0 +1,247 @@
+import { AppFile } from '../types';
+import { pdfEditorService, TextItem, FormWidgetRect } from './pdfEditorService';
+import { pdfToWordService } from './pdfToWordService';
+
+export type SensitiveDataType = 'email' | 'phone' | 'creditCard' | 'iban' | 'ssn' | 'aadhaar' | 'pan' | 'date' | 'custom';
+
+export const SENSITIVE_DATA_LABELS: Record<SensitiveDataType, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  creditCard: 'Credit card numbers',
+  iban: 'IBANs',
+  ssn: 'US Social Security numbers',
+  aadhaar: 'Aadhaar numbers',
+  pan: 'PAN numbers',
+  date: 'Dates',
+  custom: 'Custom pattern',
+};
+
+export interface SensitiveMatch {
+  id: string;
+  pageIndex: number;
+  type: SensitiveDataType;
+  label: string; // Detector name, or the pattern for custom matches
+  text: string;
+  rects: FormWidgetRect[]; // One per text run or OCR word the match spans
+  fromOcr: boolean;
+}
+
+export interface SensitiveDataScanOptions {
+  types: SensitiveDataType[]; // Built-in detectors to run
+  customPatterns: string[]; // Regexes, either bare or written as /pattern/flags
+  ocrScannedPages: boolean; // OCR pages that have (almost) no text layer
+  onProgress?: (percent: number) => void;
+}
+
+interface Detector {
+  type: SensitiveDataType;
+  label: string;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+// A run of text with its box on the page (top-left origin, points)
+interface TextSpan {
+  text: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Pages with fewer visible characters than this are treated as scanned images
+const MIN_TEXT_LAYER_CHARS = 20;
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+// ISO 13616: move the country code and check digits to the end, letters become 10-35, mod 97 must be 1
+const passesIbanChecksum = (value: string) => {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  let remainder = 0;
+  for (const ch of iban.slice(4) + iban.slice(0, 4)) {
+    const code = /\d/.test(ch) ? ch : String(ch.charCodeAt(0) - 55);
+    for (const digit of code) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+// Aadhaar numbers end in a Verhoeff check digit
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6], [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1], [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4], [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2], [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1], [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+const passesVerhoeff = (digits: string) =>
+  digits.split('').reverse().reduce((check, d, i) => VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(d)]], 0) === 0;
+
+const NUMERIC_DATE = /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})$/;
+
+const isPlausibleDate = (value: string) => {
+  const numeric = NUMERIC_DATE.exec(value.trim());
+  if (!numeric) return true; // Written-out months are matched strictly by the pattern itself
+  const [a, b, c] = numeric.slice(1).map(Number);
+  if (numeric[1].length === 4) return b >= 1 && b <= 12 && c >= 1 && c <= 31;
+  if (numeric[3].length === 3 || numeric[3].length === 1) return false;
+  // Day/month order differs by locale, so accept either
+  return a >= 1 && b >= 1 && ((a <= 31 && b <= 12) || (a <= 12 && b <= 31));
+};
+
+const MONTHS = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+const BUILT_IN_DETECTORS: Detector[] = [
+  { type: 'email', label: 'Email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  {
+    type: 'iban', label: 'IBAN', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: passesIbanChecksum,
+  },
+  {
+    type: 'creditCard', label: 'Credit card', pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: value => digitsOf(value).length >= 13 && passesLuhn(digitsOf(value)),
+  },
+  {
+    type: 'aadhaar', label: 'Aadhaar', pattern: /\b[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}\b/g,
+    validate: value => passesVerhoeff(digitsOf(value)),
+  },
+  { type: 'ssn', label: 'SSN', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  // The fourth letter encodes the holder type (P = person, C = company, ...)
+  { type: 'pan', label: 'PAN', pattern: /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/g },
+  {
+    type: 'date', label: 'Date',
+    pattern: new RegExp(
+      `\\b(?:\\d{4}[./-]\\d{1,2}[./-]\\d{1,2}|\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}` +
+      `|\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTHS}\\.?,?\\s+\\d{4}|${MONTHS}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4})\\b`,
+      'gi'
+    ),
+    validate: isPlausibleDate,
+  },
+  {
+    type: 'phone', label: 'Phone',
+    pattern: /(?:\+\d{8,15}\b|(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\b\d{2,4}(?:[\s.-]\d{2,4}){1,4}\b)/g,
+    validate: value => {
+      const digits = digitsOf(value).length;
+      return digits >= 7 && digits <= 15 && !NUMERIC_DATE.test(value.trim());
+    },
+  },
+];
+
+const compileCustomPattern = (source: string): RegExp => {
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(source);
+  try {
+    return literal
+      ? new RegExp(literal[1], literal[2].includes('g') ? literal[2] : `${literal[2]}g`)
+      : new RegExp(source, 'g');
+  } catch {
+    throw new Error(`Invalid pattern: ${source}`);
+  }
+};
+
+class SensitiveDataService {
+
+  /**
+   * Runs the selected detectors over every page's text layer (as returned by
+   * `extractTextData`) and, optionally, over OCR words of scanned pages. Custom patterns
+   * run first; later detectors skip text an earlier one already claimed.
+   */
+  public async findSensitiveData(file: AppFile, options: SensitiveDataScanOptions, textMap?: Map<number, TextItem[]>): Promise<SensitiveMatch[]> {
+    const detectors: Detector[] = [
+      ...options.customPatterns.map(p => p.trim()).filter(Boolean).map(p => ({ type: 'custom' as const, label: p, pattern: compileCustomPattern(p) })),
+      ...BUILT_IN_DETECTORS.filter(d => options.types.includes(d.type)),
+    ];
+    if (detectors.length === 0) throw new Error('Select at least one kind of data to look for.');
+
+    const pages = textMap || await pdfEditorService.extractTextData(file);
+    const matches: SensitiveMatch[] = [];
+    const scannedPages: number[] = [];
+
+    pages.forEach((items, pageIndex) => {
+      const visibleChars = items.reduce((n, item) => n + item.str.replace(/\s/g, '').length, 0);
+      if (visibleChars < MIN_TEXT_LAYER_CHARS) scannedPages.push(pageIndex);
+      const spans = items.map(item => ({
+        text: item.str,
+        left: item.transform[4],
+        top: item.transform[5] - item.height,
+        width: item.width,
+        height: item.height * 1.2,
+      }));
+      matches.push(...this.scanSpans(pageIndex, spans, detectors, false));
+    });
+
+    if (options.ocrScannedPages && scannedPages.length > 0) {
+      const words = await pdfToWordService.recognizeWords(file, scannedPages, options.onProgress);
+      words.forEach((list, pageIndex) => {
+        const spans = list.map(word => ({
+          text: word.text,
+          left: word.bbox.x0,
+          top: word.bbox.y0,
+          width: word.bbox.x1 - word.bbox.x0,
+          height: word.bbox.y1 - word.bbox.y0,
+        }));
+        matches.push(...this.scanSpans(pageIndex, spans, detectors, true));
+      });
+    }
+
+    return matches.sort((a, b) => a.pageIndex - b.pageIndex);
+  }
+
+  /**
+   * Joins a page's runs with spaces so values split across runs still match, then maps
+   * each match back onto the runs it covers. Character positions within a run are
+   * estimated from its width, so boxes are padded by a quarter character on each side.
+   */
+  private scanSpans(pageIndex: number, spans: TextSpan[], detectors: Detector[], fromOcr: boolean): SensitiveMatch[] {
+    let text = '';
+    const ranges = spans.map(span => {
+      const start = text.length;
+      text += `${span.text} `;
+      return { ...span, start, end: start + span.text.length };
+    });
+
+    const claimed: [number, number][] = [];
+    const found: SensitiveMatch[] = [];
+
+    for (const detector of detectors) {
+      const pattern = detector.pattern;
+      pattern.lastIndex = 0;
+      for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+        if (m[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        const start = m.index;
+        const end = start + m[0].length;
+        if (detector.validate && !detector.validate(m[0])) continue;
+        if (claimed.some(([a, b]) => start < b && end > a)) continue;
+        claimed.push([start, end]);
+
+        const rects = ranges.filter(r => r.end > r.start && r.start < end && r.end > start).map(r => {
+          const charWidth = r.width / (r.end - r.start);
+          const from = Math.max(start, r.start) - r.start;
+          const to = Math.min(end, r.end) - r.start;
+          return { left: r.left + (from - 0.25) * charWidth, top: r.top, width: (to - from + 0.5) * charWidth, height: r.height };
+        });
+        found.push({ id: crypto.randomUUID(), pageIndex, type: detector.type, label: detector.label, text: m[0], rects, fromOcr });
+      }
+    }
+    return found;
+  }
+}
+
+export const sensitiveDataService = new SensitiveDataService();
@@ -0,0 +1,801 @@
+import forge from 'node-forge';
+import {
+  PDFDocument, PDFArray, PDFDict, PDFHexString, PDFName, PDFNumber, PDFObject, PDFRef, PDFString, PDFOperator,
+  StandardFonts, drawImage, drawText, degrees, rgb,
+} from 'pdf-lib';
+import { ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { formatPdfDate, parsePdfDate } from '../utils/pdfText';
+import { FormWidgetRect } from './pdfEditorService';
+
+export interface SigningCertificate {
+  privateKey: forge.pki.rsa.PrivateKey;
+  certificate: forge.pki.Certificate;
+  // Remaining certificates of the PKCS#12 file (intermediates / root), embedded for validation
+  chain: forge.pki.Certificate[];
+  subjectName: string;
+  issuerName: string;
+  validFrom: Date;
+  validTo: Date;
+}
+
+export interface DigitalSignOptions {
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+  // Existing, unsigned signature field to sign into. Without it an invisible signature is added.
+  fieldName?: string;
+  // Alternatively, a new visible signature box (top-left origin, relative to the crop box)
+  placement?: { pageIndex: number; rect: FormWidgetRect };
+  // Image (e.g. a saved hand-written signature) shown in the visible appearance
+  imageDataUrl?: string;
+}
+
+export type SignatureStatus = 'valid' | 'invalid' | 'unknown';
+
+export interface SignatureVerification {
+  fieldName: string;
+  signerName: string;
+  issuerName?: string;
+  signingTime?: Date;
+  reason?: string;
+  location?: string;
+  subFilter: string;
+  // 'unknown' when the signature uses an algorithm or format that cannot be checked here
+  status: SignatureStatus;
+  // The signed byte ranges still hash to the digest stored in the signature
+  digestMatches: boolean;
+  // The CMS signature checks out against the signer certificate's public key
+  signatureValid: boolean;
+  // Nothing was appended to the file after this signature
+  coversWholeDocument: boolean;
+  // Incremental updates saved after this signature
+  laterRevisions: number;
+  selfSigned: boolean;
+  certificateValidAtSigning: boolean;
+  hasTimestamp: boolean;
+  problems: string[];
+}
+
+const OID_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47';
+const OID_SIGNING_TIME = '1.2.840.113549.1.9.5';
+const OID_TIMESTAMP_TOKEN = '1.2.840.113549.1.9.16.2.14';
+const OID_COMMON_NAME = '2.5.4.3';
+const OID_ORGANIZATION = '2.5.4.10';
+
+const WEB_CRYPTO_DIGESTS: Record<string, string> = {
+  sha1: 'SHA-1', sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512',
+};
+
+// Hex characters reserved for the CMS blob on top of the embedded certificates
+const CONTENTS_BASE_RESERVE = 8192;
+const BYTE_RANGE_PLACEHOLDER = `[0 ${'0'.repeat(10)} ${'0'.repeat(10)} ${'0'.repeat(10)}]`;
+
+const { asn1 } = forge;
+
+// Binary string <-> bytes helpers. node-forge works on "binary strings" (one char per byte).
+const bytesToBinary = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return result;
+};
+
+const latin1Bytes = (str: string): Uint8Array => Uint8Array.from(str, c => c.charCodeAt(0) & 0xff);
+
+const getCommonName = (attributes: forge.pki.Certificate['subject']): string =>
+  String(attributes.getField('CN')?.value || attributes.getField('O')?.value || 'Unknown');
+
+// Helvetica (WinAnsi) cannot encode everything; unsupported characters become '?'
+const toWinAnsi = (text: string): string => text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const sha256 = async (data: ArrayBuffer): Promise<string> =>
+  bytesToBinary(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+
+const asn1Children = (node: forge.asn1.Asn1 | undefined): forge.asn1.Asn1[] =>
+  node && Array.isArray(node.value) ? node.value : [];
+
+const asn1Bytes = (node: forge.asn1.Asn1): string =>
+  Array.isArray(node.value) ? node.value.map(asn1Bytes).join('') : node.value;
+
+const asn1Oid = (node: forge.asn1.Asn1 | undefined): string =>
+  node && typeof node.value === 'string' ? asn1.derToOid(node.value) : '';
+
+const asn1Time = (node: forge.asn1.Asn1 | undefined): Date | undefined => {
+  if (!node || typeof node.value !== 'string') return undefined;
+  return node.type === asn1.Type.UTCTIME ? asn1.utcTimeToDate(node.value) : asn1.generalizedTimeToDate(node.value);
+};
+
+// Reads the CN (or O) from an X.501 Name without needing a key type node-forge understands
+const readNameAsn1 = (name: forge.asn1.Asn1): string => {
+  const attributes = asn1Children(name).flatMap(asn1Children);
+  const pick = (oid: string) => attributes.find(attr => asn1Oid(asn1Children(attr)[0]) === oid);
+  const attr = pick(OID_COMMON_NAME) || pick(OID_ORGANIZATION);
+  const value = attr ? asn1Children(attr)[1] : undefined;
+  if (!value || typeof value.value !== 'string') return 'Unknown';
+  // BMPString is UTF-16BE; everything else in practice is UTF-8 or a subset of it
+  if (value.type === asn1.Type.BMPSTRING) {
+    let text = '';
+    for (let i = 0; i + 1 < value.value.length; i += 2) text += String.fromCharCode((value.value.charCodeAt(i) << 8) | value.value.charCodeAt(i + 1));
+    return text;
+  }
+  try {
+    return forge.util.decodeUtf8(value.value);
+  } catch {
+    return value.value;
+  }
+};
+
+class SignatureService {
+
+  /**
+   * Opens a PKCS#12 (.p12/.pfx) file and picks the certificate that belongs to its private key.
+   */
+  public loadCertificate(p12Buffer: ArrayBuffer, password: string): SigningCertificate {
+    let p12: forge.pkcs12.Pkcs12Pfx;
+    try {
+      p12 = forge.pkcs12.pkcs12FromAsn1(asn1.fromDer(bytesToBinary(new Uint8Array(p12Buffer))), password);
+    } catch (e) {
+      throw new Error('Could not open the certificate. Check the password and that the file is a .p12/.pfx with an RSA key.');
+    }
+
+    const keyBags = [
+      ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+      ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || []),
+    ];
+    const privateKey = keyBags.find(bag => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+    if (!privateKey) throw new Error('The certificate file does not contain a private key.');
+
+    const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+      .map(bag => bag.cert)
+      .filter((cert): cert is forge.pki.Certificate => !!cert);
+    const certificate = certificates.find(cert => (cert.publicKey as forge.pki.rsa.PublicKey).n?.equals(privateKey.n));
+    if (!certificate) throw new Error('No certificate in the file matches its private key.');
+
+    return {
+      privateKey,
+      certificate,
+      chain: certificates.filter(cert => cert !== certificate),
+      subjectName: getCommonName(certificate.subject),
+      issuerName: getCommonName(certificate.issuer),
+      validFrom: certificate.validity.notBefore,
+      validTo: certificate.validity.notAfter,
+    };
+  }
+
+  /**
+   * Signs a PDF with a detached CAdES signature (PAdES baseline B). The signature field,
+   * its appearance and the signature dictionary are appended as an incremental update,
+   * so the original bytes - including earlier signatures - stay untouched.
+   */
+  public async signPdf(pdfBytes: ArrayBuffer, fileName: string, signer: SigningCertificate, options: DigitalSignOptions = {}): Promise<ProcessedFile> {
+    const now = new Date();
+    if (now < signer.validFrom || now > signer.validTo) {
+      throw new Error(`The certificate is only valid from ${signer.validFrom.toLocaleDateString()} to ${signer.validTo.toLocaleDateString()}.`);
+    }
+
+    const original = new Uint8Array(pdfBytes);
+    const pdfDoc = await PDFDocument.load(original, { updateMetadata: false }).catch(e => {
+      if ((e as Error).message.includes('encrypted')) throw new Error('Encrypted PDFs cannot be signed. Unlock the file first.');
+      throw e;
+    });
+    const context = pdfDoc.context;
+    const previous = this.readPreviousXref(original);
+
+    // Everything allocated from here on is a new object of the update
+    context.largestObjectNumber = Math.max(context.largestObjectNumber, previous.size - 1);
+    const firstNewObject = context.largestObjectNumber + 1;
+    const modified = new Set<PDFRef>();
+    const sigRef = context.nextRef();
+
+    const { acroForm, fields } = this.getOrCreateAcroForm(pdfDoc, modified);
+    acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+
+    let widget: PDFDict;
+    if (options.fieldName) {
+      const target = this.findField(pdfDoc, fields, options.fieldName);
+      if (!target) throw new Error(`Signature field "${options.fieldName}" was not found.`);
+      if (target.field.get(PDFName.of('V'))) throw new Error(`Signature field "${options.fieldName}" is already signed.`);
+      target.field.set(PDFName.of('V'), sigRef);
+      modified.add(target.fieldRef);
+      modified.add(target.widgetRef);
+      widget = target.widget;
+    } else {
+      const pages = pdfDoc.getPages();
+      const page = pages[options.placement?.pageIndex ?? 0] || pages[0];
+      let rect = [0, 0, 0, 0];
+      if (options.placement) {
+        const cropBox = page.getCropBox();
+        const { left, top, width, height } = options.placement.rect;
+        const x = cropBox.x + left;
+        const y = cropBox.y + cropBox.height - top - height;
+        rect = [x, y, x + width, y + height];
+      }
+      widget = context.obj({
+        Type: 'Annot', Subtype: 'Widget', FT: 'Sig', T: PDFHexString.fromText(this.uniqueFieldName(pdfDoc, fields)),
+        Rect: rect, F: options.placement ? 4 : 132, P: page.ref, V: sigRef,
+      }) as PDFDict;
+      const widgetRef = context.register(widget);
+      fields.push(widgetRef);
+      this.addAnnotation(pdfDoc, page.ref, widgetRef, modified);
+    }
+
+    const rect = widget.lookupMaybe(PDFName.of('Rect'), PDFArray)?.asArray().map(n => (n as PDFNumber).asNumber()) || [0, 0, 0, 0];
+    const width = Math.abs(rect[2] - rect[0]);
+    const height = Math.abs(rect[3] - rect[1]);
+    if (width > 0 && height > 0) {
+      const appearanceRef = await this.buildAppearance(pdfDoc, width, height, signer, now, options.imageDataUrl);
+      widget.set(PDFName.of('AP'), context.obj({ N: appearanceRef }));
+    }
+    await pdfDoc.flush();
+
+    // Reserve room for the CMS blob: the certificates plus a generous margin for attributes and signature
+    const certificateBytes = [signer.certificate, ...signer.chain]
+      .reduce((sum, cert) => sum + asn1.toDer(forge.pki.certificateToAsn1(cert)).length(), 0);
+    const contentsLength = CONTENTS_BASE_RESERVE + certificateBytes * 2;
+
+    const sigEntries = [
+      '/Type /Sig /Filter /Adobe.PPKLite /SubFilter /ETSI.CAdES.detached',
+      `/ByteRange ${BYTE_RANGE_PLACEHOLDER}`,
+      `/Contents <${'0'.repeat(contentsLength)}>`,
+      `/M ${PDFString.of(formatPdfDate(now)).toString()}`,
+      `/Name ${PDFHexString.fromText(signer.subjectName).toString()}`,
+    ];
+    if (options.reason) sigEntries.push(`/Reason ${PDFHexString.fromText(options.reason).toString()}`);
+    if (options.location) sigEntries.push(`/Location ${PDFHexString.fromText(options.location).toString()}`);
+    if (options.contactInfo) sigEntries.push(`/ContactInfo ${PDFHexString.fromText(options.contactInfo).toString()}`);
+    const sigObject = `<< ${sigEntries.join(' ')} >>`;
+
+    // --- Write the incremental update ---
+    const chunks: Uint8Array[] = [];
+    let length = original.length;
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? latin1Bytes(data) : data;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const offsets = new Map<number, { offset: number; generation: number }>();
+    const writeObject = (ref: PDFRef, obj: PDFObject) => {
+      offsets.set(ref.objectNumber, { offset: length, generation: ref.generationNumber });
+      const body = new Uint8Array(obj.sizeInBytes());
+      obj.copyBytesInto(body, 0);
+      write(`${ref.objectNumber} ${ref.generationNumber} obj\n`);
+      write(body);
+      write('\nendobj\n');
+    };
+
+    if (original[original.length - 1] !== 0x0a && original[original.length - 1] !== 0x0d) write('\n');
+    for (const ref of modified) writeObject(ref, context.lookup(ref)!);
+    for (const [ref, obj] of context.enumerateIndirectObjects()) {
+      if (ref.objectNumber >= firstNewObject && !modified.has(ref)) writeObject(ref, obj);
+    }
+
+    offsets.set(sigRef.objectNumber, { offset: length, generation: 0 });
+    const sigHeader = `${sigRef.objectNumber} 0 obj\n`;
+    const byteRangePosition = length + sigHeader.length + sigObject.indexOf(BYTE_RANGE_PLACEHOLDER);
+    const contentsStart = length + sigHeader.length + sigObject.indexOf('/Contents <') + '/Contents '.length;
+    const contentsEnd = contentsStart + contentsLength + 2;
+    write(`${sigHeader}${sigObject}\nendobj\n`);
+
+    this.writeXref(write, () => length, offsets, previous, context.largestObjectNumber + 1, pdfDoc);
+
+    const output = new Uint8Array(length);
+    output.set(original, 0);
+    let position = original.length;
+    for (const chunk of chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+
+    // Fill in the byte range, then hash everything except the /Contents hex string
+    const byteRange = `[0 ${contentsStart} ${contentsEnd} ${length - contentsEnd}]`.padEnd(BYTE_RANGE_PLACEHOLDER.length, ' ');
+    output.set(latin1Bytes(byteRange), byteRangePosition);
+    const signedData = new Uint8Array(contentsStart + (length - contentsEnd));
+    signedData.set(output.subarray(0, contentsStart), 0);
+    signedData.set(output.subarray(contentsEnd), contentsStart);
+
+    const cms = forge.util.bytesToHex(this.createCms(await sha256(signedData.buffer as ArrayBuffer), signer)).toUpperCase();
+    if (cms.length > contentsLength) throw new Error('The signature is larger than the space reserved for it.');
+    output.set(latin1Bytes(cms), contentsStart + 1);
+
+    return {
+      id: crypto.randomUUID(),
+      name: `signed_${fileName}`,
+      mimeType: 'application/pdf',
+      dataUrl: arrayBufferToDataURL(output.buffer as ArrayBuffer, 'application/pdf'),
+      size: output.byteLength,
+    };
+  }
+
+  /**
+   * Checks every signature in the document: recomputes the byte-range digest, verifies
+   * the CMS signature against the embedded signer certificate and reports whether the
+   * file was updated after signing. Certificates are not checked against a trust store.
+   */
+  public async verifyPdf(pdfBytes: ArrayBuffer): Promise<SignatureVerification[]> {
+    const bytes = new Uint8Array(pdfBytes);
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true });
+    const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+    const fields = acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+    if (!fields) return [];
+
+    const signatures: { fieldName: string; sig: PDFDict }[] = [];
+    const walk = (list: PDFArray, prefix: string, inheritedType?: PDFObject) => {
+      for (const item of list.asArray()) {
+        const field = pdfDoc.context.lookupMaybe(item, PDFDict);
+        if (!field) continue;
+        const partial = field.lookupMaybe(PDFName.of('T'), PDFString, PDFHexString)?.decodeText();
+        const fieldName = partial === undefined ? prefix.replace(/\.$/, '') : prefix + partial;
+        const type = field.get(PDFName.of('FT')) || inheritedType;
+        const sig = field.lookupMaybe(PDFName.of('V'), PDFDict);
+        if (type === PDFName.of('Sig') && sig) signatures.push({ fieldName, sig });
+        const kids = field.lookupMaybe(PDFName.of('Kids'), PDFArray);
+        if (kids) walk(kids, partial === undefined ? prefix : `${fieldName}.`, type);
+      }
+    };
+    walk(fields, '');
+
+    const results = await Promise.all(signatures.map(({ fieldName, sig }) => this.verifySignature(bytes, fieldName, sig)));
+    // Oldest signature first
+    return results.sort((a, b) => a.laterRevisions === b.laterRevisions ? 0 : b.laterRevisions - a.laterRevisions);
+  }
+
+  private async verifySignature(bytes: Uint8Array, fieldName: string, sig: PDFDict): Promise<SignatureVerification> {
+    const text = (key: string) => sig.lookupMaybe(PDFName.of(key), PDFString, PDFHexString)?.decodeText();
+    const result: SignatureVerification = {
+      fieldName,
+      signerName: text('Name') || 'Unknown',
+      signingTime: parsePdfDate(text('M')),
+      reason: text('Reason'),
+      location: text('Location'),
+      subFilter: sig.lookupMaybe(PDFName.of('SubFilter'), PDFName)?.decodeText() || 'unknown',
+      status: 'invalid',
+      digestMatches: false,
+      signatureValid: false,
+      coversWholeDocument: false,
+      laterRevisions: 0,
+      selfSigned: false,
+      certificateValidAtSigning: false,
+      hasTimestamp: false,
+      problems: [],
+    };
+
+    // --- Byte range: two spans around the /Contents hex string ---
+    const range = sig.lookupMaybe(PDFName.of('ByteRange'), PDFArray)?.asArray().map(n => (n instanceof PDFNumber ? n.asNumber() : NaN)) || [];
+    const [start1, length1, start2, length2] = range;
+    if (range.length !== 4 || range.some(n => !Number.isInteger(n) || n < 0) || start1 !== 0 || start2 + length2 > bytes.length
+        || bytes[length1] !== 0x3c || bytes[start2 - 1] !== 0x3e) {
+      result.problems.push('The signature byte range is malformed and does not frame the signature value.');
+      return result;
+    }
+    const end = start2 + length2;
+    result.coversWholeDocument = end === bytes.length;
+    const trailingText = new TextDecoder('latin1').decode(bytes.subarray(end));
+    result.laterRevisions = (trailingText.match(/%%EOF/g) || []).length;
+
+    if (!['adbe.pkcs7.detached', 'ETSI.CAdES.detached', 'adbe.pkcs7.sha1', 'ETSI.RFC3161'].includes(result.subFilter)) {
+      result.status = 'unknown';
+      result.problems.push(`Signature format ${result.subFilter} is not supported.`);
+      return result;
+    }
+
+    const signedContent = new Uint8Array(length1 + length2);
+    signedContent.set(bytes.subarray(0, length1), 0);
+    signedContent.set(bytes.subarray(start2, end), length1);
+    const hex = new TextDecoder('latin1').decode(bytes.subarray(length1 + 1, start2 - 1)).replace(/\s+/g, '');
+
+    // --- CMS SignedData ---
+    let signedData: forge.asn1.Asn1[];
+    try {
+      const contentInfo = asn1.fromDer(forge.util.hexToBytes(hex.length % 2 ? `${hex}0` : hex), { parseAllBytes: false } as any);
+      signedData = asn1Children(asn1Children(asn1Children(contentInfo)[1])[0]);
+    } catch (e) {
+      result.problems.push('The signature value is not a valid CMS structure.');
+      return result;
+    }
+    const certificates = signedData.find(node => node.tagClass === asn1.Class.CONTEXT_SPECIFIC && node.type === 0);
+    const signerInfo = asn1Children(signedData[signedData.length - 1])[0];
+    const encapsulated = asn1Children(signedData[2])[1];
+    if (!signerInfo) {
+      result.problems.push('The signature contains no signer information.');
+      return result;
+    }
+
+    const signerFields = asn1Children(signerInfo);
+    const sid = signerFields[1];
+    const digestName = String(forge.pki.oids[asn1Oid(asn1Children(signerFields[2])[0])] || '');
+    const signedAttributes = signerFields[3]?.tagClass === asn1.Class.CONTEXT_SPECIFIC && signerFields[3].type === 0 ? signerFields[3] : undefined;
+    const tail = signerFields.slice(signedAttributes ? 4 : 3);
+    const signatureAlgorithm = String(forge.pki.oids[asn1Oid(asn1Children(tail[0])[0])] || asn1Oid(asn1Children(tail[0])[0]));
+    const signatureValue = tail[1] ? asn1Bytes(tail[1]) : '';
+    const unsignedAttributes = tail[2] ? asn1Children(tail[2]) : [];
+    result.hasTimestamp = result.subFilter === 'ETSI.RFC3161' || unsignedAttributes.some(attr => asn1Oid(asn1Children(attr)[0]) === OID_TIMESTAMP_TOKEN);
+
+    // --- Signer certificate, matched by issuer + serial number or subject key identifier ---
+    const certificateNodes = certificates ? asn1Children(certificates) : [];
+    const describe = (cert: forge.asn1.Asn1) => {
+      const tbs = asn1Children(asn1Children(cert)[0]);
+      const offset = tbs[0]?.tagClass === asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;
+      return { cert, serial: tbs[offset], issuer: tbs[offset + 2], validity: tbs[offset + 3], subject: tbs[offset + 4] };
+    };
+    const sameDer = (a?: forge.asn1.Asn1, b?: forge.asn1.Asn1) => !!a && !!b && asn1.toDer(a).getBytes() === asn1.toDer(b).getBytes();
+    const candidates = certificateNodes.map(describe);
+    let signerCert = sid?.tagClass === asn1.Class.UNIVERSAL
+      ? candidates.find(c => sameDer(c.issuer, asn1Children(sid)[0]) && sameDer(c.serial, asn1Children(sid)[1]))
+      : undefined;
+    let forgeCert: forge.pki.Certificate | undefined;
+    for (const candidate of signerCert ? [signerCert] : candidates) {
+      try {
+        const parsed = forge.pki.certificateFromAsn1(candidate.cert);
+        if (!signerCert) {
+          // Subject key identifier form of the signer identifier
+          const ski = (parsed.getExtension('subjectKeyIdentifier') as any)?.subjectKeyIdentifier;
+          if (!ski || ski !== forge.util.bytesToHex(asn1Bytes(sid))) continue;
+          signerCert = candidate;
+        }
+        forgeCert = parsed;
+      } catch {
+        // node-forge only reads RSA keys; the certificate details below still work for other key types
+      }
+      break;
+    }
+    if (!signerCert) {
+      result.problems.push('The signer certificate is not embedded in the signature.');
+      return result;
+    }
+
+    result.signerName = readNameAsn1(signerCert.subject);
+    result.issuerName = readNameAsn1(signerCert.issuer);
+    result.selfSigned = sameDer(signerCert.subject, signerCert.issuer);
+    const attributes = signedAttributes ? asn1Children(signedAttributes) : [];
+    const attributeValue = (oid: string) =>
+      asn1Children(asn1Children(attributes.find(attr => asn1Oid(asn1Children(attr)[0]) === oid))[1])[0];
+    result.signingTime = asn1Time(attributeValue(OID_SIGNING_TIME)) || result.signingTime;
+    const [notBefore, notAfter] = asn1Children(signerCert.validity).map(asn1Time);
+    const checkedAt = result.signingTime || new Date();
+    result.certificateValidAtSigning = !!notBefore && !!notAfter && checkedAt >= notBefore && checkedAt <= notAfter;
+    if (!result.certificateValidAtSigning) result.problems.push('The signer certificate was not valid at the time of signing.');
+    if (result.selfSigned) result.problems.push('The certificate is self-signed, so the signer identity cannot be confirmed.');
+
+    // --- Digest of the signed bytes ---
+    const webDigest = WEB_CRYPTO_DIGESTS[digestName];
+    if (!webDigest) {
+      result.status = 'unknown';
+      result.problems.push(`Digest algorithm ${digestName || 'unknown'} is not supported.`);
+      return result;
+    }
+    const digestWith = async (algorithm: string, data: Uint8Array) =>
+      bytesToBinary(new Uint8Array(await crypto.subtle.digest(algorithm, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer)));
+    const hash = (data: Uint8Array) => digestWith(webDigest, data);
+    const documentDigest = await hash(signedContent);
+
+    // adbe.pkcs7.sha1 embeds the SHA-1 of the byte range as the signed content
+    let contentDigest = documentDigest;
+    let contentMatches = true;
+    if (result.subFilter === 'adbe.pkcs7.sha1' && encapsulated) {
+      const embeddedContent = asn1Bytes(asn1Children(encapsulated)[0] || encapsulated);
+      const sha1 = bytesToBinary(new Uint8Array(await crypto.subtle.digest('SHA-1', signedContent.buffer as ArrayBuffer)));
+      contentMatches = embeddedContent === sha1;
+      contentDigest = await hash(latin1Bytes(embeddedContent));
+    }
+
+    // ETSI.RFC3161 document timestamps sign a TSTInfo whose message imprint holds the byte-range digest
+    if (result.subFilter === 'ETSI.RFC3161') {
+      const tstInfoBytes = encapsulated ? asn1Bytes(asn1Children(encapsulated)[0] || encapsulated) : '';
+      let tstInfo: forge.asn1.Asn1[];
+      try {
+        tstInfo = asn1Children(asn1.fromDer(tstInfoBytes));
+      } catch {
+        result.problems.push('The timestamp token does not contain a valid TSTInfo structure.');
+        return result;
+      }
+      const [imprintAlgorithm, hashedMessage] = asn1Children(tstInfo[2]);
+      const imprintName = String(forge.pki.oids[asn1Oid(asn1Children(imprintAlgorithm)[0])] || '');
+      const imprintDigest = WEB_CRYPTO_DIGESTS[imprintName];
+      if (!imprintDigest || !hashedMessage) {
+        result.status = 'unknown';
+        result.problems.push(`Timestamp imprint algorithm ${imprintName || 'unknown'} is not supported.`);
+        return result;
+      }
+      const imprint = imprintDigest === webDigest ? documentDigest : await digestWith(imprintDigest, signedContent);
+      contentMatches = asn1Bytes(hashedMessage) === imprint;
+      contentDigest = await hash(latin1Bytes(tstInfoBytes));
+    }
+
+    // With signed attributes the signature covers them (re-tagged as a SET OF), otherwise the content digest itself
+    let signedBytes = contentDigest;
+    if (signedAttributes) {
+      const messageDigest = attributeValue(forge.pki.oids.messageDigest);
+      result.digestMatches = contentMatches && !!messageDigest && asn1Bytes(messageDigest) === contentDigest;
+      const set = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, attributes);
+      signedBytes = await hash(latin1Bytes(asn1.toDer(set).getBytes()));
+    } else {
+      result.digestMatches = contentMatches;
+    }
+
+    // --- Signature value ---
+    const isRsa = /^(rsaEncryption|sha\d+WithRSAEncryption)$/.test(signatureAlgorithm);
+    if (!isRsa || !forgeCert) {
+      result.status = result.digestMatches || !signedAttributes ? 'unknown' : 'invalid';
+      if (signedAttributes && !result.digestMatches) result.problems.push('The signed content has been altered: its digest no longer matches.');
+      result.problems.push(`Signature algorithm ${signatureAlgorithm} cannot be checked here.`);
+      return result;
+    }
+    try {
+      result.signatureValid = (forgeCert.publicKey as forge.pki.rsa.PublicKey).verify(signedBytes, signatureValue);
+    } catch {
+      result.signatureValid = false;
+    }
+    // Without signed attributes a changed document shows up as a failing signature
+    if (!signedAttributes) result.digestMatches = result.digestMatches && result.signatureValid;
+    if (!result.digestMatches) result.problems.push('The signed content has been altered: its digest no longer matches.');
+    else if (!result.signatureValid) result.problems.push('The signature does not match the signer certificate.');
+
+    result.status = result.digestMatches && result.signatureValid ? 'valid' : 'invalid';
+    return result;
+  }
+
+  /** Locates the last cross-reference section, which the update must chain to via /Prev. */
+  private readPreviousXref(bytes: Uint8Array) {
+    const tail = new TextDecoder('latin1').decode(bytes.subarray(Math.max(0, bytes.length - 2048)));
+    const matches = Array.from(tail.matchAll(/startxref\s+(\d+)/g));
+    if (matches.length === 0) throw new Error('The PDF has no cross-reference table. Repair it before signing.');
+    const offset = parseInt(matches[matches.length - 1][1], 10);
+
+    const section = new TextDecoder('latin1').decode(bytes.subarray(offset, offset + 65536));
+    const isStream = !section.startsWith('xref');
+    const trailer = isStream ? section : section.slice(section.indexOf('trailer'));
+    const size = parseInt(/\/Size\s+(\d+)/.exec(trailer)?.[1] || '0', 10);
+    return { offset, isStream, size };
+  }
+
+  private getOrCreateAcroForm(pdfDoc: PDFDocument, modified: Set<PDFRef>) {
+    const context = pdfDoc.context;
+    const catalogRef = context.trailerInfo.Root as PDFRef;
+    const entry = pdfDoc.catalog.get(PDFName.of('AcroForm'));
+
+    let acroForm: PDFDict;
+    if (entry instanceof PDFRef) {
+      acroForm = context.lookup(entry, PDFDict);
+      modified.add(entry);
+    } else if (entry instanceof PDFDict) {
+      acroForm = entry;
+      modified.add(catalogRef);
+    } else {
+      acroForm = context.obj({ Fields: [] }) as PDFDict;
+      pdfDoc.catalog.set(PDFName.of('AcroForm'), context.register(acroForm));
+      modified.add(catalogRef);
+    }
+
+    const fieldsEntry = acroForm.get(PDFName.of('Fields'));
+    let fields: PDFArray;
+    if (fieldsEntry instanceof PDFRef) {
+      fields = context.lookup(fieldsEntry, PDFArray);
+      modified.add(fieldsEntry);
+    } else if (fieldsEntry instanceof PDFArray) {
+      fields = fieldsEntry;
+    } else {
+      fields = context.obj([]) as PDFArray;
+      acroForm.set(PDFName.of('Fields'), fields);
+    }
+    return { acroForm, fields };
+  }
+
+  private findField(pdfDoc: PDFDocument, fields: PDFArray, name: string) {
+    const context = pdfDoc.context;
+    const walk = (list: PDFArray, prefix: string): { fieldRef: PDFRef; field: PDFDict; widgetRef: PDFRef; widget: PDFDict } | undefined => {
+      for (const item of list.asArray()) {
+        if (!(item instanceof PDFRef)) continue;
+        const field = context.lookupMaybe(item, PDFDict);
+        const partial = field?.lookupMaybe(PDFName.of('T'), PDFString, PDFHexString)?.decodeText();
+        if (!field || partial === undefined) continue;
+        const fullName = prefix + partial;
+        const kids = field.lookupMaybe(PDFName.of('Kids'), PDFArray);
+
+        if (fullName === name && field.get(PDFName.of('FT')) === PDFName.of('Sig')) {
+          const widgetRef = field.get(PDFName.of('Subtype')) === PDFName.of('Widget') ? item : kids?.get(0);
+          if (!(widgetRef instanceof PDFRef)) return undefined;
+          return { fieldRef: item, field, widgetRef, widget: context.lookup(widgetRef, PDFDict) };
+        }
+        const found = kids && walk(kids, `${fullName}.`);
+        if (found) return found;
+      }
+      return undefined;
+    };
+    return walk(fields, '');
+  }
+
+  private uniqueFieldName(pdfDoc: PDFDocument, fields: PDFArray): string {
+    const names = new Set<string>();
+    const collect = (list: PDFArray, prefix: string) => {
+      for (const item of list.asArray()) {
+        const field = pdfDoc.context.lookupMaybe(item, PDFDict);
+        const partial = field?.lookupMaybe(PDFName.of('T'), PDFString, PDFHexString)?.decodeText();
+        if (!field || partial === undefined) continue;
+        names.add(prefix + partial);
+        const kids = field.lookupMaybe(PDFName.of('Kids'), PDFArray);
+        if (kids) collect(kids, `${prefix}${partial}.`);
+      }
+    };
+    collect(fields, '');
+
+    let i = 1;
+    while (names.has(`Signature${i}`)) i++;
+    return `Signature${i}`;
+  }
+
+  private addAnnotation(pdfDoc: PDFDocument, pageRef: PDFRef, annotRef: PDFRef, modified: Set<PDFRef>) {
+    const context = pdfDoc.context;
+    const page = context.lookup(pageRef, PDFDict);
+    const annots = page.get(PDFName.of('Annots'));
+    if (annots instanceof PDFRef) {
+      context.lookup(annots, PDFArray).push(annotRef);
+      modified.add(annots);
+    } else if (annots instanceof PDFArray) {
+      annots.push(annotRef);
+      modified.add(pageRef);
+    } else {
+      page.set(PDFName.of('Annots'), context.obj([annotRef]));
+      modified.add(pageRef);
+    }
+  }
+
+  /**
+   * Visible appearance: the signature image on top, the signer name and date underneath.
+   */
+  private async buildAppearance(pdfDoc: PDFDocument, width: number, height: number, signer: SigningCertificate, date: Date, imageDataUrl?: string): Promise<PDFRef> {
+    const context = pdfDoc.context;
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const lines = [`Digitally signed by ${toWinAnsi(signer.subjectName)}`, `Date: ${date.toISOString().slice(0, 19).replace('T', ' ')} UTC`];
+    const widest = Math.max(...lines.map(line => font.widthOfTextAtSize(line, 1)));
+    const fontSize = Math.max(3, Math.min(8, height * 0.14, (width - 4) / widest));
+    const lineHeight = fontSize * 1.2;
+    const textHeight = lines.length * lineHeight + 2;
+    const noRotation = { rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0) };
+
+    const operators: PDFOperator[] = [];
+    const resources: Record<string, any> = { Font: { F1: font.ref } };
+
+    if (imageDataUrl) {
+      const image = imageDataUrl.startsWith('data:image/jpeg') ? await pdfDoc.embedJpg(imageDataUrl) : await pdfDoc.embedPng(imageDataUrl);
+      const areaHeight = Math.max(height - textHeight, height * 0.4);
+      const scale = Math.min(width / image.width, areaHeight / image.height);
+      const imageWidth = image.width * scale;
+      const imageHeight = image.height * scale;
+      resources.XObject = { Img: image.ref };
+      operators.push(...drawImage('Img', {
+        x: (width - imageWidth) / 2, y: height - areaHeight + (areaHeight - imageHeight) / 2,
+        width: imageWidth, height: imageHeight, ...noRotation,
+      }));
+    }
+
+    // Without an image the text block is centered vertically
+    const firstBaseline = imageDataUrl ? textHeight - lineHeight : (height + textHeight) / 2 - lineHeight;
+    lines.forEach((line, i) => {
+      operators.push(...drawText(font.encodeText(line), {
+        color: rgb(0.1, 0.1, 0.1), font: 'F1', size: fontSize, x: 2, y: firstBaseline - i * lineHeight + 2, ...noRotation,
+      }));
+    });
+
+    return context.register(context.formXObject(operators, { BBox: [0, 0, width, height], Resources: resources }));
+  }
+
+  /** Builds a detached CMS SignedData with the PAdES-required signed attributes. */
+  private createCms(documentDigest: string, signer: SigningCertificate): string {
+    const certificateDer = asn1.toDer(forge.pki.certificateToAsn1(signer.certificate)).getBytes();
+    const certificateHash = forge.md.sha256.create().update(certificateDer).digest().getBytes();
+
+    const oid = (value: string) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(value).getBytes());
+    const sequence = (items: forge.asn1.Asn1[]) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, items);
+    const set = (items: forge.asn1.Asn1[]) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, items);
+    const octets = (bytes: string) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, bytes);
+    const integer = (value: number) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(value).getBytes());
+    const attribute = (type: string, value: forge.asn1.Asn1) => sequence([oid(type), set([value])]);
+
+    const sha256Algorithm = sequence([oid(forge.pki.oids.sha256)]);
+    const attributes = [
+      attribute(forge.pki.oids.contentType, oid(forge.pki.oids.data)),
+      attribute(forge.pki.oids.messageDigest, octets(documentDigest)),
+      // ESS signing-certificate-v2 binds the signer certificate to the signature (SHA-256 is the default hash)
+      attribute(OID_SIGNING_CERTIFICATE_V2, sequence([sequence([sequence([octets(certificateHash)])])])),
+    ];
+    // DER orders SET OF members by their encoding
+    const encodedAttributes = attributes
+      .map(attr => asn1.toDer(attr).getBytes())
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const signedAttributesDer = asn1.toDer(set(encodedAttributes.map(der => asn1.fromDer(der)))).getBytes();
+
+    const md = forge.md.sha256.create();
+    md.update(signedAttributesDer);
+    const signature = signer.privateKey.sign(md);
+
+    // Issuer and serial number come straight from the original TBSCertificate to avoid re-encoding differences
+    const tbs = forge.pki.certificateToAsn1(signer.certificate).value[0] as forge.asn1.Asn1;
+    const tbsFields = tbs.value as forge.asn1.Asn1[];
+    const offset = tbsFields[0].tagClass === asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;
+    const issuerAndSerial = sequence([tbsFields[offset + 2], tbsFields[offset]]);
+
+    const signedAttributes = asn1.fromDer(signedAttributesDer);
+    signedAttributes.tagClass = asn1.Class.CONTEXT_SPECIFIC;
+    signedAttributes.type = 0;
+
+    const signerInfo = sequence([
+      integer(1),
+      issuerAndSerial,
+      sha256Algorithm,
+      signedAttributes,
+      sequence([oid(forge.pki.oids.rsaEncryption), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')]),
+      octets(signature),
+    ]);
+
+    const signedData = sequence([
+      integer(1),
+      set([sha256Algorithm]),
+      sequence([oid(forge.pki.oids.data)]),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true,
+        [signer.certificate, ...signer.chain].map(cert => forge.pki.certificateToAsn1(cert))),
+      set([signerInfo]),
+    ]);
+
+    const contentInfo = sequence([
+      oid(forge.pki.oids.signedData),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+    ]);
+    return asn1.toDer(contentInfo).getBytes();
+  }
+
+  private writeXref(
+    write: (data: string | Uint8Array) => void,
+    position: () => number,
+    offsets: Map<number, { offset: number; generation: number }>,
+    previous: { offset: number; isStream: boolean; size: number },
+    nextObjectNumber: number,
+    pdfDoc: PDFDocument,
+  ) {
+    const { Root, Info, ID } = pdfDoc.context.trailerInfo;
+    const trailerEntries = [`/Root ${Root}`];
+    if (Info) trailerEntries.push(`/Info ${Info}`);
+    if (ID) trailerEntries.push(`/ID ${ID}`);
+    trailerEntries.push(`/Prev ${previous.offset}`);
+
+    // Cross-reference streams must be continued with a stream, classic tables with a table
+    const xrefOffset = position();
+    if (previous.isStream) offsets.set(nextObjectNumber, { offset: xrefOffset, generation: 0 });
+    const size = Math.max(previous.size, nextObjectNumber + (previous.isStream ? 1 : 0));
+
+    const numbers = Array.from(offsets.keys()).sort((a, b) => a - b);
+    const runs: number[][] = [];
+    for (const n of numbers) {
+      const run = runs[runs.length - 1];
+      if (run && run[run.length - 1] === n - 1) run.push(n);
+      else runs.push([n]);
+    }
+
+    if (!previous.isStream) {
+      let table = 'xref\n';
+      for (const run of runs) {
+        table += `${run[0]} ${run.length}\n`;
+        for (const n of run) {
+          const { offset, generation } = offsets.get(n)!;
+          table += `${String(offset).padStart(10, '0')} ${String(generation).padStart(5, '0')} n\r\n`;
+        }
+      }
+      write(`${table}trailer\n<< /Size ${size} ${trailerEntries.join(' ')} >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+      return;
+    }
+
+    // Uncompressed entries: type (1 byte), offset (4 bytes), generation (2 bytes)
+    const data = new Uint8Array(numbers.length * 7);
+    numbers.forEach((n, i) => {
+      const { offset, generation } = offsets.get(n)!;
+      data.set([1, (offset >>> 24) & 0xff, (offset >>> 16) & 0xff, (offset >>> 8) & 0xff, offset & 0xff, (generation >> 8) & 0xff, generation & 0xff], i * 7);
+    });
+    const index = runs.map(run => `${run[0]} ${run.length}`).join(' ');
+    write(`${nextObjectNumber} 0 obj\n<< /Type /XRef /Size ${size} /W [1 4 2] /Index [${index}] ${trailerEntries.join(' ')} /Length ${data.length} >>\nstream\n`);
+    write(data);
+    write(`\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  }
+}
+
+export const signatureService = new SignatureService();
@@ -0,0 +1,432 @@
+import { PDFDocument, rgb } from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToBase64, arrayBufferToDataURL } from '../utils/fileUtils';
+import { AiRequest } from './aiProvider';
+import { AiService, aiService } from './aiService';
+import { fontService, FontStyle } from './fontService';
+import { pdfToWordService } from './pdfToWordService';
+
+export type SummaryProfile = 'tldr' | 'executive' | 'sections' | 'keyPoints' | 'actionItems' | 'glossary';
+export type SummaryLength = 'short' | 'medium' | 'long';
+export type SummaryAudience = 'general' | 'executive' | 'expert' | 'student';
+export type SummaryExportFormat = 'docx' | 'md' | 'pdf';
+
+export interface SummaryOptions {
+  profile: SummaryProfile;
+  length: SummaryLength;
+  audience: SummaryAudience;
+  language: string; // English name of the output language, or 'auto' for the document's own
+}
+
+/** A bullet of a summary. Glossaries fill `term`, action items `owner` and `due`. */
+export interface SummaryItem {
+  text: string;
+  term?: string;
+  owner?: string;
+  due?: string;
+  pages: number[]; // 1-based pages the item is based on
+}
+
+export interface SummarySection {
+  heading: string;
+  paragraphs: string[];
+  items: SummaryItem[];
+}
+
+export interface StructuredSummary {
+  title: string;
+  profile: SummaryProfile;
+  sections: SummarySection[];
+  chunks: number; // parts the document was read in; more than 1 means map-reduce was used
+}
+
+export interface SummaryProgress {
+  message: string;
+  percent: number;
+}
+
+export const SUMMARY_PROFILES: Record<SummaryProfile, { label: string; description: string; targetWords: Record<SummaryLength, number>; instructions: string }> = {
+  tldr: {
+    label: 'TL;DR',
+    description: 'The gist in a few sentences.',
+    targetWords: { short: 30, medium: 60, long: 120 },
+    instructions: 'Write one section without a heading (use an empty string) containing one or two paragraphs and no items.',
+  },
+  executive: {
+    label: 'Executive brief',
+    description: 'Purpose, findings, implications and recommendations.',
+    targetWords: { short: 150, medium: 300, long: 600 },
+    instructions: 'Use the sections "Purpose", "Key findings", "Implications" and "Recommendations". Lead each with a short paragraph; put findings and recommendations in items with page references.',
+  },
+  sections: {
+    label: 'Section by section',
+    description: "Follows the document's own structure.",
+    targetWords: { short: 250, medium: 600, long: 1200 },
+    instructions: "Create one section per major part of the document, in document order, using the document's own headings where it has them. Summarize each part in a paragraph and optional items.",
+  },
+  keyPoints: {
+    label: 'Key points',
+    description: 'The most important points, each with page references.',
+    targetWords: { short: 100, medium: 250, long: 500 },
+    instructions: 'Use a single section "Key points" whose items are the most important points, most important first. Every item must list its pages.',
+  },
+  actionItems: {
+    label: 'Action items & deadlines',
+    description: 'Tasks, owners and due dates.',
+    targetWords: { short: 100, medium: 250, long: 500 },
+    instructions: 'Use the sections "Action items" and "Deadlines". Each item is one task or obligation; fill "owner" with the responsible party and "due" with the date or period exactly as the document states it, leaving them empty when the document does not say. If there are none, return one section with a paragraph saying so.',
+  },
+  glossary: {
+    label: 'Glossary',
+    description: 'Terms, abbreviations and definitions.',
+    targetWords: { short: 150, medium: 350, long: 700 },
+    instructions: 'Use a single section "Glossary" whose items each define one term, abbreviation or defined name: put it in "term" and its meaning, as used in the document, in "text". Order the items alphabetically by term.',
+  },
+};
+
+export const SUMMARY_AUDIENCES: Record<SummaryAudience, string> = {
+  general: 'General reader',
+  executive: 'Decision maker',
+  expert: 'Subject expert',
+  student: 'Student',
+};
+
+const AUDIENCE_INSTRUCTIONS: Record<SummaryAudience, string> = {
+  general: 'Write for a general reader: plain words, explain jargon.',
+  executive: 'Write for a busy decision maker: lead with conclusions, costs, risks and decisions needed.',
+  expert: 'Write for a subject expert: keep technical terms, figures and caveats.',
+  student: 'Write for a student: explain the concepts and why they matter, step by step.',
+};
+
+const MIME_TYPES: Record<SummaryExportFormat, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown',
+  pdf: 'application/pdf',
+};
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89];
+const MARGIN = 56;
+// Prompt text around the document, kept out of the per-request budget for document text
+const PROMPT_ALLOWANCE = 4000;
+const MAX_REDUCE_ROUNDS = 4;
+
+const SCHEMA = `{
+  "title": "string",
+  "sections": [
+    {
+      "heading": "string",
+      "paragraphs": ["string"],
+      "items": [{ "text": "string", "term": "string (optional)", "owner": "string (optional)", "due": "string (optional)", "pages": [number] }]
+    }
+  ]
+}`;
+
+const NOTES_SCHEMA = '{ "notes": [{ "text": "string", "pages": [number] }] }';
+
+const createProcessedFile = (bytes: Uint8Array, name: string, mimeType: string): ProcessedFile => ({
+  id: crypto.randomUUID(),
+  name,
+  mimeType,
+  dataUrl: arrayBufferToDataURL(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer, mimeType),
+  size: bytes.byteLength,
+});
+
+const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const validPages = (value: unknown, pageCount: number): number[] =>
+  Array.isArray(value)
+    ? [...new Set(value.map(Number).filter(n => Number.isInteger(n) && n >= 1 && n <= pageCount))].sort((a, b) => a - b)
+    : [];
+
+/** Checks a reply against `SCHEMA`, dropping empty entries; throws when nothing usable is left. */
+const validateSummary = (reply: any, pageCount: number): Omit<StructuredSummary, 'profile' | 'chunks'> => {
+  if (!reply || typeof reply !== 'object' || !Array.isArray(reply.sections)) {
+    throw new Error('The AI reply did not match the summary format (missing "sections").');
+  }
+  const sections: SummarySection[] = reply.sections
+    .filter((section: any) => section && typeof section === 'object')
+    .map((section: any) => ({
+      heading: optionalText(section.heading) || '',
+      paragraphs: (Array.isArray(section.paragraphs) ? section.paragraphs : []).map(optionalText).filter(Boolean),
+      items: (Array.isArray(section.items) ? section.items : [])
+        .filter((item: any) => item && optionalText(item.text))
+        .map((item: any) => ({
+          text: item.text.trim(),
+          term: optionalText(item.term),
+          owner: optionalText(item.owner),
+          due: optionalText(item.due),
+          pages: validPages(item.pages, pageCount),
+        })),
+    }))
+    .filter((section: SummarySection) => section.paragraphs.length > 0 || section.items.length > 0);
+
+  if (sections.length === 0) throw new Error('The AI reply did not contain any summary content.');
+  return { title: optionalText(reply.title) || 'Summary', sections };
+};
+
+const validateNotes = (reply: any, pageCount: number): SummaryItem[] => {
+  if (!reply || !Array.isArray(reply.notes)) throw new Error('The AI reply did not match the notes format (missing "notes").');
+  return reply.notes
+    .filter((note: any) => note && optionalText(note.text))
+    .map((note: any) => ({ text: note.text.trim(), pages: validPages(note.pages, pageCount) }));
+};
+
+const pageLabel = (pages: number[]) => (pages.length === 0 ? '' : `${pages.length === 1 ? 'p.' : 'pp.'} ${pages.join(', ')}`);
+
+/** One summary item as plain text, e.g. "Send the report — Owner: Finance · Due: 1 May (p. 4)". */
+export const formatSummaryItem = (item: SummaryItem, markdown = false): string => {
+  const term = item.term ? (markdown ? `**${item.term}**: ` : `${item.term}: `) : '';
+  const details = [item.owner && `Owner: ${item.owner}`, item.due && `Due: ${item.due}`].filter(Boolean).join(' · ');
+  const pages = pageLabel(item.pages);
+  return `${term}${item.text}${details ? ` — ${details}` : ''}${pages ? ` (${pages})` : ''}`;
+};
+
+const notesToText = (notes: SummaryItem[]) => notes.map(note => `- ${note.text}${note.pages.length ? ` [${pageLabel(note.pages)}]` : ''}`).join('\n');
+
+/** Groups consecutive entries so that each group's text stays within `budget` characters. */
+const groupByBudget = <T>(entries: T[], sizeOf: (entry: T) => number, budget: number): T[][] => {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+  for (const entry of entries) {
+    const size = sizeOf(entry);
+    if (current.length > 0 && used + size > budget) {
+      groups.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(entry);
+    used += size;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+};
+
+/**
+ * Structured summaries of PDFs in several profiles (TL;DR, executive brief, key points, ...).
+ * The model replies in JSON that is validated before use. Documents longer than the
+ * provider's input limit are summarized map-reduce style: notes per chunk of pages, then
+ * one summary of the notes. Pass an `AiService` with a `MockAiProvider` to run it offline.
+ */
+export class SummaryService {
+  constructor(private ai: AiService = aiService) {}
+
+  public async summarize(file: AppFile, options: SummaryOptions, onProgress?: (progress: SummaryProgress) => void): Promise<StructuredSummary> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const provider = this.ai.getProvider();
+    const budget = Math.max(2000, provider.capabilities.maxInputChars - PROMPT_ALLOWANCE);
+
+    onProgress?.({ message: 'Reading the document...', percent: 5 });
+    const pages = await pdfToWordService.extractPageTexts(file);
+    const pageCount = pages.length;
+
+    if (pages.every(text => !text.trim())) {
+      // Scanned documents: providers that read PDFs can still see the pages themselves
+      if (!provider.capabilities.pdfInput) {
+        throw new Error('This PDF has no text layer (it is probably scanned). Run it through PDF OCR first, then summarize the result.');
+      }
+      onProgress?.({ message: 'Summarizing...', percent: 30 });
+      const summary = await this.request(
+        { prompt: this.summaryPrompt(options, 'The document is attached as a PDF. Use its page numbers for "pages".'), media: [{ mimeType: 'application/pdf', data: arrayBufferToBase64(file.arrayBuffer) }] },
+        pageCount,
+      );
+      return { ...summary, profile: options.profile, chunks: 1 };
+    }
+
+    // Pages longer than a whole request are cut into pieces that keep their page marker
+    const marked = pages.flatMap((text, i) => {
+      const pieces: string[] = [];
+      for (let start = 0; start < text.trim().length; start += budget - 20) {
+        pieces.push(`[Page ${i + 1}]\n${text.trim().slice(start, start + budget - 20)}`);
+      }
+      return pieces;
+    });
+    const chunks = groupByBudget(marked, text => text.length + 2, budget).map(group => group.join('\n\n'));
+
+    if (chunks.length === 1) {
+      onProgress?.({ message: 'Summarizing...', percent: 30 });
+      const summary = await this.request(
+        { prompt: this.summaryPrompt(options, `Document text (each page starts with a [Page N] marker; use these numbers for "pages"):\n\n${chunks[0]}`) },
+        pageCount,
+      );
+      return { ...summary, profile: options.profile, chunks: 1 };
+    }
+
+    // Map: notes on each chunk, aimed at the chosen profile
+    let notes: SummaryItem[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      onProgress?.({ message: `Reading part ${i + 1} of ${chunks.length}...`, percent: 10 + Math.round((i / chunks.length) * 70) });
+      notes.push(...await this.takeNotes(options, `Part ${i + 1} of ${chunks.length} of the document:\n\n${chunk}`, pageCount));
+    }
+
+    // Reduce: condense the notes until they fit in one request
+    for (let round = 0; notesToText(notes).length > budget; round++) {
+      if (round >= MAX_REDUCE_ROUNDS) throw new Error('The document is too long to summarize with the selected AI provider.');
+      onProgress?.({ message: 'Condensing notes...', percent: 82 });
+      const groups = groupByBudget(notes, note => notesToText([note]).length + 1, budget);
+      const condensed: SummaryItem[] = [];
+      for (const group of groups) {
+        condensed.push(...await this.takeNotes(options, `Notes taken from consecutive parts of the document, with their pages:\n\n${notesToText(group)}`, pageCount));
+      }
+      notes = condensed;
+    }
+
+    onProgress?.({ message: 'Writing the summary...', percent: 90 });
+    const summary = await this.request(
+      { prompt: this.summaryPrompt(options, `The document was too long to read at once. These notes were taken from all of its parts, in order, with the pages they come from:\n\n${notesToText(notes)}`) },
+      pageCount,
+    );
+    return { ...summary, profile: options.profile, chunks: chunks.length };
+  }
+
+  /** Writes a summary as a Word document, Markdown or a PDF. */
+  public async exportSummary(summary: StructuredSummary, format: SummaryExportFormat, pdfFileName: string): Promise<ProcessedFile> {
+    const baseName = pdfFileName.replace(/\.pdf$/i, '');
+    const fileName = `${baseName}_${summary.profile}_summary.${format}`;
+    let bytes: Uint8Array;
+
+    if (format === 'pdf') {
+      bytes = await this.buildPdf(summary, pdfFileName);
+    } else if (format === 'docx') {
+      bytes = await this.buildDocx(summary, pdfFileName);
+    } else {
+      bytes = new TextEncoder().encode(this.buildMarkdown(summary, pdfFileName));
+    }
+    return createProcessedFile(bytes, fileName, MIME_TYPES[format]);
+  }
+
+  private summaryPrompt(options: SummaryOptions, input: string): string {
+    const profile = SUMMARY_PROFILES[options.profile];
+    const language = options.language === 'auto' ? 'the language of the document' : options.language;
+    return `Create a "${profile.label}" summary of a PDF document: ${profile.description}
+${profile.instructions}
+${AUDIENCE_INSTRUCTIONS[options.audience]}
+Aim for about ${profile.targetWords[options.length]} words in total. Write the title and all content in ${language}.
+Use only information from the document. "pages" lists the page numbers an item is based on (empty if unknown).
+
+Return ONLY a JSON object with this schema:
+${SCHEMA}
+
+${input}`;
+  }
+
+  private takeNotes(options: SummaryOptions, input: string, pageCount: number): Promise<SummaryItem[]> {
+    const profile = SUMMARY_PROFILES[options.profile];
+    const prompt = `You are reading a long document part by part. Take concise notes on the text below that will later be combined into a "${profile.label}" summary (${profile.description}).
+Keep facts, names, figures and dates exact, and list the page numbers each note is based on.
+Write the notes in English; the final summary is translated later.
+
+Return ONLY a JSON object with this schema:
+${NOTES_SCHEMA}
+
+${input}`;
+    return this.ai.generateStructured({ prompt }, reply => validateNotes(reply, pageCount));
+  }
+
+  private request(request: AiRequest, pageCount: number) {
+    return this.ai.generateStructured(request, reply => validateSummary(reply, pageCount));
+  }
+
+  private buildMarkdown(summary: StructuredSummary, pdfFileName: string): string {
+    const lines = [`# ${summary.title}`, '', `*${SUMMARY_PROFILES[summary.profile].label} of ${pdfFileName}*`, ''];
+    for (const section of summary.sections) {
+      if (section.heading) lines.push(`## ${section.heading}`, '');
+      section.paragraphs.forEach(paragraph => lines.push(paragraph, ''));
+      if (section.items.length > 0) {
+        section.items.forEach(item => lines.push(`- ${formatSummaryItem(item, true)}`));
+        lines.push('');
+      }
+    }
+    return lines.join('\n');
+  }
+
+  private async buildDocx(summary: StructuredSummary, pdfFileName: string): Promise<Uint8Array> {
+    const docx = await import('docx');
+    const children: any[] = [
+      new docx.Paragraph({ text: summary.title, heading: docx.HeadingLevel.TITLE }),
+      new docx.Paragraph({
+        children: [new docx.TextRun({ text: `${SUMMARY_PROFILES[summary.profile].label} of ${pdfFileName}`, color: '666666' })],
+        spacing: { after: 300 },
+      }),
+    ];
+
+    for (const section of summary.sections) {
+      if (section.heading) children.push(new docx.Paragraph({ text: section.heading, heading: docx.HeadingLevel.HEADING_1 }));
+      section.paragraphs.forEach(paragraph => children.push(new docx.Paragraph({ text: paragraph, spacing: { after: 200 } })));
+      section.items.forEach(item => {
+        const rest = formatSummaryItem({ ...item, term: undefined });
+        children.push(new docx.Paragraph({
+          children: item.term
+            ? [new docx.TextRun({ text: `${item.term}: `, bold: true }), new docx.TextRun({ text: rest })]
+            : [new docx.TextRun({ text: rest })],
+          bullet: { level: 0 },
+          spacing: { after: 100 },
+        }));
+      });
+    }
+
+    const doc = new docx.Document({
+      sections: [{
+        properties: {},
+        children: children,
+      }],
+    });
+    const blob = await docx.Packer.toBlob(doc);
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  private async buildPdf(summary: StructuredSummary, pdfFileName: string): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle(summary.title);
+    const contentWidth = PAGE_SIZE[0] - MARGIN * 2;
+    let page = pdfDoc.addPage(PAGE_SIZE);
+    let y = PAGE_SIZE[1] - MARGIN;
+
+    const write = async (text: string, size: number, options: { style?: FontStyle; gray?: number; indent?: number; bullet?: boolean } = {}) => {
+      const indent = options.indent || 0;
+      const color = rgb(options.gray ?? 0.1, options.gray ?? 0.1, options.gray ?? 0.1);
+      const lines = await fontService.wrapText(pdfDoc, text, 'Helvetica', size, contentWidth - indent, options.style);
+      for (const [i, runs] of lines.entries()) {
+        if (y - size < MARGIN) {
+          page = pdfDoc.addPage(PAGE_SIZE);
+          y = PAGE_SIZE[1] - MARGIN;
+        }
+        y -= size;
+        if (options.bullet && i === 0) page.drawCircle({ x: MARGIN + indent - 8, y: y + size * 0.33, size: 1.6, color });
+        fontService.drawRuns(page, runs, { x: MARGIN + indent, y, size, color });
+        y -= size * 0.4;
+      }
+    };
+
+    await write(summary.title, 20, { style: { bold: true } });
+    y -= 2;
+    await write(`${SUMMARY_PROFILES[summary.profile].label} of ${pdfFileName}`, 10, { gray: 0.45 });
+    y -= 12;
+
+    for (const section of summary.sections) {
+      if (section.heading) {
+        // Keep a heading together with the start of its section
+        if (y - 50 < MARGIN) {
+          page = pdfDoc.addPage(PAGE_SIZE);
+          y = PAGE_SIZE[1] - MARGIN;
+        }
+        y -= 6;
+        await write(section.heading, 14, { style: { bold: true } });
+        y -= 2;
+      }
+      for (const paragraph of section.paragraphs) {
+        await write(paragraph, 11);
+        y -= 6;
+      }
+      for (const item of section.items) {
+        await write(formatSummaryItem(item), 11, { indent: 14, bullet: true });
+        y -= 3;
+      }
+      y -= 8;
+    }
+
+    return pdfDoc.save();
+  }
+}
+
+export const summaryService = new SummaryService();
@@ -0,0 +1,460 @@
+import * as fontkit from '@pdf-lib/fontkit';
+import {
+  PDFDocument, PDFArray, PDFDict, PDFFont, PDFHexString, PDFName, PDFNumber, PDFPage, PDFStream, PDFString,
+  StandardFontEmbedder, StandardFonts, rgb,
+} from 'pdf-lib';
+import { AppFile, ProcessedFile } from '../types';
+import { arrayBufferToDataURL } from '../utils/fileUtils';
+import {
+  ContentOperand, ContentOperation, IDENTITY, Matrix, decodeStream, multiply, parseContentStream, readPageContent,
+  serializeContentStream, transformPoint,
+} from '../utils/contentStream';
+import { Box, FontEncoding, FontMetrics, baseFontName, canvasRectToUserBox, readFontEncoding, readFontMetrics } from '../utils/pdfText';
+import { FormWidgetRect } from './pdfEditorService';
+import { compressionService } from './compressionService';
+
+export interface TextEdit {
+  pageIndex: number;
+  rect: FormWidgetRect; // Box of the text item that was clicked, as returned by extractTextData
+  originalText: string;
+  newText: string;
+}
+
+/**
+ * - inPlace: the string was replaced using the run's own font
+ * - substituteFont: the font lacked glyphs, so the closest other font was switched in for the run
+ * - whiteout: the run could not be rewritten and was covered with a new text overlay
+ */
+export type TextEditMethod = 'inPlace' | 'substituteFont' | 'whiteout';
+
+export interface TextEditResult {
+  file: ProcessedFile;
+  methods: TextEditMethod[]; // One per edit, in input order
+  unsupported: string[][]; // One per edit: characters the whiteout font cannot draw, left out of the saved text
+}
+
+interface FontInfo {
+  metrics: FontMetrics;
+  encoding?: FontEncoding; // Missing for Type 3 fonts and fonts whose codes cannot be read
+  hasGlyph: (code: number, char: string) => boolean; // Whether the embedded program draws the code
+  family: string;
+  bold: boolean;
+  italic: boolean;
+  serif: boolean;
+  fixedPitch: boolean;
+}
+
+interface TextState {
+  ctm: Matrix;
+  fontName?: string;
+  font?: FontInfo;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+// One text-showing operation: where it starts, what it reads and how far it moves the pen
+interface ShownRun {
+  opIndex: number;
+  origin: [number, number]; // Default user space
+  text: string;
+  readable: boolean;
+  advance: number; // In TJ units, i.e. thousandths of text space at the run's font size
+  state: TextState;
+}
+
+// How new text is written in a particular font
+interface TextWriter {
+  resourceName: string;
+  encode: (char: string) => { bytes: number[]; width: number } | undefined; // Width at a font size of 1
+}
+
+// Pen movement of a missing space, in TJ units (a quarter em)
+const SPACE_ADJUSTMENT = 250;
+const POSITION_TOLERANCE = 1;
+
+const normalize = (text: string) => text.replace(/\s+/g, '');
+
+const WIN_ANSI = StandardFontEmbedder.for('Helvetica' as Parameters<typeof StandardFontEmbedder.for>[0]).encoding;
+
+/**
+ * Checks codes against what the embedded font program really contains: subsets from pdfTeX
+ * or Word often keep /Widths for glyphs they left out. Uses the descriptor's CIDSet or
+ * CharSet when present, else the TrueType/OpenType program itself. Fonts that are not
+ * embedded or cannot be read are trusted, as before.
+ */
+const readGlyphCoverage = (dict: PDFDict, descriptor: PDFDict | undefined): FontInfo['hasGlyph'] => {
+  if (!descriptor) return () => true;
+  const encodingName = dict.lookupMaybe(PDFName.of('Encoding'), PDFName)?.decodeText();
+  const identity = encodingName === 'Identity-H' || encodingName === 'Identity-V';
+
+  // One bit per CID, most significant first; with an Identity encoding the code is the CID
+  const cidSet = identity ? decodeStream(descriptor.lookupMaybe(PDFName.of('CIDSet'), PDFStream)) : undefined;
+  if (cidSet) return code => !!(cidSet[code >> 3] & (0x80 >> (code & 7)));
+
+  const charSet = descriptor.lookupMaybe(PDFName.of('CharSet'), PDFString, PDFHexString)?.decodeText();
+  if (charSet) {
+    const names = new Set(charSet.split('/').map(name => name.trim()).filter(Boolean));
+    return (_code, char) => {
+      const codePoint = char.codePointAt(0) || 0;
+      return WIN_ANSI.canEncodeUnicodeCodePoint(codePoint) && names.has(WIN_ANSI.encodeUnicodeCodePoint(codePoint).name);
+    };
+  }
+
+  const program = descriptor.lookupMaybe(PDFName.of('FontFile2'), PDFStream) || descriptor.lookupMaybe(PDFName.of('FontFile3'), PDFStream);
+  if (!program) return () => true;
+  let face: fontkit.Font | null | undefined;
+  return (code, char) => {
+    if (face === undefined) {
+      try {
+        const bytes = decodeStream(program);
+        face = bytes ? fontkit.create(bytes) : null;
+      } catch {
+        face = null; // Bare CFF programs are not something fontkit opens on their own
+      }
+    }
+    if (!face) return true;
+    // Identity-encoded TrueType CID fonts address glyphs directly; subsets leave the unused ones empty
+    const cidToGid = dict.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict)?.get(PDFName.of('CIDToGIDMap'));
+    if (identity && (!cidToGid || cidToGid === PDFName.of('Identity'))) {
+      return code < face.numGlyphs && face.getGlyph(code).path.cbox.width > 0;
+    }
+    // Symbolic TrueType subsets map their codes into the private-use area instead of Unicode
+    return face.hasGlyphForCodePoint(char.codePointAt(0) || 0) || face.hasGlyphForCodePoint(0xf000 + code);
+  };
+};
+
+const describeFont = (dict: PDFDict, metrics: FontMetrics): FontInfo => {
+  const name = baseFontName(dict);
+  // Composite fonts keep their descriptor on the descendant font
+  const descriptor = dict.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)
+    || dict.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict)?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  const flags = descriptor?.lookupMaybe(PDFName.of('Flags'), PDFNumber)?.asNumber() || 0;
+  const weight = descriptor?.lookupMaybe(PDFName.of('FontWeight'), PDFNumber)?.asNumber() || 0;
+  const italicAngle = descriptor?.lookupMaybe(PDFName.of('ItalicAngle'), PDFNumber)?.asNumber() || 0;
+  return {
+    metrics,
+    encoding: readFontEncoding(dict),
+    hasGlyph: readGlyphCoverage(dict, descriptor),
+    family: name.split(/[-,]/)[0].replace(/(MT|PS)$/, '').toLowerCase(),
+    bold: /bold|black|heavy|semibold|demi/i.test(name) || weight >= 600 || !!(flags & (1 << 18)),
+    italic: /italic|oblique/i.test(name) || italicAngle !== 0 || !!(flags & (1 << 6)),
+    serif: (!!(flags & 2) || /times|serif|georgia|garamond|cambria/i.test(name)) && !/sans/i.test(name),
+    fixedPitch: !!(flags & 1) || /courier|mono|consol/i.test(name),
+  };
+};
+
+const closestStandardFont = (style: FontInfo): StandardFonts => {
+  if (style.fixedPitch) {
+    if (style.bold && style.italic) return StandardFonts.CourierBoldOblique;
+    if (style.bold) return StandardFonts.CourierBold;
+    return style.italic ? StandardFonts.CourierOblique : StandardFonts.Courier;
+  }
+  if (style.serif) {
+    if (style.bold && style.italic) return StandardFonts.TimesRomanBoldItalic;
+    if (style.bold) return StandardFonts.TimesRomanBold;
+    return style.italic ? StandardFonts.TimesRomanItalic : StandardFonts.TimesRoman;
+  }
+  if (style.bold && style.italic) return StandardFonts.HelveticaBoldOblique;
+  if (style.bold) return StandardFonts.HelveticaBold;
+  return style.italic ? StandardFonts.HelveticaOblique : StandardFonts.Helvetica;
+};
+
+const styleDistance = (a: FontInfo, b: FontInfo) =>
+  (a.family === b.family ? 0 : 4) + (a.bold === b.bold ? 0 : 1) + (a.italic === b.italic ? 0 : 1) +
+  (a.serif === b.serif ? 0 : 2) + (a.fixedPitch === b.fixedPitch ? 0 : 2);
+
+const pageFontWriter = (resourceName: string, font: FontInfo): TextWriter | undefined => {
+  const encoding = font.encoding;
+  if (!encoding) return undefined;
+  return {
+    resourceName,
+    encode: char => {
+      const code = encoding.fromUnicode.get(char);
+      if (code === undefined) return undefined;
+      // Subset fonts usually list zero widths for glyphs they do not carry, but not always
+      const width = font.metrics.widthOf(code);
+      if (char !== ' ' && (width <= 0 || !font.hasGlyph(code, char))) return undefined;
+      return { bytes: font.metrics.twoByte ? [code >> 8, code & 0xff] : [code], width };
+    },
+  };
+};
+
+const standardFontWriter = (resourceName: string, font: PDFFont): TextWriter => {
+  const supported = new Set(font.getCharacterSet());
+  return {
+    resourceName,
+    encode: char => supported.has(char.codePointAt(0) || 0)
+      ? { bytes: Array.from(font.encodeText(char).asBytes()), width: font.widthOfTextAtSize(char, 1) }
+      : undefined,
+  };
+};
+
+// Spaces may be missing from subset fonts; they are replaced by a pen movement instead
+const canWrite = (writer: TextWriter, text: string) => Array.from(text).every(ch => ch === ' ' || !!writer.encode(ch));
+
+class TextEditService {
+
+  /**
+   * Rewrites the text-showing operators behind each edited text item so the new string
+   * keeps the original font, colour and position, and stays searchable. Text after the
+   * edited run keeps its place. Type 3 fonts, fonts whose codes cannot be mapped to
+   * Unicode and text that cannot be located fall back to a white box with new text on top.
+   */
+  public async applyTextEdits(file: AppFile, edits: TextEdit[]): Promise<TextEditResult> {
+    if (!file.arrayBuffer) throw new Error('File buffer missing');
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer.slice(0), { updateMetadata: false });
+    const context = pdfDoc.context;
+    const methods: TextEditMethod[] = edits.map(() => 'whiteout');
+    const unsupported: string[][] = edits.map(() => []);
+    const fallbacks: { page: PDFPage; edit: TextEdit; i: number; style?: FontInfo }[] = [];
+
+    for (const [pageIndex, page] of pdfDoc.getPages().entries()) {
+      const pageEdits = edits.map((edit, i) => ({ edit, i })).filter(e => e.edit.pageIndex === pageIndex);
+      if (pageEdits.length === 0) continue;
+
+      const fontDicts = page.node.Resources()?.lookupMaybe(PDFName.of('Font'), PDFDict);
+      const fontInfos = new Map<string, FontInfo>();
+      const fontInfo = (name: string) => {
+        if (!fontInfos.has(name)) {
+          const dict = fontDicts?.lookupMaybe(PDFName.of(name), PDFDict);
+          if (dict) fontInfos.set(name, describeFont(dict, readFontMetrics(dict)));
+        }
+        return fontInfos.get(name);
+      };
+
+      const operations = parseContentStream(readPageContent(context, page.node));
+      const runs = this.collectRuns(operations, fontInfo);
+      const replacements = new Map<number, ContentOperation[]>();
+      const standardWriters = new Map<StandardFonts, TextWriter>();
+
+      for (const { edit, i } of pageEdits) {
+        const matched = this.locateRuns(runs, canvasRectToUserBox(page, edit.rect), edit.originalText, replacements);
+        const first = matched?.[0];
+        const style = first?.state.font;
+        if (!matched || !first || !style || !first.state.fontName || first.state.fontSize === 0 || matched.some(r => !r.readable)) {
+          fallbacks.push({ page, edit, i, style });
+          continue;
+        }
+
+        // Same font first, then another font on the page that has the glyphs, then a standard font
+        let writer = pageFontWriter(first.state.fontName, style);
+        let method: TextEditMethod = 'inPlace';
+        if (!writer || !canWrite(writer, edit.newText)) {
+          method = 'substituteFont';
+          writer = Array.from(fontDicts?.keys() || [])
+            .map(key => key.decodeText())
+            .filter(name => name !== first.state.fontName)
+            .map(name => ({ name, info: fontInfo(name) }))
+            .filter((c): c is { name: string; info: FontInfo } => !!c.info)
+            .sort((a, b) => styleDistance(a.info, style) - styleDistance(b.info, style))
+            .map(c => pageFontWriter(c.name, c.info))
+            .find((w): w is TextWriter => !!w && canWrite(w, edit.newText));
+        }
+        if (!writer) {
+          const standard = closestStandardFont(style);
+          if (!standardWriters.has(standard)) {
+            const font = await pdfDoc.embedFont(standard);
+            standardWriters.set(standard, standardFontWriter(page.node.newFontDictionary(font.name, font.ref).decodeText(), font));
+          }
+          writer = standardWriters.get(standard)!;
+          if (!canWrite(writer, edit.newText)) {
+            fallbacks.push({ page, edit, i, style });
+            continue;
+          }
+        }
+
+        matched.forEach((run, n) => {
+          replacements.set(run.opIndex, n === 0
+            ? this.rewriteRun(operations[run.opIndex], run, writer!, edit.newText)
+            : this.rewriteRun(operations[run.opIndex], run));
+        });
+        methods[i] = method;
+      }
+
+      if (replacements.size === 0) continue;
+      const rewritten = operations.flatMap((op, index) => replacements.get(index) || [op]);
+      const content = serializeContentStream([{ operator: 'q', operands: [] }, ...rewritten, { operator: 'Q', operands: [] }]);
+      // An array, since registering a font above may already have normalized the page for drawing
+      page.node.set(PDFName.of('Contents'), context.obj([context.register(context.flateStream(content))]));
+    }
+
+    for (const { page, edit, i, style } of fallbacks) {
+      const font = await pdfDoc.embedFont(style ? closestStandardFont(style) : StandardFonts.Helvetica);
+      const supported = new Set(font.getCharacterSet());
+      const chars = Array.from(edit.newText);
+      const text = chars.filter(ch => supported.has(ch.codePointAt(0) || 0)).join('');
+      unsupported[i] = Array.from(new Set(chars.filter(ch => ch.trim() && !supported.has(ch.codePointAt(0) || 0))));
+      const box = canvasRectToUserBox(page, edit.rect);
+      const size = edit.rect.height / 1.2;
+      page.drawRectangle({ x: box.x0, y: box.y0, width: box.x1 - box.x0, height: box.y1 - box.y0, color: rgb(1, 1, 1) });
+      if (text) page.drawText(text, { x: box.x0, y: box.y0 + size * 0.2, size, font, color: rgb(0, 0, 0) });
+    }
+
+    // The replaced content streams still hold the old text
+    compressionService.removeUnreachableObjects(pdfDoc);
+    const pdfBytes = await pdfDoc.save();
+    return {
+      file: { id: crypto.randomUUID(), name: file.name, mimeType: 'application/pdf', dataUrl: arrayBufferToDataURL(pdfBytes.buffer as ArrayBuffer, 'application/pdf'), size: pdfBytes.byteLength },
+      methods,
+      unsupported,
+    };
+  }
+
+  /** Walks the page content and records every text-showing operation with its decoded text. */
+  private collectRuns(operations: ContentOperation[], fontInfo: (name: string) => FontInfo | undefined): ShownRun[] {
+    const runs: ShownRun[] = [];
+    const stack: TextState[] = [];
+    let state: TextState = { ctm: IDENTITY, fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0, rise: 0 };
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+
+    const moveLine = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+
+    operations.forEach((op, opIndex) => {
+      const nums = op.operands.map(o => (o.type === 'number' ? o.value : 0));
+      const last = nums[nums.length - 1] ?? 0;
+
+      switch (op.operator) {
+        case 'q': stack.push({ ...state }); break;
+        case 'Q': state = stack.pop() || state; break;
+        case 'cm':
+          if (nums.length >= 6) state.ctm = multiply(nums.slice(-6) as Matrix, state.ctm);
+          break;
+        case 'BT': tm = tlm = IDENTITY; break;
+        case 'Tf': {
+          const name = op.operands[0]?.type === 'name' ? op.operands[0].value : undefined;
+          state.fontName = name;
+          state.font = name ? fontInfo(name) : undefined;
+          state.fontSize = last;
+          break;
+        }
+        case 'Tc': state.charSpacing = last; break;
+        case 'Tw': state.wordSpacing = last; break;
+        case 'Tz': state.horizontalScale = last / 100; break;
+        case 'TL': state.leading = last; break;
+        case 'Ts': state.rise = last; break;
+        case 'Td': moveLine(nums[0] ?? 0, nums[1] ?? 0); break;
+        case 'TD':
+          state.leading = -(nums[1] ?? 0);
+          moveLine(nums[0] ?? 0, nums[1] ?? 0);
+          break;
+        case 'Tm':
+          if (nums.length >= 6) tm = tlm = nums.slice(-6) as Matrix;
+          break;
+        case 'T*': moveLine(0, -state.leading); break;
+        case 'Tj': case 'TJ': case "'": case '"': {
+          if (op.operator === '"') {
+            state.wordSpacing = nums[0] ?? 0;
+            state.charSpacing = nums[1] ?? 0;
+          }
+          if (op.operator === "'" || op.operator === '"') moveLine(0, -state.leading);
+
+          const { font, fontSize: size, horizontalScale: scale } = state;
+          const origin = transformPoint(multiply(multiply([size * scale, 0, 0, size, 0, state.rise], tm), state.ctm), 0, 0);
+          const step = font?.metrics.twoByte ? 2 : 1;
+          const shown = op.operands[op.operands.length - 1];
+          const items = shown?.type === 'array' ? shown.items : shown ? [shown] : [];
+          let text = '';
+          let readable = !!font?.encoding;
+          let advance = 0;
+
+          for (const item of items) {
+            if (item.type === 'number') {
+              advance -= item.value;
+              continue;
+            }
+            if (item.type !== 'string') continue;
+            for (let k = 0; k + step <= item.bytes.length; k += step) {
+              const code = step === 2 ? (item.bytes[k] << 8) | item.bytes[k + 1] : item.bytes[k];
+              const decoded = font?.encoding?.toUnicode.get(code);
+              if (decoded === undefined) readable = false;
+              text += decoded ?? '�';
+              const width = font ? font.metrics.widthOf(code) : 0.5;
+              const glyphAdvance = width * size + state.charSpacing + (step === 1 && code === 32 ? state.wordSpacing : 0);
+              if (size !== 0) advance += (glyphAdvance * 1000) / size;
+            }
+          }
+
+          runs.push({ opIndex, origin, text, readable, advance, state: { ...state } });
+          tm = multiply([1, 0, 0, 1, (advance / 1000) * size * scale, 0], tm);
+          break;
+        }
+      }
+    });
+    return runs;
+  }
+
+  /**
+   * Finds the consecutive runs starting inside the item's box whose text adds up to the
+   * original string. pdf.js joins runs and inserts spaces, so whitespace is ignored.
+   */
+  private locateRuns(runs: ShownRun[], box: Box, originalText: string, taken: Map<number, ContentOperation[]>): ShownRun[] | undefined {
+    const target = normalize(originalText);
+    if (!target) return undefined;
+    const inside = runs.filter(run =>
+      !taken.has(run.opIndex) &&
+      run.origin[0] >= box.x0 - POSITION_TOLERANCE && run.origin[0] <= box.x1 + POSITION_TOLERANCE &&
+      run.origin[1] >= box.y0 - POSITION_TOLERANCE && run.origin[1] <= box.y1 + POSITION_TOLERANCE);
+
+    for (let start = 0; start < inside.length; start++) {
+      let text = '';
+      for (let end = start; end < inside.length; end++) {
+        text += normalize(inside[end].text);
+        if (text === target) return inside.slice(start, end + 1);
+        if (!target.startsWith(text)) break;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Replaces a run with new text, or with nothing when no text is given. A trailing TJ
+   * offset makes the pen end where the original run ended, so following text stays put.
+   */
+  private rewriteRun(op: ContentOperation, run: ShownRun, writer?: TextWriter, newText = ''): ContentOperation[] {
+    const { fontName, fontSize: size } = run.state;
+    const out: ContentOperation[] = [];
+    // Keep the line move and spacing changes that ' and " carry
+    if (op.operator === '"') out.push({ operator: 'Tw', operands: [op.operands[0]] }, { operator: 'Tc', operands: [op.operands[1]] });
+    if (op.operator === "'" || op.operator === '"') out.push({ operator: 'T*', operands: [] });
+
+    const items: ContentOperand[] = [];
+    let bytes: number[] = [];
+    let advance = 0;
+    const flush = () => {
+      if (bytes.length > 0) items.push({ type: 'string', bytes: Uint8Array.from(bytes) });
+      bytes = [];
+    };
+
+    for (const char of writer ? Array.from(newText) : []) {
+      const glyph = writer!.encode(char);
+      if (!glyph) { // Only spaces get here, see canWrite
+        flush();
+        items.push({ type: 'number', value: -SPACE_ADJUSTMENT });
+        advance += SPACE_ADJUSTMENT;
+        continue;
+      }
+      bytes.push(...glyph.bytes);
+      const glyphAdvance = glyph.width * size + run.state.charSpacing + (char === ' ' && glyph.bytes.length === 1 ? run.state.wordSpacing : 0);
+      advance += (glyphAdvance * 1000) / size;
+    }
+    flush();
+    const remaining = run.advance - advance;
+    if (Math.abs(remaining) > 1e-6) items.push({ type: 'number', value: -remaining });
+
+    const switchFont = writer && writer.resourceName !== fontName && fontName;
+    if (switchFont) out.push({ operator: 'Tf', operands: [{ type: 'name', value: writer!.resourceName }, { type: 'number', value: size }] });
+    out.push({ operator: 'TJ', operands: [{ type: 'array', items }] });
+    if (switchFont) out.push({ operator: 'Tf', operands: [{ type: 'name', value: fontName! }, { type: 'number', value: size }] });
+    return out;
+  }
+}
+
+export const textEditService = new TextEditService();
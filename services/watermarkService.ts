@@ -1,6 +1,7 @@
-import { PDFDocument, rgb, degrees, StandardFonts } from 'pdf-lib';
+import { PDFDocument, rgb, degrees } from 'pdf-lib';
 import { AppFile, ProcessedFile } from '../types';
 import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { fontService } from './fontService';
 
 export interface TextWatermarkSettings {
   text: string;
@@ -10,6 +11,7 @@ export interface TextWatermarkSettings {
   color: string;
   isTiled: boolean;
   position: { x: number; y: number }; // Percentage (0-100)
+  fontFamily?: string; // Any family from the font registry; defaults to Helvetica
 }
 
 export interface ImageWatermarkSettings {
@@ -33,8 +35,9 @@ class WatermarkService {
   public async addTextWatermark(file: AppFile, settings: TextWatermarkSettings): Promise<ProcessedFile> {
     if (!file.arrayBuffer) throw new Error("File buffer missing");
 
-    const pdfDoc = await PDFDocument.load(file.arrayBuffer);
-    const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer, { updateMetadata: false });
+    // Bold is only applied where the family has a bold face
+    const runs = await fontService.layoutText(pdfDoc, settings.text, settings.fontFamily || 'Helvetica', { bold: true });
     const pages = pdfDoc.getPages();
 
     const color = this.hexToRgb(settings.color);
@@ -42,7 +45,7 @@ class WatermarkService {
 
     for (const page of pages) {
       const { width, height } = page.getSize();
-      const textWidth = font.widthOfTextAtSize(settings.text, settings.fontSize);
+      const textWidth = fontService.widthOfRuns(runs, settings.fontSize);
       const textHeight = settings.fontSize;
       
       if (settings.isTiled) {
@@ -52,11 +55,10 @@ class WatermarkService {
         // Loop heavily to cover page including rotation spillover
         for (let x = -width; x < width * 2; x += textWidth + gap) {
           for (let y = -height; y < height * 2; y += gap) {
-             page.drawText(settings.text, {
+             fontService.drawRuns(page, runs, {
                 x: x,
                 y: y,
                 size: settings.fontSize,
-                font: font,
                 color: color,
                 opacity: opacity,
                 rotate: degrees(settings.rotation), 
@@ -69,11 +71,10 @@ class WatermarkService {
         const x = (settings.position.x / 100) * width - (textWidth / 2); 
         const y = height - ((settings.position.y / 100) * height) - (textHeight / 2); 
 
-        page.drawText(settings.text, {
+        fontService.drawRuns(page, runs, {
           x: x,
           y: y,
           size: settings.fontSize,
-          font: font,
           color: color,
           opacity: opacity,
           rotate: degrees(settings.rotation),
@@ -98,7 +99,7 @@ class WatermarkService {
     if (!file.arrayBuffer) throw new Error("File buffer missing");
     if (!settings.imageFile) throw new Error("No watermark image provided");
 
-    const pdfDoc = await PDFDocument.load(file.arrayBuffer);
+    const pdfDoc = await PDFDocument.load(file.arrayBuffer, { updateMetadata: false });
     const pages = pdfDoc.getPages();
 
     // Load Image
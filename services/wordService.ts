@@ -1,6 +1,7 @@
-import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { PDFDocument, rgb } from 'pdf-lib';
 import { AppFile, ProcessedFile } from '../types';
 import { arrayBufferToDataURL } from '../utils/fileUtils';
+import { fontService } from './fontService';
 
 // Helper function to create a ProcessedFile object
 const createProcessedFile = async (
@@ -48,10 +49,11 @@ export class WordService {
    * Generates a PDF from text content.
    * This uses pdf-lib to manually write text to pages.
    * Note: This is a basic implementation that handles line wrapping but not advanced styling.
+   * Characters missing from the chosen family are drawn with fallback fonts from the font registry.
    */
-  public async createPdfFromText(text: string): Promise<ProcessedFile> {
+  public async createPdfFromText(text: string, fontFamily: string = 'Helvetica'): Promise<ProcessedFile> {
     const pdfDoc = await PDFDocument.create();
-    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const layout = (line: string) => fontService.layoutText(pdfDoc, line, fontFamily);
     const fontSize = 12;
     const lineHeight = fontSize * 1.2;
     const margin = 50;
@@ -80,18 +82,17 @@ export class WordService {
 
       for (const word of words) {
         const testLine = currentLine ? `${currentLine} ${word}` : word;
-        const textWidth = font.widthOfTextAtSize(testLine, fontSize);
+        const textWidth = fontService.widthOfRuns(await layout(testLine), fontSize);
         const availableWidth = width - margin * 2;
 
         if (textWidth < availableWidth) {
           currentLine = testLine;
         } else {
           // Write the current line and start a new one
-          page.drawText(currentLine, {
+          fontService.drawRuns(page, await layout(currentLine), {
             x: margin,
             y: y,
             size: fontSize,
-            font: font,
             color: rgb(0, 0, 0),
           });
           y -= lineHeight;
@@ -107,11 +108,10 @@ export class WordService {
 
       // Draw remaining text in the paragraph
       if (currentLine) {
-        page.drawText(currentLine, {
+        fontService.drawRuns(page, await layout(currentLine), {
           x: margin,
           y: y,
           size: fontSize,
-          font: font,
           color: rgb(0, 0, 0),
         });
         y -= lineHeight;
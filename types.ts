@@ -3,6 +3,7 @@ export enum ToolType {
   PDF_TO_IMAGE = 'PDF_TO_IMAGE',
   PDF_COMPRESS = 'PDF_COMPRESS',
   PDF_SPLIT = 'PDF_SPLIT',
+  PDF_ORGANIZE = 'PDF_ORGANIZE',
   PDF_RESIZE = 'PDF_RESIZE', // New
   WORD_TO_PDF = 'WORD_TO_PDF',
   PDF_TO_WORD = 'PDF_TO_WORD',
@@ -22,6 +23,17 @@ export enum ToolType {
   ADD_WATERMARK = 'ADD_WATERMARK',
   REPAIR_PDF = 'REPAIR_PDF',
   UNLOCK_PDF = 'UNLOCK_PDF', 
+  PROTECT_PDF = 'PROTECT_PDF',
+  VERIFY_PDF = 'VERIFY_PDF',
+  COMMENT_SUMMARY = 'COMMENT_SUMMARY',
+  BOOKMARK_EDITOR = 'BOOKMARK_EDITOR',
+  EDIT_METADATA = 'EDIT_METADATA',
+  PAGE_NUMBERS = 'PAGE_NUMBERS',
+  PDF_TO_PDFA = 'PDF_TO_PDFA',
+  COMPARE_PDF = 'COMPARE_PDF',
+  CHAT_PDF = 'CHAT_PDF',
+  INVOICE_EXTRACTOR = 'INVOICE_EXTRACTOR',
+  TEMPLATE_EXTRACTOR = 'TEMPLATE_EXTRACTOR',
   BATCH_PROCESSING = 'BATCH_PROCESSING', 
   HTML_TO_PDF = 'HTML_TO_PDF', 
   QR_CODE_GENERATOR = 'QR_CODE_GENERATOR', 
@@ -0,0 +1,243 @@
+import { PDFArray, PDFContext, PDFObject, PDFPageLeaf, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export const multiply = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[1] * m2[2],
+  m1[0] * m2[1] + m1[1] * m2[3],
+  m1[2] * m2[0] + m1[3] * m2[2],
+  m1[2] * m2[1] + m1[3] * m2[3],
+  m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+  m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+];
+
+export const transformPoint = (m: Matrix, x: number, y: number): [number, number] => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5],
+];
+
+export const isWhitespace = (c: number) => c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09 || c === 0x0c || c === 0x00;
+export const isDelimiter = (c: number) => c === 0x28 || c === 0x29 || c === 0x3c || c === 0x3e || c === 0x5b || c === 0x5d || c === 0x7b || c === 0x7d || c === 0x2f || c === 0x25;
+
+export type ContentOperand =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string } // Raw token without the slash; #xx escapes are left as written
+  | { type: 'string'; bytes: Uint8Array }
+  | { type: 'array'; items: ContentOperand[] }
+  | { type: 'raw'; value: string }; // Dictionaries, booleans and null are kept verbatim
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+  inlineImage?: Uint8Array; // BI ... ID <data> EI, byte for byte
+}
+
+const toLatin1 = (bytes: Uint8Array) => String.fromCharCode.apply(null, bytes as unknown as number[]);
+
+const ESCAPES: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+
+/**
+ * Parses a decoded content stream into operations, keeping every operand so the stream
+ * can be edited and written back. Unlike a plain scan, strings and arrays are preserved.
+ */
+export const parseContentStream = (bytes: Uint8Array): ContentOperation[] => {
+  const operations: ContentOperation[] = [];
+  const len = bytes.length;
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < len) {
+      if (isWhitespace(bytes[i])) i++;
+      else if (bytes[i] === 0x25) { // % comment
+        while (i < len && bytes[i] !== 0x0a && bytes[i] !== 0x0d) i++;
+      } else break;
+    }
+  };
+
+  const readLiteralString = (): Uint8Array => {
+    const out: number[] = [];
+    let depth = 1;
+    i++;
+    while (i < len) {
+      const c = bytes[i++];
+      if (c === 0x5c) {
+        const next = bytes[i++];
+        if (next in ESCAPES) out.push(ESCAPES[next]);
+        else if (next === 0x0d || next === 0x0a) { // Line continuation
+          if (next === 0x0d && bytes[i] === 0x0a) i++;
+        }
+        else if (next >= 0x30 && next <= 0x37) {
+          let code = next - 0x30;
+          for (let n = 0; n < 2 && bytes[i] >= 0x30 && bytes[i] <= 0x37; n++) code = code * 8 + (bytes[i++] - 0x30);
+          out.push(code & 0xff);
+        } else out.push(next);
+      } else if (c === 0x28) {
+        depth++;
+        out.push(c);
+      } else if (c === 0x29) {
+        if (--depth === 0) break;
+        out.push(c);
+      } else out.push(c);
+    }
+    return Uint8Array.from(out);
+  };
+
+  const readHexString = (): Uint8Array => {
+    i++;
+    let hex = '';
+    while (i < len && bytes[i] !== 0x3e) {
+      if (!isWhitespace(bytes[i])) hex += String.fromCharCode(bytes[i]);
+      i++;
+    }
+    i++;
+    if (hex.length % 2) hex += '0';
+    const out = new Uint8Array(hex.length / 2);
+    for (let n = 0; n < out.length; n++) out[n] = parseInt(hex.substr(n * 2, 2), 16) || 0;
+    return out;
+  };
+
+  const readDictionary = (): string => {
+    const start = i;
+    let depth = 0;
+    while (i < len) {
+      if (bytes[i] === 0x28) { readLiteralString(); continue; }
+      if (bytes[i] === 0x3c && bytes[i + 1] === 0x3c) { depth++; i += 2; continue; }
+      if (bytes[i] === 0x3e && bytes[i + 1] === 0x3e) {
+        i += 2;
+        if (--depth === 0) break;
+        continue;
+      }
+      i++;
+    }
+    return toLatin1(bytes.subarray(start, i));
+  };
+
+  const readToken = (): string => {
+    const start = i;
+    i++;
+    while (i < len && !isWhitespace(bytes[i]) && !isDelimiter(bytes[i])) i++;
+    return toLatin1(bytes.subarray(start, i));
+  };
+
+  // Returns an operand, or the operator keyword that ends the current operation
+  const readObject = (): ContentOperand | string | undefined => {
+    skipWhitespace();
+    if (i >= len) return undefined;
+    const c = bytes[i];
+    if (c === 0x28) return { type: 'string', bytes: readLiteralString() };
+    if (c === 0x3c) return bytes[i + 1] === 0x3c ? { type: 'raw', value: readDictionary() } : { type: 'string', bytes: readHexString() };
+    if (c === 0x5b) {
+      i++;
+      const items: ContentOperand[] = [];
+      for (;;) {
+        skipWhitespace();
+        if (i >= len) break;
+        if (bytes[i] === 0x5d) { i++; break; }
+        const item = readObject();
+        if (item === undefined) break;
+        if (typeof item !== 'string') items.push(item);
+      }
+      return { type: 'array', items };
+    }
+    if (c === 0x2f) {
+      const token = readToken();
+      return { type: 'name', value: token.slice(1) };
+    }
+    if (isDelimiter(c)) { // Stray ] > { } carry nothing we can use
+      i++;
+      return readObject();
+    }
+    const token = readToken();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) return { type: 'number', value: parseFloat(token) };
+    if (token === 'true' || token === 'false' || token === 'null') return { type: 'raw', value: token };
+    return token;
+  };
+
+  let operands: ContentOperand[] = [];
+  for (;;) {
+    skipWhitespace();
+    const start = i;
+    const obj = readObject();
+    if (obj === undefined) break;
+    if (typeof obj !== 'string') {
+      operands.push(obj);
+      continue;
+    }
+    if (obj === 'BI') {
+      // Inline image data runs until whitespace + "EI" + whitespace
+      while (i < len && !(bytes[i] === 0x49 && bytes[i + 1] === 0x44 && isWhitespace(bytes[i - 1]) && isWhitespace(bytes[i + 2]))) i++;
+      i += 3;
+      while (i < len && !(isWhitespace(bytes[i - 1]) && bytes[i] === 0x45 && bytes[i + 1] === 0x49 && (i + 2 >= len || isWhitespace(bytes[i + 2])))) i++;
+      i = Math.min(len, i + 2);
+      operations.push({ operator: 'BI', operands: [], inlineImage: bytes.slice(start, i) });
+    } else {
+      operations.push({ operator: obj, operands });
+    }
+    operands = [];
+  }
+  return operations;
+};
+
+const formatNumber = (value: number) => {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const serializeOperand = (operand: ContentOperand): string => {
+  switch (operand.type) {
+    case 'number': return formatNumber(operand.value);
+    case 'name': return `/${operand.value}`;
+    case 'string': return `<${Array.from(operand.bytes, b => b.toString(16).padStart(2, '0')).join('')}>`;
+    case 'array': return `[${operand.items.map(serializeOperand).join(' ')}]`;
+    case 'raw': return operand.value;
+  }
+};
+
+/** Writes operations back out as content stream bytes. Strings are written in hex form. */
+export const serializeContentStream = (operations: ContentOperation[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const push = (chunk: Uint8Array) => { chunks.push(chunk); total += chunk.length; };
+
+  for (const op of operations) {
+    if (op.inlineImage) push(op.inlineImage);
+    else push(Uint8Array.from([...op.operands.map(serializeOperand), op.operator].join(' '), c => c.charCodeAt(0)));
+    push(Uint8Array.of(0x0a));
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+export const decodeStream = (stream: PDFObject | undefined): Uint8Array | undefined => {
+  if (!(stream instanceof PDFRawStream)) return undefined;
+  try {
+    return decodePDFRawStream(stream).decode();
+  } catch (e) {
+    console.warn('Skipping undecodable content stream', e);
+    return undefined;
+  }
+};
+
+/** Decodes a page's content; content arrays are concatenated with whitespace between parts. */
+export const readPageContent = (context: PDFContext, pageNode: PDFPageLeaf): Uint8Array => {
+  const contents = pageNode.Contents();
+  const streams = contents instanceof PDFArray ? contents.asArray().map(r => context.lookup(r)) : [contents];
+  const chunks = streams.map(decodeStream).filter((c): c is Uint8Array => !!c);
+  const total = chunks.reduce((sum, c) => sum + c.length + 1, 0);
+  const merged = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    merged[offset + chunk.length] = 0x0a;
+    offset += chunk.length + 1;
+  }
+  return merged;
+};
@@ -0,0 +1,270 @@
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFPage, StandardFontEmbedder, StandardFonts } from 'pdf-lib';
+import { Matrix, decodeStream, transformPoint } from './contentStream';
+import { FormWidgetRect } from '../services/pdfEditorService';
+
+export interface Box {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface FontMetrics {
+  twoByte: boolean;
+  widthOf: (code: number) => number; // Advance in text space at a font size of 1
+  ascent: number;
+  descent: number;
+}
+
+export interface FontEncoding {
+  toUnicode: Map<number, string>; // Character code -> text it shows
+  fromUnicode: Map<string, number>; // Single character -> code, first mapping wins
+}
+
+export const transformBox = (m: Matrix, x0: number, y0: number, x1: number, y1: number): Box => {
+  const points = [transformPoint(m, x0, y0), transformPoint(m, x1, y0), transformPoint(m, x0, y1), transformPoint(m, x1, y1)];
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) };
+};
+
+export const intersects = (a: Box, b: Box) => a.x0 <= b.x1 && a.x1 >= b.x0 && a.y0 <= b.y1 && a.y1 >= b.y0;
+
+export const numberAt = (array: PDFArray, index: number) => {
+  const value = array.lookup(index);
+  return value instanceof PDFNumber ? value.asNumber() : 0;
+};
+
+export const numbersOf = (array: PDFArray | undefined): number[] | undefined =>
+  array ? array.asArray().map((_, i) => numberAt(array, i)) : undefined;
+
+/**
+ * Converts a point on the editor canvas (top-left origin over the rotated crop box, as pdf.js
+ * lays out the canvas) into the page's default user space.
+ */
+export const canvasPointToUser = (page: PDFPage, cx: number, cy: number): [number, number] => {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  if (rotation === 90) return [x + cy, y + cx];
+  if (rotation === 180) return [x + width - cx, y + cy];
+  if (rotation === 270) return [x + width - cy, y + height - cx];
+  return [x + cx, y + height - cy];
+};
+
+/** Inverse of `canvasPointToUser`. */
+export const userPointToCanvas = (page: PDFPage, ux: number, uy: number): [number, number] => {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  if (rotation === 90) return [uy - y, ux - x];
+  if (rotation === 180) return [x + width - ux, uy - y];
+  if (rotation === 270) return [y + height - uy, x + width - ux];
+  return [ux - x, y + height - uy];
+};
+
+/** Converts an editor rectangle into a box in the page's default user space. */
+export const canvasRectToUserBox = (page: PDFPage, rect: FormWidgetRect): Box => {
+  const [ax, ay] = canvasPointToUser(page, rect.left, rect.top);
+  const [bx, by] = canvasPointToUser(page, rect.left + rect.width, rect.top + rect.height);
+  return { x0: Math.min(ax, bx), y0: Math.min(ay, by), x1: Math.max(ax, bx), y1: Math.max(ay, by) };
+};
+
+/** Inverse of `canvasRectToUserBox`. */
+export const userBoxToCanvasRect = (page: PDFPage, box: Box): FormWidgetRect => {
+  const [ax, ay] = userPointToCanvas(page, box.x0, box.y0);
+  const [bx, by] = userPointToCanvas(page, box.x1, box.y1);
+  return { left: Math.min(ax, bx), top: Math.min(ay, by), width: Math.abs(bx - ax), height: Math.abs(by - ay) };
+};
+
+/** Formats a date as a PDF date string in UTC, e.g. D:20240131120000Z. */
+export const formatPdfDate = (date: Date): string =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+export const parsePdfDate = (value: string | undefined): Date | undefined => {
+  const match = value && /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+\-])?(\d{2})?'?(\d{2})?/.exec(value);
+  if (!match) return undefined;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  const offset = (+offsetHours * 60 + +offsetMinutes) * 60000;
+  return new Date(sign === '+' ? utc - offset : sign === '-' ? utc + offset : utc);
+};
+
+const STANDARD_FONT_NAMES = new Set<string>(Object.values(StandardFonts));
+const standardWidthCache = new Map<string, Map<number, number>>();
+
+/** Base font name without the six-letter subset tag, e.g. "ABCDEF+Arial-Bold" -> "Arial-Bold". */
+export const baseFontName = (font: PDFDict) =>
+  font.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText().replace(/^[A-Z]{6}\+/, '') || '';
+
+const standardEncoding = (fontName: string) =>
+  StandardFontEmbedder.for(fontName as Parameters<typeof StandardFontEmbedder.for>[0]).encoding;
+
+// The base 14 fonts may omit /Widths, so fall back to the AFM metrics pdf-lib ships with
+const standardFontWidths = (fontName: string): Map<number, number> | undefined => {
+  if (!STANDARD_FONT_NAMES.has(fontName)) return undefined;
+  let widths = standardWidthCache.get(fontName);
+  if (!widths) {
+    const embedder = StandardFontEmbedder.for(fontName as Parameters<typeof StandardFontEmbedder.for>[0]);
+    widths = new Map();
+    for (const codePoint of embedder.encoding.supportedCodePoints) {
+      const { code, name } = embedder.encoding.encodeUnicodeCodePoint(codePoint);
+      widths.set(code, embedder.font.getWidthOfGlyph(name) || 0);
+    }
+    standardWidthCache.set(fontName, widths);
+  }
+  return widths;
+};
+
+export const readFontMetrics = (font: PDFDict): FontMetrics => {
+  const subtype = font.get(PDFName.of('Subtype'));
+  const verticalMetrics = (descriptor: PDFDict | undefined) => {
+    const ascent = descriptor?.lookupMaybe(PDFName.of('Ascent'), PDFNumber)?.asNumber() || 0;
+    const descent = descriptor?.lookupMaybe(PDFName.of('Descent'), PDFNumber)?.asNumber() || 0;
+    return { ascent: ascent > 0 ? ascent / 1000 : 0.8, descent: descent < 0 ? descent / 1000 : -0.2 };
+  };
+
+  if (subtype === PDFName.of('Type0')) {
+    const descendant = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict);
+    const defaultWidth = descendant?.lookupMaybe(PDFName.of('DW'), PDFNumber)?.asNumber() ?? 1000;
+    // /W mixes "first [w1 w2 ...]" and "first last w" entries; keep them as ranges
+    const ranges: { first: number; last: number; widths: number[] }[] = [];
+    const w = descendant?.lookupMaybe(PDFName.of('W'), PDFArray);
+    for (let i = 0; w && i + 1 < w.size();) {
+      const first = numberAt(w, i);
+      const next = w.lookup(i + 1);
+      if (next instanceof PDFArray) {
+        const widths = numbersOf(next) || [];
+        ranges.push({ first, last: first + widths.length - 1, widths });
+        i += 2;
+      } else {
+        ranges.push({ first, last: numberAt(w, i + 1), widths: [numberAt(w, i + 2)] });
+        i += 3;
+      }
+    }
+    return {
+      twoByte: true,
+      widthOf: code => {
+        const range = ranges.find(r => code >= r.first && code <= r.last);
+        const width = range ? range.widths[range.widths.length === 1 ? 0 : code - range.first] : defaultWidth;
+        return width / 1000;
+      },
+      ...verticalMetrics(descendant?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)),
+    };
+  }
+
+  const firstChar = font.lookupMaybe(PDFName.of('FirstChar'), PDFNumber)?.asNumber() ?? 0;
+  const widths = numbersOf(font.lookupMaybe(PDFName.of('Widths'), PDFArray));
+  const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  const missingWidth = descriptor?.lookupMaybe(PDFName.of('MissingWidth'), PDFNumber)?.asNumber();
+  // Type 3 glyph widths are in glyph space, scaled by the font matrix rather than 1/1000
+  const fontMatrix = subtype === PDFName.of('Type3') ? numbersOf(font.lookupMaybe(PDFName.of('FontMatrix'), PDFArray)) : undefined;
+  const unit = fontMatrix ? fontMatrix[0] : 0.001;
+  const baseFont = baseFontName(font);
+  const standard = !widths && baseFont ? standardFontWidths(baseFont) : undefined;
+
+  return {
+    twoByte: false,
+    widthOf: code => {
+      const width = widths?.[code - firstChar] ?? standard?.get(code) ?? missingWidth ?? (fontMatrix ? 0 : 500);
+      return width * unit;
+    },
+    ...verticalMetrics(descriptor),
+  };
+};
+
+const utf16ToText = (hex: string) => {
+  if (hex.length <= 2) return String.fromCharCode(parseInt(hex || '0', 16));
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) units.push(parseInt(hex.substr(i, 4), 16));
+  return String.fromCharCode(...units);
+};
+
+/** Reads the bfchar and bfrange sections of a ToUnicode CMap. */
+const parseToUnicode = (cmap: string): Map<number, string> => {
+  const map = new Map<number, string>();
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) map.set(parseInt(m[1], 16), utf16ToText(m[2]));
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const low = parseInt(m[1], 16);
+      const high = parseInt(m[2], 16);
+      if (m[3].startsWith('[')) {
+        Array.from(m[3].matchAll(/<([0-9a-fA-F]*)>/g)).forEach((entry, i) => {
+          if (low + i <= high) map.set(low + i, utf16ToText(entry[1]));
+        });
+      } else {
+        // Consecutive codes map to consecutive values; only the last UTF-16 unit is incremented
+        const start = m[3].slice(1, -1);
+        const prefix = start.slice(0, -4);
+        const lastUnit = parseInt(start.slice(-4) || '0', 16);
+        for (let code = low; code <= high && code - low < 0x10000; code++) {
+          map.set(code, utf16ToText(prefix + (lastUnit + code - low).toString(16).padStart(4, '0')));
+        }
+      }
+    }
+  }
+  return map;
+};
+
+const glyphNameToText = (name: string, winAnsiNames: Map<string, string>) => {
+  const known = winAnsiNames.get(name);
+  if (known) return known;
+  const uni = /^uni([0-9A-Fa-f]{4})$/.exec(name) || /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  return uni ? String.fromCodePoint(parseInt(uni[1], 16)) : undefined;
+};
+
+/**
+ * Works out which text each character code of a font shows, from its ToUnicode CMap or,
+ * for simple fonts, from its /Encoding and /Differences. Returns undefined for Type 3 fonts
+ * and for composite fonts without a ToUnicode map, whose codes cannot be interpreted.
+ */
+export const readFontEncoding = (font: PDFDict): FontEncoding | undefined => {
+  const subtype = font.get(PDFName.of('Subtype'));
+  if (subtype === PDFName.of('Type3')) return undefined;
+
+  const toUnicode = new Map<number, string>();
+  const cmap = decodeStream(font.lookup(PDFName.of('ToUnicode')));
+  if (cmap) parseToUnicode(String.fromCharCode.apply(null, cmap as unknown as number[])).forEach((text, code) => toUnicode.set(code, text));
+
+  if (subtype !== PDFName.of('Type0')) {
+    // A symbolic font without /Encoding uses its own built-in encoding, which we cannot read
+    const flags = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)?.lookupMaybe(PDFName.of('Flags'), PDFNumber)?.asNumber() || 0;
+    if (toUnicode.size === 0 && (flags & 4) && !font.has(PDFName.of('Encoding'))) return undefined;
+    const baseName = baseFontName(font);
+    const builtIn = baseName === StandardFonts.Symbol || baseName === StandardFonts.ZapfDingbats ? standardEncoding(baseName) : standardEncoding(StandardFonts.Helvetica);
+    const winAnsiNames = new Map<string, string>();
+    const fromEncoding = new Map<number, string>();
+    for (const codePoint of builtIn.supportedCodePoints) {
+      const { code, name } = builtIn.encodeUnicodeCodePoint(codePoint);
+      winAnsiNames.set(name, String.fromCodePoint(codePoint));
+      if (!fromEncoding.has(code)) fromEncoding.set(code, String.fromCodePoint(codePoint));
+    }
+
+    const encoding = font.lookup(PDFName.of('Encoding'));
+    const baseEncoding = encoding instanceof PDFDict ? encoding.lookupMaybe(PDFName.of('BaseEncoding'), PDFName) : encoding instanceof PDFName ? encoding : undefined;
+    // Mac and Standard encodings only agree with WinAnsi on the ASCII range
+    if (baseEncoding && baseEncoding !== PDFName.of('WinAnsiEncoding')) {
+      fromEncoding.forEach((_, code) => { if (code > 126) fromEncoding.delete(code); });
+    }
+    const differences = encoding instanceof PDFDict ? encoding.lookupMaybe(PDFName.of('Differences'), PDFArray) : undefined;
+    let next = 0;
+    differences?.asArray().forEach((_, i) => {
+      const entry = differences.lookup(i);
+      if (entry instanceof PDFNumber) next = entry.asNumber();
+      else if (entry instanceof PDFName) {
+        const text = glyphNameToText(entry.decodeText(), winAnsiNames);
+        if (text) fromEncoding.set(next, text);
+        else fromEncoding.delete(next);
+        next++;
+      }
+    });
+    fromEncoding.forEach((text, code) => { if (!toUnicode.has(code)) toUnicode.set(code, text); });
+  }
+
+  if (toUnicode.size === 0) return undefined;
+  const fromUnicode = new Map<string, number>();
+  toUnicode.forEach((text, code) => {
+    if (Array.from(text).length === 1 && !fromUnicode.has(text)) fromUnicode.set(text, code);
+  });
+  return { toUnicode, fromUnicode };
+};